@@ -1,8 +1,8 @@
+import { formatDistanceToNow } from 'date-fns';
 import { useBiometricAuth } from '@/hooks/useBiometricAuth';
 import { Button } from '@/components/ui/button';
-import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
-import { Fingerprint, Loader2, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Fingerprint, Loader2, AlertTriangle, CheckCircle, Trash2 } from 'lucide-react';
 
 export function BiometricSettings() {
   const {
@@ -10,7 +10,9 @@ export function BiometricSettings() {
     isAvailable,
     isRegistered,
     isLoading,
+    credentials,
     register,
+    revoke,
   } = useBiometricAuth();
 
   if (!isSupported) {
@@ -37,33 +39,59 @@ export function BiometricSettings() {
   }
 
   return (
-    <div className="flex items-center justify-between">
-      <div className="flex items-center gap-3">
-        {isRegistered ? (
-          <CheckCircle className="h-5 w-5 text-green-500" />
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          {isRegistered ? (
+            <CheckCircle className="h-5 w-5 text-green-500" />
+          ) : (
+            <Fingerprint className="h-5 w-5 text-muted-foreground" />
+          )}
+          <div>
+            <Label className="text-base font-medium">
+              Biometric Unlock
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              {isRegistered
+                ? 'Use Face ID, Touch ID, or fingerprint to unlock'
+                : 'Quick access with biometric authentication'}
+            </p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin" />
         ) : (
-          <Fingerprint className="h-5 w-5 text-muted-foreground" />
+          <Button size="sm" variant={isRegistered ? 'outline' : 'default'} onClick={register}>
+            {isRegistered ? 'Add device' : 'Enable'}
+          </Button>
         )}
-        <div>
-          <Label className="text-base font-medium">
-            Biometric Unlock
-          </Label>
-          <p className="text-sm text-muted-foreground">
-            {isRegistered
-              ? 'Use Face ID, Touch ID, or fingerprint to unlock'
-              : 'Quick access with biometric authentication'}
-          </p>
-        </div>
       </div>
 
-      {isLoading ? (
-        <Loader2 className="h-5 w-5 animate-spin" />
-      ) : isRegistered ? (
-        <Switch checked disabled />
-      ) : (
-        <Button size="sm" onClick={register}>
-          Enable
-        </Button>
+      {credentials.length > 0 && (
+        <ul className="divide-y rounded-md border">
+          {credentials.map((credential) => (
+            <li key={credential.id} className="flex items-center justify-between px-3 py-2">
+              <div>
+                <p className="text-sm font-medium">{credential.name || 'Unnamed device'}</p>
+                <p className="text-xs text-muted-foreground">
+                  {credential.lastUsedAt
+                    ? `Last used ${formatDistanceToNow(new Date(credential.lastUsedAt), { addSuffix: true })}`
+                    : `Added ${formatDistanceToNow(new Date(credential.createdAt), { addSuffix: true })}`}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => revoke(credential.id)}
+                disabled={isLoading}
+                aria-label="Remove credential"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
       )}
     </div>
   );
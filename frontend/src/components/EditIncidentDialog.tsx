@@ -0,0 +1,171 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useServices } from '@/hooks/useServices';
+import { useUpdateIncident } from '@/hooks/useIncidentMutations';
+import type { Incident, IncidentPriority } from '@/types/incident';
+
+const PRIORITIES: IncidentPriority[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', 'INFO'];
+
+interface EditIncidentDialogProps {
+  incident: Incident;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Edit the incident's title, summary, priority and impacted services
+export function EditIncidentDialog({
+  incident,
+  open,
+  onOpenChange,
+}: EditIncidentDialogProps) {
+  const [title, setTitle] = useState(incident.title);
+  const [summary, setSummary] = useState(incident.summary ?? '');
+  const [priority, setPriority] = useState<IncidentPriority>(incident.priority);
+  const [serviceIds, setServiceIds] = useState<string[]>(incident.impactedServiceIds ?? []);
+  const { data: servicesData } = useServices({ status: 'ACTIVE' });
+  const updateIncident = useUpdateIncident();
+
+  const isActive = incident.status === 'OPEN' || incident.status === 'ACKNOWLEDGED';
+  const services = (servicesData?.services ?? []).filter((s) => s.id !== incident.serviceId);
+
+  // Start from the current values each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setTitle(incident.title);
+      setSummary(incident.summary ?? '');
+      setPriority(incident.priority);
+      setServiceIds(incident.impactedServiceIds ?? []);
+    }
+  }, [open, incident]);
+
+  const toggleService = (id: string) => {
+    setServiceIds((prev) =>
+      prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]
+    );
+  };
+
+  const handleSave = () => {
+    updateIncident.mutate(
+      {
+        incidentId: incident.id,
+        changes: {
+          title: title.trim(),
+          summary: summary.trim() || null,
+          ...(isActive && { priority }),
+          impactedServiceIds: serviceIds,
+        },
+      },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit incident #{incident.id.slice(-6)}</DialogTitle>
+          <DialogDescription>
+            Changes are recorded on the timeline. Raising the priority pages
+            responders again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-1">
+            <Label htmlFor="incident-title">Title</Label>
+            <Input
+              id="incident-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={500}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="incident-summary">Summary</Label>
+            <Textarea
+              id="incident-summary"
+              value={summary}
+              onChange={(e) => setSummary(e.target.value)}
+              placeholder="What is happening and who is affected"
+              rows={4}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label>Priority</Label>
+            <Select
+              value={priority}
+              onValueChange={(value) => setPriority(value as IncidentPriority)}
+              disabled={!isActive}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRIORITIES.map((p) => (
+                  <SelectItem key={p} value={p}>
+                    {p}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Impacted services</Label>
+            <div className="max-h-40 overflow-y-auto space-y-1 rounded-md border p-2">
+              {services.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No other services.</p>
+              ) : (
+                services.map((service) => (
+                  <label
+                    key={service.id}
+                    className="flex items-center gap-3 p-1 rounded hover:bg-muted/50 cursor-pointer text-sm"
+                  >
+                    <Checkbox
+                      checked={serviceIds.includes(service.id)}
+                      onCheckedChange={() => toggleService(service.id)}
+                    />
+                    {service.name}
+                  </label>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!title.trim() || updateIncident.isPending}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
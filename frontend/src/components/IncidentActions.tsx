@@ -5,10 +5,24 @@ import {
   useResolveIncident,
   useCloseIncident,
   useArchiveIncident,
+  useSnoozeIncident,
 } from '@/hooks/useIncidentMutations';
 import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { ResolveDialog } from './ResolveDialog';
-import { Check, CheckCheck, XCircle, Loader2, Archive } from 'lucide-react';
+import { Check, CheckCheck, XCircle, Loader2, Archive, AlarmClock } from 'lucide-react';
+
+const SNOOZE_OPTIONS = [
+  { minutes: 30, label: '30 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 4 * 60, label: '4 hours' },
+  { minutes: 24 * 60, label: '24 hours' },
+];
 
 interface IncidentActionsProps {
   incident: Incident;
@@ -29,6 +43,7 @@ export function IncidentActions({
   const resolveMutation = useResolveIncident();
   const closeMutation = useCloseIncident();
   const archiveMutation = useArchiveIncident();
+  const snoozeMutation = useSnoozeIncident();
 
   const handleAcknowledge = () => {
     acknowledgeMutation.mutate({ incidentId: incident.id });
@@ -39,6 +54,10 @@ export function IncidentActions({
     setShowResolveDialog(false);
   };
 
+  const handleSnooze = (minutes: number) => {
+    snoozeMutation.mutate({ incidentId: incident.id, minutes });
+  };
+
   const handleClose = () => {
     closeMutation.mutate({ incidentId: incident.id });
   };
@@ -51,7 +70,25 @@ export function IncidentActions({
     acknowledgeMutation.isPending ||
     resolveMutation.isPending ||
     closeMutation.isPending ||
-    archiveMutation.isPending;
+    archiveMutation.isPending ||
+    snoozeMutation.isPending;
+
+  const isActive = ['OPEN', 'ACKNOWLEDGED'].includes(incident.status);
+
+  const snoozeMenu = (trigger: React.ReactNode) => (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild disabled={isLoading}>
+        {trigger}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {SNOOZE_OPTIONS.map((option) => (
+          <DropdownMenuItem key={option.minutes} onClick={() => handleSnooze(option.minutes)}>
+            {option.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
 
   // Different layouts for inline (row) vs full (detail page)
   if (variant === 'inline') {
@@ -75,7 +112,20 @@ export function IncidentActions({
               )}
             </Button>
           )}
-          {['OPEN', 'ACKNOWLEDGED'].includes(incident.status) && (
+          {isActive &&
+            snoozeMenu(
+              <Button size="sm" variant="outline" disabled={isLoading}>
+                {snoozeMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <>
+                    <AlarmClock className="h-4 w-4 mr-1" />
+                    Snooze
+                  </>
+                )}
+              </Button>
+            )}
+          {isActive && (
             <Button
               size="sm"
               variant="outline"
@@ -128,7 +178,18 @@ export function IncidentActions({
             Acknowledge
           </Button>
         )}
-        {['OPEN', 'ACKNOWLEDGED'].includes(incident.status) && (
+        {isActive &&
+          snoozeMenu(
+            <Button variant="outline" disabled={isLoading}>
+              {snoozeMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              ) : (
+                <AlarmClock className="h-4 w-4 mr-2" />
+              )}
+              Snooze
+            </Button>
+          )}
+        {isActive && (
           <Button
             variant="outline"
             onClick={() => setShowResolveDialog(true)}
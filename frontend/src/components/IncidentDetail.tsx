@@ -2,17 +2,22 @@ import { useState } from 'react';
 import type { Incident } from '@/types/incident';
 import { useTimeline } from '@/hooks/useTimeline';
 import { IncidentTimeline } from './IncidentTimeline';
+import { FailedWorkflowExecutions } from './workflow/WorkflowTimeline';
 import { TechnicalDetails } from './TechnicalDetails';
 import { ExternalLinks } from './ExternalLinks';
 import { AddNoteForm } from './AddNoteForm';
 import { MetadataEditor } from './MetadataEditor';
 import { IncidentActions } from './IncidentActions';
 import { RunbookExecutionModal } from './RunbookExecutionModal';
+import { MergeIncidentsDialog } from './MergeIncidentsDialog';
+import { SplitIncidentDialog } from './SplitIncidentDialog';
+import { IncidentRoles } from './IncidentRoles';
+import { EditIncidentDialog } from './EditIncidentDialog';
 import { useUpdateMetadata } from '@/hooks/useUpdateMetadata';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Server, BookOpen } from 'lucide-react';
+import { Server, BookOpen, GitMerge, Split, Pencil } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { format } from 'date-fns';
 
@@ -31,6 +36,10 @@ export function IncidentDetail({
   const service = incident.metadata?.service as string || incident.team.name;
   const updateMetadata = useUpdateMetadata(incident.id);
   const [showRunbookModal, setShowRunbookModal] = useState(false);
+  const [showMergeDialog, setShowMergeDialog] = useState(false);
+  const [showSplitDialog, setShowSplitDialog] = useState(false);
+  const [showEditDialog, setShowEditDialog] = useState(false);
+  const isActive = incident.status === 'OPEN' || incident.status === 'ACKNOWLEDGED';
 
   const handleMetadataUpdate = (newMetadata: Record<string, unknown>) => {
     updateMetadata.mutate({ metadata: newMetadata });
@@ -43,6 +52,20 @@ export function IncidentDetail({
         <ExternalLinks service={service} metadata={incident.metadata} />
       </div>
 
+      {/* Merged incidents point at the incident that absorbed them */}
+      {incident.mergedIntoId && (
+        <div className="mb-4 rounded-md border bg-muted/50 p-3 text-sm flex items-center gap-2">
+          <GitMerge className="h-4 w-4 text-muted-foreground" />
+          <span>Merged into</span>
+          <Link
+            to={`/incidents/${incident.mergedIntoId}`}
+            className="font-medium text-primary hover:underline"
+          >
+            #{incident.mergedIntoId.slice(-6)}
+          </Link>
+        </div>
+      )}
+
       {/* Service routing info (Phase 13: ROUTE-03) */}
       {incident.service && (
         <div className="mb-4">
@@ -61,6 +84,23 @@ export function IncidentDetail({
         </div>
       )}
 
+      {/* Other services affected by the incident */}
+      {(incident.impactedServices?.length ?? 0) > 0 && (
+        <div className="mb-4">
+          <span className="text-sm text-muted-foreground">Impacted services</span>
+          <div className="flex flex-wrap items-center gap-2 mt-1">
+            {incident.impactedServices!.map((impacted) => (
+              <Link key={impacted.id} to={`/admin/services?selected=${impacted.id}`}>
+                <Badge variant="outline" className="hover:bg-accent cursor-pointer">
+                  <Server className="h-3 w-3 mr-1" />
+                  {impacted.name}
+                </Badge>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Incident info */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 text-sm">
         <div>
@@ -77,6 +117,14 @@ export function IncidentDetail({
             </p>
           </div>
         )}
+        {incident.snoozedUntil && incident.status === 'ACKNOWLEDGED' && (
+          <div>
+            <span className="text-muted-foreground">Snoozed until</span>
+            <p className="font-medium">
+              {format(new Date(incident.snoozedUntil), 'PPp')}
+            </p>
+          </div>
+        )}
         {incident.resolvedAt && (
           <div>
             <span className="text-muted-foreground">Resolved</span>
@@ -108,6 +156,16 @@ export function IncidentDetail({
           variant={isInline ? 'inline' : 'full'}
           onAcknowledgeSuccess={onAcknowledgeSuccess}
         />
+        {!isInline && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowEditDialog(true)}
+          >
+            <Pencil className="h-4 w-4 mr-2" />
+            Edit
+          </Button>
+        )}
         {/* Run Runbook button (AUTO-10) */}
         {!isInline && (
           <Button
@@ -119,8 +177,38 @@ export function IncidentDetail({
             Run Runbook
           </Button>
         )}
+        {!isInline && isActive && (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowMergeDialog(true)}
+            >
+              <GitMerge className="h-4 w-4 mr-2" />
+              Merge
+            </Button>
+            {(incident.alerts?.length ?? 0) > 1 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowSplitDialog(true)}
+              >
+                <Split className="h-4 w-4 mr-2" />
+                Split
+              </Button>
+            )}
+          </>
+        )}
       </div>
 
+      {/* Responder roles */}
+      {!isInline && (
+        <div className="mb-4">
+          <h4 className="text-sm font-medium mb-2">Roles</h4>
+          <IncidentRoles incident={incident} editable={isActive} />
+        </div>
+      )}
+
       {/* Metadata editor (per user decision: inline editing) */}
       <div className="mb-4">
         <MetadataEditor
@@ -135,6 +223,7 @@ export function IncidentDetail({
       {/* Timeline (per user decision: embedded inline) */}
       <div className="mb-4">
         <h4 className="text-sm font-medium mb-3">Timeline</h4>
+        <FailedWorkflowExecutions incidentId={incident.id} />
         <IncidentTimeline
           events={timeline || []}
           isLoading={timelineLoading}
@@ -163,6 +252,31 @@ export function IncidentDetail({
           onClose={() => setShowRunbookModal(false)}
         />
       )}
+
+      {/* Edit details dialog */}
+      {!isInline && (
+        <EditIncidentDialog
+          incident={incident}
+          open={showEditDialog}
+          onOpenChange={setShowEditDialog}
+        />
+      )}
+
+      {/* Merge and split dialogs */}
+      {!isInline && isActive && (
+        <>
+          <MergeIncidentsDialog
+            incident={incident}
+            open={showMergeDialog}
+            onOpenChange={setShowMergeDialog}
+          />
+          <SplitIncidentDialog
+            incident={incident}
+            open={showSplitDialog}
+            onOpenChange={setShowSplitDialog}
+          />
+        </>
+      )}
     </div>
   );
 }
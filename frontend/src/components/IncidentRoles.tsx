@@ -0,0 +1,169 @@
+/**
+ * IncidentRoles - Named responder roles and additional responders
+ *
+ * Shows who holds incident commander, communications lead and scribe,
+ * lets responders change them while the incident is active, and pages
+ * extra responders into the incident.
+ */
+
+import { useState } from 'react';
+import { UserPlus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useTeamWithMembers } from '@/hooks/useTeams';
+import {
+  useAddResponder,
+  useAssignIncidentRole,
+  useRemoveIncidentRole,
+} from '@/hooks/useIncidentMutations';
+import {
+  INCIDENT_ROLE_LABELS,
+  type Incident,
+  type NamedIncidentRole,
+} from '@/types/incident';
+
+const NAMED_ROLES: NamedIncidentRole[] = ['INCIDENT_COMMANDER', 'COMMS_LEAD', 'SCRIBE'];
+
+interface IncidentRolesProps {
+  incident: Incident;
+  editable: boolean;
+}
+
+export function IncidentRoles({ incident, editable }: IncidentRolesProps) {
+  const [responderId, setResponderId] = useState('');
+  const { data: team } = useTeamWithMembers(editable ? incident.teamId : undefined);
+  const assignRole = useAssignIncidentRole();
+  const addResponder = useAddResponder();
+  const removeRole = useRemoveIncidentRole();
+
+  const responders = incident.responders ?? [];
+  const extraResponders = responders.filter((r) => r.role === 'RESPONDER');
+  const members = (team?.members ?? []).filter((m) => m.user.isActive);
+  const isPending = assignRole.isPending || addResponder.isPending || removeRole.isPending;
+
+  const handleAddResponder = () => {
+    if (!responderId) return;
+    addResponder.mutate(
+      { incidentId: incident.id, userId: responderId },
+      { onSuccess: () => setResponderId('') }
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+        {NAMED_ROLES.map((role) => {
+          const holder = responders.find((r) => r.role === role);
+          return (
+            <div key={role}>
+              <span className="text-muted-foreground">{INCIDENT_ROLE_LABELS[role]}</span>
+              {editable ? (
+                <div className="flex items-center gap-1 mt-1">
+                  <Select
+                    value={holder?.user.id ?? ''}
+                    onValueChange={(userId) =>
+                      assignRole.mutate({ incidentId: incident.id, role, userId })
+                    }
+                    disabled={isPending}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue placeholder="Unassigned" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {holder && !members.some((m) => m.userId === holder.user.id) && (
+                        <SelectItem value={holder.user.id}>
+                          {holder.user.firstName} {holder.user.lastName}
+                        </SelectItem>
+                      )}
+                      {members.map((member) => (
+                        <SelectItem key={member.userId} value={member.userId}>
+                          {member.user.firstName} {member.user.lastName}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {holder && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        removeRole.mutate({ incidentId: incident.id, assignmentId: holder.id })
+                      }
+                      disabled={isPending}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <p className="font-medium">
+                  {holder ? `${holder.user.firstName} ${holder.user.lastName}` : 'Unassigned'}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="text-sm">
+        <span className="text-muted-foreground">Additional responders</span>
+        <div className="flex flex-wrap items-center gap-2 mt-1">
+          {extraResponders.length === 0 && !editable && <p className="font-medium">None</p>}
+          {extraResponders.map((responder) => (
+            <span
+              key={responder.id}
+              className="inline-flex items-center gap-1 rounded-md border px-2 py-1"
+            >
+              {responder.user.firstName} {responder.user.lastName}
+              {editable && (
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:text-foreground"
+                  onClick={() =>
+                    removeRole.mutate({ incidentId: incident.id, assignmentId: responder.id })
+                  }
+                  disabled={isPending}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </span>
+          ))}
+          {editable && (
+            <div className="flex items-center gap-1">
+              <Select value={responderId} onValueChange={setResponderId} disabled={isPending}>
+                <SelectTrigger className="h-8 w-[200px]">
+                  <SelectValue placeholder="Select responder" />
+                </SelectTrigger>
+                <SelectContent>
+                  {members
+                    .filter((m) => !extraResponders.some((r) => r.user.id === m.userId))
+                    .map((member) => (
+                      <SelectItem key={member.userId} value={member.userId}>
+                        {member.user.firstName} {member.user.lastName}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleAddResponder}
+                disabled={!responderId || isPending}
+              >
+                <UserPlus className="h-4 w-4 mr-2" />
+                Page
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
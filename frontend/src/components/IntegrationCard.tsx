@@ -28,6 +28,7 @@ interface IntegrationCardProps {
 const providerConfig: Record<string, { name: string; color: string }> = {
   datadog: { name: 'DataDog', color: 'bg-purple-100 text-purple-800' },
   newrelic: { name: 'New Relic', color: 'bg-green-100 text-green-800' },
+  alertmanager: { name: 'Alertmanager', color: 'bg-orange-100 text-orange-800' },
   pagerduty: { name: 'PagerDuty', color: 'bg-emerald-100 text-emerald-800' },
   generic: { name: 'Generic', color: 'bg-gray-100 text-gray-800' }
 };
@@ -0,0 +1,113 @@
+import { Loader2, Play } from 'lucide-react';
+import { usePreviewMapping, type MappingConfig } from '@/hooks/useIntegrations';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+interface IntegrationMappingEditorProps {
+  integrationId: string;
+  value: string; // Mapping config as JSON text (empty = no mapping)
+  onChange: (value: string) => void;
+}
+
+const EXAMPLE_MAPPING = `{
+  "title": "[{{env}}] {{alert.name}}",
+  "severity": "$.alert.priority",
+  "externalId": "$.alert.id",
+  "routingKey": "$.labels.service",
+  "timestamp": "$.fired_at",
+  "resolveCondition": { "expression": "$.state", "equals": ["ok", "resolved"] }
+}`;
+
+/**
+ * Parses mapping JSON text. Returns null for empty text, throws on invalid JSON.
+ */
+export function parseMappingConfig(text: string): MappingConfig | null {
+  if (!text.trim()) return null;
+  return JSON.parse(text) as MappingConfig;
+}
+
+export function IntegrationMappingEditor({ integrationId, value, onChange }: IntegrationMappingEditorProps) {
+  const previewMapping = usePreviewMapping();
+
+  let parseError: string | null = null;
+  let mappingConfig: MappingConfig | null = null;
+  try {
+    mappingConfig = parseMappingConfig(value);
+  } catch (error) {
+    parseError = error instanceof Error ? error.message : 'Invalid JSON';
+  }
+
+  const handlePreview = () => {
+    if (!mappingConfig) return;
+    previewMapping.mutate({ id: integrationId, mappingConfig });
+  };
+
+  const preview = previewMapping.data;
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="mappingConfig">Payload Mapping</Label>
+      <Textarea
+        id="mappingConfig"
+        className="font-mono text-xs min-h-[140px]"
+        placeholder={EXAMPLE_MAPPING}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      />
+      <p className="text-xs text-muted-foreground">
+        Optional. JSONPath ($.field) or Handlebars ({'{{field}}'}) per field. Replaces the built-in payload format when set.
+      </p>
+      {parseError && <p className="text-xs text-destructive">{parseError}</p>}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={handlePreview}
+        disabled={!mappingConfig || previewMapping.isPending}
+      >
+        {previewMapping.isPending ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <Play className="h-4 w-4 mr-2" />
+        )}
+        Preview against latest delivery
+      </Button>
+
+      {previewMapping.error && (
+        <Alert variant="destructive">
+          <AlertDescription>{previewMapping.error.message}</AlertDescription>
+        </Alert>
+      )}
+
+      {preview && !preview.valid && (
+        <Alert variant="destructive">
+          <AlertDescription>{preview.error}</AlertDescription>
+        </Alert>
+      )}
+
+      {preview?.alert && (
+        <div className="rounded-md border p-3 text-sm space-y-1">
+          <div className="flex items-center gap-2">
+            <Badge variant="outline">{preview.alert.severity}</Badge>
+            <Badge variant={preview.alert.action === 'resolve' ? 'secondary' : 'default'}>
+              {preview.alert.action}
+            </Badge>
+            <span className="font-medium">{preview.alert.title}</span>
+          </div>
+          {preview.alert.description && (
+            <p className="text-muted-foreground">{preview.alert.description}</p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            External ID: {preview.alert.externalId || '—'} · Routing key:{' '}
+            {String(preview.alert.metadata.routing_key ?? '—')} · Triggered:{' '}
+            {new Date(preview.alert.triggeredAt).toLocaleString()}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
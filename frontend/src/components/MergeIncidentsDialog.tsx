@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { PriorityBadge } from '@/components/ui/priority-badge';
+import { useIncidents } from '@/hooks/useIncidents';
+import { useMergeIncidents } from '@/hooks/useIncidentMutations';
+import type { Incident } from '@/types/incident';
+
+interface MergeIncidentsDialogProps {
+  incident: Incident;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Pick other open incidents on the same team to merge into this one
+export function MergeIncidentsDialog({
+  incident,
+  open,
+  onOpenChange,
+}: MergeIncidentsDialogProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const { data, isLoading } = useIncidents({
+    status: ['OPEN', 'ACKNOWLEDGED'],
+    teamId: incident.teamId,
+  });
+  const mergeIncidents = useMergeIncidents();
+
+  const candidates = (data?.incidents || []).filter((i) => i.id !== incident.id);
+
+  const toggle = (id: string) => {
+    setSelected((prev) =>
+      prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]
+    );
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setSelected([]);
+    onOpenChange(next);
+  };
+
+  const handleMerge = () => {
+    mergeIncidents.mutate(
+      { incidentId: incident.id, sourceIncidentIds: selected },
+      { onSuccess: () => handleOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Merge incidents into #{incident.id.slice(-6)}</DialogTitle>
+          <DialogDescription>
+            Alerts and timelines of the selected incidents move into this one.
+            The merged incidents are resolved and stop paging.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-2 max-h-80 overflow-y-auto space-y-1">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading incidents...</p>
+          ) : candidates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No other open incidents on {incident.team.name}.
+            </p>
+          ) : (
+            candidates.map((candidate) => (
+              <label
+                key={candidate.id}
+                className="flex items-center gap-3 p-2 rounded hover:bg-muted/50 cursor-pointer"
+              >
+                <Checkbox
+                  checked={selected.includes(candidate.id)}
+                  onCheckedChange={() => toggle(candidate.id)}
+                />
+                <PriorityBadge priority={candidate.priority} showLabel={false} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {candidate.title || candidate.fingerprint}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    #{candidate.id.slice(-6)} · {candidate.status}
+                  </p>
+                </div>
+              </label>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleMerge}
+            disabled={selected.length === 0 || mergeIncidents.isPending}
+          >
+            Merge {selected.length > 0 ? selected.length : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
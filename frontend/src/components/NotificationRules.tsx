@@ -0,0 +1,228 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  useNotificationRules,
+  useUpdateNotificationRules,
+  type NotificationRule,
+  type NotificationRuleChannel,
+  type NotificationRulePriority,
+  type QuietHours,
+} from '@/hooks/useNotificationRules';
+
+const PRIORITIES: NotificationRulePriority[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', 'INFO'];
+
+const CHANNEL_LABELS: Record<NotificationRuleChannel, string> = {
+  PUSH: 'Push',
+  EMAIL: 'Email',
+  SLACK: 'Slack',
+  TEAMS: 'Teams',
+  SMS: 'SMS',
+  VOICE: 'Voice call',
+};
+
+const MAX_DELAY_MINUTES = 60;
+
+const DEFAULT_QUIET_HOURS = { start: '22:00', end: '07:00' };
+
+/**
+ * Edits the user's notification rules (channels and delays per incident
+ * priority) and quiet hours for non-critical incidents.
+ */
+export function NotificationRules() {
+  const { data, isLoading } = useNotificationRules();
+  const updateRules = useUpdateNotificationRules();
+
+  const [priority, setPriority] = useState<NotificationRulePriority>('CRITICAL');
+  const [rules, setRules] = useState<NotificationRule[]>([]);
+  const [quietHours, setQuietHours] = useState<QuietHours | null>(null);
+
+  // Start from the saved values whenever they load or change
+  useEffect(() => {
+    if (data) {
+      setRules(data.rules);
+      setQuietHours(data.quietHours);
+    }
+  }, [data]);
+
+  if (isLoading) {
+    return <Loader2 className="h-5 w-5 animate-spin" />;
+  }
+
+  const steps = rules
+    .map((rule, index) => ({ rule, index }))
+    .filter(({ rule }) => rule.priority === priority);
+  const unusedChannels = (Object.keys(CHANNEL_LABELS) as NotificationRuleChannel[]).filter(
+    (channel) => !steps.some(({ rule }) => rule.channel === channel)
+  );
+
+  const updateRule = (index: number, patch: Partial<NotificationRule>) => {
+    setRules((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  };
+
+  const addStep = () => {
+    const lastDelay = steps.length > 0 ? steps[steps.length - 1].rule.delayMinutes : -1;
+    setRules((prev) => [
+      ...prev,
+      { priority, channel: unusedChannels[0], delayMinutes: Math.min(lastDelay + 1, MAX_DELAY_MINUTES) },
+    ]);
+  };
+
+  const handleSave = () => {
+    updateRules.mutate({ rules, quietHours });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label>Notification rules</Label>
+            <p className="text-xs text-muted-foreground">
+              Steps after the first only fire while the incident is unacknowledged
+            </p>
+          </div>
+          <Select
+            value={priority}
+            onValueChange={(value) => setPriority(value as NotificationRulePriority)}
+          >
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PRIORITIES.map((p) => (
+                <SelectItem key={p} value={p}>
+                  {p}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {steps.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No rules for {priority} incidents. You get email, Slack and push right away,
+            then SMS and a voice call if those fail.
+          </p>
+        ) : (
+          steps.map(({ rule, index }) => (
+            <div key={index} className="flex items-center gap-2">
+              <Select
+                value={rule.channel}
+                onValueChange={(value) =>
+                  updateRule(index, { channel: value as NotificationRuleChannel })
+                }
+              >
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[rule.channel, ...unusedChannels].map((channel) => (
+                    <SelectItem key={channel} value={channel}>
+                      {CHANNEL_LABELS[channel]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-muted-foreground">after</span>
+              <Input
+                type="number"
+                min={0}
+                max={MAX_DELAY_MINUTES}
+                className="w-20"
+                value={rule.delayMinutes}
+                onChange={(e) =>
+                  updateRule(index, {
+                    delayMinutes: Math.max(0, Math.min(MAX_DELAY_MINUTES, Number(e.target.value) || 0)),
+                  })
+                }
+              />
+              <span className="text-sm text-muted-foreground">min</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setRules((prev) => prev.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={addStep}
+          disabled={unusedChannels.length === 0}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add step
+        </Button>
+      </div>
+
+      <div className="space-y-3 border-t pt-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="quiet-hours-toggle">Quiet hours</Label>
+            <p className="text-xs text-muted-foreground">
+              Non-critical pages wait until quiet hours end; critical incidents always page
+            </p>
+          </div>
+          <Switch
+            id="quiet-hours-toggle"
+            checked={quietHours !== null}
+            onCheckedChange={(checked) =>
+              setQuietHours(
+                checked
+                  ? {
+                      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+                      ...DEFAULT_QUIET_HOURS,
+                    }
+                  : null
+              )
+            }
+          />
+        </div>
+
+        {quietHours && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Input
+                type="time"
+                value={quietHours.start}
+                onChange={(e) => setQuietHours({ ...quietHours, start: e.target.value })}
+              />
+              <span className="text-sm text-muted-foreground">to</span>
+              <Input
+                type="time"
+                value={quietHours.end}
+                onChange={(e) => setQuietHours({ ...quietHours, end: e.target.value })}
+              />
+            </div>
+            <Input
+              value={quietHours.timezone}
+              onChange={(e) => setQuietHours({ ...quietHours, timezone: e.target.value })}
+              placeholder="Europe/Berlin"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={updateRules.isPending}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useSplitIncident } from '@/hooks/useIncidentMutations';
+import type { Incident } from '@/types/incident';
+
+interface SplitIncidentDialogProps {
+  incident: Incident;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Move selected alerts out of this incident into a new one
+export function SplitIncidentDialog({
+  incident,
+  open,
+  onOpenChange,
+}: SplitIncidentDialogProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const splitIncident = useSplitIncident();
+  const alerts = incident.alerts || [];
+
+  const toggle = (id: string) => {
+    setSelected((prev) =>
+      prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]
+    );
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setSelected([]);
+    onOpenChange(next);
+  };
+
+  const handleSplit = () => {
+    splitIncident.mutate(
+      { incidentId: incident.id, alertIds: selected },
+      { onSuccess: () => handleOpenChange(false) }
+    );
+  };
+
+  // At least one alert has to stay on this incident
+  const tooMany = selected.length >= alerts.length;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Split alerts into a new incident</DialogTitle>
+          <DialogDescription>
+            The selected alerts move to a new incident on {incident.team.name},
+            which pages through the same escalation policy.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-2 max-h-80 overflow-y-auto space-y-1">
+          {alerts.map((alert) => (
+            <label
+              key={alert.id}
+              className="flex items-center gap-3 p-2 rounded hover:bg-muted/50 cursor-pointer"
+            >
+              <Checkbox
+                checked={selected.includes(alert.id)}
+                onCheckedChange={() => toggle(alert.id)}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{alert.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(alert.triggeredAt), 'PPp')}
+                </p>
+              </div>
+              <Badge variant="outline" className="text-xs">
+                {alert.severity}
+              </Badge>
+            </label>
+          ))}
+        </div>
+
+        {tooMany && (
+          <p className="text-xs text-red-500">
+            Leave at least one alert on this incident.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSplit}
+            disabled={selected.length === 0 || tooMany || splitIncident.isPending}
+          >
+            Split {selected.length > 0 ? selected.length : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,9 @@
 import { formatDistanceToNow, format } from 'date-fns';
-import type { TimelineEvent as TimelineEventType } from '@/types/incident';
+import {
+  INCIDENT_ROLE_LABELS,
+  type IncidentRole,
+  type TimelineEvent as TimelineEventType,
+} from '@/types/incident';
 import { categorizeEvent, formatAction } from '@/hooks/useTimeline';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { cn } from '@/lib/utils';
@@ -51,6 +55,25 @@ export function TimelineEventCard({ event }: TimelineEventProps) {
   const newAssignee = event.metadata?.newAssignee as string | undefined;
   const reason = event.metadata?.reason as string | undefined;
 
+  // Extract detail edits
+  const detailChange =
+    event.action === 'incident.priority.updated'
+      ? `${event.metadata?.previousPriority} → ${event.metadata?.priority}`
+      : event.action === 'incident.title.updated'
+        ? (event.metadata?.title as string | undefined)
+        : event.action === 'incident.snoozed' && event.metadata?.snoozedUntil
+          ? `Until ${format(new Date(event.metadata.snoozedUntil as string), 'PPp')}`
+          : event.action === 'incident.acknowledgement.expired'
+            ? `Reopened ${event.metadata?.ackTimeoutMinutes} minutes after acknowledgement`
+            : undefined;
+
+  // Actions taken through the REST API name the key used
+  const apiKey = event.metadata?.apiKey as { name: string } | undefined;
+
+  // Extract role assignment details
+  const role = event.metadata?.role as IncidentRole | undefined;
+  const assigneeName = event.metadata?.assigneeName as string | undefined;
+
   return (
     <div
       className={cn(
@@ -74,6 +97,9 @@ export function TimelineEventCard({ event }: TimelineEventProps) {
           <span className="text-muted-foreground text-sm">
             {formatAction(event.action)}
           </span>
+          {apiKey && (
+            <span className="text-muted-foreground text-xs">via API key {apiKey.name}</span>
+          )}
         </div>
 
         {/* Note content (per user decision: markdown support in notes) */}
@@ -91,6 +117,24 @@ export function TimelineEventCard({ event }: TimelineEventProps) {
             {reason && <span className="text-muted-foreground">- {reason}</span>}
           </div>
         )}
+
+        {/* Title and priority edits */}
+        {detailChange && (
+          <div className="mt-2 flex items-center gap-2 text-sm text-gray-600">
+            <ArrowRight className="h-4 w-4" />
+            <span>{detailChange}</span>
+          </div>
+        )}
+
+        {/* Role assignment details */}
+        {role && assigneeName && (
+          <div className="mt-2 flex items-center gap-2 text-sm text-gray-600">
+            <ArrowRight className="h-4 w-4" />
+            <span>
+              {INCIDENT_ROLE_LABELS[role] ?? role}: {assigneeName}
+            </span>
+          </div>
+        )}
       </div>
 
       {/* Timestamp */}
@@ -8,9 +8,16 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { CheckCircle, XCircle, Loader2, FileText } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { CheckCircle, XCircle, Loader2, FileText, RotateCcw } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
-import { useWebhookDeliveries, type Integration } from '@/hooks/useIntegrations';
+import {
+  useWebhookDeliveries,
+  useReplayDeliveries,
+  type Integration,
+  type ReplayResponse
+} from '@/hooks/useIntegrations';
 
 interface WebhookAttemptsProps {
   integration: Integration;
@@ -23,6 +30,19 @@ export function WebhookAttempts({ integration, trigger }: WebhookAttemptsProps)
     open ? integration.id : '', // Only fetch when dialog is open
     10
   );
+  const replayDeliveries = useReplayDeliveries();
+  const [dryRun, setDryRun] = useState(true);
+
+  const handleReplay = (deliveryIds?: string[]) => {
+    replayDeliveries.mutate({
+      integrationId: integration.id,
+      dryRun,
+      // Without explicit IDs, replay every failed delivery (validation and processing errors)
+      ...(deliveryIds ? { deliveryIds } : { statusCodes: [400, 500] })
+    });
+  };
+
+  const hasFailures = deliveries?.some(d => d.statusCode >= 400) ?? false;
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
@@ -39,6 +59,31 @@ export function WebhookAttempts({ integration, trigger }: WebhookAttemptsProps)
           <DialogTitle>Recent Webhook Attempts</DialogTitle>
         </DialogHeader>
 
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center space-x-2">
+            <Switch id="replayDryRun" checked={dryRun} onCheckedChange={setDryRun} />
+            <Label htmlFor="replayDryRun" className="text-sm">Dry run</Label>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleReplay()}
+            disabled={!hasFailures || replayDeliveries.isPending}
+          >
+            {replayDeliveries.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RotateCcw className="h-4 w-4 mr-2" />
+            )}
+            Replay failed
+          </Button>
+        </div>
+
+        {replayDeliveries.error && (
+          <p className="text-sm text-destructive">Replay failed: {replayDeliveries.error.message}</p>
+        )}
+        {replayDeliveries.data && <ReplaySummary replay={replayDeliveries.data} />}
+
         <div className="py-4">
           {isLoading && (
             <div className="flex items-center justify-center gap-2 py-8">
@@ -92,12 +137,22 @@ export function WebhookAttempts({ integration, trigger }: WebhookAttemptsProps)
                           )}
                         </div>
                       </div>
-                      <Badge
-                        variant={isSuccess ? 'default' : 'destructive'}
-                        className="flex-shrink-0"
-                      >
-                        {delivery.statusCode}
-                      </Badge>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        {delivery.replayOfId && <Badge variant="outline">Replay</Badge>}
+                        <Badge variant={isSuccess ? 'default' : 'destructive'}>
+                          {delivery.statusCode}
+                        </Badge>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          title={dryRun ? 'Dry-run replay' : 'Replay'}
+                          onClick={() => handleReplay([delivery.id])}
+                          disabled={replayDeliveries.isPending}
+                        >
+                          <RotateCcw className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
                     </div>
                   );
                 })}
@@ -110,6 +165,33 @@ export function WebhookAttempts({ integration, trigger }: WebhookAttemptsProps)
   );
 }
 
+function ReplaySummary({ replay }: { replay: ReplayResponse }) {
+  if (replay.count === 0) {
+    return <p className="text-sm text-muted-foreground">No deliveries matched</p>;
+  }
+
+  return (
+    <div className="rounded-lg border p-3 space-y-1 text-sm">
+      <p className="font-medium">
+        {replay.dryRun ? 'Dry run' : 'Replayed'}: {replay.count} {replay.count === 1 ? 'delivery' : 'deliveries'}
+      </p>
+      {replay.results.map(result => (
+        <div key={result.deliveryId} className="text-xs text-muted-foreground">
+          {result.originalStatusCode} → {result.statusCode}
+          {result.error && ` · ${result.error}`}
+          {result.alerts?.map((alert, i) => (
+            <span key={i}>
+              {' · '}{alert.title} ({alert.outcome}
+              {alert.reason && `: ${alert.reason.replace('_', ' ')}`}
+              {alert.storm && `, ${alert.storm.replace('_', ' ')}`})
+            </span>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 // Also export a simple list version for inline use
 export function WebhookAttemptsList({
   integrationId,
@@ -0,0 +1,176 @@
+import { Plus, Trash2 } from 'lucide-react';
+import type { SupportHours, SupportWindow, Urgency, UrgencyRules } from '@/types/service';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const SEVERITIES = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', 'INFO'] as const;
+
+// Matches the backend defaults for severities without a rule
+const DEFAULT_URGENCY: Record<(typeof SEVERITIES)[number], Urgency> = {
+  CRITICAL: 'high',
+  HIGH: 'high',
+  MEDIUM: 'low',
+  LOW: 'low',
+  INFO: 'low',
+};
+
+const DEFAULT_WINDOW: SupportWindow = { days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' };
+
+interface SupportHoursEditorProps {
+  supportHours: SupportHours | null;
+  urgencyRules: UrgencyRules | null;
+  onChange: (supportHours: SupportHours | null, urgencyRules: UrgencyRules | null) => void;
+}
+
+/**
+ * Edits a service's support hours and severity-to-urgency rules.
+ * Low-urgency incidents outside support hours are held until the next window.
+ */
+export function SupportHoursEditor({ supportHours, urgencyRules, onChange }: SupportHoursEditorProps) {
+  const enabled = supportHours !== null;
+
+  const toggle = (checked: boolean) => {
+    onChange(
+      checked
+        ? {
+            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+            windows: [DEFAULT_WINDOW],
+          }
+        : null,
+      checked ? urgencyRules : null
+    );
+  };
+
+  const updateWindow = (index: number, patch: Partial<SupportWindow>) => {
+    if (!supportHours) return;
+    const windows = supportHours.windows.map((w, i) => (i === index ? { ...w, ...patch } : w));
+    onChange({ ...supportHours, windows }, urgencyRules);
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    if (!supportHours) return;
+    const days = supportHours.windows[index].days;
+    updateWindow(index, {
+      days: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort((a, b) => a - b),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Support hours</Label>
+          <p className="text-xs text-muted-foreground">
+            Low-urgency incidents outside these hours wait for the next window
+          </p>
+        </div>
+        <Switch checked={enabled} onCheckedChange={toggle} />
+      </div>
+
+      {supportHours && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="support-timezone">Timezone</Label>
+            <Input
+              id="support-timezone"
+              value={supportHours.timezone}
+              onChange={(e) => onChange({ ...supportHours, timezone: e.target.value }, urgencyRules)}
+              placeholder="Europe/Berlin"
+            />
+          </div>
+
+          {supportHours.windows.map((window, index) => (
+            <div key={index} className="space-y-2 rounded-md border p-2">
+              <div className="flex flex-wrap gap-1">
+                {WEEKDAYS.map((label, i) => (
+                  <Button
+                    key={label}
+                    type="button"
+                    size="sm"
+                    variant={window.days.includes(i + 1) ? 'default' : 'outline'}
+                    className="h-7 px-2 text-xs"
+                    onClick={() => toggleDay(index, i + 1)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="time"
+                  value={window.start}
+                  onChange={(e) => updateWindow(index, { start: e.target.value })}
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <Input
+                  type="time"
+                  value={window.end}
+                  onChange={(e) => updateWindow(index, { end: e.target.value })}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  disabled={supportHours.windows.length === 1}
+                  onClick={() => onChange(
+                    { ...supportHours, windows: supportHours.windows.filter((_, i) => i !== index) },
+                    urgencyRules
+                  )}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange(
+              { ...supportHours, windows: [...supportHours.windows, DEFAULT_WINDOW] },
+              urgencyRules
+            )}
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Add window
+          </Button>
+
+          <div className="space-y-2">
+            <Label>Urgency by severity</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {SEVERITIES.map(severity => (
+                <div key={severity} className="flex items-center justify-between gap-2">
+                  <span className="text-sm">{severity}</span>
+                  <Select
+                    value={urgencyRules?.[severity] ?? DEFAULT_URGENCY[severity]}
+                    onValueChange={(v) => onChange(supportHours, { ...urgencyRules, [severity]: v as Urgency })}
+                  >
+                    <SelectTrigger className="h-8 w-[90px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="high">High</SelectItem>
+                      <SelectItem value="low">Low</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
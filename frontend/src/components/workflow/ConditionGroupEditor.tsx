@@ -0,0 +1,223 @@
+/**
+ * ConditionGroupEditor - Builds nested all/any condition groups
+ *
+ * Shared by trigger conditions and condition nodes. Each row is a
+ * field/operator/value rule; groups can be nested a few levels deep.
+ */
+
+import { Plus, X, Layers } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  isConditionGroup,
+  type ConditionGroup,
+  type ConditionOperator,
+  type ConditionRule,
+  type TriggerCondition,
+} from '@/types/workflow';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const OPERATORS: { value: ConditionOperator; label: string }[] = [
+  { value: '=', label: 'equals' },
+  { value: '!=', label: 'not equals' },
+  { value: 'in', label: 'in list' },
+  { value: 'contains', label: 'contains' },
+  { value: 'matches', label: 'matches regex' },
+  { value: '>', label: '>' },
+  { value: '>=', label: '>=' },
+  { value: '<', label: '<' },
+  { value: '<=', label: '<=' },
+  { value: 'exists', label: 'exists' },
+];
+
+const VALUE_PLACEHOLDERS: Partial<Record<ConditionOperator, string>> = {
+  in: 'CRITICAL, HIGH',
+  matches: '^db-.*',
+};
+
+/** Matches the backend nesting limit */
+const MAX_DEPTH = 5;
+
+const EMPTY_RULE: TriggerCondition = { field: '', operator: '=', value: '' };
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Short text form of a rule, e.g. (priority = CRITICAL OR metadata.region matches ^eu-)
+ */
+export function formatConditionRule(rule: ConditionRule): string {
+  if (isConditionGroup(rule)) {
+    const joiner = rule.match === 'any' ? ' OR ' : ' AND ';
+    return `(${rule.conditions.map(formatConditionRule).join(joiner)})`;
+  }
+  if (rule.operator === 'exists') {
+    return `${rule.field || 'field'} exists`;
+  }
+  return `${rule.field || 'field'} ${rule.operator || '='} ${rule.value || 'value'}`;
+}
+
+/**
+ * True when every rule in a group has a field and (where needed) a value
+ */
+export function isConditionComplete(rule: ConditionRule): boolean {
+  if (isConditionGroup(rule)) {
+    return rule.conditions.length > 0 && rule.conditions.every(isConditionComplete);
+  }
+  return Boolean(rule.field) && (rule.operator === 'exists' || Boolean(rule.value));
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+interface ConditionGroupEditorProps {
+  group: ConditionGroup;
+  onChange: (group: ConditionGroup) => void;
+  /** Suggested field paths shown in the field input */
+  fields: string[];
+  /** Removes this group from its parent (nested groups only) */
+  onRemove?: () => void;
+  depth?: number;
+}
+
+export function ConditionGroupEditor({
+  group,
+  onChange,
+  fields,
+  onRemove,
+  depth = 1,
+}: ConditionGroupEditorProps) {
+  const listId = `condition-fields-${depth}`;
+
+  const updateRule = (index: number, rule: ConditionRule) => {
+    onChange({ ...group, conditions: group.conditions.map((r, i) => (i === index ? rule : r)) });
+  };
+
+  const removeRule = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className={cn('space-y-2 rounded-md border p-2', depth > 1 && 'bg-muted/30')}>
+      <div className="flex items-center gap-2">
+        <Select
+          value={group.match}
+          onValueChange={(value) => onChange({ ...group, match: value as ConditionGroup['match'] })}
+        >
+          <SelectTrigger className="h-8 w-[90px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All</SelectItem>
+            <SelectItem value="any">Any</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="text-xs text-muted-foreground flex-1">
+          of the following must match
+        </span>
+        {onRemove && (
+          <Button variant="ghost" size="sm" onClick={onRemove}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <datalist id={listId}>
+        {fields.map((field) => (
+          <option key={field} value={field} />
+        ))}
+      </datalist>
+
+      {group.conditions.map((rule, index) =>
+        isConditionGroup(rule) ? (
+          <ConditionGroupEditor
+            key={index}
+            group={rule}
+            onChange={(child) => updateRule(index, child)}
+            onRemove={() => removeRule(index)}
+            fields={fields}
+            depth={depth + 1}
+          />
+        ) : (
+          <div key={index} className="flex items-center gap-1">
+            <Input
+              list={listId}
+              value={rule.field}
+              onChange={(e) => updateRule(index, { ...rule, field: e.target.value })}
+              placeholder="Field"
+              className={cn('h-8 flex-1', !rule.field && 'border-red-300')}
+            />
+            <Select
+              value={rule.operator || '='}
+              onValueChange={(value) => updateRule(index, { ...rule, operator: value as ConditionOperator })}
+            >
+              <SelectTrigger className="h-8 w-[110px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OPERATORS.map((op) => (
+                  <SelectItem key={op.value} value={op.value}>
+                    {op.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {rule.operator !== 'exists' && (
+              <Input
+                value={rule.value}
+                onChange={(e) => updateRule(index, { ...rule, value: e.target.value })}
+                placeholder={VALUE_PLACEHOLDERS[rule.operator || '='] || 'Value'}
+                className={cn('h-8 flex-1', !rule.value && 'border-red-300')}
+              />
+            )}
+            <Button variant="ghost" size="sm" onClick={() => removeRule(index)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        )
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...group, conditions: [...group.conditions, { ...EMPTY_RULE }] })}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Condition
+        </Button>
+        {depth < MAX_DEPTH && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              onChange({
+                ...group,
+                conditions: [
+                  ...group.conditions,
+                  { match: group.match === 'all' ? 'any' : 'all', conditions: [{ ...EMPTY_RULE }] },
+                ],
+              })
+            }
+          >
+            <Layers className="h-4 w-4 mr-1" />
+            Group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
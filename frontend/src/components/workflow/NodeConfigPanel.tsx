@@ -3,12 +3,13 @@
  *
  * Renders different forms based on node type:
  * - TriggerConfig: trigger type dropdown, conditions editor
- * - ActionConfig: webhook URL/headers/body, Jira/Linear fields
- * - ConditionConfig: field/value inputs
+ * - ActionConfig: webhook URL/headers/body, Jira/Linear fields, channel
+ *   messages and built-in incident actions
+ * - ConditionConfig: condition group builder
  * - DelayConfig: duration input with presets
  *
  * Per user decisions:
- * - Simple field matching for conditions (no AND/OR)
+ * - Conditions support operators and nested all/any groups
  * - {{variable}} template syntax visible
  * - Real-time validation feedback
  */
@@ -20,10 +21,24 @@ import {
   ArrowUp,
   Hand,
   Clock,
+  Bell,
+  MessageSquarePlus,
+  Users,
+  AlarmClock,
+  FileText,
+  CalendarX,
   Globe,
   Ticket,
   ListTodo,
   BookOpen,
+  MessageSquare,
+  Flag,
+  UserCog,
+  StickyNote,
+  ChevronsUp,
+  CheckCircle,
+  Megaphone,
+  BellRing,
   GitBranch,
   Timer,
   Plus,
@@ -53,15 +68,19 @@ import type { Node } from '@xyflow/react';
 import type {
   TriggerData,
   TriggerType,
-  TriggerCondition,
   ActionData,
   ActionType,
   ConditionData,
+  ConditionGroup,
   DelayData,
+  IncidentActionData,
   WebhookAuth,
   WebhookMethod,
 } from '@/types/workflow';
+import { isConditionGroup } from '@/types/workflow';
 import { useApprovedRunbooks, useRunbook } from '@/hooks/useRunbooks';
+import { useStatusPages } from '@/hooks/useStatusPages';
+import { ConditionGroupEditor, formatConditionRule } from './ConditionGroupEditor';
 
 // =============================================================================
 // TYPES
@@ -121,30 +140,43 @@ interface TriggerConfigProps {
   onChange: (data: Partial<TriggerData>) => void;
 }
 
-function TriggerConfig({ data, onChange }: TriggerConfigProps) {
-  const [newConditionField, setNewConditionField] = useState('');
-  const [newConditionValue, setNewConditionValue] = useState('');
-
-  const handleAddCondition = () => {
-    if (!newConditionField || !newConditionValue) return;
-
-    const newCondition: TriggerCondition = {
-      field: newConditionField,
-      value: newConditionValue,
-    };
-
-    onChange({
-      conditions: [...(data.conditions || []), newCondition],
-    });
+const TRIGGER_FIELDS = ['priority', 'status', 'teamId', 'metadata.service'];
+
+const TRIGGER_TYPES: { value: TriggerType; label: string; icon: typeof Zap }[] = [
+  { value: 'incident_created', label: 'Incident Created', icon: Zap },
+  { value: 'state_changed', label: 'State Changed', icon: RefreshCw },
+  { value: 'escalation', label: 'Escalation', icon: ArrowUp },
+  { value: 'manual', label: 'Manual Trigger', icon: Hand },
+  { value: 'age', label: 'Incident Age', icon: Clock },
+  { value: 'alert_received', label: 'Alert Received', icon: Bell },
+  { value: 'note_added', label: 'Note Added', icon: MessageSquarePlus },
+  { value: 'reassigned', label: 'Reassigned', icon: Users },
+  { value: 'ack_timeout', label: 'Not Acknowledged', icon: AlarmClock },
+  { value: 'postmortem_published', label: 'Postmortem Published', icon: FileText },
+  { value: 'action_item_overdue', label: 'Action Item Overdue', icon: CalendarX },
+];
 
-    setNewConditionField('');
-    setNewConditionValue('');
-  };
+// Event details each trigger type adds to the condition fields
+const TRIGGER_EVENT_FIELDS: Partial<Record<TriggerType, string[]>> = {
+  alert_received: ['alert.title', 'alert.severity', 'alert.source', 'alert.metadata.host'],
+  note_added: ['note.text', 'note.userId'],
+  reassigned: ['previousAssigneeId', 'newAssigneeId'],
+  ack_timeout: ['minutesUnacknowledged'],
+  postmortem_published: ['postmortem.title'],
+  action_item_overdue: ['actionItem.title', 'actionItem.priority', 'actionItem.assigneeId', 'postmortem.title'],
+};
 
-  const handleRemoveCondition = (index: number) => {
-    const newConditions = [...(data.conditions || [])];
-    newConditions.splice(index, 1);
-    onChange({ conditions: newConditions });
+function TriggerConfig({ data, onChange }: TriggerConfigProps) {
+  // Trigger conditions are an implicit 'all'; an 'any' root is stored as a single group
+  const conditions = data.conditions || [];
+  const [onlyRule] = conditions;
+  const rootGroup: ConditionGroup =
+    conditions.length === 1 && isConditionGroup(onlyRule) && onlyRule.match === 'any'
+      ? onlyRule
+      : { match: 'all', conditions };
+
+  const handleConditionsChange = (group: ConditionGroup) => {
+    onChange({ conditions: group.match === 'all' ? group.conditions : [group] });
   };
 
   return (
@@ -177,36 +209,14 @@ function TriggerConfig({ data, onChange }: TriggerConfigProps) {
             <SelectValue placeholder="Select trigger type" />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="incident_created">
-              <div className="flex items-center gap-2">
-                <Zap className="h-4 w-4 text-purple-500" />
-                Incident Created
-              </div>
-            </SelectItem>
-            <SelectItem value="state_changed">
-              <div className="flex items-center gap-2">
-                <RefreshCw className="h-4 w-4 text-purple-500" />
-                State Changed
-              </div>
-            </SelectItem>
-            <SelectItem value="escalation">
-              <div className="flex items-center gap-2">
-                <ArrowUp className="h-4 w-4 text-purple-500" />
-                Escalation
-              </div>
-            </SelectItem>
-            <SelectItem value="manual">
-              <div className="flex items-center gap-2">
-                <Hand className="h-4 w-4 text-purple-500" />
-                Manual Trigger
-              </div>
-            </SelectItem>
-            <SelectItem value="age">
-              <div className="flex items-center gap-2">
-                <Clock className="h-4 w-4 text-purple-500" />
-                Incident Age
-              </div>
-            </SelectItem>
+            {TRIGGER_TYPES.map(({ value, label, icon: TypeIcon }) => (
+              <SelectItem key={value} value={value}>
+                <div className="flex items-center gap-2">
+                  <TypeIcon className="h-4 w-4 text-purple-500" />
+                  {label}
+                </div>
+              </SelectItem>
+            ))}
           </SelectContent>
         </Select>
       </div>
@@ -228,6 +238,26 @@ function TriggerConfig({ data, onChange }: TriggerConfigProps) {
         </div>
       )}
 
+      {/* Timeout for ack_timeout trigger */}
+      {data.triggerType === 'ack_timeout' && (
+        <div className="space-y-2">
+          <Label htmlFor="ack-timeout">Unacknowledged For (minutes)</Label>
+          <Input
+            id="ack-timeout"
+            type="number"
+            min={1}
+            value={data.ackTimeoutMinutes || ''}
+            onChange={(e) =>
+              onChange({ ackTimeoutMinutes: parseInt(e.target.value) || undefined })
+            }
+            placeholder="15"
+          />
+          <p className="text-xs text-muted-foreground">
+            Runs once per incident that is still open and unacknowledged
+          </p>
+        </div>
+      )}
+
       {/* State transition for state_changed trigger */}
       {data.triggerType === 'state_changed' && (
         <div className="grid grid-cols-2 gap-2">
@@ -283,56 +313,17 @@ function TriggerConfig({ data, onChange }: TriggerConfigProps) {
         </div>
       )}
 
-      {/* Conditions editor (simple field matching per user decision) */}
+      {/* Conditions editor */}
       <div className="space-y-2">
         <Label>Conditions (optional)</Label>
         <p className="text-xs text-muted-foreground">
-          Simple field matching - all conditions must be true
+          Leave empty to run for every matching event
         </p>
-
-        {/* Existing conditions */}
-        {data.conditions && data.conditions.length > 0 && (
-          <div className="space-y-2">
-            {data.conditions.map((condition, idx) => (
-              <div key={idx} className="flex items-center gap-2 bg-muted/50 rounded p-2">
-                <code className="text-sm flex-1">
-                  {condition.field} = {condition.value}
-                </code>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => handleRemoveCondition(idx)}
-                >
-                  <X className="h-4 w-4" />
-                </Button>
-              </div>
-            ))}
-          </div>
-        )}
-
-        {/* Add new condition */}
-        <div className="flex items-center gap-2">
-          <Select value={newConditionField} onValueChange={setNewConditionField}>
-            <SelectTrigger className="flex-1">
-              <SelectValue placeholder="Field" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="priority">priority</SelectItem>
-              <SelectItem value="status">status</SelectItem>
-              <SelectItem value="metadata.service">service</SelectItem>
-            </SelectContent>
-          </Select>
-          <span>=</span>
-          <Input
-            value={newConditionValue}
-            onChange={(e) => setNewConditionValue(e.target.value)}
-            placeholder="Value"
-            className="flex-1"
-          />
-          <Button variant="outline" size="sm" onClick={handleAddCondition}>
-            <Plus className="h-4 w-4" />
-          </Button>
-        </div>
+        <ConditionGroupEditor
+          group={rootGroup}
+          onChange={handleConditionsChange}
+          fields={[...TRIGGER_FIELDS, ...(TRIGGER_EVENT_FIELDS[data.triggerType] ?? [])]}
+        />
       </div>
     </div>
   );
@@ -1055,69 +1046,427 @@ function RunbookConfig({ data, onChange }: RunbookConfigProps) {
 }
 
 // =============================================================================
-// CONDITION CONFIG
+// CHANNEL ACTION CONFIG
 // =============================================================================
 
-interface ConditionConfigProps {
-  data: ConditionData;
-  onChange: (data: Partial<ConditionData>) => void;
+interface ChannelConfigProps {
+  data: ActionData & { actionType: 'notify_channel' };
+  onChange: (data: Partial<ActionData>) => void;
 }
 
-function ConditionConfig({ data, onChange }: ConditionConfigProps) {
+function ChannelConfig({ data, onChange }: ChannelConfigProps) {
+  const config = data.config;
+
+  const updateConfig = (updates: Partial<typeof config>) => {
+    onChange({
+      ...data,
+      config: { ...config, ...updates },
+    });
+  };
+
   return (
     <div className="space-y-4">
       {/* Name */}
       <div className="space-y-2">
-        <Label htmlFor="condition-name">
+        <Label htmlFor="channel-name">
           Name <span className="text-red-500">*</span>
         </Label>
         <Input
-          id="condition-name"
+          id="channel-name"
           value={data.name || ''}
-          onChange={(e) => onChange({ name: e.target.value })}
-          placeholder="e.g., Check Priority"
+          onChange={(e) => onChange({ ...data, name: e.target.value })}
+          placeholder="e.g., Post to #incidents"
         />
       </div>
 
-      {/* Field */}
+      {/* Platform */}
       <div className="space-y-2">
-        <Label htmlFor="condition-field">
-          Field <span className="text-red-500">*</span>
-        </Label>
+        <Label>Platform</Label>
         <Select
-          value={data.field || ''}
-          onValueChange={(value) => onChange({ field: value })}
+          value={config.platform || 'slack'}
+          onValueChange={(value) => updateConfig({ platform: value as 'slack' | 'teams' })}
         >
           <SelectTrigger>
-            <SelectValue placeholder="Select field" />
+            <SelectValue />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="priority">priority</SelectItem>
-            <SelectItem value="status">status</SelectItem>
-            <SelectItem value="metadata.service">service</SelectItem>
-            <SelectItem value="team.name">team name</SelectItem>
+            <SelectItem value="slack">Slack</SelectItem>
+            <SelectItem value="teams">Microsoft Teams</SelectItem>
           </SelectContent>
         </Select>
       </div>
 
-      {/* Value */}
+      {/* Destination */}
+      {config.platform === 'teams' ? (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="teams-team-id">
+              Team ID <span className="text-red-500">*</span>
+            </Label>
+            <Input
+              id="teams-team-id"
+              value={config.teamsTeamId || ''}
+              onChange={(e) => updateConfig({ teamsTeamId: e.target.value })}
+              className={cn(!config.teamsTeamId && 'border-red-300')}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="teams-channel-id">
+              Channel ID <span className="text-red-500">*</span>
+            </Label>
+            <Input
+              id="teams-channel-id"
+              value={config.teamsChannelId || ''}
+              onChange={(e) => updateConfig({ teamsChannelId: e.target.value })}
+              className={cn(!config.teamsChannelId && 'border-red-300')}
+            />
+          </div>
+        </>
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor="slack-channel">Channel</Label>
+          <Input
+            id="slack-channel"
+            value={config.channel || ''}
+            onChange={(e) => updateConfig({ channel: e.target.value || undefined })}
+            placeholder="#incidents"
+          />
+          <p className="text-xs text-muted-foreground">
+            Leave empty to use the team's Slack channel
+          </p>
+        </div>
+      )}
+
+      {/* Message (template) */}
+      <div className="space-y-2">
+        <Label htmlFor="channel-message">
+          Message <span className="text-red-500">*</span>
+        </Label>
+        <Textarea
+          id="channel-message"
+          value={config.message || ''}
+          onChange={(e) => updateConfig({ message: e.target.value })}
+          placeholder="{{incident.priority}} incident: {{incident.title}}"
+          rows={4}
+          className={cn(!config.message && 'border-red-300')}
+        />
+        <TemplateVariablesHelper
+          onInsert={(v) => updateConfig({ message: (config.message || '') + v })}
+        />
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// INCIDENT ACTION CONFIG
+// =============================================================================
+
+const PAGE_CHANNELS = ['email', 'slack', 'push', 'sms', 'voice'];
+
+const INCIDENT_ACTION_HEADERS: Record<IncidentActionData['actionType'], { icon: typeof Zap; title: string }> = {
+  update_priority: { icon: Flag, title: 'Configure Priority Change' },
+  reassign: { icon: UserCog, title: 'Configure Reassignment' },
+  add_note: { icon: StickyNote, title: 'Configure Timeline Note' },
+  escalate: { icon: ChevronsUp, title: 'Configure Escalation' },
+  resolve: { icon: CheckCircle, title: 'Configure Resolution' },
+  publish_status: { icon: Megaphone, title: 'Configure Status Update' },
+  page_user: { icon: BellRing, title: 'Configure Page' },
+};
+
+interface IncidentActionConfigProps {
+  data: IncidentActionData;
+  onChange: (data: Partial<ActionData>) => void;
+}
+
+function IncidentActionConfig({ data, onChange }: IncidentActionConfigProps) {
+  const { data: statusPages, isLoading: loadingStatusPages } = useStatusPages();
+
+  const updateConfig = (updates: Record<string, unknown>) => {
+    onChange({
+      ...data,
+      config: { ...data.config, ...updates },
+    } as Partial<ActionData>);
+  };
+
+  const renderFields = () => {
+    switch (data.actionType) {
+      case 'update_priority':
+        return (
+          <div className="space-y-2">
+            <Label>New Priority</Label>
+            <Select
+              value={data.config.priority || 'HIGH'}
+              onValueChange={(value) => updateConfig({ priority: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="CRITICAL">Critical</SelectItem>
+                <SelectItem value="HIGH">High</SelectItem>
+                <SelectItem value="MEDIUM">Medium</SelectItem>
+                <SelectItem value="LOW">Low</SelectItem>
+                <SelectItem value="INFO">Info</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        );
+
+      case 'reassign':
+      case 'page_user':
+        return (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="action-user-id">
+                User ID <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                id="action-user-id"
+                value={data.config.userId || ''}
+                onChange={(e) => updateConfig({ userId: e.target.value })}
+                className={cn(!data.config.userId && 'border-red-300')}
+              />
+              {data.actionType === 'reassign' && (
+                <p className="text-xs text-muted-foreground">
+                  Must be an active responder on the incident's team
+                </p>
+              )}
+            </div>
+            {data.actionType === 'page_user' && (
+              <div className="space-y-2">
+                <Label>Channels</Label>
+                <div className="flex flex-wrap gap-1">
+                  {PAGE_CHANNELS.map((channel) => {
+                    const selected = data.config.channels?.includes(channel) ?? false;
+                    return (
+                      <Badge
+                        key={channel}
+                        variant={selected ? 'default' : 'outline'}
+                        className="cursor-pointer"
+                        onClick={() => {
+                          const current = data.config.channels ?? [];
+                          const next = selected
+                            ? current.filter((c) => c !== channel)
+                            : [...current, channel];
+                          updateConfig({ channels: next.length > 0 ? next : undefined });
+                        }}
+                      >
+                        {channel}
+                      </Badge>
+                    );
+                  })}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  None selected uses the user's notification preferences
+                </p>
+              </div>
+            )}
+          </>
+        );
+
+      case 'add_note':
+        return (
+          <div className="space-y-2">
+            <Label htmlFor="action-note">
+              Note <span className="text-red-500">*</span>
+            </Label>
+            <Textarea
+              id="action-note"
+              value={data.config.note || ''}
+              onChange={(e) => updateConfig({ note: e.target.value })}
+              rows={4}
+              className={cn(!data.config.note && 'border-red-300')}
+            />
+            <TemplateVariablesHelper
+              onInsert={(v) => updateConfig({ note: (data.config.note || '') + v })}
+            />
+          </div>
+        );
+
+      case 'escalate':
+        return (
+          <div className="space-y-2">
+            <Label htmlFor="action-reason">Reason</Label>
+            <Input
+              id="action-reason"
+              value={data.config.reason || ''}
+              onChange={(e) => updateConfig({ reason: e.target.value || undefined })}
+              placeholder="No response after {{workflow.name}}"
+            />
+            <p className="text-xs text-muted-foreground">
+              Pages the next escalation level immediately
+            </p>
+          </div>
+        );
+
+      case 'resolve':
+        return (
+          <div className="space-y-2">
+            <Label htmlFor="action-resolution">Resolution Note</Label>
+            <Textarea
+              id="action-resolution"
+              value={data.config.resolutionNote || ''}
+              onChange={(e) => updateConfig({ resolutionNote: e.target.value || undefined })}
+              rows={3}
+            />
+          </div>
+        );
+
+      case 'publish_status':
+        return (
+          <>
+            <div className="space-y-2">
+              <Label>
+                Status Page <span className="text-red-500">*</span>
+              </Label>
+              <Select
+                value={data.config.statusPageId || ''}
+                onValueChange={(value) => updateConfig({ statusPageId: value })}
+                disabled={loadingStatusPages}
+              >
+                <SelectTrigger className={cn(!data.config.statusPageId && 'border-red-300')}>
+                  <SelectValue placeholder={loadingStatusPages ? 'Loading...' : 'Select status page'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {statusPages?.map((page) => (
+                    <SelectItem key={page.id} value={page.id}>
+                      {page.name} ({page.team.name})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Must belong to the incident's team
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Severity</Label>
+              <Select
+                value={data.config.severity || 'MAJOR'}
+                onValueChange={(value) => updateConfig({ severity: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="MINOR">Minor</SelectItem>
+                  <SelectItem value="MAJOR">Major</SelectItem>
+                  <SelectItem value="CRITICAL">Critical</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="status-title">
+                Title <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                id="status-title"
+                value={data.config.title || ''}
+                onChange={(e) => updateConfig({ title: e.target.value })}
+                placeholder="Degraded performance"
+                className={cn(!data.config.title && 'border-red-300')}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="status-message">
+                Message <span className="text-red-500">*</span>
+              </Label>
+              <Textarea
+                id="status-message"
+                value={data.config.message || ''}
+                onChange={(e) => updateConfig({ message: e.target.value })}
+                placeholder="We are investigating reports of elevated errors."
+                rows={3}
+                className={cn(!data.config.message && 'border-red-300')}
+              />
+            </div>
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Name */}
+      <div className="space-y-2">
+        <Label htmlFor="incident-action-name">
+          Name <span className="text-red-500">*</span>
+        </Label>
+        <Input
+          id="incident-action-name"
+          value={data.name || ''}
+          onChange={(e) => onChange({ ...data, name: e.target.value })}
+        />
+      </div>
+
+      {renderFields()}
+    </div>
+  );
+}
+
+// =============================================================================
+// CONDITION CONFIG
+// =============================================================================
+
+interface ConditionConfigProps {
+  data: ConditionData;
+  onChange: (data: Partial<ConditionData>) => void;
+}
+
+const CONDITION_FIELDS = [
+  'priority',
+  'status',
+  'metadata.service',
+  'team.name',
+  'incident.title',
+  'assignee.email',
+];
+
+function ConditionConfig({ data, onChange }: ConditionConfigProps) {
+  const group: ConditionGroup = data.group ?? {
+    match: 'all',
+    conditions: [{ field: data.field || '', operator: data.operator || '=', value: data.value || '' }],
+  };
+
+  const handleGroupChange = (next: ConditionGroup) => {
+    const [only] = next.conditions;
+    // A single rule is stored flat so simple conditions stay readable
+    if (next.match === 'all' && next.conditions.length === 1 && !isConditionGroup(only)) {
+      onChange({ field: only.field, operator: only.operator || '=', value: only.value, group: undefined });
+    } else {
+      onChange({ group: next });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Name */}
       <div className="space-y-2">
-        <Label htmlFor="condition-value">
-          Value <span className="text-red-500">*</span>
+        <Label htmlFor="condition-name">
+          Name <span className="text-red-500">*</span>
         </Label>
         <Input
-          id="condition-value"
-          value={data.value || ''}
-          onChange={(e) => onChange({ value: e.target.value })}
-          placeholder="e.g., CRITICAL"
+          id="condition-name"
+          value={data.name || ''}
+          onChange={(e) => onChange({ name: e.target.value })}
+          placeholder="e.g., Check Priority"
         />
       </div>
 
+      {/* Conditions */}
+      <div className="space-y-2">
+        <Label>
+          Conditions <span className="text-red-500">*</span>
+        </Label>
+        <ConditionGroupEditor group={group} onChange={handleGroupChange} fields={CONDITION_FIELDS} />
+      </div>
+
       {/* Preview */}
       <div className="bg-muted/50 rounded-lg p-3">
         <Label className="text-xs text-muted-foreground">Condition Preview</Label>
-        <div className="mt-1 font-mono text-sm">
-          if ({data.field || 'field'} = "{data.value || 'value'}") then...
+        <div className="mt-1 font-mono text-sm break-words">
+          if {formatConditionRule(group)} then...
         </div>
         <div className="mt-2 flex gap-4 text-xs">
           <span className="text-green-600">True path: right handle</span>
@@ -1138,14 +1487,35 @@ interface DelayConfigProps {
 }
 
 const DELAY_PRESETS = [
-  { label: '1 min', value: 1 },
   { label: '5 min', value: 5 },
   { label: '15 min', value: 15 },
-  { label: '30 min', value: 30 },
   { label: '1 hour', value: 60 },
+  { label: '4 hours', value: 240 },
+  { label: '1 day', value: 1440 },
+  { label: '3 days', value: 4320 },
 ];
 
+type DelayUnit = 'minutes' | 'hours' | 'days';
+
+const DELAY_UNIT_MINUTES: Record<DelayUnit, number> = {
+  minutes: 1,
+  hours: 60,
+  days: 1440,
+};
+
+/**
+ * Largest unit the duration divides evenly into, so 1440 shows as 1 day
+ */
+function delayUnitFor(minutes: number | undefined): DelayUnit {
+  if (minutes && minutes % DELAY_UNIT_MINUTES.days === 0) return 'days';
+  if (minutes && minutes % DELAY_UNIT_MINUTES.hours === 0) return 'hours';
+  return 'minutes';
+}
+
 function DelayConfig({ data, onChange }: DelayConfigProps) {
+  const [unit, setUnit] = useState<DelayUnit>(() => delayUnitFor(data.durationMinutes));
+  const amount = data.durationMinutes ? data.durationMinutes / DELAY_UNIT_MINUTES[unit] : undefined;
+
   return (
     <div className="space-y-4">
       {/* Name */}
@@ -1164,19 +1534,44 @@ function DelayConfig({ data, onChange }: DelayConfigProps) {
       {/* Duration */}
       <div className="space-y-2">
         <Label htmlFor="delay-duration">
-          Duration (minutes) <span className="text-red-500">*</span>
+          Duration <span className="text-red-500">*</span>
         </Label>
-        <Input
-          id="delay-duration"
-          type="number"
-          min={1}
-          value={data.durationMinutes || ''}
-          onChange={(e) =>
-            onChange({ durationMinutes: parseInt(e.target.value) || undefined })
-          }
-          placeholder="Enter duration"
-          className={cn(!data.durationMinutes && 'border-red-300')}
-        />
+        <div className="flex gap-2">
+          <Input
+            id="delay-duration"
+            type="number"
+            min={1}
+            value={amount || ''}
+            onChange={(e) => {
+              const value = parseInt(e.target.value);
+              onChange({ durationMinutes: value ? value * DELAY_UNIT_MINUTES[unit] : undefined });
+            }}
+            placeholder="Enter duration"
+            className={cn('flex-1', !data.durationMinutes && 'border-red-300')}
+          />
+          <Select
+            value={unit}
+            onValueChange={(value) => {
+              const next = value as DelayUnit;
+              setUnit(next);
+              if (amount) {
+                onChange({ durationMinutes: Math.round(amount * DELAY_UNIT_MINUTES[next]) });
+              }
+            }}
+          >
+            <SelectTrigger className="w-[110px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="minutes">Minutes</SelectItem>
+              <SelectItem value="hours">Hours</SelectItem>
+              <SelectItem value="days">Days</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Delays are scheduled in the background and survive restarts (up to 30 days)
+        </p>
       </div>
 
       {/* Presets */}
@@ -1188,7 +1583,10 @@ function DelayConfig({ data, onChange }: DelayConfigProps) {
               key={preset.value}
               variant={data.durationMinutes === preset.value ? 'default' : 'secondary'}
               className="cursor-pointer"
-              onClick={() => onChange({ durationMinutes: preset.value })}
+              onClick={() => {
+                setUnit(delayUnitFor(preset.value));
+                onChange({ durationMinutes: preset.value });
+              }}
             >
               {preset.label}
             </Badge>
@@ -1252,6 +1650,15 @@ export function NodeConfigPanel({ selectedNode, onChange }: NodeConfigPanelProps
       Icon = BookOpen;
       title = 'Configure Runbook';
       color = 'text-green-600';
+    } else if (actionType === 'notify_channel') {
+      Icon = MessageSquare;
+      title = 'Configure Channel Message';
+      color = 'text-sky-600';
+    } else if (actionType in INCIDENT_ACTION_HEADERS) {
+      const header = INCIDENT_ACTION_HEADERS[actionType as IncidentActionData['actionType']];
+      Icon = header.icon;
+      title = header.title;
+      color = 'text-rose-600';
     }
   } else if (nodeType === 'condition') {
     Icon = GitBranch;
@@ -1307,6 +1714,17 @@ export function NodeConfigPanel({ selectedNode, onChange }: NodeConfigPanelProps
           />
         )}
 
+        {nodeType === 'action' && (nodeData as ActionData).actionType === 'notify_channel' && (
+          <ChannelConfig
+            data={nodeData as ActionData & { actionType: 'notify_channel' }}
+            onChange={handleChange}
+          />
+        )}
+
+        {nodeType === 'action' && (nodeData as ActionData).actionType in INCIDENT_ACTION_HEADERS && (
+          <IncidentActionConfig data={nodeData as IncidentActionData} onChange={handleChange} />
+        )}
+
         {nodeType === 'condition' && (
           <ConditionConfig data={nodeData as ConditionData} onChange={handleChange} />
         )}
@@ -18,10 +18,24 @@ import {
   ArrowUp,
   Hand,
   Clock,
+  Bell,
+  MessageSquarePlus,
+  Users,
+  AlarmClock,
+  FileText,
+  CalendarX,
   Globe,
   Ticket,
   ListTodo,
   BookOpen,
+  MessageSquare,
+  Flag,
+  UserCog,
+  StickyNote,
+  ChevronsUp,
+  CheckCircle,
+  Megaphone,
+  BellRing,
   GitBranch,
   Timer,
   Sparkles,
@@ -108,6 +122,60 @@ const triggerNodes: DraggableNodeConfig[] = [
     color: 'text-purple-600 dark:text-purple-400',
     iconBg: 'bg-purple-100 dark:bg-purple-900',
   },
+  {
+    type: 'trigger',
+    subType: 'alert_received',
+    label: 'Alert Received',
+    description: 'When an alert groups into an incident',
+    icon: Bell,
+    color: 'text-purple-600 dark:text-purple-400',
+    iconBg: 'bg-purple-100 dark:bg-purple-900',
+  },
+  {
+    type: 'trigger',
+    subType: 'note_added',
+    label: 'Note Added',
+    description: 'When a timeline note is added',
+    icon: MessageSquarePlus,
+    color: 'text-purple-600 dark:text-purple-400',
+    iconBg: 'bg-purple-100 dark:bg-purple-900',
+  },
+  {
+    type: 'trigger',
+    subType: 'reassigned',
+    label: 'Reassigned',
+    description: 'When the incident is reassigned',
+    icon: Users,
+    color: 'text-purple-600 dark:text-purple-400',
+    iconBg: 'bg-purple-100 dark:bg-purple-900',
+  },
+  {
+    type: 'trigger',
+    subType: 'ack_timeout',
+    label: 'Not Acknowledged',
+    description: 'No acknowledgment after N minutes',
+    icon: AlarmClock,
+    color: 'text-purple-600 dark:text-purple-400',
+    iconBg: 'bg-purple-100 dark:bg-purple-900',
+  },
+  {
+    type: 'trigger',
+    subType: 'postmortem_published',
+    label: 'Postmortem Published',
+    description: 'When a linked postmortem is published',
+    icon: FileText,
+    color: 'text-purple-600 dark:text-purple-400',
+    iconBg: 'bg-purple-100 dark:bg-purple-900',
+  },
+  {
+    type: 'trigger',
+    subType: 'action_item_overdue',
+    label: 'Action Item Overdue',
+    description: 'When a postmortem action item is overdue',
+    icon: CalendarX,
+    color: 'text-purple-600 dark:text-purple-400',
+    iconBg: 'bg-purple-100 dark:bg-purple-900',
+  },
 ];
 
 const actionNodes: DraggableNodeConfig[] = [
@@ -147,6 +215,81 @@ const actionNodes: DraggableNodeConfig[] = [
     color: 'text-green-600 dark:text-green-400',
     iconBg: 'bg-green-100 dark:bg-green-900',
   },
+  {
+    type: 'action',
+    subType: 'notify_channel',
+    label: 'Post to Channel',
+    description: 'Send a message to Slack or Teams',
+    icon: MessageSquare,
+    color: 'text-sky-600 dark:text-sky-400',
+    iconBg: 'bg-sky-100 dark:bg-sky-900',
+  },
+];
+
+const incidentActionNodes: DraggableNodeConfig[] = [
+  {
+    type: 'action',
+    subType: 'update_priority',
+    label: 'Change Priority',
+    description: 'Set the incident priority',
+    icon: Flag,
+    color: 'text-rose-600 dark:text-rose-400',
+    iconBg: 'bg-rose-100 dark:bg-rose-900',
+  },
+  {
+    type: 'action',
+    subType: 'reassign',
+    label: 'Reassign',
+    description: 'Assign to another responder',
+    icon: UserCog,
+    color: 'text-rose-600 dark:text-rose-400',
+    iconBg: 'bg-rose-100 dark:bg-rose-900',
+  },
+  {
+    type: 'action',
+    subType: 'add_note',
+    label: 'Add Timeline Note',
+    description: 'Add a note to the incident',
+    icon: StickyNote,
+    color: 'text-rose-600 dark:text-rose-400',
+    iconBg: 'bg-rose-100 dark:bg-rose-900',
+  },
+  {
+    type: 'action',
+    subType: 'escalate',
+    label: 'Escalate',
+    description: 'Page the next escalation level now',
+    icon: ChevronsUp,
+    color: 'text-rose-600 dark:text-rose-400',
+    iconBg: 'bg-rose-100 dark:bg-rose-900',
+  },
+  {
+    type: 'action',
+    subType: 'resolve',
+    label: 'Resolve',
+    description: 'Resolve the incident',
+    icon: CheckCircle,
+    color: 'text-rose-600 dark:text-rose-400',
+    iconBg: 'bg-rose-100 dark:bg-rose-900',
+  },
+  {
+    type: 'action',
+    subType: 'publish_status',
+    label: 'Publish Status Update',
+    description: 'Post an incident to a status page',
+    icon: Megaphone,
+    color: 'text-rose-600 dark:text-rose-400',
+    iconBg: 'bg-rose-100 dark:bg-rose-900',
+  },
+  {
+    type: 'action',
+    subType: 'page_user',
+    label: 'Page User',
+    description: 'Notify an additional responder',
+    icon: BellRing,
+    color: 'text-rose-600 dark:text-rose-400',
+    iconBg: 'bg-rose-100 dark:bg-rose-900',
+  },
 ];
 
 const flowControlNodes: DraggableNodeConfig[] = [
@@ -308,6 +451,8 @@ export function WorkflowSidebar({ onStartFromTemplate, hasTrigger }: SidebarProp
 
         <NodeSection title="Actions" nodes={actionNodes} />
 
+        <NodeSection title="Incident Actions" nodes={incidentActionNodes} />
+
         <NodeSection title="Flow Control" nodes={flowControlNodes} />
       </div>
 
@@ -10,6 +10,7 @@
  * - Color coding: running=blue, completed=green, failed=red
  * - Clickable ticket URLs and webhook status codes
  * - Duration display
+ * - Resume a failed execution, or re-run its failed action node
  */
 
 import { useState, useMemo } from 'react';
@@ -26,15 +27,24 @@ import {
   AlertTriangle,
   Webhook,
   Ticket,
+  RotateCcw,
+  Play,
 } from 'lucide-react';
+import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import {
   Collapsible,
   CollapsibleContent,
   CollapsibleTrigger,
 } from '@/components/ui/collapsible';
+import {
+  useIncidentWorkflowExecutions,
+  useRetryWorkflowExecution,
+} from '@/hooks/useWorkflows';
 import type { TimelineEvent } from '@/types/incident';
+import type { IncidentWorkflowExecution } from '@/types/workflow';
 
 // =============================================================================
 // TYPES
@@ -367,3 +377,110 @@ export function WorkflowTimelineEntry({ execution }: WorkflowTimelineEntryProps)
     </Collapsible>
   );
 }
+
+// =============================================================================
+// FAILED EXECUTIONS
+// =============================================================================
+
+interface FailedExecutionItemProps {
+  execution: IncidentWorkflowExecution;
+  onRetry: (nodeId?: string) => void;
+  isRetrying: boolean;
+}
+
+function FailedExecutionItem({ execution, onRetry, isRetrying }: FailedExecutionItemProps) {
+  // The execution stopped at its last result; only a failed action node can be re-run
+  const lastResult = execution.completedNodes[execution.completedNodes.length - 1];
+  const failedNode =
+    lastResult?.status === 'failed'
+      ? execution.definitionSnapshot.nodes.find((n) => n.id === lastResult.nodeId)
+      : undefined;
+
+  return (
+    <div className="rounded-lg border border-red-200 bg-red-50 p-3">
+      <div className="flex items-center gap-2">
+        <XCircle className="h-4 w-4 text-red-500 flex-shrink-0" />
+        <span className="font-medium truncate flex-1">{execution.workflow.name}</span>
+        {execution.failedAt && (
+          <span className="text-xs text-muted-foreground whitespace-nowrap">
+            {formatDistanceToNow(new Date(execution.failedAt), { addSuffix: true })}
+          </span>
+        )}
+      </div>
+
+      {failedNode && (
+        <div className="text-sm mt-1 pl-6">Failed at {failedNode.data.name}</div>
+      )}
+      {execution.error && (
+        <div className="text-xs text-red-500 mt-0.5 pl-6 truncate">{execution.error}</div>
+      )}
+
+      {/* Completed steps are not repeated either way */}
+      <div className="flex gap-2 mt-2 pl-6">
+        {failedNode?.type === 'action' && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onRetry(failedNode.id)}
+            disabled={isRetrying}
+          >
+            <RotateCcw className="h-3.5 w-3.5 mr-1" />
+            Re-run failed step
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onRetry()}
+          disabled={isRetrying}
+        >
+          <Play className="h-3.5 w-3.5 mr-1" />
+          Resume from failed step
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface FailedWorkflowExecutionsProps {
+  incidentId: string;
+}
+
+/**
+ * Failed workflow executions for an incident, with actions to resume from
+ * the failed step or re-run just that step and carry on
+ */
+export function FailedWorkflowExecutions({ incidentId }: FailedWorkflowExecutionsProps) {
+  const { data: executions } = useIncidentWorkflowExecutions(incidentId);
+  const retryExecution = useRetryWorkflowExecution();
+
+  const failed = (executions ?? []).filter((e) => e.status === 'FAILED');
+  if (failed.length === 0) return null;
+
+  const handleRetry = (executionId: string, nodeId?: string) => {
+    retryExecution.mutate(
+      { executionId, nodeId },
+      {
+        onSuccess: () => {
+          toast.success(nodeId ? 'Re-running failed step' : 'Resuming workflow from failed step');
+        },
+        onError: (error) => {
+          toast.error(`Failed to retry workflow: ${error.message}`);
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-2 mb-3">
+      {failed.map((execution) => (
+        <FailedExecutionItem
+          key={execution.id}
+          execution={execution}
+          onRetry={(nodeId) => handleRetry(execution.id, nodeId)}
+          isRetrying={retryExecution.isPending}
+        />
+      ))}
+    </div>
+  );
+}
@@ -1,16 +1,31 @@
 /**
  * ActionNode - Custom React Flow node for workflow actions
  *
- * Displays action type (webhook, jira, linear) with appropriate icon.
- * Shows action name and brief config summary.
- * Color coding: webhook=blue, jira=blue-500, linear=purple
+ * Displays action type (webhook, jira, linear, channel, incident actions)
+ * with appropriate icon. Shows action name and brief config summary.
+ * Color coding: webhook=blue, jira=blue-500, linear=purple, channel=sky,
+ * built-in incident actions=rose
  * Handle for input (top) and output (bottom).
  */
 
 import { Handle, Position, type NodeProps, type Node } from '@xyflow/react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Globe, ExternalLink, AlertCircle, RefreshCw } from 'lucide-react';
+import {
+  Globe,
+  ExternalLink,
+  AlertCircle,
+  RefreshCw,
+  BookOpen,
+  MessageSquare,
+  Flag,
+  UserCog,
+  StickyNote,
+  ChevronsUp,
+  CheckCircle,
+  Megaphone,
+  BellRing,
+} from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { ActionData, ActionType } from '@/types/workflow';
 
@@ -28,6 +43,25 @@ const LinearIcon = () => (
   </svg>
 );
 
+// Built-in actions share the incident color scheme
+const incidentActionColors = {
+  bgColor: 'bg-gradient-to-br from-rose-50 to-pink-50 dark:from-rose-950 dark:to-pink-950',
+  borderColor: 'border-rose-200 dark:border-rose-800',
+  textColor: 'text-rose-600 dark:text-rose-400',
+  iconBgColor: 'bg-rose-100 dark:bg-rose-900',
+};
+
+// Actions that change the incident itself (no external system involved)
+const INCIDENT_ACTIONS: ActionType[] = [
+  'update_priority',
+  'reassign',
+  'add_note',
+  'escalate',
+  'resolve',
+  'publish_status',
+  'page_user',
+];
+
 // Configuration for each action type
 const actionConfig: Record<ActionType, {
   icon: React.ElementType;
@@ -61,6 +95,29 @@ const actionConfig: Record<ActionType, {
     textColor: 'text-violet-600 dark:text-violet-400',
     iconBgColor: 'bg-violet-100 dark:bg-violet-900',
   },
+  runbook: {
+    icon: BookOpen,
+    label: 'Runbook',
+    bgColor: 'bg-gradient-to-br from-green-50 to-emerald-50 dark:from-green-950 dark:to-emerald-950',
+    borderColor: 'border-green-200 dark:border-green-800',
+    textColor: 'text-green-600 dark:text-green-400',
+    iconBgColor: 'bg-green-100 dark:bg-green-900',
+  },
+  notify_channel: {
+    icon: MessageSquare,
+    label: 'Channel Message',
+    bgColor: 'bg-gradient-to-br from-sky-50 to-cyan-50 dark:from-sky-950 dark:to-cyan-950',
+    borderColor: 'border-sky-200 dark:border-sky-800',
+    textColor: 'text-sky-600 dark:text-sky-400',
+    iconBgColor: 'bg-sky-100 dark:bg-sky-900',
+  },
+  update_priority: { icon: Flag, label: 'Change Priority', ...incidentActionColors },
+  reassign: { icon: UserCog, label: 'Reassign', ...incidentActionColors },
+  add_note: { icon: StickyNote, label: 'Timeline Note', ...incidentActionColors },
+  escalate: { icon: ChevronsUp, label: 'Escalate', ...incidentActionColors },
+  resolve: { icon: CheckCircle, label: 'Resolve', ...incidentActionColors },
+  publish_status: { icon: Megaphone, label: 'Status Page Update', ...incidentActionColors },
+  page_user: { icon: BellRing, label: 'Page User', ...incidentActionColors },
 };
 
 type ActionNodeProps = NodeProps<Node<ActionData>>;
@@ -105,6 +162,23 @@ export function ActionNode({ id, data, selected }: ActionNodeProps) {
           </span>
         );
       }
+      case 'notify_channel': {
+        const channelConfig = data.config;
+        const destination = channelConfig.platform === 'teams'
+          ? 'Teams channel'
+          : channelConfig.channel || 'Team Slack channel';
+        return <span className="truncate">{destination}</span>;
+      }
+      case 'update_priority':
+        return <span className="truncate">Set to {data.config.priority}</span>;
+      case 'publish_status':
+        return <span className="truncate">{data.config.severity}: {data.config.title}</span>;
+      case 'page_user':
+        return (
+          <span className="truncate">
+            {data.config.channels?.length ? data.config.channels.join(', ') : 'User preferences'}
+          </span>
+        );
       default:
         return null;
     }
@@ -172,13 +246,15 @@ export function ActionNode({ id, data, selected }: ActionNodeProps) {
         )}
 
         {/* External link indicator */}
-        <Badge
-          variant="secondary"
-          className="text-xs gap-1"
-        >
-          <ExternalLink className="h-3 w-3" />
-          External
-        </Badge>
+        {!INCIDENT_ACTIONS.includes(data.actionType) && (
+          <Badge
+            variant="secondary"
+            className="text-xs gap-1"
+          >
+            <ExternalLink className="h-3 w-3" />
+            External
+          </Badge>
+        )}
       </div>
 
       {/* Output handle at bottom */}
@@ -2,7 +2,7 @@
  * ConditionNode - Custom React Flow node for if/else branching
  *
  * Distinctive diamond-like visual for branching decisions.
- * Shows condition: field operator value
+ * Shows condition: field operator value, or the group summary
  * Two output handles: 'true' (right/green) and 'false' (left/red)
  * Yellow/amber color scheme for conditions.
  */
@@ -13,11 +13,13 @@ import { Badge } from '@/components/ui/badge';
 import { GitBranch, AlertCircle, CheckCircle, XCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { ConditionData } from '@/types/workflow';
+import { formatConditionRule, isConditionComplete } from '../ConditionGroupEditor';
 
 type ConditionNodeProps = NodeProps<Node<ConditionData>>;
 
 export function ConditionNode({ id, data, selected }: ConditionNodeProps) {
-  const hasValidationError = !data.name || !data.field || !data.value;
+  const rule = data.group ?? { field: data.field, operator: data.operator, value: data.value };
+  const hasValidationError = !data.name || !isConditionComplete(rule);
 
   const handleClick = () => {
     window.dispatchEvent(
@@ -63,7 +65,7 @@ export function ConditionNode({ id, data, selected }: ConditionNodeProps) {
       {/* Condition display */}
       <div className="bg-white dark:bg-amber-900/50 rounded-md p-2 text-center">
         <code className="text-xs font-mono text-amber-800 dark:text-amber-200">
-          {data.field || 'field'} {data.operator || '='} {data.value || 'value'}
+          {formatConditionRule(rule)}
         </code>
       </div>
 
@@ -26,6 +26,10 @@ function formatDuration(minutes: number): string {
   if (minutes < 60) {
     return `${minutes} minutes`;
   }
+  if (minutes >= 1440 && minutes % 1440 === 0) {
+    const days = minutes / 1440;
+    return days === 1 ? '1 day' : `${days} days`;
+  }
   const hours = Math.floor(minutes / 60);
   const remainingMinutes = minutes % 60;
   if (remainingMinutes === 0) {
@@ -1,17 +1,31 @@
 /**
  * TriggerNode - Custom React Flow node for workflow triggers
  *
- * Displays trigger type (incident_created, state_changed, escalation, manual, age)
- * with conditions visualized as badges. Purple/indigo color scheme for triggers.
+ * Displays trigger type (incident, alert, note, reassignment, ack timeout and
+ * postmortem events) with conditions visualized as badges. Purple/indigo color scheme for triggers.
  * Source handle at bottom only (trigger is always first node).
  */
 
 import { Handle, Position, type NodeProps, type Node } from '@xyflow/react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Zap, RefreshCw, ArrowUp, Hand, Clock, AlertCircle } from 'lucide-react';
+import {
+  Zap,
+  RefreshCw,
+  ArrowUp,
+  Hand,
+  Clock,
+  Bell,
+  MessageSquarePlus,
+  Users,
+  AlarmClock,
+  FileText,
+  CalendarX,
+  AlertCircle,
+} from 'lucide-react';
 import { cn } from '@/lib/utils';
-import type { TriggerData, TriggerType, TriggerCondition } from '@/types/workflow';
+import type { TriggerData, TriggerType, ConditionRule } from '@/types/workflow';
+import { formatConditionRule } from '../ConditionGroupEditor';
 
 // Icon mapping for trigger types
 const triggerIcons: Record<TriggerType, React.ElementType> = {
@@ -20,6 +34,12 @@ const triggerIcons: Record<TriggerType, React.ElementType> = {
   escalation: ArrowUp,
   manual: Hand,
   age: Clock,
+  alert_received: Bell,
+  note_added: MessageSquarePlus,
+  reassigned: Users,
+  ack_timeout: AlarmClock,
+  postmortem_published: FileText,
+  action_item_overdue: CalendarX,
 };
 
 // Human-readable trigger type labels
@@ -29,6 +49,12 @@ const triggerLabels: Record<TriggerType, string> = {
   escalation: 'Escalation',
   manual: 'Manual Trigger',
   age: 'Incident Age',
+  alert_received: 'Alert Received',
+  note_added: 'Note Added',
+  reassigned: 'Reassigned',
+  ack_timeout: 'Not Acknowledged',
+  postmortem_published: 'Postmortem Published',
+  action_item_overdue: 'Action Item Overdue',
 };
 
 type TriggerNodeProps = NodeProps<Node<TriggerData>>;
@@ -73,13 +99,13 @@ export function TriggerNode({ id, data, selected }: TriggerNodeProps) {
       {/* Conditions */}
       {data.conditions && data.conditions.length > 0 && (
         <div className="flex flex-wrap gap-1 mt-2">
-          {data.conditions.map((condition: TriggerCondition, index: number) => (
+          {data.conditions.map((condition: ConditionRule, index: number) => (
             <Badge
               key={index}
               variant="secondary"
               className="text-xs bg-purple-100 dark:bg-purple-900 text-purple-700 dark:text-purple-300"
             >
-              {condition.field} = {condition.value}
+              {formatConditionRule(condition)}
             </Badge>
           ))}
         </div>
@@ -97,6 +123,18 @@ export function TriggerNode({ id, data, selected }: TriggerNodeProps) {
         </div>
       )}
 
+      {/* Timeout for ack_timeout trigger */}
+      {data.triggerType === 'ack_timeout' && (
+        <div className="mt-2">
+          <Badge
+            variant="outline"
+            className="text-xs border-purple-300 dark:border-purple-700"
+          >
+            No ack after {data.ackTimeoutMinutes || 15} minutes
+          </Badge>
+        </div>
+      )}
+
       {/* State transition for state_changed trigger */}
       {data.triggerType === 'state_changed' && data.stateTransition && (
         <div className="mt-2">
@@ -3,7 +3,9 @@ import {
   isWebAuthnSupported,
   isPlatformAuthenticatorAvailable,
   registerBiometric,
-  hasBiometricCredential,
+  listBiometricCredentials,
+  revokeBiometricCredential,
+  type BiometricCredential,
 } from '@/lib/webauthn';
 import { toast } from 'sonner';
 
@@ -12,7 +14,9 @@ interface UseBiometricAuthReturn {
   isAvailable: boolean;
   isRegistered: boolean;
   isLoading: boolean;
+  credentials: BiometricCredential[];
   register: () => Promise<boolean>;
+  revoke: (id: string) => Promise<boolean>;
   checkStatus: () => Promise<void>;
 }
 
@@ -21,6 +25,7 @@ export function useBiometricAuth(): UseBiometricAuthReturn {
   const [isAvailable, setIsAvailable] = useState(false);
   const [isRegistered, setIsRegistered] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [credentials, setCredentials] = useState<BiometricCredential[]>([]);
 
   const checkStatus = useCallback(async () => {
     if (!isSupported) return;
@@ -31,8 +36,9 @@ export function useBiometricAuth(): UseBiometricAuthReturn {
       setIsAvailable(available);
 
       if (available) {
-        const registered = await hasBiometricCredential();
-        setIsRegistered(registered);
+        const registered = await listBiometricCredentials().catch(() => []);
+        setCredentials(registered);
+        setIsRegistered(registered.length > 0);
       }
     } finally {
       setIsLoading(false);
@@ -63,7 +69,7 @@ export function useBiometricAuth(): UseBiometricAuthReturn {
       const success = await registerBiometric(user.id, user.email);
 
       if (success) {
-        setIsRegistered(true);
+        await checkStatus();
         toast.success('Biometric authentication enabled');
         return true;
       } else {
@@ -76,14 +82,35 @@ export function useBiometricAuth(): UseBiometricAuthReturn {
     } finally {
       setIsLoading(false);
     }
-  }, [isSupported, isAvailable]);
+  }, [isSupported, isAvailable, checkStatus]);
+
+  const revoke = useCallback(async (id: string): Promise<boolean> => {
+    setIsLoading(true);
+    try {
+      const success = await revokeBiometricCredential(id);
+
+      if (success) {
+        const remaining = credentials.filter((c) => c.id !== id);
+        setCredentials(remaining);
+        setIsRegistered(remaining.length > 0);
+        toast.success('Biometric credential removed');
+      } else {
+        toast.error('Failed to remove biometric credential');
+      }
+      return success;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [credentials]);
 
   return {
     isSupported,
     isAvailable,
     isRegistered,
     isLoading,
+    credentials,
     register,
+    revoke,
     checkStatus,
   };
 }
@@ -1,11 +1,21 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiFetch } from '@/lib/api';
 
+export interface EscalationTarget {
+  type: 'user' | 'schedule' | 'entire_team';
+  id?: string | null;
+}
+
+// all = page every user on the level; round_robin/least_loaded = page one of them
+export type AssignmentStrategy = 'all' | 'round_robin' | 'least_loaded';
+
 export interface EscalationLevel {
   id: string;
   levelNumber: number;
   targetType: 'user' | 'schedule' | 'entire_team';
   targetId: string | null;
+  targets: EscalationTarget[] | null; // All paged in parallel; null = targetType/targetId only
+  assignmentStrategy: AssignmentStrategy;
   timeoutMinutes: number;
   createdAt: string;
 }
@@ -20,6 +30,8 @@ export interface EscalationPolicy {
     name: string;
   };
   repeatCount: number;
+  // Minutes before an acknowledged incident reopens (null = never)
+  ackTimeoutMinutes: number | null;
   levels: EscalationLevel[];
   createdAt: string;
   updatedAt: string;
@@ -30,18 +42,30 @@ export interface CreateEscalationPolicyInput {
   description?: string;
   teamId: string;
   repeatCount?: number;
+  ackTimeoutMinutes?: number | null;
+}
+
+export interface UpdateEscalationPolicyInput {
+  name?: string;
+  description?: string;
+  repeatCount?: number;
+  ackTimeoutMinutes?: number | null;
 }
 
 export interface CreateLevelInput {
   levelNumber: number;
-  targetType: 'user' | 'schedule' | 'entire_team';
+  targetType?: 'user' | 'schedule' | 'entire_team';
   targetId?: string;
+  targets?: EscalationTarget[];
+  assignmentStrategy?: AssignmentStrategy;
   timeoutMinutes?: number;
 }
 
 export interface UpdateLevelInput {
   targetType?: 'user' | 'schedule' | 'entire_team';
   targetId?: string;
+  targets?: EscalationTarget[];
+  assignmentStrategy?: AssignmentStrategy;
   timeoutMinutes?: number;
 }
 
@@ -99,6 +123,26 @@ export function useCreateEscalationPolicy() {
   });
 }
 
+export function useUpdateEscalationPolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, input }: { id: string; input: UpdateEscalationPolicyInput }) => {
+      const response = await apiFetch<{ policy: EscalationPolicy }>(
+        `/escalation-policies/${id}`,
+        {
+          method: 'PATCH',
+          body: JSON.stringify(input),
+        }
+      );
+      return response.policy;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['escalation-policies'] });
+    },
+  });
+}
+
 export function useDeleteEscalationPolicy() {
   const queryClient = useQueryClient();
 
@@ -1,6 +1,11 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiFetch } from '@/lib/api';
-import type { Incident } from '@/types/incident';
+import {
+  INCIDENT_ROLE_LABELS,
+  type Incident,
+  type IncidentResponder,
+  type NamedIncidentRole,
+} from '@/types/incident';
 import { toast } from 'sonner';
 
 interface AcknowledgeResponse {
@@ -118,6 +123,38 @@ export function useResolveIncident() {
   });
 }
 
+// Snooze mutation - acknowledges and pauses escalation until the snooze ends
+export function useSnoozeIncident() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      incidentId,
+      minutes,
+    }: {
+      incidentId: string;
+      minutes: number;
+    }) => {
+      const response = await apiFetch<ResolveResponse>(
+        `/incidents/${incidentId}/snooze`,
+        {
+          method: 'POST',
+          body: JSON.stringify({ minutes }),
+        }
+      );
+      return response.incident;
+    },
+    onSuccess: (data) => {
+      toast.success('Incident snoozed');
+      queryClient.invalidateQueries({ queryKey: ['incidents', data.id] });
+      queryClient.invalidateQueries({ queryKey: ['incidents'] });
+    },
+    onError: (error) => {
+      toast.error(`Failed to snooze: ${error.message}`);
+    },
+  });
+}
+
 // Close mutation
 export function useCloseIncident() {
   const queryClient = useQueryClient();
@@ -268,3 +305,181 @@ export function useBulkResolve() {
     },
   });
 }
+
+// Merge other incidents into this one
+export function useMergeIncidents() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      incidentId,
+      sourceIncidentIds,
+    }: {
+      incidentId: string;
+      sourceIncidentIds: string[];
+    }) => {
+      const response = await apiFetch<{ incident: Incident }>(
+        `/incidents/${incidentId}/merge`,
+        {
+          method: 'POST',
+          body: JSON.stringify({ sourceIncidentIds }),
+        }
+      );
+      return response.incident;
+    },
+    onSuccess: (_, { sourceIncidentIds }) => {
+      toast.success(
+        sourceIncidentIds.length === 1
+          ? 'Incident merged'
+          : `${sourceIncidentIds.length} incidents merged`
+      );
+      queryClient.invalidateQueries({ queryKey: ['incidents'] });
+    },
+    onError: (error) => {
+      toast.error(`Failed to merge: ${error.message}`);
+    },
+  });
+}
+
+// Split selected alerts into a new incident
+export function useSplitIncident() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      incidentId,
+      alertIds,
+    }: {
+      incidentId: string;
+      alertIds: string[];
+    }) => {
+      const response = await apiFetch<{ incident: Incident }>(
+        `/incidents/${incidentId}/split`,
+        {
+          method: 'POST',
+          body: JSON.stringify({ alertIds }),
+        }
+      );
+      return response.incident;
+    },
+    onSuccess: (data) => {
+      toast.success(`Alerts split into incident #${data.id.slice(-6)}`);
+      queryClient.invalidateQueries({ queryKey: ['incidents'] });
+    },
+    onError: (error) => {
+      toast.error(`Failed to split: ${error.message}`);
+    },
+  });
+}
+
+// Assign incident commander, comms lead or scribe
+export function useAssignIncidentRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      incidentId,
+      role,
+      userId,
+    }: {
+      incidentId: string;
+      role: NamedIncidentRole;
+      userId: string;
+    }) => {
+      const response = await apiFetch<{ assignment: IncidentResponder }>(
+        `/incidents/${incidentId}/roles`,
+        {
+          method: 'POST',
+          body: JSON.stringify({ role, userId }),
+        }
+      );
+      return response.assignment;
+    },
+    onSuccess: (_, { incidentId, role }) => {
+      toast.success(`${INCIDENT_ROLE_LABELS[role]} assigned`);
+      queryClient.invalidateQueries({ queryKey: ['incidents', incidentId] });
+    },
+    onError: (error) => {
+      toast.error(`Failed to assign role: ${error.message}`);
+    },
+  });
+}
+
+// Add and page an additional responder
+export function useAddResponder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ incidentId, userId }: { incidentId: string; userId: string }) => {
+      const response = await apiFetch<{ assignment: IncidentResponder }>(
+        `/incidents/${incidentId}/responders`,
+        {
+          method: 'POST',
+          body: JSON.stringify({ userId }),
+        }
+      );
+      return response.assignment;
+    },
+    onSuccess: (data, { incidentId }) => {
+      toast.success(`Paged ${data.user.firstName} ${data.user.lastName}`);
+      queryClient.invalidateQueries({ queryKey: ['incidents', incidentId] });
+    },
+    onError: (error) => {
+      toast.error(`Failed to add responder: ${error.message}`);
+    },
+  });
+}
+
+// Unassign a role or remove a responder
+export function useRemoveIncidentRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ incidentId, assignmentId }: { incidentId: string; assignmentId: string }) => {
+      await apiFetch(`/incidents/${incidentId}/roles/${assignmentId}`, {
+        method: 'DELETE',
+      });
+    },
+    onSuccess: (_, { incidentId }) => {
+      toast.success('Role removed');
+      queryClient.invalidateQueries({ queryKey: ['incidents', incidentId] });
+    },
+    onError: (error) => {
+      toast.error(`Failed to remove role: ${error.message}`);
+    },
+  });
+}
+
+// Edit title, summary, priority and impacted services
+export function useUpdateIncident() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      incidentId,
+      changes,
+    }: {
+      incidentId: string;
+      changes: {
+        title?: string;
+        summary?: string | null;
+        priority?: Incident['priority'];
+        impactedServiceIds?: string[];
+      };
+    }) => {
+      const response = await apiFetch<{ incident: Incident }>(`/incidents/${incidentId}`, {
+        method: 'PATCH',
+        body: JSON.stringify(changes),
+      });
+      return response.incident;
+    },
+    onSuccess: (data) => {
+      toast.success('Incident updated');
+      queryClient.invalidateQueries({ queryKey: ['incidents', data.id] });
+      queryClient.invalidateQueries({ queryKey: ['incidents'] });
+    },
+    onError: (error) => {
+      toast.error(`Failed to update incident: ${error.message}`);
+    },
+  });
+}
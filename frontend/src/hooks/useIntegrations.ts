@@ -5,11 +5,19 @@ import { apiFetch } from '@/lib/api';
 export interface Integration {
   id: string;
   name: string;
-  type: 'datadog' | 'newrelic' | 'pagerduty' | 'generic';
+  type: 'datadog' | 'newrelic' | 'alertmanager' | 'pagerduty' | 'generic';
   isActive: boolean;
   secretPrefix: string;
   signatureHeader: string;
   deduplicationWindowMinutes: number;
+  autoResolve: boolean;
+  // Storm protection and flapping detection (null threshold = disabled)
+  stormThreshold: number | null;
+  stormWindowMinutes: number;
+  flapThreshold: number | null;
+  flapWindowMinutes: number;
+  // Custom payload mapping (JSONPath / Handlebars per field)
+  mappingConfig?: MappingConfig | null;
   createdAt: string;
   updatedAt: string;
   // Health stats (from backend)
@@ -26,12 +34,69 @@ export interface Integration {
   } | null;
 }
 
+export interface MappingConfig {
+  title: string;
+  description?: string;
+  severity?: string;
+  severityMap?: Record<string, string>;
+  externalId?: string;
+  routingKey?: string;
+  timestamp?: string;
+  resolveCondition?: {
+    expression: string;
+    equals: string[];
+  };
+}
+
+export interface MappingPreview {
+  deliveryId: string;
+  receivedAt: string;
+  valid: boolean;
+  alert: {
+    title: string;
+    description: string | null;
+    severity: string;
+    triggeredAt: string;
+    externalId: string | null;
+    action: 'trigger' | 'resolve';
+    metadata: Record<string, unknown>;
+  } | null;
+  error: string | null;
+}
+
 export interface WebhookDelivery {
   id: string;
   statusCode: number;
   errorMessage: string | null;
   createdAt: string;
   alertId: string | null;
+  replayOfId: string | null; // Set when this delivery is a replay of another
+}
+
+export interface ReplayResult {
+  deliveryId: string;
+  originalStatusCode: number;
+  statusCode: number;
+  replayDeliveryId?: string | null; // Absent for dry runs
+  response?: Record<string, unknown>;
+  error?: string | null;
+  alerts?: Array<{
+    title: string;
+    severity: string;
+    externalId: string | null;
+    action: 'trigger' | 'resolve';
+    outcome: 'created' | 'grouped' | 'duplicate' | 'resolved' | 'no_match' | 'suppressed' | 'unroutable';
+    reason?: 'suppression_window' | 'team_maintenance';
+    storm?: 'alert_storm' | 'flapping';
+    teamId?: string;
+    error?: string;
+  }>;
+}
+
+export interface ReplayResponse {
+  dryRun: boolean;
+  count: number;
+  results: ReplayResult[];
 }
 
 export interface TestWebhookResult {
@@ -84,7 +149,7 @@ export function useUpdateIntegration() {
       data
     }: {
       id: string;
-      data: Partial<Pick<Integration, 'name' | 'isActive' | 'deduplicationWindowMinutes' | 'defaultServiceId'>>
+      data: Partial<Pick<Integration, 'name' | 'isActive' | 'deduplicationWindowMinutes' | 'autoResolve' | 'stormThreshold' | 'stormWindowMinutes' | 'flapThreshold' | 'flapWindowMinutes' | 'mappingConfig' | 'defaultServiceId'>>
     }) => {
       const res = await apiFetch<Integration>(`/integrations/${id}`, {
         method: 'PATCH',
@@ -109,6 +174,26 @@ export function useTestIntegration() {
   });
 }
 
+export function usePreviewMapping() {
+  return useMutation({
+    mutationFn: async ({
+      id,
+      mappingConfig,
+      deliveryId
+    }: {
+      id: string;
+      mappingConfig?: MappingConfig;
+      deliveryId?: string;
+    }) => {
+      const res = await apiFetch<MappingPreview>(`/integrations/${id}/mapping/preview`, {
+        method: 'POST',
+        body: JSON.stringify({ mappingConfig, deliveryId })
+      });
+      return res;
+    }
+  });
+}
+
 export function useWebhookDeliveries(integrationId: string, limit: number = 10) {
   return useQuery({
     queryKey: ['integrations', integrationId, 'deliveries', limit],
@@ -122,13 +207,44 @@ export function useWebhookDeliveries(integrationId: string, limit: number = 10)
   });
 }
 
+export function useReplayDeliveries() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      integrationId,
+      ...body
+    }: {
+      integrationId: string;
+      deliveryIds?: string[];
+      statusCodes?: number[];
+      since?: string;
+      until?: string;
+      limit?: number;
+      dryRun?: boolean;
+    }) => {
+      const res = await apiFetch<ReplayResponse>(`/integrations/${integrationId}/deliveries/replay`, {
+        method: 'POST',
+        body: JSON.stringify(body)
+      });
+      return res;
+    },
+    onSuccess: (data, variables) => {
+      if (!data.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ['integrations', variables.integrationId, 'deliveries'] });
+        queryClient.invalidateQueries({ queryKey: ['integrations'] });
+      }
+    }
+  });
+}
+
 export function useCreateIntegration() {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async (data: {
       name: string;
-      type: 'datadog' | 'newrelic' | 'pagerduty' | 'generic';
+      type: 'datadog' | 'newrelic' | 'alertmanager' | 'pagerduty' | 'generic';
       signatureHeader?: string;
       signatureAlgorithm?: 'sha256' | 'sha512';
       signatureFormat?: 'hex' | 'base64';
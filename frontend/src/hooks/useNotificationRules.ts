@@ -0,0 +1,51 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api';
+import { toast } from 'sonner';
+
+export type NotificationRulePriority = 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW' | 'INFO';
+export type NotificationRuleChannel = 'EMAIL' | 'SMS' | 'PUSH' | 'SLACK' | 'TEAMS' | 'VOICE';
+
+// Send via channel delayMinutes after the page (delayed steps only fire while unacknowledged)
+export interface NotificationRule {
+  priority: NotificationRulePriority;
+  channel: NotificationRuleChannel;
+  delayMinutes: number;
+}
+
+// Daily window ("HH:mm", may wrap past midnight) when non-critical pages are held
+export interface QuietHours {
+  timezone: string;
+  start: string;
+  end: string;
+}
+
+export interface NotificationRuleSet {
+  rules: NotificationRule[];
+  quietHours: QuietHours | null;
+}
+
+export function useNotificationRules() {
+  return useQuery({
+    queryKey: ['notification-rules'],
+    queryFn: () => apiFetch<NotificationRuleSet>('/notifications/rules'),
+  });
+}
+
+export function useUpdateNotificationRules() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (ruleSet: NotificationRuleSet) =>
+      apiFetch<NotificationRuleSet>('/notifications/rules', {
+        method: 'PUT',
+        body: JSON.stringify(ruleSet),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notification-rules'] });
+      toast.success('Notification rules saved');
+    },
+    onError: (error) => {
+      toast.error(`Failed to save notification rules: ${error.message}`);
+    },
+  });
+}
@@ -27,10 +27,17 @@ export function useTimeline(incidentId: string | undefined) {
 // Helper to categorize timeline events
 export function categorizeEvent(action: string): 'note' | 'status' | 'assignment' | 'system' {
   if (action.includes('note')) return 'note';
-  if (action.includes('acknowledged') || action.includes('resolved') || action.includes('closed')) {
+  if (
+    action.includes('acknowledg') ||
+    action.includes('resolved') ||
+    action.includes('closed') ||
+    action.includes('snooze')
+  ) {
     return 'status';
   }
-  if (action.includes('assigned') || action.includes('reassigned')) return 'assignment';
+  if (action.includes('assigned') || action.includes('role') || action.includes('responder')) {
+    return 'assignment';
+  }
   return 'system';
 }
 
@@ -44,6 +51,20 @@ export function formatAction(action: string): string {
     'incident.reassigned': 'Reassigned',
     'incident.note.added': 'Note added',
     'incident.escalated': 'Escalated',
+    'incident.merged': 'Merged incidents into this one',
+    'incident.merged.into': 'Merged into another incident',
+    'incident.split': 'Split alerts into a new incident',
+    'incident.title.updated': 'Changed the title',
+    'incident.summary.updated': 'Changed the summary',
+    'incident.priority.updated': 'Changed the priority',
+    'incident.services.updated': 'Changed impacted services',
+    'incident.escalation.repaged': 'Re-paged responders after priority upgrade',
+    'incident.role.assigned': 'Assigned a role',
+    'incident.role.removed': 'Removed a role',
+    'incident.responder.added': 'Paged an additional responder',
+    'incident.snoozed': 'Snoozed',
+    'incident.snooze.ended': 'Snooze ended, reopened and re-paged',
+    'incident.acknowledgement.expired': 'Acknowledgement timed out, reopened and re-paged',
   };
   return actionMap[action] || action;
 }
@@ -98,6 +98,10 @@ export function useWebSocket() {
       toast.info(`${data.note.user.firstName} added a note`);
     });
 
+    socket.on('incident:roles_changed', (data) => {
+      queryClient.invalidateQueries({ queryKey: ['incidents', data.incidentId] });
+    });
+
     socket.on('incident:updated', (incident) => {
       queryClient.invalidateQueries({ queryKey: ['incidents', incident.id] });
       queryClient.invalidateQueries({ queryKey: ['incidents'] });
@@ -113,6 +117,7 @@ export function useWebSocket() {
       socket.off('incident:resolved');
       socket.off('incident:reassigned');
       socket.off('incident:note_added');
+      socket.off('incident:roles_changed');
       socket.off('incident:updated');
       socket.io.off('reconnect_attempt');
       socket.io.off('reconnect');
@@ -16,6 +16,7 @@ import type {
   WorkflowTemplateListParams,
   WorkflowVersion,
   WorkflowAnalytics,
+  IncidentWorkflowExecution,
   CreateWorkflowInput,
   UpdateWorkflowInput,
   WorkflowDefinition,
@@ -316,6 +317,45 @@ export function useTriggerWorkflow() {
   });
 }
 
+/**
+ * Fetch workflow executions for an incident (for retrying failed ones).
+ */
+export function useIncidentWorkflowExecutions(incidentId: string) {
+  return useQuery({
+    queryKey: ['incidents', incidentId, 'workflow-executions'],
+    queryFn: async () => {
+      const res = await apiFetch<{ executions: IncidentWorkflowExecution[] }>(
+        `/incidents/${incidentId}/workflows/executions`
+      );
+      return res.executions;
+    },
+  });
+}
+
+/**
+ * Retry a failed workflow execution - resume from the failed node, or re-run
+ * the given failed action node and carry on. Completed nodes are not re-run.
+ */
+export function useRetryWorkflowExecution() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ executionId, nodeId }: { executionId: string; nodeId?: string }) => {
+      return apiFetch<{ executionId: string; status: string; mode: 'resume' | 'node' }>(
+        `/workflows/executions/${executionId}/retry`,
+        {
+          method: 'POST',
+          body: JSON.stringify(nodeId ? { nodeId } : {}),
+        }
+      );
+    },
+    onSuccess: () => {
+      // Executions are keyed under the incident
+      queryClient.invalidateQueries({ queryKey: ['incidents'] });
+    },
+  });
+}
+
 // =============================================================================
 // TEMPLATE LIBRARY
 // =============================================================================
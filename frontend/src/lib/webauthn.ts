@@ -60,7 +60,7 @@ export async function registerBiometric(
       throw new Error('Failed to get registration challenge');
     }
 
-    const { challenge, rpId, rpName } = await challengeResponse.json();
+    const { challenge, rpId, rpName, excludeCredentials } = await challengeResponse.json();
 
     // Create credential using platform authenticator
     const credential = await navigator.credentials.create({
@@ -84,6 +84,10 @@ export async function registerBiometric(
           userVerification: 'required',
           residentKey: 'preferred',
         },
+        excludeCredentials: excludeCredentials?.map((cred: any) => ({
+          id: base64ToArrayBuffer(cred.id),
+          type: 'public-key',
+        })),
         timeout: 60000,
         attestation: 'none',
       },
@@ -107,6 +111,7 @@ export async function registerBiometric(
           response: {
             attestationObject: arrayBufferToBase64(attestationResponse.attestationObject),
             clientDataJSON: arrayBufferToBase64(attestationResponse.clientDataJSON),
+            transports: attestationResponse.getTransports?.() ?? [],
           },
           type: credential.type,
         },
@@ -202,3 +207,36 @@ export async function hasBiometricCredential(): Promise<boolean> {
     return false;
   }
 }
+
+export interface BiometricCredential {
+  id: string;
+  name: string | null;
+  deviceType: string;
+  backedUp: boolean;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+// List the current user's registered biometric credentials
+export async function listBiometricCredentials(): Promise<BiometricCredential[]> {
+  const response = await fetch('/api/auth/webauthn/credentials', {
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to load biometric credentials');
+  }
+
+  const { credentials } = await response.json();
+  return credentials;
+}
+
+// Revoke a registered biometric credential
+export async function revokeBiometricCredential(id: string): Promise<boolean> {
+  const response = await fetch(`/api/auth/webauthn/credentials/${id}`, {
+    method: 'DELETE',
+    credentials: 'include',
+  });
+
+  return response.ok;
+}
@@ -3,6 +3,7 @@ import { useTeams, useTeamWithMembers } from '@/hooks/useTeams';
 import {
   useEscalationPoliciesByTeam,
   useCreateEscalationPolicy,
+  useUpdateEscalationPolicy,
   useDeleteEscalationPolicy,
   useEscalationPolicy,
   useCreateEscalationLevel,
@@ -10,7 +11,7 @@ import {
   useUpdateEscalationLevel,
   useSchedulesByTeam,
 } from '@/hooks/useEscalationPolicies';
-import type { EscalationLevel } from '@/hooks/useEscalationPolicies';
+import type { AssignmentStrategy, EscalationLevel, EscalationTarget } from '@/hooks/useEscalationPolicies';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -53,20 +54,59 @@ import { toast } from 'sonner';
 
 type TargetType = 'user' | 'schedule' | 'entire_team';
 
+interface TargetFormData {
+  type: TargetType;
+  id: string;
+}
+
 interface LevelFormData {
   levelNumber: number;
-  targetType: TargetType;
-  targetId: string;
+  targets: TargetFormData[]; // Everyone on a level is paged in parallel
+  assignmentStrategy: AssignmentStrategy;
   timeoutMinutes: number;
 }
 
 const defaultLevelForm: LevelFormData = {
   levelNumber: 1,
-  targetType: 'user',
-  targetId: '',
+  targets: [{ type: 'user', id: '' }],
+  assignmentStrategy: 'all',
   timeoutMinutes: 30,
 };
 
+const STRATEGY_LABELS: Record<AssignmentStrategy, string> = {
+  all: 'Page everyone',
+  round_robin: 'Round-robin',
+  least_loaded: 'Least loaded',
+};
+
+// Targets of a level; levels without a targets list have a single target
+const getLevelTargets = (level: EscalationLevel): EscalationTarget[] =>
+  level.targets?.length ? level.targets : [{ type: level.targetType, id: level.targetId }];
+
+// Pages more than one person: several targets or the entire team
+const isMultiTarget = (targets: TargetFormData[]) =>
+  targets.length > 1 || targets[0]?.type === 'entire_team';
+
+// Validates the level form, returning an error message or null
+const validateLevelForm = (form: LevelFormData): string | null => {
+  // Validate an ID is set for user/schedule targets
+  const missing = form.targets.find(t => (t.type === 'user' || t.type === 'schedule') && !t.id);
+  if (missing) {
+    return `Please select a ${missing.type === 'user' ? 'user' : 'schedule'}`;
+  }
+
+  // Validate timeout
+  const minTimeout = isMultiTarget(form.targets) ? 3 : 1;
+  if (form.timeoutMinutes < minTimeout) {
+    return `Minimum timeout is ${minTimeout} minute${minTimeout > 1 ? 's' : ''} for ${isMultiTarget(form.targets) ? 'multiple targets' : 'this target type'}`;
+  }
+
+  return null;
+};
+
+const toTargets = (targets: TargetFormData[]): EscalationTarget[] =>
+  targets.map(t => ({ type: t.type, id: t.type === 'entire_team' ? undefined : t.id }));
+
 export default function EscalationPoliciesPage() {
   const { data: teams } = useTeams();
   const [selectedTeamId, setSelectedTeamId] = useState<string | undefined>(undefined);
@@ -88,6 +128,7 @@ export default function EscalationPoliciesPage() {
   const { data: schedules = [] } = useSchedulesByTeam(policyTeamId);
 
   const createMutation = useCreateEscalationPolicy();
+  const updateMutation = useUpdateEscalationPolicy();
   const deleteMutation = useDeleteEscalationPolicy();
   const createLevelMutation = useCreateEscalationLevel();
   const deleteLevelMutation = useDeleteEscalationLevel();
@@ -109,8 +150,16 @@ export default function EscalationPoliciesPage() {
     description: '',
     teamId: '',
     repeatCount: 3,
+    ackTimeoutMinutes: '',
   });
 
+  // Ack timeout edited from the policy dialog ('' = never)
+  const [ackTimeoutInput, setAckTimeoutInput] = useState('');
+
+  useEffect(() => {
+    setAckTimeoutInput(selectedPolicy?.ackTimeoutMinutes?.toString() ?? '');
+  }, [selectedPolicy?.ackTimeoutMinutes]);
+
   const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -125,10 +174,11 @@ export default function EscalationPoliciesPage() {
         description: formData.description || undefined,
         teamId: formData.teamId,
         repeatCount: formData.repeatCount,
+        ackTimeoutMinutes: formData.ackTimeoutMinutes ? parseInt(formData.ackTimeoutMinutes) : null,
       });
       toast.success('Escalation policy created - Click on it to add escalation levels');
       setIsCreateOpen(false);
-      setFormData({ name: '', description: '', teamId: '', repeatCount: 3 });
+      setFormData({ name: '', description: '', teamId: '', repeatCount: 3, ackTimeoutMinutes: '' });
       // Auto-select the team if it was just created
       setSelectedTeamId(formData.teamId);
     } catch (error: any) {
@@ -176,16 +226,9 @@ export default function EscalationPoliciesPage() {
     e.preventDefault();
     if (!selectedPolicyId) return;
 
-    // Validate targetId is set for user/schedule types
-    if ((levelForm.targetType === 'user' || levelForm.targetType === 'schedule') && !levelForm.targetId) {
-      toast.error(`Please select a ${levelForm.targetType === 'user' ? 'user' : 'schedule'}`);
-      return;
-    }
-
-    // Validate timeout
-    const minTimeout = levelForm.targetType === 'entire_team' ? 3 : 1;
-    if (levelForm.timeoutMinutes < minTimeout) {
-      toast.error(`Minimum timeout is ${minTimeout} minute${minTimeout > 1 ? 's' : ''} for ${levelForm.targetType === 'entire_team' ? 'entire team' : 'this target type'}`);
+    const validationError = validateLevelForm(levelForm);
+    if (validationError) {
+      toast.error(validationError);
       return;
     }
 
@@ -194,8 +237,8 @@ export default function EscalationPoliciesPage() {
         policyId: selectedPolicyId,
         data: {
           levelNumber: levelForm.levelNumber,
-          targetType: levelForm.targetType,
-          targetId: levelForm.targetType === 'entire_team' ? undefined : levelForm.targetId,
+          targets: toTargets(levelForm.targets),
+          assignmentStrategy: levelForm.assignmentStrategy,
           timeoutMinutes: levelForm.timeoutMinutes,
         },
       });
@@ -213,8 +256,8 @@ export default function EscalationPoliciesPage() {
     setEditingLevel(level);
     setLevelForm({
       levelNumber: level.levelNumber,
-      targetType: level.targetType,
-      targetId: level.targetId || '',
+      targets: getLevelTargets(level).map(t => ({ type: t.type, id: t.id || '' })),
+      assignmentStrategy: level.assignmentStrategy,
       timeoutMinutes: level.timeoutMinutes,
     });
   };
@@ -223,16 +266,9 @@ export default function EscalationPoliciesPage() {
     e.preventDefault();
     if (!editingLevel) return;
 
-    // Validate targetId is set for user/schedule types
-    if ((levelForm.targetType === 'user' || levelForm.targetType === 'schedule') && !levelForm.targetId) {
-      toast.error(`Please select a ${levelForm.targetType === 'user' ? 'user' : 'schedule'}`);
-      return;
-    }
-
-    // Validate timeout
-    const minTimeout = levelForm.targetType === 'entire_team' ? 3 : 1;
-    if (levelForm.timeoutMinutes < minTimeout) {
-      toast.error(`Minimum timeout is ${minTimeout} minute${minTimeout > 1 ? 's' : ''} for ${levelForm.targetType === 'entire_team' ? 'entire team' : 'this target type'}`);
+    const validationError = validateLevelForm(levelForm);
+    if (validationError) {
+      toast.error(validationError);
       return;
     }
 
@@ -240,8 +276,8 @@ export default function EscalationPoliciesPage() {
       await updateLevelMutation.mutateAsync({
         levelId: editingLevel.id,
         data: {
-          targetType: levelForm.targetType,
-          targetId: levelForm.targetType === 'entire_team' ? undefined : levelForm.targetId,
+          targets: toTargets(levelForm.targets),
+          assignmentStrategy: levelForm.assignmentStrategy,
           timeoutMinutes: levelForm.timeoutMinutes,
         },
       });
@@ -272,19 +308,19 @@ export default function EscalationPoliciesPage() {
     setIsDeleteLevelOpen(true);
   };
 
-  const getTargetName = (level: EscalationLevel) => {
-    if (level.targetType === 'entire_team') {
+  const getTargetName = (target: EscalationTarget) => {
+    if (target.type === 'entire_team') {
       return 'Entire Team';
     }
-    if (level.targetType === 'user' && level.targetId) {
-      const member = teamWithMembers?.members.find(m => m.userId === level.targetId);
+    if (target.type === 'user' && target.id) {
+      const member = teamWithMembers?.members.find(m => m.userId === target.id);
       if (member) {
         return `${member.user.firstName} ${member.user.lastName}`;
       }
       return 'Unknown User';
     }
-    if (level.targetType === 'schedule' && level.targetId) {
-      const schedule = schedules?.find(s => s.id === level.targetId);
+    if (target.type === 'schedule' && target.id) {
+      const schedule = schedules?.find(s => s.id === target.id);
       if (schedule) {
         return schedule.name;
       }
@@ -293,6 +329,21 @@ export default function EscalationPoliciesPage() {
     return 'Unknown';
   };
 
+  const updateTarget = (index: number, patch: Partial<TargetFormData>) => {
+    setLevelForm(prev => ({
+      ...prev,
+      targets: prev.targets.map((t, i) => (i === index ? { ...t, ...patch } : t)),
+    }));
+  };
+
+  const addTarget = () => {
+    setLevelForm(prev => ({ ...prev, targets: [...prev.targets, { type: 'user', id: '' }] }));
+  };
+
+  const removeTarget = (index: number) => {
+    setLevelForm(prev => ({ ...prev, targets: prev.targets.filter((_, i) => i !== index) }));
+  };
+
   const getTargetIcon = (targetType: TargetType) => {
     switch (targetType) {
       case 'user':
@@ -305,6 +356,20 @@ export default function EscalationPoliciesPage() {
   };
 
   // Update level number when policy changes
+  const handleSaveAckTimeout = async () => {
+    if (!selectedPolicy) return;
+
+    try {
+      await updateMutation.mutateAsync({
+        id: selectedPolicy.id,
+        input: { ackTimeoutMinutes: ackTimeoutInput ? parseInt(ackTimeoutInput) : null },
+      });
+      toast.success(ackTimeoutInput ? 'Ack timeout updated' : 'Ack timeout removed');
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to update ack timeout');
+    }
+  };
+
   const handleViewDialogChange = (open: boolean) => {
     setIsViewOpen(open);
     if (open && selectedPolicy) {
@@ -394,6 +459,21 @@ export default function EscalationPoliciesPage() {
                   Number of times to repeat escalation levels before stopping
                 </p>
               </div>
+              <div>
+                <Label htmlFor="ackTimeoutMinutes">Ack Timeout (minutes)</Label>
+                <Input
+                  id="ackTimeoutMinutes"
+                  type="number"
+                  min={5}
+                  max={1440}
+                  placeholder="Never"
+                  value={formData.ackTimeoutMinutes}
+                  onChange={(e) => setFormData({ ...formData, ackTimeoutMinutes: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Reopen acknowledged incidents and resume escalation after this long
+                </p>
+              </div>
               <Button type="submit" disabled={createMutation.isPending} className="w-full">
                 {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                 Create Policy
@@ -478,6 +558,45 @@ export default function EscalationPoliciesPage() {
                   <ArrowRight className="h-3 w-3 mr-1" />
                   Repeat {selectedPolicy.repeatCount}x
                 </Badge>
+                {selectedPolicy.ackTimeoutMinutes && (
+                  <Badge variant="outline">
+                    <Clock className="h-3 w-3 mr-1" />
+                    Ack timeout {selectedPolicy.ackTimeoutMinutes}m
+                  </Badge>
+                )}
+              </div>
+
+              {/* Ack timeout */}
+              <div>
+                <Label htmlFor="policyAckTimeout">Ack Timeout (minutes)</Label>
+                <div className="flex items-center gap-2 mt-1">
+                  <Input
+                    id="policyAckTimeout"
+                    type="number"
+                    min={5}
+                    max={1440}
+                    placeholder="Never"
+                    className="w-40"
+                    value={ackTimeoutInput}
+                    onChange={(e) => setAckTimeoutInput(e.target.value)}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleSaveAckTimeout}
+                    disabled={
+                      updateMutation.isPending ||
+                      ackTimeoutInput === (selectedPolicy.ackTimeoutMinutes?.toString() ?? '')
+                    }
+                  >
+                    {updateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Save
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Acknowledged incidents reopen and escalation resumes from the current level
+                  after this long. Leave empty to never reopen.
+                </p>
               </div>
 
               {/* Existing Levels */}
@@ -501,14 +620,21 @@ export default function EscalationPoliciesPage() {
                               <Badge variant="secondary" className="font-mono">
                                 L{level.levelNumber}
                               </Badge>
-                              <div className="flex items-center gap-2 text-sm">
-                                {getTargetIcon(level.targetType)}
-                                <span className="font-medium">{getTargetName(level)}</span>
+                              <div className="flex flex-wrap items-center gap-3 text-sm">
+                                {getLevelTargets(level).map((target, i) => (
+                                  <div key={i} className="flex items-center gap-2">
+                                    {getTargetIcon(target.type)}
+                                    <span className="font-medium">{getTargetName(target)}</span>
+                                  </div>
+                                ))}
                               </div>
                               <div className="flex items-center gap-1 text-sm text-muted-foreground">
                                 <Clock className="h-3 w-3" />
                                 <span>{level.timeoutMinutes} min</span>
                               </div>
+                              {level.assignmentStrategy !== 'all' && (
+                                <Badge variant="outline">{STRATEGY_LABELS[level.assignmentStrategy]}</Badge>
+                              )}
                             </div>
                             <div className="flex items-center gap-1">
                               <Button
@@ -571,7 +697,7 @@ export default function EscalationPoliciesPage() {
                       <Input
                         id="timeoutMinutes"
                         type="number"
-                        min={levelForm.targetType === 'entire_team' ? 3 : 1}
+                        min={isMultiTarget(levelForm.targets) ? 3 : 1}
                         value={levelForm.timeoutMinutes}
                         onChange={(e) =>
                           setLevelForm({ ...levelForm, timeoutMinutes: parseInt(e.target.value) || 30 })
@@ -583,87 +709,132 @@ export default function EscalationPoliciesPage() {
                     </div>
                   </div>
 
-                  <div className="grid grid-cols-2 gap-4">
-                    {/* Target Type */}
-                    <div>
-                      <Label htmlFor="targetType">Target Type</Label>
-                      <Select
-                        value={levelForm.targetType}
-                        onValueChange={(v: TargetType) =>
-                          setLevelForm({ ...levelForm, targetType: v, targetId: '' })
-                        }
-                      >
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="user">
-                            <div className="flex items-center gap-2">
-                              <User className="h-4 w-4" />
-                              User
-                            </div>
-                          </SelectItem>
-                          <SelectItem value="schedule">
-                            <div className="flex items-center gap-2">
-                              <Calendar className="h-4 w-4" />
-                              Schedule
-                            </div>
-                          </SelectItem>
-                          <SelectItem value="entire_team">
-                            <div className="flex items-center gap-2">
-                              <Users className="h-4 w-4" />
-                              Entire Team
-                            </div>
-                          </SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-
-                    {/* Target Selector */}
-                    {levelForm.targetType !== 'entire_team' && (
-                      <div>
-                        <Label htmlFor="targetId">
-                          {levelForm.targetType === 'user' ? 'Select User' : 'Select Schedule'}
-                        </Label>
+                  {/* Targets - everyone on the level is paged in parallel */}
+                  <div className="space-y-2">
+                    <Label>Targets</Label>
+                    {levelForm.targets.map((target, index) => (
+                      <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
                         <Select
-                          value={levelForm.targetId}
-                          onValueChange={(v) => setLevelForm({ ...levelForm, targetId: v })}
+                          value={target.type}
+                          onValueChange={(v: TargetType) => updateTarget(index, { type: v, id: '' })}
                         >
                           <SelectTrigger>
-                            <SelectValue
-                              placeholder={`Select ${levelForm.targetType === 'user' ? 'user' : 'schedule'}`}
-                            />
+                            <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            {levelForm.targetType === 'user' ? (
-                              teamWithMembers?.members.map((member) => (
-                                <SelectItem key={member.userId} value={member.userId}>
-                                  {member.user.firstName} {member.user.lastName}
-                                </SelectItem>
-                              ))
-                            ) : (
-                              schedules?.map((schedule) => (
-                                <SelectItem key={schedule.id} value={schedule.id}>
-                                  {schedule.name}
-                                </SelectItem>
-                              ))
-                            )}
-                            {levelForm.targetType === 'user' && !teamWithMembers?.members.length && (
-                              <div className="px-2 py-1.5 text-sm text-muted-foreground">
-                                No team members found
+                            <SelectItem value="user">
+                              <div className="flex items-center gap-2">
+                                <User className="h-4 w-4" />
+                                User
+                              </div>
+                            </SelectItem>
+                            <SelectItem value="schedule">
+                              <div className="flex items-center gap-2">
+                                <Calendar className="h-4 w-4" />
+                                Schedule
                               </div>
-                            )}
-                            {levelForm.targetType === 'schedule' && !schedules?.length && (
-                              <div className="px-2 py-1.5 text-sm text-muted-foreground">
-                                No schedules found
+                            </SelectItem>
+                            <SelectItem value="entire_team">
+                              <div className="flex items-center gap-2">
+                                <Users className="h-4 w-4" />
+                                Entire Team
                               </div>
-                            )}
+                            </SelectItem>
                           </SelectContent>
                         </Select>
+
+                        {/* Target Selector */}
+                        {target.type !== 'entire_team' ? (
+                          <Select
+                            value={target.id}
+                            onValueChange={(v) => updateTarget(index, { id: v })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue
+                                placeholder={`Select ${target.type === 'user' ? 'user' : 'schedule'}`}
+                              />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {target.type === 'user' ? (
+                                teamWithMembers?.members.map((member) => (
+                                  <SelectItem key={member.userId} value={member.userId}>
+                                    {member.user.firstName} {member.user.lastName}
+                                  </SelectItem>
+                                ))
+                              ) : (
+                                schedules?.map((schedule) => (
+                                  <SelectItem key={schedule.id} value={schedule.id}>
+                                    {schedule.name}
+                                  </SelectItem>
+                                ))
+                              )}
+                              {target.type === 'user' && !teamWithMembers?.members.length && (
+                                <div className="px-2 py-1.5 text-sm text-muted-foreground">
+                                  No team members found
+                                </div>
+                              )}
+                              {target.type === 'schedule' && !schedules?.length && (
+                                <div className="px-2 py-1.5 text-sm text-muted-foreground">
+                                  No schedules found
+                                </div>
+                              )}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <p className="text-sm text-muted-foreground self-center">
+                            Pages every responder on the team
+                          </p>
+                        )}
+
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          disabled={levelForm.targets.length === 1}
+                          onClick={() => removeTarget(index)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
                       </div>
-                    )}
+                    ))}
+                    <Button type="button" variant="outline" size="sm" onClick={addTarget}>
+                      <Plus className="mr-1 h-4 w-4" />
+                      Add Target
+                    </Button>
                   </div>
 
+                  {/* Assignment Strategy */}
+                  {isMultiTarget(levelForm.targets) && (
+                    <div>
+                      <Label htmlFor="assignmentStrategy">Assignment</Label>
+                      <Select
+                        value={levelForm.assignmentStrategy}
+                        onValueChange={(v: AssignmentStrategy) =>
+                          setLevelForm({ ...levelForm, assignmentStrategy: v })
+                        }
+                      >
+                        <SelectTrigger id="assignmentStrategy">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(STRATEGY_LABELS) as AssignmentStrategy[]).map(strategy => (
+                            <SelectItem key={strategy} value={strategy}>
+                              {STRATEGY_LABELS[strategy]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {levelForm.assignmentStrategy === 'all' &&
+                          'Everyone is paged at once; the first to acknowledge becomes the assignee'}
+                        {levelForm.assignmentStrategy === 'round_robin' &&
+                          'Each incident goes to the next responder in turn'}
+                        {levelForm.assignmentStrategy === 'least_loaded' &&
+                          'Each incident goes to the responder with the fewest open incidents'}
+                      </p>
+                    </div>
+                  )}
+
                   {/* Form Actions */}
                   <div className="flex items-center gap-2">
                     <Button
@@ -754,6 +925,12 @@ export default function EscalationPoliciesPage() {
                     <ArrowRight className="h-4 w-4" />
                     <span>Repeat {policy.repeatCount}x</span>
                   </div>
+                  {policy.ackTimeoutMinutes && (
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      <Clock className="h-4 w-4" />
+                      <span>Ack timeout {policy.ackTimeoutMinutes}m</span>
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
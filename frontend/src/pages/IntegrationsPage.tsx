@@ -12,6 +12,7 @@ import { useServices } from '@/hooks/useServices';
 import { IntegrationCard } from '@/components/IntegrationCard';
 import { IntegrationTestDialog } from '@/components/IntegrationTestDialog';
 import { WebhookAttempts } from '@/components/WebhookAttempts';
+import { IntegrationMappingEditor, parseMappingConfig } from '@/components/IntegrationMappingEditor';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import {
@@ -24,6 +25,7 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import {
   Select,
   SelectContent,
@@ -65,13 +67,20 @@ export default function IntegrationsPage() {
   const [editFormData, setEditFormData] = useState({
     name: '',
     deduplicationWindowMinutes: 5,
+    autoResolve: true,
+    stormThreshold: '',
+    stormWindowMinutes: 5,
+    flapThreshold: '',
+    flapWindowMinutes: 60,
+    mappingConfig: '',
     defaultServiceId: 'none' as string
   });
+  const [mappingError, setMappingError] = useState<string | null>(null);
 
   // Form state for create dialog
   const [formData, setFormData] = useState({
     name: '',
-    type: 'datadog' as 'datadog' | 'newrelic' | 'pagerduty' | 'generic',
+    type: 'datadog' as 'datadog' | 'newrelic' | 'alertmanager' | 'pagerduty' | 'generic',
     signatureHeader: '',
     deduplicationWindowMinutes: 5
   });
@@ -129,20 +138,43 @@ export default function IntegrationsPage() {
     setEditFormData({
       name: integration.name,
       deduplicationWindowMinutes: integration.deduplicationWindowMinutes,
+      autoResolve: integration.autoResolve,
+      stormThreshold: integration.stormThreshold?.toString() ?? '',
+      stormWindowMinutes: integration.stormWindowMinutes,
+      flapThreshold: integration.flapThreshold?.toString() ?? '',
+      flapWindowMinutes: integration.flapWindowMinutes,
+      mappingConfig: integration.mappingConfig ? JSON.stringify(integration.mappingConfig, null, 2) : '',
       defaultServiceId: integration.defaultServiceId || 'none'
     });
+    setMappingError(null);
     setEditDialogOpen(true);
   };
 
   const handleUpdateIntegration = async () => {
     if (!editingIntegration) return;
 
+    let mappingConfig;
     try {
+      mappingConfig = parseMappingConfig(editFormData.mappingConfig);
+    } catch {
+      setMappingError('Payload mapping must be valid JSON');
+      return;
+    }
+
+    try {
+      setMappingError(null);
       await updateIntegration.mutateAsync({
         id: editingIntegration.id,
         data: {
           name: editFormData.name,
           deduplicationWindowMinutes: editFormData.deduplicationWindowMinutes,
+          autoResolve: editFormData.autoResolve,
+          // Empty threshold disables the check
+          stormThreshold: editFormData.stormThreshold ? parseInt(editFormData.stormThreshold) : null,
+          stormWindowMinutes: editFormData.stormWindowMinutes,
+          flapThreshold: editFormData.flapThreshold ? parseInt(editFormData.flapThreshold) : null,
+          flapWindowMinutes: editFormData.flapWindowMinutes,
+          mappingConfig,
           defaultServiceId: editFormData.defaultServiceId === 'none' ? null : editFormData.defaultServiceId
         }
       });
@@ -150,6 +182,7 @@ export default function IntegrationsPage() {
       setEditingIntegration(null);
     } catch (error) {
       console.error('Failed to update integration:', error);
+      setMappingError(error instanceof Error ? error.message : 'Failed to update integration');
     }
   };
 
@@ -307,6 +340,17 @@ export default function IntegrationsPage() {
               <li>Create a condition and trigger test</li>
             </ol>
           </div>
+
+          <div className="p-4 border rounded-lg">
+            <h3 className="font-medium mb-2">Prometheus Alertmanager</h3>
+            <ol className="text-sm text-muted-foreground space-y-2 list-decimal list-inside">
+              <li>Add a receiver with a webhook_configs entry</li>
+              <li>Set url to the webhook URL</li>
+              <li>Set http_config.authorization.credentials to the webhook secret</li>
+              <li>Add a "severity" label to your alerting rules</li>
+              <li>Reload Alertmanager and fire a test alert</li>
+            </ol>
+          </div>
         </div>
       </div>
 
@@ -346,6 +390,7 @@ export default function IntegrationsPage() {
                 <SelectContent>
                   <SelectItem value="datadog">DataDog</SelectItem>
                   <SelectItem value="newrelic">New Relic</SelectItem>
+                  <SelectItem value="alertmanager">Prometheus Alertmanager</SelectItem>
                   <SelectItem value="pagerduty">PagerDuty</SelectItem>
                   <SelectItem value="generic">Generic Webhook</SelectItem>
                 </SelectContent>
@@ -468,7 +513,7 @@ export default function IntegrationsPage() {
 
       {/* Edit Integration Dialog (Phase 13: ROUTE-04) */}
       <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Integration</DialogTitle>
             <DialogDescription>
@@ -500,6 +545,74 @@ export default function IntegrationsPage() {
               />
             </div>
 
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="editAutoResolve"
+                  checked={editFormData.autoResolve}
+                  onCheckedChange={v => setEditFormData({ ...editFormData, autoResolve: v })}
+                />
+                <Label htmlFor="editAutoResolve">Auto-resolve incidents on recovery</Label>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Resolve the incident when the monitoring tool reports all of its alerts recovered
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Alert Storm Protection</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  id="editStormThreshold"
+                  type="number"
+                  min={1}
+                  placeholder="Alerts (off)"
+                  value={editFormData.stormThreshold}
+                  onChange={(e) => setEditFormData({ ...editFormData, stormThreshold: e.target.value })}
+                />
+                <Input
+                  id="editStormWindow"
+                  type="number"
+                  min={1}
+                  max={1440}
+                  value={editFormData.stormWindowMinutes}
+                  onChange={(e) =>
+                    setEditFormData({ ...editFormData, stormWindowMinutes: parseInt(e.target.value) })
+                  }
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                More alerts than this within the window (minutes) collapse into one storm incident and only team admins are notified
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Flapping Detection</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  id="editFlapThreshold"
+                  type="number"
+                  min={1}
+                  placeholder="Re-opens (off)"
+                  value={editFormData.flapThreshold}
+                  onChange={(e) => setEditFormData({ ...editFormData, flapThreshold: e.target.value })}
+                />
+                <Input
+                  id="editFlapWindow"
+                  type="number"
+                  min={1}
+                  max={1440}
+                  value={editFormData.flapWindowMinutes}
+                  onChange={(e) =>
+                    setEditFormData({ ...editFormData, flapWindowMinutes: parseInt(e.target.value) })
+                  }
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Alerts that resolve and re-open this many times within the window (minutes) are flagged as flapping
+              </p>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="defaultService">Default Service</Label>
               <Select
@@ -525,6 +638,20 @@ export default function IntegrationsPage() {
                 Alerts without explicit routing_key will route to this service
               </p>
             </div>
+
+            {editingIntegration && (
+              <IntegrationMappingEditor
+                integrationId={editingIntegration.id}
+                value={editFormData.mappingConfig}
+                onChange={(value) => setEditFormData({ ...editFormData, mappingConfig: value })}
+              />
+            )}
+
+            {mappingError && (
+              <Alert variant="destructive">
+                <AlertDescription>{mappingError}</AlertDescription>
+              </Alert>
+            )}
           </div>
 
           <DialogFooter>
@@ -2,6 +2,7 @@ import { User, Bell, Shield, Smartphone } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { BiometricSettings } from '@/components/BiometricSettings';
 import { PushSettings } from '@/components/PushSettings';
+import { NotificationRules } from '@/components/NotificationRules';
 
 export default function ProfilePage() {
   return (
@@ -31,9 +32,7 @@ export default function ProfilePage() {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-muted-foreground">
-              Configure email, SMS, push, and voice notifications.
-            </p>
+            <NotificationRules />
           </CardContent>
         </Card>
 
@@ -8,7 +8,8 @@ import {
   useRemoveDependency
 } from '@/hooks/useServiceDependencies';
 import { DependencyGraph } from '@/components/services/DependencyGraph';
-import type { Service, ServiceStatus, CreateServiceInput } from '@/types/service';
+import { SupportHoursEditor } from '@/components/services/SupportHoursEditor';
+import type { Service, ServiceStatus, CreateServiceInput, SupportHours, UrgencyRules } from '@/types/service';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -318,10 +319,14 @@ export default function ServicesPage() {
     tags: [],
   });
   const [tagsInput, setTagsInput] = useState('');
+  const [supportHours, setSupportHours] = useState<SupportHours | null>(null);
+  const [urgencyRules, setUrgencyRules] = useState<UrgencyRules | null>(null);
 
   const resetForm = () => {
     setFormData({ name: '', description: '', routingKey: '', teamId: '', tags: [] });
     setTagsInput('');
+    setSupportHours(null);
+    setUrgencyRules(null);
   };
 
   const handleCreate = async (e: React.FormEvent) => {
@@ -372,6 +377,8 @@ export default function ServicesPage() {
           name: formData.name,
           description: formData.description || undefined,
           tags: tags.length > 0 ? tags : [],
+          supportHours,
+          urgencyRules,
         },
       });
       toast.success('Service updated successfully');
@@ -414,6 +421,8 @@ export default function ServicesPage() {
       tags: service.tags,
     });
     setTagsInput(service.tags.join(', '));
+    setSupportHours(service.supportHours);
+    setUrgencyRules(service.urgencyRules);
     setIsEditOpen(true);
   };
 
@@ -784,7 +793,7 @@ export default function ServicesPage() {
 
       {/* Edit Dialog */}
       <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
-        <DialogContent className="max-w-md">
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Service</DialogTitle>
             <DialogDescription>
@@ -829,6 +838,11 @@ export default function ServicesPage() {
                 placeholder="payments, critical, tier-1"
               />
             </div>
+            <SupportHoursEditor
+              supportHours={supportHours}
+              urgencyRules={urgencyRules}
+              onChange={(hours, rules) => { setSupportHours(hours); setUrgencyRules(rules); }}
+            />
             <div className="flex justify-end gap-2 pt-4">
               <Button type="button" variant="outline" onClick={() => { setIsEditOpen(false); setSelectedService(null); resetForm(); }}>
                 Cancel
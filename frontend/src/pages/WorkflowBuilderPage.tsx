@@ -63,6 +63,7 @@ import { WorkflowSidebar } from '@/components/workflow/WorkflowSidebar';
 import { WorkflowToolbar } from '@/components/workflow/WorkflowToolbar';
 import { NodeConfigPanel } from '@/components/workflow/NodeConfigPanel';
 import { WorkflowTestMode } from '@/components/workflow/WorkflowTestMode';
+import { isConditionComplete } from '@/components/workflow/ConditionGroupEditor';
 import {
   useWorkflow,
   useCreateWorkflow,
@@ -151,6 +152,70 @@ function createDefaultNodeData(
           },
           retry: { attempts: 3, backoff: 'exponential', initialDelayMs: 1000 },
         };
+      } else if (subType === 'notify_channel') {
+        return {
+          name: 'Post to Channel',
+          actionType: 'notify_channel',
+          config: {
+            platform: 'slack',
+            message: '{{incident.priority}} incident: {{incident.title}}',
+          },
+          retry: { attempts: 1, backoff: 'exponential', initialDelayMs: 1000 },
+        };
+      } else if (subType === 'update_priority') {
+        return {
+          name: 'Change Priority',
+          actionType: 'update_priority',
+          config: { priority: 'HIGH' },
+          retry: { attempts: 1, backoff: 'exponential', initialDelayMs: 1000 },
+        };
+      } else if (subType === 'reassign') {
+        return {
+          name: 'Reassign',
+          actionType: 'reassign',
+          config: { userId: '' },
+          retry: { attempts: 1, backoff: 'exponential', initialDelayMs: 1000 },
+        };
+      } else if (subType === 'add_note') {
+        return {
+          name: 'Add Note',
+          actionType: 'add_note',
+          config: { note: '' },
+          retry: { attempts: 1, backoff: 'exponential', initialDelayMs: 1000 },
+        };
+      } else if (subType === 'escalate') {
+        return {
+          name: 'Escalate',
+          actionType: 'escalate',
+          config: {},
+          retry: { attempts: 1, backoff: 'exponential', initialDelayMs: 1000 },
+        };
+      } else if (subType === 'resolve') {
+        return {
+          name: 'Resolve',
+          actionType: 'resolve',
+          config: {},
+          retry: { attempts: 1, backoff: 'exponential', initialDelayMs: 1000 },
+        };
+      } else if (subType === 'publish_status') {
+        return {
+          name: 'Publish Status Update',
+          actionType: 'publish_status',
+          config: {
+            statusPageId: '',
+            title: '{{incident.title}}',
+            message: '',
+            severity: 'MAJOR',
+          },
+          retry: { attempts: 1, backoff: 'exponential', initialDelayMs: 1000 },
+        };
+      } else if (subType === 'page_user') {
+        return {
+          name: 'Page User',
+          actionType: 'page_user',
+          config: { userId: '' },
+          retry: { attempts: 1, backoff: 'exponential', initialDelayMs: 1000 },
+        };
       }
       // Default to webhook
       return {
@@ -225,6 +290,13 @@ function validateWorkflow(
       errors.push(`Node ${node.id} is missing a name`);
     }
 
+    if (node.type === 'trigger') {
+      const triggerData = data as TriggerData;
+      if (!(triggerData.conditions || []).every(isConditionComplete)) {
+        errors.push(`Trigger "${data.name || node.id}" has incomplete conditions`);
+      }
+    }
+
     if (node.type === 'action') {
       const actionData = data as ActionData;
       if (actionData.actionType === 'webhook' && !actionData.config?.url) {
@@ -239,11 +311,32 @@ function validateWorkflow(
       if (actionData.actionType === 'runbook' && !actionData.config?.runbookId) {
         errors.push(`Runbook action "${data.name || node.id}" is missing runbook selection`);
       }
+      if (actionData.actionType === 'notify_channel') {
+        if (!actionData.config?.message) {
+          errors.push(`Channel action "${data.name || node.id}" is missing a message`);
+        }
+        if (actionData.config?.platform === 'teams' && (!actionData.config.teamsTeamId || !actionData.config.teamsChannelId)) {
+          errors.push(`Channel action "${data.name || node.id}" is missing Teams team or channel ID`);
+        }
+      }
+      if ((actionData.actionType === 'reassign' || actionData.actionType === 'page_user') && !actionData.config?.userId) {
+        errors.push(`Action "${data.name || node.id}" is missing a user`);
+      }
+      if (actionData.actionType === 'add_note' && !actionData.config?.note) {
+        errors.push(`Note action "${data.name || node.id}" is missing note text`);
+      }
+      if (actionData.actionType === 'publish_status') {
+        const { statusPageId, title, message } = actionData.config ?? {};
+        if (!statusPageId || !title || !message) {
+          errors.push(`Status update "${data.name || node.id}" needs a status page, title and message`);
+        }
+      }
     }
 
     if (node.type === 'condition') {
       const condData = data as ConditionData;
-      if (!condData.field || !condData.value) {
+      const rule = condData.group ?? { field: condData.field, operator: condData.operator, value: condData.value };
+      if (!isConditionComplete(rule)) {
         errors.push(`Condition "${data.name || node.id}" is incomplete`);
       }
     }
@@ -252,6 +345,8 @@ function validateWorkflow(
       const delayData = data as DelayData;
       if (!delayData.durationMinutes || delayData.durationMinutes <= 0) {
         errors.push(`Delay "${data.name || node.id}" must have a positive duration`);
+      } else if (delayData.durationMinutes > 30 * 24 * 60) {
+        errors.push(`Delay "${data.name || node.id}" cannot be longer than 30 days`);
       }
     }
   }
@@ -579,6 +674,7 @@ export default function WorkflowBuilderPage() {
         type: triggerData?.triggerType || 'manual',
         conditions: triggerData?.conditions || [],
         ageThresholdMinutes: triggerData?.ageThresholdMinutes,
+        ackTimeoutMinutes: triggerData?.ackTimeoutMinutes,
         stateTransition: triggerData?.stateTransition,
       },
       settings: {
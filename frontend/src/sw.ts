@@ -100,6 +100,7 @@ self.addEventListener('push', (event) => {
     actions: [
       { action: 'view', title: 'View' },
       { action: 'acknowledge', title: 'Acknowledge' },
+      { action: 'snooze', title: 'Snooze 1h' },
     ],
     vibrate: [200, 100, 200],
     requireInteraction: data.priority === 'CRITICAL' || data.priority === 'HIGH',
@@ -126,6 +127,24 @@ self.addEventListener('notificationclick', (event) => {
     return;
   }
 
+  // Snooze in the background with the session cookie; open the incident if that fails
+  if (event.action === 'snooze' && data?.incidentId) {
+    const incidentId = data.incidentId;
+    event.waitUntil(
+      fetch(`/api/incidents/${incidentId}/snooze`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ minutes: 60 }),
+      })
+        .then((response) => {
+          if (!response.ok) throw new Error(`Snooze failed: ${response.status}`);
+        })
+        .catch(() => self.clients.openWindow(`/incidents/${incidentId}`))
+    );
+    return;
+  }
+
   // Default: open incident detail (per user decision: tap goes to detail)
   event.waitUntil(
     self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windowClients) => {
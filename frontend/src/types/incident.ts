@@ -8,6 +8,8 @@ export interface Incident {
   priority: IncidentPriority;
   title: string;
   description?: string;
+  // Editable summary; description falls back to the first alert when unset
+  summary?: string | null;
   metadata?: Record<string, unknown> | null;
   teamId: string;
   team: { id: string; name: string };
@@ -20,6 +22,11 @@ export interface Incident {
   acknowledgedAt?: string;
   resolvedAt?: string;
   closedAt?: string;
+  // Set while a snooze is pausing escalation
+  snoozedUntil?: string | null;
+  alertCount?: number;
+  // Set when this incident was merged into another
+  mergedIntoId?: string | null;
   _count?: { alerts: number };
   alerts?: Array<{
     id: string;
@@ -28,6 +35,11 @@ export interface Incident {
     triggeredAt: string;
     externalId?: string;
   }>;
+  // Services affected beyond the routed service
+  impactedServiceIds?: string[];
+  impactedServices?: Array<{ id: string; name: string; routingKey: string }>;
+  // Active named roles and additional responders
+  responders?: IncidentResponder[];
   // Service-based routing (Phase 13)
   serviceId?: string;
   service?: {
@@ -38,6 +50,24 @@ export interface Incident {
   };
 }
 
+export type NamedIncidentRole = 'INCIDENT_COMMANDER' | 'COMMS_LEAD' | 'SCRIBE';
+export type IncidentRole = NamedIncidentRole | 'RESPONDER';
+
+export const INCIDENT_ROLE_LABELS: Record<IncidentRole, string> = {
+  INCIDENT_COMMANDER: 'Incident commander',
+  COMMS_LEAD: 'Communications lead',
+  SCRIBE: 'Scribe',
+  RESPONDER: 'Responder',
+};
+
+export interface IncidentResponder {
+  id: string;
+  role: IncidentRole;
+  assignedAt: string;
+  removedAt?: string | null;
+  user: { id: string; firstName: string; lastName: string; email: string };
+}
+
 export interface TimelineEvent {
   id: string;
   action: string;
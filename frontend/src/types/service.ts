@@ -12,6 +12,23 @@
 // Service status enum matching backend
 export type ServiceStatus = 'ACTIVE' | 'DEPRECATED' | 'ARCHIVED';
 
+// Incident urgency: high pages immediately, low waits for support hours
+export type Urgency = 'high' | 'low';
+
+export type UrgencyRules = Partial<Record<'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW' | 'INFO', Urgency>>;
+
+// Weekly support window; days are ISO weekdays (1 = Monday), times "HH:mm"
+export interface SupportWindow {
+  days: number[];
+  start: string;
+  end: string;
+}
+
+export interface SupportHours {
+  timezone: string;
+  windows: SupportWindow[];
+}
+
 // =============================================================================
 // CORE INTERFACES
 // =============================================================================
@@ -34,6 +51,8 @@ export interface Service {
   } | null;
   status: ServiceStatus;
   tags: string[];
+  supportHours: SupportHours | null;
+  urgencyRules: UrgencyRules | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -57,6 +76,8 @@ export interface UpdateServiceInput {
   description?: string;
   tags?: string[];
   escalationPolicyId?: string | null;
+  supportHours?: SupportHours | null;
+  urgencyRules?: UrgencyRules | null;
 }
 
 export interface UpdateServiceStatusInput {
@@ -13,6 +13,7 @@ export interface ServerToClientEvents {
   'incident:resolved': (data: IncidentResolveData) => void;
   'incident:reassigned': (data: IncidentReassignData) => void;
   'incident:note_added': (data: IncidentNoteData) => void;
+  'incident:roles_changed': (data: IncidentRolesChangedData) => void;
   'authenticated': () => void;
   'auth_error': (message: string) => void;
   'session_expired': () => void;
@@ -32,6 +33,8 @@ export interface IncidentBroadcast {
   status: string;
   priority: string;
   title: string;
+  summary?: string | null;
+  impactedServiceIds?: string[];
   teamId: string;
   team: { id: string; name: string };
   assignedUserId?: string;
@@ -39,6 +42,7 @@ export interface IncidentBroadcast {
   createdAt: string;
   acknowledgedAt?: string;
   resolvedAt?: string;
+  snoozedUntil?: string;
 }
 
 export interface IncidentAckData {
@@ -74,3 +78,11 @@ export interface IncidentNoteData {
     createdAt: string;
   };
 }
+
+export interface IncidentRolesChangedData {
+  incidentId: string;
+  change: 'assigned' | 'removed';
+  role: string;
+  userId: string;
+  user: { id: string; firstName: string; lastName: string };
+}
@@ -14,13 +14,43 @@ export type TriggerType =
   | 'state_changed'
   | 'escalation'
   | 'manual'
-  | 'age';
+  | 'age'
+  | 'alert_received'
+  | 'note_added'
+  | 'reassigned'
+  | 'ack_timeout'
+  | 'postmortem_published'
+  | 'action_item_overdue';
+
+export type ConditionOperator =
+  | '='
+  | '!='
+  | 'in'
+  | 'contains'
+  | 'matches'
+  | '>'
+  | '>='
+  | '<'
+  | '<='
+  | 'exists';
 
 export interface TriggerCondition {
   field: string;
+  operator?: ConditionOperator;
   value: string;
 }
 
+export interface ConditionGroup {
+  match: 'all' | 'any';
+  conditions: ConditionRule[];
+}
+
+export type ConditionRule = TriggerCondition | ConditionGroup;
+
+export function isConditionGroup(rule: ConditionRule): rule is ConditionGroup {
+  return 'match' in rule && Array.isArray(rule.conditions);
+}
+
 export interface StateTransition {
   from?: string;
   to: string;
@@ -29,8 +59,9 @@ export interface StateTransition {
 export interface TriggerData {
   name: string;
   triggerType: TriggerType;
-  conditions: TriggerCondition[];
+  conditions: ConditionRule[];
   ageThresholdMinutes?: number;
+  ackTimeoutMinutes?: number;
   stateTransition?: StateTransition;
 }
 
@@ -38,7 +69,19 @@ export interface TriggerData {
 // ACTION TYPES
 // =============================================================================
 
-export type ActionType = 'webhook' | 'jira' | 'linear' | 'runbook';
+export type ActionType =
+  | 'webhook'
+  | 'jira'
+  | 'linear'
+  | 'runbook'
+  | 'notify_channel'
+  | 'update_priority'
+  | 'reassign'
+  | 'add_note'
+  | 'escalate'
+  | 'resolve'
+  | 'publish_status'
+  | 'page_user';
 
 export type WebhookMethod = 'POST' | 'PUT' | 'PATCH';
 
@@ -83,6 +126,22 @@ export interface RunbookActionConfig {
   parameters: Record<string, unknown>;
 }
 
+export interface NotifyChannelConfig {
+  platform: 'slack' | 'teams';
+  channel?: string; // Slack - defaults to the team's channel
+  teamsTeamId?: string;
+  teamsChannelId?: string;
+  message: string;
+}
+
+export interface PublishStatusConfig {
+  statusPageId: string;
+  title: string;
+  message: string;
+  severity: 'MINOR' | 'MAJOR' | 'CRITICAL';
+  affectedComponentIds?: string[];
+}
+
 export interface RetryConfig {
   attempts: number;
   backoff: 'exponential';
@@ -114,7 +173,62 @@ export interface RunbookActionData extends BaseActionData {
   config: RunbookActionConfig;
 }
 
-export type ActionData = WebhookActionData | JiraActionData | LinearActionData | RunbookActionData;
+export interface NotifyChannelActionData extends BaseActionData {
+  actionType: 'notify_channel';
+  config: NotifyChannelConfig;
+}
+
+export interface UpdatePriorityActionData extends BaseActionData {
+  actionType: 'update_priority';
+  config: { priority: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW' | 'INFO' };
+}
+
+export interface ReassignActionData extends BaseActionData {
+  actionType: 'reassign';
+  config: { userId: string };
+}
+
+export interface AddNoteActionData extends BaseActionData {
+  actionType: 'add_note';
+  config: { note: string };
+}
+
+export interface EscalateActionData extends BaseActionData {
+  actionType: 'escalate';
+  config: { reason?: string };
+}
+
+export interface ResolveActionData extends BaseActionData {
+  actionType: 'resolve';
+  config: { resolutionNote?: string };
+}
+
+export interface PublishStatusActionData extends BaseActionData {
+  actionType: 'publish_status';
+  config: PublishStatusConfig;
+}
+
+export interface PageUserActionData extends BaseActionData {
+  actionType: 'page_user';
+  config: { userId: string; channels?: string[] };
+}
+
+export type IncidentActionData =
+  | UpdatePriorityActionData
+  | ReassignActionData
+  | AddNoteActionData
+  | EscalateActionData
+  | ResolveActionData
+  | PublishStatusActionData
+  | PageUserActionData;
+
+export type ActionData =
+  | WebhookActionData
+  | JiraActionData
+  | LinearActionData
+  | RunbookActionData
+  | NotifyChannelActionData
+  | IncidentActionData;
 
 // Type guards
 export function isRunbookAction(data: ActionData): data is RunbookActionData {
@@ -128,8 +242,10 @@ export function isRunbookAction(data: ActionData): data is RunbookActionData {
 export interface ConditionData {
   name: string;
   field: string;
-  operator: '=';
+  operator: ConditionOperator;
   value: string;
+  /** Compound logic - when set, evaluated instead of field/operator/value */
+  group?: ConditionGroup;
 }
 
 export interface DelayData {
@@ -171,8 +287,9 @@ export interface WorkflowSettings {
 
 export interface TriggerConfig {
   type: TriggerType;
-  conditions: TriggerCondition[];
+  conditions: ConditionRule[];
   ageThresholdMinutes?: number;
+  ackTimeoutMinutes?: number;
   stateTransition?: StateTransition;
 }
 
@@ -240,6 +357,12 @@ export interface WorkflowExecution {
   createdAt: string;
 }
 
+/** Execution listed for an incident, with the frozen definition it ran */
+export interface IncidentWorkflowExecution extends WorkflowExecution {
+  workflow: { id: string; name: string };
+  definitionSnapshot: WorkflowDefinition;
+}
+
 export interface NodeResult {
   nodeId: string;
   status: 'completed' | 'failed' | 'skipped';
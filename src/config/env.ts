@@ -66,6 +66,11 @@ const envSchema = z.object({
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   PORT: z.string().default('3000'),
   FRONTEND_URL: z.string().url().optional(),
+
+  // WebAuthn (biometric login) - origins are comma-separated to allow mobile app origins
+  WEBAUTHN_RP_ID: z.string().default('localhost'),
+  WEBAUTHN_RP_NAME: z.string().default('PageFree'),
+  WEBAUTHN_ORIGIN: z.string().optional(),
 });
 
 // Parse and validate environment variables
@@ -30,6 +30,7 @@ import { configureOktaStrategy } from './auth/strategies/okta.js';
 import { oktaWebhookRouter } from './webhooks/okta.js';
 import { scimRouter } from './auth/scim/routes.js';
 import { alertWebhookRouter } from './webhooks/alert-receiver.js';
+import { eventsV2Router } from './webhooks/events-v2.js';
 import { slackInteractionsRouter } from './routes/webhooks/slack-interactions.js';
 import { slackCommandsRouter } from './routes/webhooks/slack-commands.js';
 import { magicLinksRouter } from './routes/magic-links.js';
@@ -47,10 +48,13 @@ import { statusPageRoutes } from './routes/statusPage.routes.js';
 import { statusPublicRoutes } from './routes/statusPublic.routes.js';
 import { postmortemRouter } from './routes/postmortem.routes.js';
 import { serviceRouter } from './routes/service.routes.js';
+import { suppressionWindowRouter } from './routes/suppressionWindow.routes.js';
+import { groupingRuleRouter } from './routes/groupingRule.routes.js';
 import { statusComputationService } from './services/statusComputation.service.js';
 import { startMaintenanceWorker, stopMaintenanceWorker } from './workers/maintenance.worker.js';
 import { startStatusNotificationWorker, stopStatusNotificationWorker } from './workers/statusNotification.worker.js';
 import { apiRateLimiter, publicRateLimiter } from './middleware/rateLimiter.js';
+import { apiKeyBearerAuth } from './middleware/apiKeyAuth.js';
 import { partnerSessionMiddleware } from './partner/session.js';
 import { partnerRoutes } from './partner/partner.routes.js';
 import { adminRoutes } from './routes/admin.routes.js';
@@ -104,6 +108,9 @@ app.use('/webhooks/slack/commands', slackCommandsRouter);
 // Twilio webhooks (mount before auth middleware - uses signature-based auth)
 app.use('/webhooks/twilio', twilioWebhooksRouter);
 
+// PagerDuty-compatible Events API (mount before auth middleware - routing key is the auth)
+app.use('/v2', eventsV2Router);
+
 // Magic links (public routes - token is the authorization)
 app.use('/magic', magicLinksRouter);
 
@@ -153,7 +160,10 @@ app.get('/', (_req, res) => {
 });
 
 // API routes
-// Rate limit: 500 req/min per authenticated user (api tier)
+// Bearer API keys authenticate requests without a session (scope checked per route)
+app.use('/api', apiKeyBearerAuth);
+
+// Rate limit: 500 req/min per authenticated user (api tier), per-key limit for API keys
 app.use('/api', apiRateLimiter);
 
 app.use('/api/audit', auditRouter);
@@ -178,6 +188,8 @@ app.use('/api/runbooks', runbookRoutes);
 app.use('/api/status-pages', statusPageRoutes);
 app.use('/api/postmortems', postmortemRouter);
 app.use('/api/services', serviceRouter);
+app.use('/api/suppression-windows', suppressionWindowRouter);
+app.use('/api/grouping-rules', groupingRuleRouter);
 app.use('/api/admin', adminRoutes);
 
 // Global error handler (last middleware)
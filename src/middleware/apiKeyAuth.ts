@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { apiKeyService, ApiKeyScope } from '../services/apiKey.service.js';
-import { auditService } from '../services/audit.service.js';
+import { auditService, runWithApiKeyAttribution } from '../services/audit.service.js';
 
 // Extend Express Request to include apiKey
 declare global {
@@ -95,3 +95,119 @@ export function apiKeyAuth(requiredScope?: ApiKeyScope) {
     next();
   };
 }
+
+// Scope required per /api route prefix. Reads are GET/HEAD; everything else is a write.
+// Prefixes not listed here (auth, keys, users, preferences, ...) can't be used with a key.
+interface ApiKeyRouteScope {
+  prefix: string;
+  read?: ApiKeyScope;
+  write?: ApiKeyScope;
+}
+
+export const API_KEY_ROUTE_SCOPES: ApiKeyRouteScope[] = [
+  { prefix: '/incidents', read: 'incidents:read', write: 'incidents:write' },
+  { prefix: '/alerts', read: 'incidents:read', write: 'alerts:write' },
+  { prefix: '/postmortems', read: 'incidents:read', write: 'incidents:write' },
+  { prefix: '/schedules', read: 'schedules:read', write: 'schedules:write' },
+  { prefix: '/oncall', read: 'schedules:read' },
+  { prefix: '/escalation-policies', read: 'admin:read', write: 'admin:write' },
+  { prefix: '/services', read: 'admin:read', write: 'admin:write' },
+  { prefix: '/teams', read: 'admin:read', write: 'admin:write' },
+  { prefix: '/audit', read: 'admin:read' }
+];
+
+/**
+ * Scope an API key needs for a request under /api, or null when keys can't call it
+ *
+ * @param method - HTTP method
+ * @param path - Path relative to /api (e.g. /incidents/abc/acknowledge)
+ */
+export function getRequiredScope(method: string, path: string): ApiKeyScope | null {
+  const route = API_KEY_ROUTE_SCOPES.find(r =>
+    path === r.prefix || path.startsWith(`${r.prefix}/`)
+  );
+  if (!route) return null;
+
+  const isRead = method === 'GET' || method === 'HEAD';
+  return (isRead ? route.read : route.write) ?? null;
+}
+
+/**
+ * Bearer API key authentication for /api routes
+ * Requests with a session pass through untouched. Otherwise a Bearer key is
+ * validated, checked against the route scope map, and the request continues as
+ * the key's actor (see apiKeyService.getActor) with audit events naming the key.
+ * Must be mounted before apiRateLimiter so keys get their own limits.
+ */
+export async function apiKeyBearerAuth(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const authHeader = req.headers.authorization;
+
+  if (req.user || !authHeader?.startsWith('Bearer ')) {
+    next();
+    return;
+  }
+
+  try {
+    const validation = await apiKeyService.validate(authHeader.substring(7));
+
+    if (!validation.valid) {
+      await auditService.log({
+        action: 'apikey.auth.failed',
+        severity: 'HIGH',
+        metadata: {
+          path: req.originalUrl,
+          reason: validation.reason
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent')
+      });
+
+      res.status(401).json({ error: 'Invalid or expired API key' });
+      return;
+    }
+
+    const apiKey = validation.apiKey;
+    const requiredScope = getRequiredScope(req.method, req.path);
+
+    if (!requiredScope || !apiKeyService.hasScope(apiKey, requiredScope)) {
+      await auditService.log({
+        action: 'apikey.auth.insufficient_scope',
+        teamId: apiKey.teamId ?? undefined,
+        severity: 'WARN',
+        metadata: {
+          path: req.originalUrl,
+          method: req.method,
+          requiredScope,
+          apiKeyId: apiKey.id,
+          service: apiKey.service
+        },
+        ipAddress: req.ip
+      });
+
+      res.status(403).json({
+        error: requiredScope
+          ? `Insufficient scope. Required: ${requiredScope}`
+          : 'This endpoint cannot be used with an API key'
+      });
+      return;
+    }
+
+    const actor = await apiKeyService.getActor(apiKey);
+
+    if (!actor?.isActive) {
+      res.status(403).json({ error: 'API key owner is deactivated' });
+      return;
+    }
+
+    req.user = actor;
+    req.apiKey = apiKey;
+  } catch (error) {
+    next(error);
+    return;
+  }
+
+  runWithApiKeyAttribution(
+    { id: req.apiKey.id, name: req.apiKey.name, keyPrefix: req.apiKey.keyPrefix },
+    next
+  );
+}
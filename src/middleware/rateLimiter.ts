@@ -33,6 +33,28 @@ const apiLimiter = new RateLimiterRedis({
   duration: 60,
 });
 
+/**
+ * API key tier: 300 req/min per key unless the key sets its own limit
+ * Key: API key ID, so automation can't exhaust its creator's user quota
+ * One limiter per distinct limit, since a limiter's points are fixed
+ */
+const DEFAULT_API_KEY_LIMIT = 300;
+const apiKeyLimiters = new Map<number, RateLimiterRedis>();
+
+function getApiKeyLimiter(points: number): RateLimiterRedis {
+  let limiter = apiKeyLimiters.get(points);
+  if (!limiter) {
+    limiter = new RateLimiterRedis({
+      storeClient: redisClient,
+      keyPrefix: `ratelimit:apikey:${points}`,
+      points,
+      duration: 60,
+    });
+    apiKeyLimiters.set(points, limiter);
+  }
+  return limiter;
+}
+
 /**
  * Public tier: 100 req/min per IP
  * Conservative rate for unauthenticated public endpoints
@@ -96,6 +118,7 @@ async function handleRateLimitExceeded(
     userId: user?.id,
     metadata: {
       tier,
+      ...(req.apiKey && { apiKeyId: req.apiKey.id }),
       ip: req.ip,
       path: req.path,
       retryAfter: secs
@@ -119,7 +142,7 @@ async function handleRateLimitExceeded(
 
 /**
  * Webhook rate limiter middleware: 1000 req/min per IP
- * Applied to /webhooks/alerts/* routes
+ * Applied to /webhooks/alerts/* routes and the Events API (/v2/enqueue)
  */
 export function webhookRateLimiter(req: Request, res: Response, next: NextFunction): void {
   const key = req.ip || 'unknown';
@@ -141,10 +164,16 @@ export function webhookRateLimiter(req: Request, res: Response, next: NextFuncti
 }
 
 /**
- * API rate limiter middleware: 500 req/min per user (or IP if anonymous)
+ * API rate limiter middleware: 500 req/min per user (or IP if anonymous),
+ * or the API key's own limit for key-authenticated requests
  * Applied to /api/* routes
  */
 export function apiRateLimiter(req: Request, res: Response, next: NextFunction): void {
+  if (req.apiKey) {
+    apiKeyRateLimiter(req, res, next);
+    return;
+  }
+
   const user = (req as any).user;
   const key = user?.id || req.ip || 'unknown';
 
@@ -164,6 +193,25 @@ export function apiRateLimiter(req: Request, res: Response, next: NextFunction):
     });
 }
 
+function apiKeyRateLimiter(req: Request, res: Response, next: NextFunction): void {
+  const limit = req.apiKey.rateLimitPerMinute ?? DEFAULT_API_KEY_LIMIT;
+
+  getApiKeyLimiter(limit).consume(req.apiKey.id)
+    .then((rateLimiterRes) => {
+      setRateLimitHeaders(res, rateLimiterRes, limit);
+      next();
+    })
+    .catch((rateLimiterRes) => {
+      if (rateLimiterRes instanceof Error) {
+        // Redis error - log warning and allow request (graceful degradation)
+        logger.warn({ error: rateLimiterRes }, 'API key rate limiter Redis error, allowing request');
+        next();
+        return;
+      }
+      handleRateLimitExceeded(req, res, rateLimiterRes, 'apikey', limit);
+    });
+}
+
 /**
  * Public rate limiter middleware: 100 req/min per IP
  * Applied to /status/*, /health, and other public endpoints
@@ -7,6 +7,12 @@ export interface EscalationJobData {
   incidentId: string;
   toLevel: number;
   repeatNumber: number;
+  // Held low-urgency incident: start paging instead of escalating
+  held?: boolean;
+  // Snoozed incident: reopen and page the assignee instead of escalating
+  snoozed?: boolean;
+  // Acknowledgement expired: revert to OPEN instead of escalating
+  ackTimeout?: boolean;
 }
 
 // Create escalation queue
@@ -28,10 +34,13 @@ export async function scheduleEscalation(
   incidentId: string,
   currentLevel: number,
   repeatNumber: number,
-  timeoutMinutes: number
+  timeoutMinutes: number,
+  resumedAt?: Date
 ): Promise<string> {
-  // BullMQ doesn't allow colons in custom job IDs, use dashes instead
-  const jobId = `incident-${incidentId}-level-${currentLevel + 1}-repeat-${repeatNumber}`;
+  // BullMQ doesn't allow colons in custom job IDs, use dashes instead.
+  // A resumed timer repeats a level/repeat that already has a job, so its ID carries the resume time
+  const jobId = `incident-${incidentId}-level-${currentLevel + 1}-repeat-${repeatNumber}` +
+    (resumedAt ? `-resume-${resumedAt.getTime()}` : '');
   const delayMs = timeoutMinutes * 60 * 1000;
 
   await escalationQueue.add(
@@ -55,6 +64,98 @@ export async function scheduleEscalation(
   return jobId;
 }
 
+// Schedule paging of an incident held outside support hours
+export async function scheduleHeldEscalation(
+  incidentId: string,
+  releaseAt: Date
+): Promise<string> {
+  const jobId = `incident-${incidentId}-held`;
+  const delayMs = Math.max(0, releaseAt.getTime() - Date.now());
+
+  await escalationQueue.add(
+    'release',
+    {
+      incidentId,
+      toLevel: 1,
+      repeatNumber: 1,
+      held: true
+    },
+    {
+      jobId,
+      delay: delayMs
+    }
+  );
+
+  logger.info(
+    { incidentId, releaseAt, delayMs, jobId },
+    'Scheduled held incident release'
+  );
+
+  return jobId;
+}
+
+// Schedule the end of a snooze
+export async function scheduleSnoozeWake(
+  incidentId: string,
+  wakeAt: Date
+): Promise<string> {
+  // Re-snoozing schedules a new job, so the ID carries the wake time
+  const jobId = `incident-${incidentId}-snooze-${wakeAt.getTime()}`;
+  const delayMs = Math.max(0, wakeAt.getTime() - Date.now());
+
+  await escalationQueue.add(
+    'wake',
+    {
+      incidentId,
+      toLevel: 0,
+      repeatNumber: 0,
+      snoozed: true
+    },
+    {
+      jobId,
+      delay: delayMs
+    }
+  );
+
+  logger.info(
+    { incidentId, wakeAt, delayMs, jobId },
+    'Scheduled snooze wake-up'
+  );
+
+  return jobId;
+}
+
+// Schedule the expiry of an acknowledgement
+export async function scheduleAckTimeout(
+  incidentId: string,
+  expiresAt: Date
+): Promise<string> {
+  // An incident can be acknowledged more than once, so the ID carries the expiry
+  const jobId = `incident-${incidentId}-ack-timeout-${expiresAt.getTime()}`;
+  const delayMs = Math.max(0, expiresAt.getTime() - Date.now());
+
+  await escalationQueue.add(
+    'ack-timeout',
+    {
+      incidentId,
+      toLevel: 0,
+      repeatNumber: 0,
+      ackTimeout: true
+    },
+    {
+      jobId,
+      delay: delayMs
+    }
+  );
+
+  logger.info(
+    { incidentId, expiresAt, delayMs, jobId },
+    'Scheduled acknowledgement timeout'
+  );
+
+  return jobId;
+}
+
 // Cancel escalation jobs for an incident
 export async function cancelEscalation(bullJobId: string): Promise<boolean> {
   try {
@@ -12,6 +12,7 @@ export interface NotificationJobData {
   payload?: NotificationPayload;
   logId?: string;
   tier?: 'primary' | 'secondary' | 'fallback';
+  requireUnacknowledged?: boolean; // Skip if the incident is no longer OPEN when the job runs
 }
 
 // Create notification queue (used by Phase 5)
@@ -28,6 +29,21 @@ export const notificationQueue = new Queue<NotificationJobData>('notification',
   }
 });
 
+// Remove notifications for an incident that haven't been sent yet (e.g. after a merge).
+// Returns the delivery log IDs of the removed jobs.
+export async function cancelIncidentNotifications(incidentId: string): Promise<string[]> {
+  const jobs = await notificationQueue.getJobs(['waiting', 'delayed', 'prioritized']);
+  const logIds: string[] = [];
+
+  for (const job of jobs) {
+    if (job?.data.incidentId !== incidentId) continue;
+    await job.remove();
+    if (job.data.logId) logIds.push(job.data.logId);
+  }
+
+  return logIds;
+}
+
 // Queue notification job
 export async function queueNotification(data: NotificationJobData): Promise<string> {
   const job = await notificationQueue.add('notify', data);
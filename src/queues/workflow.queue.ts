@@ -27,6 +27,14 @@ export interface WorkflowJobData {
   triggeredBy: 'event' | 'manual';
   /** Chain of workflow IDs for cycle detection */
   executionChain: string[];
+  /** Set on resume jobs - the delay node whose wait has elapsed */
+  resumeFromNodeId?: string;
+  /** ISO timestamp when the delay started (resume jobs only) */
+  delayStartedAt?: string;
+  /** Set on manual retry jobs for a failed execution */
+  retry?: boolean;
+  /** Set when a retry re-runs only this failed action node */
+  rerunNodeId?: string;
 }
 
 // ============================================================================
@@ -94,17 +102,117 @@ export async function scheduleWorkflow(
 }
 
 /**
- * Cancel a pending workflow execution.
+ * Schedule a parked execution to resume after a delay node.
+ *
+ * The wait lives in Redis as a delayed job, so it survives worker restarts
+ * and is not bounded by the workflow timeout.
+ *
+ * @param executionId - ID of the WorkflowExecution record
+ * @param incidentId - ID of the triggering incident
+ * @param workflowId - ID of the workflow being executed
+ * @param triggeredBy - How the workflow was originally triggered
+ * @param nodeId - ID of the delay node being waited on
+ * @param resumeAt - When execution should continue
+ * @param executionChain - Chain of workflow IDs for cycle detection
+ * @returns Job ID of the resume job
+ */
+export async function scheduleWorkflowResume(
+  executionId: string,
+  incidentId: string,
+  workflowId: string,
+  triggeredBy: 'event' | 'manual',
+  nodeId: string,
+  resumeAt: Date,
+  executionChain: string[] = []
+): Promise<string> {
+  // One job per delay node - the previous resume job is still active when the next delay is reached
+  const jobId = `${executionId}-resume-${nodeId}`;
+
+  await workflowQueue.add(
+    'resume',
+    {
+      executionId,
+      incidentId,
+      workflowId,
+      triggeredBy,
+      executionChain,
+      resumeFromNodeId: nodeId,
+      delayStartedAt: new Date().toISOString()
+    },
+    {
+      jobId,
+      delay: Math.max(0, resumeAt.getTime() - Date.now())
+    }
+  );
+
+  logger.info(
+    { executionId, nodeId, resumeAt: resumeAt.toISOString() },
+    'Scheduled workflow resume after delay'
+  );
+
+  return jobId;
+}
+
+/**
+ * Schedule a manual retry of a failed execution.
+ *
+ * The failed run's job is kept for debugging, so each retry gets its own job ID.
+ *
+ * @param executionId - ID of the failed WorkflowExecution record
+ * @param incidentId - ID of the triggering incident
+ * @param workflowId - ID of the workflow being executed
+ * @param triggeredBy - How the workflow was originally triggered
+ * @param rerunNodeId - Re-run only this failed action node (omit to resume the execution)
+ * @returns Job ID of the retry job
+ */
+export async function scheduleWorkflowRetry(
+  executionId: string,
+  incidentId: string,
+  workflowId: string,
+  triggeredBy: 'event' | 'manual',
+  rerunNodeId?: string
+): Promise<string> {
+  const jobId = `${executionId}-retry-${Date.now()}`;
+
+  await workflowQueue.add(
+    'retry',
+    {
+      executionId,
+      incidentId,
+      workflowId,
+      triggeredBy,
+      executionChain: [],
+      retry: true,
+      rerunNodeId
+    },
+    { jobId }
+  );
+
+  logger.info({ executionId, rerunNodeId }, 'Scheduled workflow retry');
+
+  return jobId;
+}
+
+/**
+ * Cancel a pending workflow execution, including any resume job waiting on a delay.
  *
  * @param executionId - ID of the execution to cancel
- * @returns True if job was found and removed
+ * @returns True if a job was found and removed
  */
 export async function cancelWorkflow(executionId: string): Promise<boolean> {
   try {
-    const job = await workflowQueue.getJob(executionId);
-    if (job) {
+    const delayed = await workflowQueue.getDelayed();
+    const jobs = [
+      await workflowQueue.getJob(executionId),
+      ...delayed.filter(job => job.data.executionId === executionId)
+    ].filter(job => job !== undefined);
+
+    for (const job of jobs) {
       await job.remove();
-      logger.info({ executionId }, 'Cancelled workflow execution');
+    }
+
+    if (jobs.length > 0) {
+      logger.info({ executionId, jobs: jobs.length }, 'Cancelled workflow execution');
       return true;
     }
     return false;
@@ -1,7 +1,8 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { requireAuth, requirePlatformAdmin } from '../middleware/auth.js';
-import { apiKeyService, ApiKeyScope } from '../services/apiKey.service.js';
+import { prisma } from '../config/database.js';
+import { apiKeyService, API_KEY_SCOPES } from '../services/apiKey.service.js';
 
 export const apiKeyRouter = Router();
 
@@ -14,7 +15,9 @@ const CreateKeySchema = z.object({
   name: z.string().min(3).max(100),
   service: z.string().min(1),
   description: z.string().optional(),
-  scopes: z.array(z.string()),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  teamId: z.string().optional(),
+  rateLimitPerMinute: z.number().int().min(1).max(5000).optional(),
   expiresInDays: z.number().min(1).max(365).optional()
 });
 
@@ -23,6 +26,14 @@ apiKeyRouter.post('/', async (req, res) => {
     const parsed = CreateKeySchema.parse(req.body);
     const userId = (req.user as any).id;
 
+    if (parsed.teamId) {
+      const team = await prisma.team.findUnique({ where: { id: parsed.teamId }, select: { id: true } });
+      if (!team) {
+        res.status(400).json({ error: 'Team not found' });
+        return;
+      }
+    }
+
     // Calculate expiry if specified
     const expiresAt = parsed.expiresInDays
       ? new Date(Date.now() + parsed.expiresInDays * 24 * 60 * 60 * 1000)
@@ -32,7 +43,9 @@ apiKeyRouter.post('/', async (req, res) => {
       name: parsed.name,
       service: parsed.service,
       description: parsed.description,
-      scopes: parsed.scopes as ApiKeyScope[],
+      scopes: parsed.scopes,
+      teamId: parsed.teamId,
+      rateLimitPerMinute: parsed.rateLimitPerMinute,
       expiresAt,
       createdById: userId
     });
@@ -45,6 +58,8 @@ apiKeyRouter.post('/', async (req, res) => {
       keyPrefix: record.keyPrefix,
       service: record.service,
       scopes: record.scopes,
+      team: record.team,
+      rateLimitPerMinute: record.rateLimitPerMinute,
       expiresAt: record.expiresAt,
       createdAt: record.createdAt
     });
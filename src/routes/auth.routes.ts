@@ -1,9 +1,10 @@
 import express from 'express';
 import passport from 'passport';
-import crypto from 'crypto';
+import { z } from 'zod';
 import { loginRateLimiter } from '../middleware/rateLimiter.js';
 import { requireAuth } from '../middleware/auth.js';
 import { auditService } from '../services/audit.service.js';
+import { webauthnService } from '../services/webauthn.service.js';
 
 const authRouter = express.Router();
 
@@ -139,39 +140,137 @@ authRouter.post('/emergency',
   }
 );
 
-// WebAuthn placeholder endpoints (full implementation deferred)
-// These endpoints provide mock responses for biometric authentication UI
-authRouter.post('/webauthn/register-challenge', (_req, res) => {
-  // In production: Generate and store challenge
-  res.json({
-    challenge: Buffer.from(crypto.randomUUID()).toString('base64'),
-    rpId: process.env.WEBAUTHN_RP_ID || 'localhost',
-    rpName: 'PageFree',
-  });
+// ============ WEBAUTHN (biometric login) ============
+
+const CredentialSchema = z.object({
+  id: z.string().min(1),
+  rawId: z.string().min(1),
+  type: z.literal('public-key'),
+  response: z.object({
+    clientDataJSON: z.string().min(1),
+    attestationObject: z.string().optional(),
+    authenticatorData: z.string().optional(),
+    signature: z.string().optional(),
+    userHandle: z.string().nullable().optional(),
+    transports: z.array(z.string()).optional()
+  })
 });
 
-authRouter.post('/webauthn/register', (_req, res) => {
-  // In production: Verify and store credential
-  res.json({ success: true });
+// POST /api/auth/webauthn/register-challenge - Start registering an authenticator
+authRouter.post('/webauthn/register-challenge', requireAuth, async (req, res): Promise<void> => {
+  try {
+    const options = await webauthnService.createRegistrationChallenge((req.user as any).id);
+    res.json(options);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to create registration challenge' });
+  }
 });
 
-authRouter.get('/webauthn/login-challenge', (_req, res) => {
-  // In production: Generate challenge, look up user credentials
-  res.json({
-    challenge: Buffer.from(crypto.randomUUID()).toString('base64'),
-    rpId: process.env.WEBAUTHN_RP_ID || 'localhost',
-    allowCredentials: [],
-  });
+// POST /api/auth/webauthn/register - Verify attestation and store the credential
+const RegisterCredentialSchema = z.object({
+  credential: CredentialSchema,
+  name: z.string().max(100).optional()
+});
+
+authRouter.post('/webauthn/register', requireAuth, async (req, res): Promise<void> => {
+  try {
+    const { credential, name } = RegisterCredentialSchema.parse(req.body);
+    const created = await webauthnService.register(
+      (req.user as any).id,
+      credential,
+      name || req.get('user-agent')?.substring(0, 100)
+    );
+    res.status(201).json({ success: true, credential: created });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      res.status(400).json({ error: 'Invalid credential', details: error.issues });
+      return;
+    }
+    if (error.message?.includes('already registered')) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    // Verification failures (bad challenge, origin, attestation) are client errors
+    res.status(400).json({ error: 'Registration failed', message: error.message });
+  }
+});
+
+// GET /api/auth/webauthn/login-challenge - Start a biometric login
+authRouter.get('/webauthn/login-challenge', async (_req, res): Promise<void> => {
+  try {
+    const options = await webauthnService.createAuthenticationChallenge();
+    res.json(options);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to create login challenge' });
+  }
+});
+
+// POST /api/auth/webauthn/login - Verify assertion and establish a session
+const LoginCredentialSchema = z.object({
+  credential: CredentialSchema
+});
+
+authRouter.post('/webauthn/login', loginRateLimiter, async (req, res): Promise<void> => {
+  const parsed = LoginCredentialSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid credential' });
+    return;
+  }
+
+  try {
+    const user = await webauthnService.authenticate(parsed.data.credential);
+
+    if (!user) {
+      // Generic error message to not reveal why verification failed
+      res.status(401).json({ error: 'Authentication failed' });
+      return;
+    }
+
+    req.logIn(user, (err: any): void => {
+      if (err) {
+        res.status(500).json({ error: 'Session creation failed' });
+        return;
+      }
+
+      res.json({
+        success: true,
+        user: {
+          id: user.id,
+          email: user.email,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          platformRole: user.platformRole,
+          isBreakGlassAccount: user.isBreakGlassAccount
+        }
+      });
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Authentication error' });
+  }
 });
 
-authRouter.post('/webauthn/login', (_req, res) => {
-  // In production: Verify assertion
-  res.json({ success: true });
+// GET /api/auth/webauthn/credentials - List current user's credentials
+authRouter.get('/webauthn/credentials', requireAuth, async (req, res): Promise<void> => {
+  try {
+    const credentials = await webauthnService.listCredentials((req.user as any).id);
+    res.json({ credentials });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to list credentials' });
+  }
 });
 
-authRouter.get('/webauthn/credentials', (_req, res) => {
-  // In production: Return user's registered credentials
-  res.json({ credentials: [] });
+// DELETE /api/auth/webauthn/credentials/:id - Revoke a credential
+authRouter.delete('/webauthn/credentials/:id', requireAuth, async (req, res): Promise<void> => {
+  try {
+    const revoked = await webauthnService.revokeCredential((req.user as any).id, req.params.id);
+    if (!revoked) {
+      res.status(404).json({ error: 'Credential not found' });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to revoke credential' });
+  }
 });
 
 export { authRouter };
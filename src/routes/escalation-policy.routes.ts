@@ -54,7 +54,7 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
 // POST /api/escalation-policies - Create policy
 router.post('/', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { teamId, name, description, isDefault, repeatCount, levels } = req.body;
+    const { teamId, name, description, isDefault, repeatCount, ackTimeoutMinutes, levels } = req.body;
     const user = req.user as AuthenticatedUser;
 
     if (!teamId || !name) {
@@ -77,13 +77,18 @@ router.post('/', async (req: Request, res: Response, next: NextFunction) => {
     }
 
     const policy = await escalationPolicyService.create(
-      { teamId, name, description, isDefault, repeatCount, levels: levels || [] },
+      { teamId, name, description, isDefault, repeatCount, ackTimeoutMinutes, levels: levels || [] },
       user.id
     );
 
     return res.status(201).json({ policy });
   } catch (error: any) {
-    if (error.message.includes('required') || error.message.includes('validation')) {
+    if (
+      error.message.includes('required') ||
+      error.message.includes('validation') ||
+      error.message.includes('assignment strategy') ||
+      error.message.includes('Ack timeout')
+    ) {
       return res.status(400).json({ error: error.message });
     }
     return next(error);
@@ -106,10 +111,10 @@ router.patch('/:id', async (req: Request, res: Response, next: NextFunction) =>
       return res.status(403).json({ error: permission.reason });
     }
 
-    const { name, description, isDefault, repeatCount, isActive } = req.body;
+    const { name, description, isDefault, repeatCount, ackTimeoutMinutes, isActive } = req.body;
     const policy = await escalationPolicyService.update(
       req.params.id,
-      { name, description, isDefault, repeatCount, isActive },
+      { name, description, isDefault, repeatCount, ackTimeoutMinutes, isActive },
       user.id
     );
 
@@ -118,6 +123,9 @@ router.patch('/:id', async (req: Request, res: Response, next: NextFunction) =>
     if (error.message.includes('not found')) {
       return res.status(404).json({ error: error.message });
     }
+    if (error.message.includes('Ack timeout')) {
+      return res.status(400).json({ error: error.message });
+    }
     return next(error);
   }
 });
@@ -163,21 +171,32 @@ router.post('/:id/levels', async (req: Request, res: Response, next: NextFunctio
       return res.status(403).json({ error: permission.reason });
     }
 
-    const { levelNumber, targetType, targetId, timeoutMinutes } = req.body;
+    const { levelNumber, targetType, targetId, targets, assignmentStrategy, timeoutMinutes } = req.body;
+
+    if (!levelNumber || (!targetType && !targets?.length)) {
+      return res.status(400).json({ error: 'levelNumber and targetType (or targets) are required' });
+    }
 
-    if (!levelNumber || !targetType) {
-      return res.status(400).json({ error: 'levelNumber and targetType are required' });
+    if (targets !== undefined && !Array.isArray(targets)) {
+      return res.status(400).json({ error: 'targets must be an array' });
     }
 
     const level = await escalationPolicyService.addLevel(
       req.params.id,
-      { levelNumber, targetType, targetId, timeoutMinutes },
+      { levelNumber, targetType, targetId, targets, assignmentStrategy, timeoutMinutes },
       user.id
     );
 
     return res.status(201).json({ level });
   } catch (error: any) {
-    if (error.message.includes('already exists') || error.message.includes('Maximum')) {
+    if (
+      error.message.includes('already exists') ||
+      error.message.includes('Maximum') ||
+      error.message.includes('maximum') ||
+      error.message.includes('minimum') ||
+      error.message.includes('required') ||
+      error.message.includes('assignment strategy')
+    ) {
       return res.status(400).json({ error: error.message });
     }
     return next(error);
@@ -188,11 +207,15 @@ router.post('/:id/levels', async (req: Request, res: Response, next: NextFunctio
 router.patch('/levels/:levelId', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const user = req.user as AuthenticatedUser;
-    const { targetType, targetId, timeoutMinutes } = req.body;
+    const { targetType, targetId, targets, assignmentStrategy, timeoutMinutes } = req.body;
+
+    if (targets !== undefined && !Array.isArray(targets)) {
+      return res.status(400).json({ error: 'targets must be an array' });
+    }
 
     const level = await escalationPolicyService.updateLevel(
       req.params.levelId,
-      { targetType, targetId, timeoutMinutes },
+      { targetType, targetId, targets, assignmentStrategy, timeoutMinutes },
       user.id
     );
 
@@ -201,6 +224,14 @@ router.patch('/levels/:levelId', async (req: Request, res: Response, next: NextF
     if (error.message.includes('not found')) {
       return res.status(404).json({ error: error.message });
     }
+    if (
+      error.message.includes('maximum') ||
+      error.message.includes('minimum') ||
+      error.message.includes('required') ||
+      error.message.includes('assignment strategy')
+    ) {
+      return res.status(400).json({ error: error.message });
+    }
     return next(error);
   }
 });
@@ -0,0 +1,156 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../middleware/auth.js';
+import { permissionService } from '../services/permission.service.js';
+import { groupingRuleService } from '../services/groupingRule.service.js';
+import type { AuthenticatedUser } from '../types/auth.js';
+
+export const groupingRuleRouter = Router();
+
+// All grouping rule routes require authentication
+groupingRuleRouter.use(requireAuth);
+
+const StrategySchema = z.enum(['metadata_keys', 'routing_key', 'title_similarity']);
+
+// Validation errors from the service that should surface as 400
+function isValidationError(error: any): boolean {
+  return error.message?.includes('At least one') ||
+    error.message?.includes('does not belong') ||
+    error.message === 'Integration not found';
+}
+
+// GET /api/grouping-rules - List grouping rules
+const ListRulesSchema = z.object({
+  teamId: z.string().optional(),
+  serviceId: z.string().optional(),
+  integrationId: z.string().optional(),
+  includeInactive: z.coerce.boolean().optional()
+});
+
+groupingRuleRouter.get('/', async (req, res) => {
+  try {
+    const params = ListRulesSchema.parse(req.query);
+    const rules = await groupingRuleService.list(params);
+    return res.json({ rules });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid query parameters', details: error.issues });
+    }
+    console.error('Failed to list grouping rules:', error);
+    return res.status(500).json({ error: 'Failed to list grouping rules' });
+  }
+});
+
+// GET /api/grouping-rules/:id - Get grouping rule
+groupingRuleRouter.get('/:id', async (req, res) => {
+  try {
+    const rule = await groupingRuleService.getById(req.params.id);
+    if (!rule) {
+      return res.status(404).json({ error: 'Grouping rule not found' });
+    }
+    return res.json({ rule });
+  } catch (error) {
+    console.error('Failed to get grouping rule:', error);
+    return res.status(500).json({ error: 'Failed to get grouping rule' });
+  }
+});
+
+// POST /api/grouping-rules - Create grouping rule (team admin)
+const CreateRuleSchema = z.object({
+  name: z.string().min(1).max(200),
+  teamId: z.string().min(1),
+  serviceId: z.string().optional(),
+  integrationId: z.string().optional(),
+  strategy: StrategySchema,
+  metadataKeys: z.array(z.string().min(1).max(100)).max(10).optional(),
+  similarityThreshold: z.number().min(0.1).max(1).optional(),
+  windowMinutes: z.number().int().min(1).max(10080).optional(),
+  priority: z.number().int().min(0).max(1000).optional()
+});
+
+groupingRuleRouter.post('/', async (req, res) => {
+  try {
+    const input = CreateRuleSchema.parse(req.body);
+    const user = req.user as AuthenticatedUser;
+
+    const permission = permissionService.canManageTeam(user, input.teamId);
+    if (!permission.allowed) {
+      return res.status(403).json({ error: permission.reason });
+    }
+
+    const rule = await groupingRuleService.create(input, user.id);
+    return res.status(201).json({ rule });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid grouping rule data', details: error.issues });
+    }
+    if (isValidationError(error)) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Failed to create grouping rule:', error);
+    return res.status(500).json({ error: 'Failed to create grouping rule' });
+  }
+});
+
+// PATCH /api/grouping-rules/:id - Update grouping rule (team admin)
+const UpdateRuleSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  serviceId: z.string().nullable().optional(),
+  integrationId: z.string().nullable().optional(),
+  strategy: StrategySchema.optional(),
+  metadataKeys: z.array(z.string().min(1).max(100)).max(10).optional(),
+  similarityThreshold: z.number().min(0.1).max(1).optional(),
+  windowMinutes: z.number().int().min(1).max(10080).optional(),
+  priority: z.number().int().min(0).max(1000).optional(),
+  isActive: z.boolean().optional()
+});
+
+groupingRuleRouter.patch('/:id', async (req, res) => {
+  try {
+    const existing = await groupingRuleService.getById(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Grouping rule not found' });
+    }
+
+    const user = req.user as AuthenticatedUser;
+    const permission = permissionService.canManageTeam(user, existing.teamId);
+    if (!permission.allowed) {
+      return res.status(403).json({ error: permission.reason });
+    }
+
+    const input = UpdateRuleSchema.parse(req.body);
+    const rule = await groupingRuleService.update(req.params.id, input, user.id);
+    return res.json({ rule });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid grouping rule data', details: error.issues });
+    }
+    if (isValidationError(error)) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Failed to update grouping rule:', error);
+    return res.status(500).json({ error: 'Failed to update grouping rule' });
+  }
+});
+
+// DELETE /api/grouping-rules/:id - Delete grouping rule (team admin)
+groupingRuleRouter.delete('/:id', async (req, res) => {
+  try {
+    const existing = await groupingRuleService.getById(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Grouping rule not found' });
+    }
+
+    const user = req.user as AuthenticatedUser;
+    const permission = permissionService.canManageTeam(user, existing.teamId);
+    if (!permission.allowed) {
+      return res.status(403).json({ error: permission.reason });
+    }
+
+    await groupingRuleService.delete(req.params.id, user.id);
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Failed to delete grouping rule:', error);
+    return res.status(500).json({ error: 'Failed to delete grouping rule' });
+  }
+});
@@ -2,7 +2,13 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database.js';
-import { incidentService } from '../services/incident.service.js';
+import {
+  incidentService,
+  DEFAULT_SNOOZE_MINUTES,
+  MIN_SNOOZE_MINUTES,
+  MAX_SNOOZE_MINUTES,
+} from '../services/incident.service.js';
+import { incidentRoleService, NAMED_INCIDENT_ROLES } from '../services/incidentRole.service.js';
 import { permissionService } from '../services/permission.service.js';
 import { validateParameters } from '../services/runbook/runbook-executor.service.js';
 import { scheduleRunbook } from '../queues/runbook.queue.js';
@@ -21,6 +27,34 @@ const createIncidentSchema = z.object({
   assignedUserId: z.string().optional(),
 });
 
+const mergeIncidentsSchema = z.object({
+  sourceIncidentIds: z.array(z.string()).min(1).max(20),
+});
+
+const splitIncidentSchema = z.object({
+  alertIds: z.array(z.string()).min(1).max(500),
+});
+
+const updateIncidentSchema = z.object({
+  title: z.string().trim().min(1).max(500).optional(),
+  summary: z.string().max(5000).nullable().optional(),
+  priority: z.enum(['INFO', 'LOW', 'MEDIUM', 'HIGH', 'CRITICAL']).optional(),
+  impactedServiceIds: z.array(z.string()).max(50).optional(),
+});
+
+const snoozeIncidentSchema = z.object({
+  minutes: z.number().int().min(MIN_SNOOZE_MINUTES).max(MAX_SNOOZE_MINUTES).default(DEFAULT_SNOOZE_MINUTES),
+});
+
+const assignRoleSchema = z.object({
+  role: z.enum(NAMED_INCIDENT_ROLES),
+  userId: z.string().min(1),
+});
+
+const addResponderSchema = z.object({
+  userId: z.string().min(1),
+});
+
 // POST /api/incidents - Create incident manually
 router.post('/', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -149,6 +183,40 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
   }
 });
 
+// PATCH /api/incidents/:id - Edit title, summary, priority and impacted services
+router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const input = updateIncidentSchema.parse(req.body);
+    const incident = await incidentService.getById(req.params.id);
+
+    if (!incident) {
+      return res.status(404).json({ error: 'Incident not found' });
+    }
+
+    const permission = permissionService.canRespondToIncident(
+      (req as any).user,
+      incident.teamId
+    );
+
+    if (!permission.allowed) {
+      return res.status(403).json({ error: permission.reason });
+    }
+
+    await incidentService.update(req.params.id, input, (req as any).user.id);
+
+    const updated = await incidentService.getById(req.params.id);
+    return res.json({ incident: updated });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid incident update', details: error.issues });
+    }
+    if (error.message.includes('Cannot change') || error.message.includes('must exist')) {
+      return res.status(400).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
 // POST /api/incidents/:id/acknowledge - Acknowledge incident (ROUTE-05)
 router.post('/:id/acknowledge', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -184,6 +252,44 @@ router.post('/:id/acknowledge', async (req: Request, res: Response, next: NextFu
   }
 });
 
+// POST /api/incidents/:id/snooze - Pause escalation and reopen the incident later
+router.post('/:id/snooze', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const incident = await incidentService.getById(req.params.id);
+
+    if (!incident) {
+      return res.status(404).json({ error: 'Incident not found' });
+    }
+
+    const permission = permissionService.canRespondToIncident(
+      (req as any).user,
+      incident.teamId
+    );
+
+    if (!permission.allowed) {
+      return res.status(403).json({ error: permission.reason });
+    }
+
+    const { minutes } = snoozeIncidentSchema.parse(req.body ?? {});
+    const updated = await incidentService.snooze(
+      req.params.id,
+      (req as any).user.id,
+      minutes,
+      { source: 'web' }
+    );
+
+    return res.json({ incident: updated });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid snooze request', details: error.issues });
+    }
+    if (error.message.includes('Cannot snooze') || error.message.includes('Snooze duration')) {
+      return res.status(400).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
 // POST /api/incidents/:id/resolve - Resolve incident
 router.post('/:id/resolve', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -314,6 +420,230 @@ router.post('/:id/reassign', async (req: Request, res: Response, next: NextFunct
   }
 });
 
+// POST /api/incidents/:id/merge - Merge other incidents into this one
+router.post('/:id/merge', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const input = mergeIncidentsSchema.parse(req.body);
+    const incident = await incidentService.getById(req.params.id);
+
+    if (!incident) {
+      return res.status(404).json({ error: 'Incident not found' });
+    }
+
+    const permission = permissionService.canRespondToIncident(
+      (req as any).user,
+      incident.teamId
+    );
+
+    if (!permission.allowed) {
+      return res.status(403).json({ error: permission.reason });
+    }
+
+    const updated = await incidentService.merge(
+      req.params.id,
+      input.sourceIncidentIds,
+      (req as any).user.id
+    );
+
+    return res.json({ incident: updated });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid merge request', details: error.issues });
+    }
+    if (error.message === 'Incident not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message.includes('Cannot merge') || error.message.includes('Select at least')) {
+      return res.status(400).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
+// POST /api/incidents/:id/split - Move selected alerts into a new incident
+router.post('/:id/split', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const input = splitIncidentSchema.parse(req.body);
+    const incident = await incidentService.getById(req.params.id);
+
+    if (!incident) {
+      return res.status(404).json({ error: 'Incident not found' });
+    }
+
+    const permission = permissionService.canRespondToIncident(
+      (req as any).user,
+      incident.teamId
+    );
+
+    if (!permission.allowed) {
+      return res.status(403).json({ error: permission.reason });
+    }
+
+    const created = await incidentService.split(
+      req.params.id,
+      input.alertIds,
+      (req as any).user.id
+    );
+
+    return res.status(201).json({ incident: created });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid split request', details: error.issues });
+    }
+    if (error.message.includes('Cannot split') || error.message.includes('must belong')) {
+      return res.status(400).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
+// GET /api/incidents/:id/roles - Current role holders and assignment history
+router.get('/:id/roles', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const incident = await incidentService.getById(req.params.id);
+
+    if (!incident) {
+      return res.status(404).json({ error: 'Incident not found' });
+    }
+
+    const permission = permissionService.canViewTeam(
+      (req as any).user,
+      incident.teamId
+    );
+
+    if (!permission.allowed) {
+      return res.status(403).json({ error: permission.reason });
+    }
+
+    const [responders, history] = await Promise.all([
+      incidentRoleService.listActive(req.params.id),
+      incidentRoleService.getHistory(req.params.id)
+    ]);
+
+    return res.json({ responders, history });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+// POST /api/incidents/:id/roles - Assign incident commander, comms lead or scribe
+router.post('/:id/roles', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const input = assignRoleSchema.parse(req.body);
+    const incident = await incidentService.getById(req.params.id);
+
+    if (!incident) {
+      return res.status(404).json({ error: 'Incident not found' });
+    }
+
+    const permission = permissionService.canRespondToIncident(
+      (req as any).user,
+      incident.teamId
+    );
+
+    if (!permission.allowed) {
+      return res.status(403).json({ error: permission.reason });
+    }
+
+    const assignment = await incidentRoleService.assignRole(
+      req.params.id,
+      input.role,
+      input.userId,
+      (req as any).user.id,
+      { canManageTeam: permissionService.canManageTeam((req as any).user, incident.teamId).allowed }
+    );
+
+    return res.status(201).json({ assignment });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid role assignment', details: error.issues });
+    }
+    if (error.message.startsWith('Only team admins')) {
+      return res.status(403).json({ error: error.message });
+    }
+    if (error.code === 'P2034') {
+      return res.status(409).json({ error: 'Role was changed concurrently, please retry' });
+    }
+    if (error.message.includes('Cannot change') || error.message.includes('must be') || error.message.includes('already')) {
+      return res.status(400).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
+// POST /api/incidents/:id/responders - Add and page an additional responder
+router.post('/:id/responders', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const input = addResponderSchema.parse(req.body);
+    const incident = await incidentService.getById(req.params.id);
+
+    if (!incident) {
+      return res.status(404).json({ error: 'Incident not found' });
+    }
+
+    const permission = permissionService.canRespondToIncident(
+      (req as any).user,
+      incident.teamId
+    );
+
+    if (!permission.allowed) {
+      return res.status(403).json({ error: permission.reason });
+    }
+
+    const assignment = await incidentRoleService.addResponder(
+      req.params.id,
+      input.userId,
+      (req as any).user.id
+    );
+
+    return res.status(201).json({ assignment });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid responder', details: error.issues });
+    }
+    if (error.message.includes('Cannot change') || error.message.includes('must be') || error.message.includes('already')) {
+      return res.status(400).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
+// DELETE /api/incidents/:id/roles/:assignmentId - Unassign a role or responder
+router.delete('/:id/roles/:assignmentId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const incident = await incidentService.getById(req.params.id);
+
+    if (!incident) {
+      return res.status(404).json({ error: 'Incident not found' });
+    }
+
+    const permission = permissionService.canRespondToIncident(
+      (req as any).user,
+      incident.teamId
+    );
+
+    if (!permission.allowed) {
+      return res.status(403).json({ error: permission.reason });
+    }
+
+    await incidentRoleService.remove(
+      req.params.id,
+      req.params.assignmentId,
+      (req as any).user.id,
+      { canManageTeam: permissionService.canManageTeam((req as any).user, incident.teamId).allowed }
+    );
+    return res.json({ success: true });
+  } catch (error: any) {
+    if (error.message === 'Role assignment not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message.startsWith('Only team admins')) {
+      return res.status(403).json({ error: error.message });
+    }
+    return next(error);
+  }
+});
+
 // POST /api/incidents/:id/notes - Add note to incident
 router.post('/:id/notes', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -398,6 +728,33 @@ router.get('/:id/runbooks/executions', async (req: Request, res: Response, next:
   }
 });
 
+// GET /api/incidents/:id/workflows/executions - List workflow executions for incident
+router.get('/:id/workflows/executions', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const incident = await incidentService.getById(req.params.id);
+    if (!incident) {
+      return res.status(404).json({ error: 'Incident not found' });
+    }
+
+    const permission = permissionService.canViewTeam((req as any).user, incident.teamId);
+    if (!permission.allowed) {
+      return res.status(403).json({ error: permission.reason });
+    }
+
+    const executions = await prisma.workflowExecution.findMany({
+      where: { incidentId: req.params.id },
+      include: {
+        workflow: { select: { id: true, name: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return res.json({ executions });
+  } catch (error) {
+    return next(error);
+  }
+});
+
 // POST /api/incidents/:id/runbooks/:runbookId/execute - Manual runbook trigger (AUTO-10)
 router.post('/:id/runbooks/:runbookId/execute', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -1,6 +1,8 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { integrationService } from '../services/integration.service.js';
+import { webhookReplayService } from '../services/webhookReplay.service.js';
+import { mappingConfigSchema } from '../webhooks/schemas/index.js';
 import { requireAuth, requirePlatformAdmin } from '../middleware/auth.js';
 import { formatValidationError, createProblemDetails } from '../utils/problem-details.js';
 import { logger } from '../config/logger.js';
@@ -14,12 +16,18 @@ integrationRouter.use(requirePlatformAdmin);
 // Validation schemas
 const createIntegrationSchema = z.object({
   name: z.string().min(1).max(100).regex(/^[a-z0-9-]+$/, 'Name must be lowercase alphanumeric with dashes'),
-  type: z.enum(['datadog', 'newrelic', 'pagerduty', 'generic']),
+  type: z.enum(['datadog', 'newrelic', 'alertmanager', 'pagerduty', 'generic']),
   signatureHeader: z.string().max(100).optional(),
   signatureAlgorithm: z.enum(['sha256', 'sha512']).optional(),
   signatureFormat: z.enum(['hex', 'base64']).optional(),
   signaturePrefix: z.string().max(50).optional(),
-  deduplicationWindowMinutes: z.number().int().min(1).max(1440).optional()
+  deduplicationWindowMinutes: z.number().int().min(1).max(1440).optional(),
+  autoResolve: z.boolean().optional(),
+  stormThreshold: z.number().int().min(1).max(10000).nullable().optional(),
+  stormWindowMinutes: z.number().int().min(1).max(1440).optional(),
+  flapThreshold: z.number().int().min(1).max(100).nullable().optional(),
+  flapWindowMinutes: z.number().int().min(1).max(1440).optional(),
+  mappingConfig: mappingConfigSchema.optional()
 });
 
 const updateIntegrationSchema = z.object({
@@ -29,10 +37,33 @@ const updateIntegrationSchema = z.object({
   signatureFormat: z.enum(['hex', 'base64']).optional(),
   signaturePrefix: z.string().max(50).optional(),
   deduplicationWindowMinutes: z.number().int().min(1).max(1440).optional(),
+  autoResolve: z.boolean().optional(),
+  stormThreshold: z.number().int().min(1).max(10000).nullable().optional(),
+  stormWindowMinutes: z.number().int().min(1).max(1440).optional(),
+  flapThreshold: z.number().int().min(1).max(100).nullable().optional(),
+  flapWindowMinutes: z.number().int().min(1).max(1440).optional(),
+  mappingConfig: mappingConfigSchema.nullable().optional(),
   isActive: z.boolean().optional(),
   defaultServiceId: z.string().uuid().nullable().optional() // Phase 13 - ROUTE-04
 });
 
+const replayDeliveriesSchema = z.object({
+  deliveryIds: z.array(z.string()).min(1).max(100).optional(),
+  statusCodes: z.array(z.number().int().min(100).max(599)).optional(),
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  limit: z.number().int().min(1).max(100).optional(),
+  dryRun: z.boolean().optional()
+}).refine(
+  data => data.deliveryIds || data.statusCodes || data.since || data.until,
+  { message: 'Select deliveries by deliveryIds or a filter (statusCodes, since, until)' }
+);
+
+const previewMappingSchema = z.object({
+  deliveryId: z.string().optional(), // Defaults to the latest delivery
+  mappingConfig: mappingConfigSchema.optional() // Draft mapping; defaults to the saved one
+});
+
 /**
  * POST /api/integrations
  * Creates a new integration. Returns webhook secret ONCE.
@@ -224,3 +255,77 @@ integrationRouter.get('/:id/deliveries', async (req: Request, res: Response): Pr
 
   res.json({ deliveries });
 });
+
+/**
+ * POST /api/integrations/:id/deliveries/replay
+ * Re-run stored deliveries through the ingestion pipeline (no signature check).
+ */
+integrationRouter.post('/:id/deliveries/replay', async (req: Request, res: Response): Promise<void> => {
+  const result = replayDeliveriesSchema.safeParse(req.body);
+
+  if (!result.success) {
+    res.status(400).json(formatValidationError(result.error, req.path));
+    return;
+  }
+
+  const replay = await webhookReplayService.replay(req.params.id, result.data, req.user!.id);
+
+  if (!replay) {
+    res.status(404).json(createProblemDetails(
+      'integration-not-found',
+      'Integration not found',
+      404
+    ));
+    return;
+  }
+
+  res.json(replay);
+});
+
+/**
+ * POST /api/integrations/:id/mapping/preview
+ * Preview a mapping config against a stored delivery payload (nothing is created).
+ */
+integrationRouter.post('/:id/mapping/preview', async (req: Request, res: Response): Promise<void> => {
+  const result = previewMappingSchema.safeParse(req.body);
+
+  if (!result.success) {
+    res.status(400).json(formatValidationError(result.error, req.path));
+    return;
+  }
+
+  try {
+    const preview = await integrationService.previewMapping(req.params.id, result.data);
+
+    if (!preview) {
+      res.status(404).json(createProblemDetails(
+        'integration-not-found',
+        'Integration not found',
+        404
+      ));
+      return;
+    }
+
+    res.json(preview);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Delivery not found') {
+      res.status(404).json(createProblemDetails(
+        'delivery-not-found',
+        'Delivery not found',
+        404,
+        { detail: 'No stored webhook delivery to preview against' }
+      ));
+      return;
+    }
+    if (error instanceof Error && error.message === 'Integration has no mapping config') {
+      res.status(400).json(createProblemDetails(
+        'mapping-not-configured',
+        'Integration has no mapping config',
+        400,
+        { detail: 'Provide mappingConfig in the request body' }
+      ));
+      return;
+    }
+    throw error;
+  }
+});
@@ -4,6 +4,8 @@ import { prisma } from '../config/database.js';
 import { requireAuth } from '../middleware/auth.js';
 import { contactService } from '../services/contact.service.js';
 import { auditService } from '../services/audit.service.js';
+import { notificationRuleService, MAX_RULE_DELAY_MINUTES } from '../services/notificationRule.service.js';
+import { NOTIFICATION_RULE_PRIORITIES } from '../types/notificationRule.js';
 
 export const notificationRouter = Router();
 
@@ -83,6 +85,61 @@ notificationRouter.put('/preferences', async (req, res) => {
   }
 });
 
+// GET /api/notifications/rules - Get current user's notification rules and quiet hours
+notificationRouter.get('/rules', async (req, res) => {
+  try {
+    const userId = (req.user as any).id;
+    const { rules, quietHours } = await notificationRuleService.getForUser(userId);
+
+    return res.json({
+      rules: rules.map(r => ({
+        id: r.id,
+        priority: r.priority,
+        channel: r.channel,
+        delayMinutes: r.delayMinutes
+      })),
+      quietHours
+    });
+  } catch (error) {
+    return res.status(500).json({ error: 'Failed to get notification rules' });
+  }
+});
+
+// PUT /api/notifications/rules - Replace notification rules and quiet hours
+const TimeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:mm');
+
+const UpdateRulesSchema = z.object({
+  rules: z.array(z.object({
+    priority: z.enum(NOTIFICATION_RULE_PRIORITIES),
+    channel: z.enum(['EMAIL', 'SMS', 'PUSH', 'SLACK', 'TEAMS', 'VOICE']),
+    delayMinutes: z.number().int().min(0).max(MAX_RULE_DELAY_MINUTES)
+  })).max(30),
+  quietHours: z.object({
+    timezone: z.string().min(1),
+    start: TimeOfDaySchema,
+    end: TimeOfDaySchema
+  }).nullable()
+});
+
+notificationRouter.put('/rules', async (req, res) => {
+  try {
+    const userId = (req.user as any).id;
+    const { rules, quietHours } = UpdateRulesSchema.parse(req.body);
+
+    const updated = await notificationRuleService.replace(userId, rules, quietHours);
+    return res.json(updated);
+  } catch (error) {
+    if ((error as any).name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid notification rules', details: (error as any).issues });
+    }
+    const message = (error as Error).message;
+    if (message.includes('Duplicate rule') || message.includes('timezone') || message.includes('Quiet hours')) {
+      return res.status(400).json({ error: message });
+    }
+    return res.status(500).json({ error: 'Failed to update notification rules' });
+  }
+});
+
 // GET /api/notifications/verification/status - Get verification status
 notificationRouter.get('/verification/status', async (req, res) => {
   try {
@@ -3,7 +3,8 @@ import { z } from 'zod';
 import { requireAuth, requirePlatformAdmin } from '../middleware/auth.js';
 import { serviceService } from '../services/service.service.js';
 import { serviceDependencyService } from '../services/service-dependency.service.js';
-import { ServiceStatus } from '@prisma/client';
+import { supportHoursService } from '../services/supportHours.service.js';
+import { AlertSeverity, ServiceStatus } from '@prisma/client';
 
 export const serviceRouter = Router();
 
@@ -47,6 +48,26 @@ serviceRouter.get('/:serviceId', async (req, res) => {
   }
 });
 
+// Support hours and urgency rules (urgency routing)
+const TimeOfDaySchema = z.string().regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, 'Time must be HH:mm');
+
+const SupportHoursSchema = z.object({
+  timezone: z.string().min(1),
+  windows: z.array(z.object({
+    days: z.array(z.number().int().min(1).max(7)).min(1),  // ISO weekdays, 1 = Monday
+    start: TimeOfDaySchema,
+    end: TimeOfDaySchema
+  })).min(1).max(50)
+}).superRefine((config, ctx) => {
+  try {
+    supportHoursService.validate(config);
+  } catch (error) {
+    ctx.addIssue({ code: 'custom', message: (error as Error).message });
+  }
+});
+
+const UrgencyRulesSchema = z.partialRecord(z.enum(AlertSeverity), z.enum(['high', 'low']));
+
 // POST /api/services - Create service (platform admin only for now)
 // SVC-01: name, description, routing key, owning team
 // SVC-05: teamId is required
@@ -57,7 +78,9 @@ const CreateServiceSchema = z.object({
     'Routing key must contain only alphanumeric characters, underscores, and hyphens'),
   teamId: z.string().min(1, 'Owning team is required'),  // SVC-05
   escalationPolicyId: z.string().optional(),
-  tags: z.array(z.string().max(50)).max(20).optional()
+  tags: z.array(z.string().max(50)).max(20).optional(),
+  supportHours: SupportHoursSchema.optional(),
+  urgencyRules: UrgencyRulesSchema.optional()
 });
 
 serviceRouter.post('/', requirePlatformAdmin, async (req, res) => {
@@ -84,7 +107,9 @@ const UpdateServiceSchema = z.object({
   name: z.string().min(2).max(100).optional(),
   description: z.string().max(500).optional(),
   tags: z.array(z.string().max(50)).max(20).optional(),
-  escalationPolicyId: z.string().nullable().optional()  // null to remove override
+  escalationPolicyId: z.string().nullable().optional(),  // null to remove override
+  supportHours: SupportHoursSchema.nullable().optional(),  // null pages 24/7
+  urgencyRules: UrgencyRulesSchema.nullable().optional()
 });
 
 serviceRouter.patch('/:serviceId', async (req, res) => {
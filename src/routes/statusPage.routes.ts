@@ -6,6 +6,8 @@ import { maintenanceService } from '../services/maintenance.service.js';
 import { statusIncidentService } from '../services/statusIncident.service.js';
 import { auditService } from '../services/audit.service.js';
 import { permissionService } from '../services/permission.service.js';
+import { incidentRoleService } from '../services/incidentRole.service.js';
+import { incidentService } from '../services/incident.service.js';
 import { AuthenticatedUser } from '../types/auth.js';
 import type { StatusIncidentSeverity, StatusIncidentStatus } from '../types/statusPage.js';
 
@@ -607,10 +609,19 @@ router.post('/:id/incidents', async (req: Request, res: Response, next: NextFunc
       return res.status(404).json({ error: 'Status page not found' });
     }
 
-    // Verify team admin
-    const canManage = permissionService.hasMinimumTeamRole(user, statusPage.teamId, 'TEAM_ADMIN');
-    if (!canManage) {
-      return res.status(403).json({ error: 'Team admin access required' });
+    // A linked incident must belong to the page's team - its role holders can't publish elsewhere
+    if (incidentId) {
+      const incident = await incidentService.getById(incidentId);
+      if (!incident || incident.teamId !== statusPage.teamId) {
+        return res.status(400).json({ error: 'Linked incident must belong to the status page team' });
+      }
+    }
+
+    // Team admins publish, unless the linked incident has a named IC or comms lead
+    const publisherIds = incidentId ? await incidentRoleService.getStatusPublisherIds(incidentId) : [];
+    const permission = permissionService.canPublishStatusUpdate(user, statusPage.teamId, publisherIds);
+    if (!permission.allowed) {
+      return res.status(403).json({ error: permission.reason });
     }
 
     if (!title || !severity) {
@@ -644,12 +655,6 @@ router.post('/:pageId/incidents/:incidentId/updates', async (req: Request, res:
       return res.status(404).json({ error: 'Status page not found' });
     }
 
-    // Verify team admin
-    const canManage = permissionService.hasMinimumTeamRole(user, statusPage.teamId, 'TEAM_ADMIN');
-    if (!canManage) {
-      return res.status(403).json({ error: 'Team admin access required' });
-    }
-
     if (!status || !message) {
       return res.status(400).json({ error: 'status and message are required' });
     }
@@ -660,6 +665,16 @@ router.post('/:pageId/incidents/:incidentId/updates', async (req: Request, res:
       return res.status(404).json({ error: 'Status incident not found' });
     }
 
+    // Team admins publish, unless the linked incident (on the page's team) has a named IC or comms lead
+    const linkedIncident = existing.incident?.teamId === statusPage.teamId ? existing.incident : null;
+    const publisherIds = linkedIncident
+      ? await incidentRoleService.getStatusPublisherIds(linkedIncident.id)
+      : [];
+    const permission = permissionService.canPublishStatusUpdate(user, statusPage.teamId, publisherIds);
+    if (!permission.allowed) {
+      return res.status(403).json({ error: permission.reason });
+    }
+
     const statusIncident = await statusIncidentService.addUpdate(req.params.incidentId, {
       status: status as StatusIncidentStatus,
       message
@@ -0,0 +1,176 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireAuth } from '../middleware/auth.js';
+import { permissionService } from '../services/permission.service.js';
+import { suppressionWindowService } from '../services/suppressionWindow.service.js';
+import type { AuthenticatedUser } from '../types/auth.js';
+
+export const suppressionWindowRouter = Router();
+
+// All suppression window routes require authentication
+suppressionWindowRouter.use(requireAuth);
+
+const MatcherSchema = z.object({
+  key: z.string().min(1).max(100),
+  value: z.string().max(500)
+});
+
+// GET /api/suppression-windows - List suppression windows
+const ListWindowsSchema = z.object({
+  teamId: z.string().optional(),
+  includeInactive: z.coerce.boolean().optional()
+});
+
+suppressionWindowRouter.get('/', async (req, res) => {
+  try {
+    const params = ListWindowsSchema.parse(req.query);
+    const user = req.user as AuthenticatedUser;
+
+    if (params.teamId) {
+      const permission = permissionService.canViewTeam(user, params.teamId);
+      if (!permission.allowed) {
+        return res.status(403).json({ error: permission.reason });
+      }
+    }
+
+    // Without a team filter, non-admins only see their own teams' windows
+    const teamIds = params.teamId || permissionService.isPlatformAdmin(user)
+      ? undefined
+      : user.teamMembers.map(m => m.teamId);
+
+    const windows = await suppressionWindowService.list({ ...params, teamIds });
+    return res.json({ windows });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid query parameters', details: error.issues });
+    }
+    console.error('Failed to list suppression windows:', error);
+    return res.status(500).json({ error: 'Failed to list suppression windows' });
+  }
+});
+
+// GET /api/suppression-windows/:id - Get suppression window
+suppressionWindowRouter.get('/:id', async (req, res) => {
+  try {
+    const window = await suppressionWindowService.getById(req.params.id);
+    if (!window) {
+      return res.status(404).json({ error: 'Suppression window not found' });
+    }
+
+    const permission = permissionService.canViewTeam(req.user as AuthenticatedUser, window.teamId);
+    if (!permission.allowed) {
+      return res.status(403).json({ error: permission.reason });
+    }
+
+    return res.json({ window });
+  } catch (error) {
+    console.error('Failed to get suppression window:', error);
+    return res.status(500).json({ error: 'Failed to get suppression window' });
+  }
+});
+
+// POST /api/suppression-windows - Create suppression window (team admin)
+const CreateWindowSchema = z.object({
+  name: z.string().min(1).max(200),
+  description: z.string().max(1000).optional(),
+  teamId: z.string().min(1),
+  startTime: z.coerce.date(),
+  endTime: z.coerce.date(),
+  recurrenceRule: z.string().max(500).optional(),
+  serviceIds: z.array(z.string()).max(50).optional(),
+  integrationIds: z.array(z.string()).max(50).optional(),
+  matchers: z.array(MatcherSchema).max(20).optional()
+});
+
+suppressionWindowRouter.post('/', async (req, res) => {
+  try {
+    const input = CreateWindowSchema.parse(req.body);
+    const user = req.user as AuthenticatedUser;
+
+    const permission = permissionService.canManageTeam(user, input.teamId);
+    if (!permission.allowed) {
+      return res.status(403).json({ error: permission.reason });
+    }
+
+    const window = await suppressionWindowService.create(input, user.id);
+    return res.status(201).json({ window });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid suppression window data', details: error.issues });
+    }
+    if (error.message?.includes('must be after') ||
+        error.message?.includes('Invalid recurrence') ||
+        error.message?.includes('At least one') ||
+        error.message?.includes('Some ')) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Failed to create suppression window:', error);
+    return res.status(500).json({ error: 'Failed to create suppression window' });
+  }
+});
+
+// PATCH /api/suppression-windows/:id - Update suppression window (team admin)
+const UpdateWindowSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  description: z.string().max(1000).nullable().optional(),
+  startTime: z.coerce.date().optional(),
+  endTime: z.coerce.date().optional(),
+  recurrenceRule: z.string().max(500).nullable().optional(),
+  serviceIds: z.array(z.string()).max(50).optional(),
+  integrationIds: z.array(z.string()).max(50).optional(),
+  matchers: z.array(MatcherSchema).max(20).optional(),
+  isActive: z.boolean().optional()
+});
+
+suppressionWindowRouter.patch('/:id', async (req, res) => {
+  try {
+    const existing = await suppressionWindowService.getById(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Suppression window not found' });
+    }
+
+    const user = req.user as AuthenticatedUser;
+    const permission = permissionService.canManageTeam(user, existing.teamId);
+    if (!permission.allowed) {
+      return res.status(403).json({ error: permission.reason });
+    }
+
+    const input = UpdateWindowSchema.parse(req.body);
+    const window = await suppressionWindowService.update(req.params.id, input, user.id);
+    return res.json({ window });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid suppression window data', details: error.issues });
+    }
+    if (error.message?.includes('must be after') ||
+        error.message?.includes('Invalid recurrence') ||
+        error.message?.includes('At least one') ||
+        error.message?.includes('Some ')) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Failed to update suppression window:', error);
+    return res.status(500).json({ error: 'Failed to update suppression window' });
+  }
+});
+
+// DELETE /api/suppression-windows/:id - Delete suppression window (team admin)
+suppressionWindowRouter.delete('/:id', async (req, res) => {
+  try {
+    const existing = await suppressionWindowService.getById(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Suppression window not found' });
+    }
+
+    const user = req.user as AuthenticatedUser;
+    const permission = permissionService.canManageTeam(user, existing.teamId);
+    if (!permission.allowed) {
+      return res.status(403).json({ error: permission.reason });
+    }
+
+    await suppressionWindowService.delete(req.params.id, user.id);
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Failed to delete suppression window:', error);
+    return res.status(500).json({ error: 'Failed to delete suppression window' });
+  }
+});
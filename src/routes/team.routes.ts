@@ -65,6 +65,32 @@ teamRouter.get('/:teamId/health', async (req, res) => {
   }
 });
 
+// GET /api/teams/:teamId/maintenance/suppressed - Alerts suppressed by maintenance mode
+// Defaults to the current maintenance window; pass ?since= to look back further
+const SuppressedAlertsSchema = z.object({
+  since: z.coerce.date().optional()
+});
+
+teamRouter.get('/:teamId/maintenance/suppressed', async (req, res) => {
+  try {
+    const { since } = SuppressedAlertsSchema.parse(req.query);
+    const team = await teamService.get(req.params.teamId);
+    if (!team) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+    const summary = await teamService.getSuppressedAlertSummary(
+      team.id,
+      since ?? team.maintenanceStartedAt
+    );
+    return res.json({ maintenanceMode: team.maintenanceMode, ...summary });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      return res.status(400).json({ error: 'Invalid query parameters' });
+    }
+    return res.status(500).json({ error: 'Failed to get suppressed alerts' });
+  }
+});
+
 // POST /api/teams - Create team (platform admin only)
 const CreateTeamSchema = z.object({
   name: z.string().min(2).max(100),
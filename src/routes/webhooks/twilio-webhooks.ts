@@ -114,7 +114,7 @@ router.post('/voice/incident/:incidentId', async (req: Request, res: Response) =
   <Gather numDigits="1" action="${baseUrl}/webhooks/twilio/voice/incident/${incidentId}/input" timeout="10">
     <Say voice="alice">
       ${incident.priority} incident for ${incident.alerts[0]?.source || 'unknown service'}.
-      ${incident.alerts[0]?.title || 'Alert triggered'}.
+      ${incident.title || incident.alerts[0]?.title || 'Alert triggered'}.
       Press 1 to acknowledge.
       Press 2 to hear details.
       Press 9 to escalate.
@@ -191,7 +191,7 @@ router.post('/voice/incident/:incidentId/input', async (req: Request, res: Respo
 <Response>
   <Gather numDigits="1" action="${baseUrl}/webhooks/twilio/voice/incident/${incidentId}/input" timeout="10">
     <Say voice="alice">
-      ${incident.alerts[0]?.description || 'No additional details available'}.
+      ${incident.summary || incident.alerts[0]?.description || 'No additional details available'}.
       Alert count: ${incident.alertCount}.
       Press 1 to acknowledge, or hang up.
     </Say>
@@ -2,7 +2,8 @@
  * Workflow REST API Routes
  *
  * Provides REST API endpoints for workflow CRUD operations,
- * version history, duplication, export/import, and manual trigger.
+ * version history, duplication, export/import, manual trigger and retry
+ * of failed executions.
  *
  * Per user decisions:
  * - Team admin required for team workflows
@@ -78,6 +79,10 @@ const executeWorkflowSchema = z.object({
   incidentId: z.string()
 });
 
+const retryExecutionSchema = z.object({
+  nodeId: z.string().min(1).optional()
+});
+
 const analyticsQuerySchema = z.object({
   days: z.coerce.number().min(1).max(365).default(30)
 });
@@ -470,6 +475,46 @@ workflowRoutes.post('/:id/execute', async (req: Request, res: Response, next: Ne
   }
 });
 
+/**
+ * POST /api/workflows/executions/:executionId/retry - Retry a failed execution
+ *
+ * Resumes from the failed node, or re-runs only `nodeId` when given.
+ * Completed nodes are never re-run.
+ */
+workflowRoutes.post('/executions/:executionId/retry', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const input = retryExecutionSchema.parse(req.body ?? {});
+    const user = req.user as AuthenticatedUser;
+
+    const result = await workflowService.retryExecution(
+      req.params.executionId,
+      user,
+      input.nodeId
+    );
+
+    return res.status(202).json(result);
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.issues
+      });
+    }
+    if (error instanceof Error) {
+      if (error.message === 'Workflow execution not found' || error.message === 'Action node not found in execution') {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error.message.includes('Permission denied')) {
+        return res.status(403).json({ error: error.message });
+      }
+      if (error.message.startsWith('Only failed')) {
+        return res.status(409).json({ error: error.message });
+      }
+    }
+    return next(error);
+  }
+});
+
 /**
  * GET /api/workflows/:id/analytics - Get execution analytics
  *
@@ -114,6 +114,8 @@ class ActionItemService {
 
     if (data.dueDate !== undefined) {
       updateData.dueDate = data.dueDate ? new Date(data.dueDate) : null;
+      // A new due date re-arms the action_item_overdue workflow trigger
+      updateData.overdueNotifiedAt = null;
     }
 
     // Set completedAt when transitioning to COMPLETED
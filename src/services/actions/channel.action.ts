@@ -0,0 +1,70 @@
+/**
+ * Channel notification action for workflow automation
+ *
+ * Posts a templated message to a Slack channel (defaulting to the incident
+ * team's channel) or to a Microsoft Teams channel.
+ */
+
+import { logger } from '../../config/logger.js';
+import { interpolateTemplate, type TemplateContext } from '../workflow/template.service.js';
+import { slackChannel } from '../notification/channels/slack.channel.js';
+import { teamsChannel } from '../notification/channels/teams.channel.js';
+import type { NotifyChannelConfig } from '../../types/workflow.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Result of posting to a channel
+ */
+export interface ChannelActionResult {
+  success: boolean;
+  platform: NotifyChannelConfig['platform'];
+  channel?: string;
+  messageId?: string;
+  error?: string;
+}
+
+// ============================================================================
+// Main Executor
+// ============================================================================
+
+/**
+ * Post a workflow message to a Slack or Teams channel.
+ *
+ * @param config - Channel and message template
+ * @param context - Template context for variable interpolation
+ * @returns Result with the posted message ID
+ */
+export async function postChannelMessage(
+  config: NotifyChannelConfig,
+  context: TemplateContext
+): Promise<ChannelActionResult> {
+  const { platform } = config;
+
+  try {
+    const text = interpolateTemplate(config.message, context);
+
+    if (platform === 'slack') {
+      const channel = config.channel || context.team.slackChannel;
+      if (!channel) {
+        return { success: false, platform, error: 'No Slack channel configured for action or team' };
+      }
+
+      const messageId = await slackChannel.postToChannel(channel, text);
+      return { success: true, platform, channel, messageId };
+    }
+
+    if (!config.teamsTeamId || !config.teamsChannelId) {
+      return { success: false, platform, error: 'Teams team ID and channel ID are required' };
+    }
+
+    const messageId = await teamsChannel.postToChannel(config.teamsTeamId, config.teamsChannelId, text);
+    return { success: true, platform, channel: config.teamsChannelId, messageId };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to post channel message';
+    logger.warn({ platform, incidentId: context.incident.id, error: errorMessage }, 'Workflow channel message failed');
+    return { success: false, platform, error: errorMessage };
+  }
+}
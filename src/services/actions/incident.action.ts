@@ -0,0 +1,198 @@
+/**
+ * Built-in incident actions for workflow automation
+ *
+ * Lets workflows act on the incident itself: change priority, reassign,
+ * add a timeline note, escalate, resolve, publish a status incident and
+ * page an additional user. Actions run as the system actor and record the
+ * workflow and execution on the audit trail.
+ */
+
+import { prisma } from '../../config/database.js';
+import { logger } from '../../config/logger.js';
+import { interpolateTemplate, type TemplateContext } from '../workflow/template.service.js';
+import { incidentService, SYSTEM_ACTOR_ID } from '../incident.service.js';
+import { escalationService } from '../escalation.service.js';
+import { statusIncidentService } from '../statusIncident.service.js';
+import { dispatchNotification } from '../notification/index.js';
+import type { IncidentActionData } from '../../types/workflow.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Result of a built-in incident action
+ */
+export interface IncidentActionResult {
+  success: boolean;
+  /** Action-specific details recorded on the node result */
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+// ============================================================================
+// Main Executor
+// ============================================================================
+
+/**
+ * Execute a built-in incident action.
+ *
+ * @param data - Action node data
+ * @param context - Template context (identifies the incident, team and workflow)
+ * @param executionChain - Workflows that led here, so events raised by the action can't loop
+ * @returns Result with success status and action details
+ */
+export async function executeIncidentAction(
+  data: IncidentActionData,
+  context: TemplateContext,
+  executionChain: string[] = [context.workflow.id]
+): Promise<IncidentActionResult> {
+  const incidentId = context.incident.id;
+  const workflowContext = { executionChain, incidentId };
+
+  // Attribution for the incident timeline
+  const attribution = {
+    workflowId: context.workflow.id,
+    workflowName: context.workflow.name,
+    workflowExecutionId: context.workflow.executionId
+  };
+
+  try {
+    switch (data.actionType) {
+      case 'update_priority': {
+        await incidentService.updatePriority(incidentId, data.config.priority, SYSTEM_ACTOR_ID, attribution);
+        return {
+          success: true,
+          result: { previousPriority: context.incident.priority, priority: data.config.priority }
+        };
+      }
+
+      case 'reassign': {
+        await incidentService.reassign(
+          incidentId,
+          data.config.userId,
+          SYSTEM_ACTOR_ID,
+          `Reassigned by workflow "${context.workflow.name}"`,
+          attribution,
+          workflowContext
+        );
+        return {
+          success: true,
+          result: { previousAssignee: context.assignee?.id ?? null, newAssignee: data.config.userId }
+        };
+      }
+
+      case 'add_note': {
+        const note = interpolateTemplate(data.config.note, context);
+        await incidentService.addNote(incidentId, SYSTEM_ACTOR_ID, note, attribution, workflowContext);
+        return { success: true, result: { note } };
+      }
+
+      case 'escalate': {
+        const reason = data.config.reason ? interpolateTemplate(data.config.reason, context) : undefined;
+        await escalationService.escalateNow(incidentId, { ...attribution, reason });
+
+        const incident = await prisma.incident.findUnique({
+          where: { id: incidentId },
+          select: { currentLevel: true, currentRepeat: true, assignedUserId: true }
+        });
+        return {
+          success: true,
+          result: {
+            level: incident?.currentLevel,
+            repeat: incident?.currentRepeat,
+            assignedUserId: incident?.assignedUserId ?? null
+          }
+        };
+      }
+
+      case 'resolve': {
+        const resolutionNote = data.config.resolutionNote
+          ? interpolateTemplate(data.config.resolutionNote, context)
+          : `Resolved by workflow "${context.workflow.name}"`;
+        await incidentService.resolve(incidentId, SYSTEM_ACTOR_ID, { ...attribution, resolutionNote });
+        return { success: true, result: { resolutionNote } };
+      }
+
+      case 'publish_status':
+        return await publishStatusIncident(data.config, context);
+
+      case 'page_user':
+        return await pageUser(data.config, context);
+
+      default:
+        return {
+          success: false,
+          error: `Unknown incident action: ${(data as IncidentActionData).actionType}`
+        };
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Incident action failed';
+    logger.warn({ incidentId, actionType: data.actionType, error: errorMessage }, 'Workflow incident action failed');
+    return { success: false, error: errorMessage };
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Publish a status incident on one of the incident team's status pages.
+ */
+async function publishStatusIncident(
+  config: Extract<IncidentActionData, { actionType: 'publish_status' }>['config'],
+  context: TemplateContext
+): Promise<IncidentActionResult> {
+  const statusPage = await prisma.statusPage.findUnique({
+    where: { id: config.statusPageId },
+    select: { id: true, teamId: true }
+  });
+
+  if (!statusPage) {
+    return { success: false, error: `Status page not found: ${config.statusPageId}` };
+  }
+
+  if (statusPage.teamId !== context.team.id) {
+    return { success: false, error: 'Status page belongs to a different team' };
+  }
+
+  const statusIncident = await statusIncidentService.create(statusPage.id, {
+    title: interpolateTemplate(config.title, context),
+    message: interpolateTemplate(config.message, context),
+    severity: config.severity,
+    affectedComponentIds: config.affectedComponentIds,
+    incidentId: context.incident.id
+  });
+
+  return {
+    success: true,
+    result: { statusIncidentId: statusIncident.id, statusPageId: statusPage.id }
+  };
+}
+
+/**
+ * Page an additional user about the incident.
+ */
+async function pageUser(
+  config: Extract<IncidentActionData, { actionType: 'page_user' }>['config'],
+  context: TemplateContext
+): Promise<IncidentActionResult> {
+  const user = await prisma.user.findUnique({
+    where: { id: config.userId },
+    select: { id: true, isActive: true }
+  });
+
+  if (!user?.isActive) {
+    return { success: false, error: `User not found or inactive: ${config.userId}` };
+  }
+
+  await dispatchNotification(context.incident.id, user.id, 'escalation', {
+    ...(config.channels?.length && { channelsOverride: config.channels, skipTiers: true })
+  });
+
+  return {
+    success: true,
+    result: { userId: user.id, channels: config.channels ?? 'preferences' }
+  };
+}
@@ -1,5 +1,5 @@
 import { prisma } from '../config/database.js';
-import { AlertSeverity, AlertStatus } from '@prisma/client';
+import { AlertSeverity, AlertStatus, Prisma } from '@prisma/client';
 import { auditService } from './audit.service.js';
 
 export interface CreateAlertParams {
@@ -22,6 +22,7 @@ export interface RecordDeliveryParams {
   headers: Record<string, any>;
   statusCode: number;
   errorMessage?: string;
+  replayOfId?: string; // Original delivery when this one is a replay
 }
 
 interface AlertSearchQuery {
@@ -82,6 +83,7 @@ class AlertService {
           headers: deliveryParams.headers,
           statusCode: deliveryParams.statusCode,
           errorMessage: deliveryParams.errorMessage,
+          replayOfId: deliveryParams.replayOfId,
           processedAt: new Date()
         }
       });
@@ -90,6 +92,113 @@ class AlertService {
     });
   }
 
+  /**
+   * Creates an alert without a delivery record.
+   * Used when one webhook fans out into several alerts sharing a single delivery,
+   * and for Events API alerts (no integration, so integrationId is null).
+   */
+  async create(alertParams: Omit<CreateAlertParams, 'integrationId'> & { integrationId: string | null }) {
+    return prisma.alert.create({
+      data: {
+        title: alertParams.title,
+        description: alertParams.description,
+        severity: alertParams.severity,
+        status: AlertStatus.OPEN,
+        source: alertParams.source || 'unknown',
+        externalId: alertParams.externalId,
+        triggeredAt: alertParams.triggeredAt,
+        metadata: alertParams.metadata,
+        integrationId: alertParams.integrationId
+      }
+    });
+  }
+
+  /**
+   * Finds an unresolved alert from an integration by its external ID.
+   * Pass triggeredAt to only match the same occurrence (repeat notifications).
+   */
+  async findOpenByExternalId(integrationId: string, externalId: string, triggeredAt?: Date) {
+    return prisma.alert.findFirst({
+      where: {
+        integrationId,
+        externalId,
+        status: { in: [AlertStatus.OPEN, AlertStatus.ACKNOWLEDGED] },
+        ...(triggeredAt && { triggeredAt })
+      },
+      orderBy: { triggeredAt: 'desc' }
+    });
+  }
+
+  /**
+   * Resolves every unresolved alert from an integration with the given external ID.
+   * Called for recovery notifications from monitoring tools.
+   */
+  async resolveByExternalId(integrationId: string, externalId: string) {
+    return this.resolveMatching({ integrationId, externalId }, externalId);
+  }
+
+  /**
+   * Finds unresolved Events API alerts for a service routing key and dedup key.
+   */
+  async findOpenByDedupKey(routingKey: string, dedupKey: string) {
+    return prisma.alert.findMany({
+      where: {
+        ...this.dedupKeyWhere(routingKey, dedupKey),
+        status: { in: [AlertStatus.OPEN, AlertStatus.ACKNOWLEDGED] }
+      },
+      orderBy: { triggeredAt: 'desc' }
+    });
+  }
+
+  /**
+   * Resolves every unresolved Events API alert for a service routing key and dedup key.
+   */
+  async resolveByDedupKey(routingKey: string, dedupKey: string) {
+    return this.resolveMatching(this.dedupKeyWhere(routingKey, dedupKey), dedupKey);
+  }
+
+  // Events API alerts have no integration; the routing key in metadata scopes the dedup key
+  private dedupKeyWhere(routingKey: string, dedupKey: string): Prisma.AlertWhereInput {
+    return {
+      integrationId: null,
+      externalId: dedupKey,
+      metadata: { path: ['routing_key'], equals: routingKey }
+    };
+  }
+
+  private async resolveMatching(where: Prisma.AlertWhereInput, externalId: string) {
+    const alerts = await prisma.alert.findMany({
+      where: {
+        ...where,
+        status: { in: [AlertStatus.OPEN, AlertStatus.ACKNOWLEDGED] }
+      },
+      select: { id: true, title: true, incidentId: true }
+    });
+
+    if (alerts.length === 0) {
+      return [];
+    }
+
+    await prisma.alert.updateMany({
+      where: { id: { in: alerts.map(a => a.id) } },
+      data: {
+        status: AlertStatus.RESOLVED,
+        resolvedAt: new Date()
+      }
+    });
+
+    for (const alert of alerts) {
+      await auditService.log({
+        action: 'alert.resolved',
+        resourceType: 'alert',
+        resourceId: alert.id,
+        metadata: { title: alert.title, externalId, automatic: true }
+      });
+    }
+
+    return alerts;
+  }
+
   /**
    * Records a webhook delivery without creating an alert (for duplicates/failures).
    */
@@ -104,6 +213,7 @@ class AlertService {
         headers: params.headers,
         statusCode: params.statusCode,
         errorMessage: params.errorMessage,
+        replayOfId: params.replayOfId,
         processedAt: new Date()
       }
     });
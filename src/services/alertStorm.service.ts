@@ -0,0 +1,327 @@
+import crypto from 'crypto';
+import { Alert, AlertStatus, Incident, Integration, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { logger } from '../config/logger.js';
+import { auditService } from './audit.service.js';
+import { routingService } from './routing.service.js';
+import { socketService } from './socket.service.js';
+import { dispatchNotification } from './notification/index.js';
+
+export type StormKind = 'alert_storm' | 'flapping';
+
+/**
+ * Why an alert is being collapsed instead of paging normally.
+ */
+export interface StormDecision {
+  kind: StormKind;
+  scope: 'integration' | 'service' | 'alert';
+  // Group key of the collapsed incident (Incident.groupKey)
+  groupKey: string;
+  // Alerts (storm) or resolve/re-open cycles (flapping) counted in the window
+  count: number;
+}
+
+export interface StormOutcome {
+  incident: Incident | null;
+  isNew: boolean;
+  // Set when the owning team is in maintenance mode (nothing is opened)
+  suppressed?: { reason: 'team_maintenance'; teamId: string };
+}
+
+type StormSettings = Pick<
+  Integration,
+  'id' | 'stormThreshold' | 'stormWindowMinutes' | 'flapThreshold' | 'flapWindowMinutes' | 'defaultServiceId'
+>;
+
+/**
+ * AlertStormService protects responders from noisy monitors.
+ * Consulted by the webhook pipeline before deduplication: flapping alerts and
+ * alerts arriving during a storm are folded into a single incident per storm,
+ * and only team admins are notified instead of the escalation chain.
+ */
+class AlertStormService {
+  private readonly MAX_RETRIES = 3;
+
+  /**
+   * Decide whether a newly created alert is flapping or part of a storm.
+   * Services have no storm settings of their own: the service check uses the
+   * sending integration's threshold and window, and only runs when that
+   * integration has storm protection enabled.
+   * Returns null when the alert should be processed normally.
+   */
+  async evaluate(
+    alert: Pick<Alert, 'id' | 'title' | 'externalId' | 'createdAt'>,
+    integration: StormSettings,
+    serviceId: string | null,
+    now: Date = new Date()
+  ): Promise<StormDecision | null> {
+    const decision = await this.detect(alert, integration, serviceId, now);
+
+    if (decision?.kind === 'flapping') {
+      await prisma.alert.update({ where: { id: alert.id }, data: { isFlapping: true } });
+    }
+
+    return decision;
+  }
+
+  /**
+   * Same decision as evaluate() for an alert that hasn't been stored yet
+   * (webhook replay dry runs). Nothing is written.
+   */
+  async preview(
+    alert: Pick<Alert, 'title' | 'externalId'>,
+    integration: StormSettings,
+    serviceId: string | null,
+    now: Date = new Date()
+  ): Promise<StormDecision | null> {
+    return this.detect(alert, integration, serviceId, now);
+  }
+
+  /**
+   * Count recent alerts against the integration's flap and storm thresholds.
+   * Without an id the alert isn't stored yet, so it is added to the integration count.
+   */
+  private async detect(
+    alert: Pick<Alert, 'title' | 'externalId'> & { id?: string },
+    integration: StormSettings,
+    serviceId: string | null,
+    now: Date
+  ): Promise<StormDecision | null> {
+    // 1. Flapping: the same alert keeps resolving and re-opening
+    if (integration.flapThreshold) {
+      const flapStart = new Date(now.getTime() - integration.flapWindowMinutes * 60 * 1000);
+      const cycles = await prisma.alert.count({
+        where: {
+          ...(alert.id && { id: { not: alert.id } }),
+          integrationId: integration.id,
+          ...(alert.externalId ? { externalId: alert.externalId } : { title: alert.title }),
+          status: { in: [AlertStatus.RESOLVED, AlertStatus.CLOSED] },
+          createdAt: { gte: flapStart }
+        }
+      });
+
+      if (cycles >= integration.flapThreshold) {
+        return {
+          kind: 'flapping',
+          scope: 'alert',
+          groupKey: `flap:${integration.id}:${hashIdentity(alert.externalId || alert.title)}`,
+          count: cycles
+        };
+      }
+    }
+
+    if (!integration.stormThreshold) {
+      return null;
+    }
+
+    const stormStart = new Date(now.getTime() - integration.stormWindowMinutes * 60 * 1000);
+
+    // 2. Integration storm: this monitor is sending too many alerts
+    const integrationCount = await prisma.alert.count({
+      where: { integrationId: integration.id, createdAt: { gte: stormStart } }
+    }) + (alert.id ? 0 : 1);
+
+    if (integrationCount > integration.stormThreshold) {
+      return {
+        kind: 'alert_storm',
+        scope: 'integration',
+        groupKey: `storm:integration:${integration.id}`,
+        count: integrationCount
+      };
+    }
+
+    // 3. Service storm: the service is flooded across monitors (this alert not yet linked),
+    // judged by the sending integration's threshold
+    if (serviceId) {
+      const serviceCount = await prisma.alert.count({
+        where: { createdAt: { gte: stormStart }, incident: { serviceId } }
+      }) + 1;
+
+      if (serviceCount > integration.stormThreshold) {
+        return {
+          kind: 'alert_storm',
+          scope: 'service',
+          groupKey: `storm:service:${serviceId}`,
+          count: serviceCount
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Fold the alert into the open incident for its storm, opening one if needed.
+   * A new storm incident notifies team admins only - no escalation is started.
+   */
+  async collapse(
+    alert: Alert,
+    integration: StormSettings & { name: string },
+    decision: StormDecision
+  ): Promise<StormOutcome> {
+    for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
+      try {
+        const outcome = await this.executeTransaction(alert, integration, decision);
+
+        if (outcome.isNew && outcome.incident) {
+          await this.announce(outcome.incident, alert, integration.name, decision);
+        }
+
+        return outcome;
+      } catch (error: any) {
+        if (error.code === 'P2034' && attempt < this.MAX_RETRIES) {
+          await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 100));
+          continue;
+        }
+        throw error;
+      }
+    }
+    throw new Error('Storm collapse failed after max retries');
+  }
+
+  /**
+   * Find-or-create the storm incident within a Serializable transaction
+   * so concurrent alerts in a storm share one incident.
+   */
+  private async executeTransaction(
+    alert: Alert,
+    integration: StormSettings,
+    decision: StormDecision
+  ): Promise<StormOutcome> {
+    return prisma.$transaction(
+      async (tx) => {
+        const existing = await tx.incident.findFirst({
+          where: {
+            groupKey: decision.groupKey,
+            status: { in: ['OPEN', 'ACKNOWLEDGED'] }
+          },
+          orderBy: { createdAt: 'desc' }
+        });
+
+        if (existing) {
+          await tx.alert.update({ where: { id: alert.id }, data: { incidentId: existing.id } });
+          const incident = await tx.incident.update({
+            where: { id: existing.id },
+            data: { alertCount: { increment: 1 } }
+          });
+          return { incident, isNew: false };
+        }
+
+        const routing = await routingService.routeAlertToTeam(alert, integration);
+
+        const team = await tx.team.findUnique({
+          where: { id: routing.teamId },
+          select: { maintenanceMode: true }
+        });
+
+        if (team?.maintenanceMode) {
+          return {
+            incident: null,
+            isNew: false,
+            suppressed: { reason: 'team_maintenance' as const, teamId: routing.teamId }
+          };
+        }
+
+        const incident = await tx.incident.create({
+          data: {
+            fingerprint: decision.groupKey,
+            groupKey: decision.groupKey,
+            title: `${stormLabel(decision)}: ${alert.title}`,
+            summary: alert.description,
+            status: 'OPEN',
+            priority: alert.severity,
+            teamId: routing.teamId,
+            escalationPolicyId: routing.escalationPolicyId,
+            assignedUserId: routing.assignedUserId,
+            serviceId: routing.serviceId,
+            currentLevel: 1,
+            currentRepeat: 1,
+            alertCount: 1
+          }
+        });
+
+        await tx.alert.update({ where: { id: alert.id }, data: { incidentId: incident.id } });
+        await routingService.commitAssignment(routing, tx);
+
+        return { incident, isNew: true };
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+  }
+
+  /**
+   * Broadcast and audit a new storm incident, and notify the team admins.
+   */
+  private async announce(
+    incident: Incident,
+    alert: Alert,
+    integrationName: string,
+    decision: StormDecision
+  ): Promise<void> {
+    const team = await prisma.team.findUnique({
+      where: { id: incident.teamId },
+      select: { id: true, name: true }
+    });
+
+    socketService.broadcastIncidentCreated({
+      id: incident.id,
+      fingerprint: incident.fingerprint,
+      status: incident.status,
+      priority: incident.priority,
+      title: incident.title ?? `${stormLabel(decision)}: ${alert.title}`,
+      teamId: incident.teamId,
+      team: team ?? { id: incident.teamId, name: '' },
+      assignedUserId: incident.assignedUserId ?? undefined,
+      serviceId: incident.serviceId ?? undefined,
+      createdAt: incident.createdAt.toISOString()
+    });
+
+    await auditService.log({
+      action: decision.kind === 'flapping' ? 'alert.flapping_detected' : 'alert.storm_detected',
+      teamId: incident.teamId,
+      resourceType: 'incident',
+      resourceId: incident.id,
+      severity: 'WARN',
+      metadata: {
+        integration: integrationName,
+        scope: decision.scope,
+        count: decision.count,
+        alertId: alert.id,
+        title: alert.title
+      }
+    });
+
+    // Team admins decide what to do with the storm; fall back to the on-call assignee
+    const admins = await prisma.teamMember.findMany({
+      where: { teamId: incident.teamId, role: 'TEAM_ADMIN', user: { isActive: true } },
+      select: { userId: true }
+    });
+
+    const recipients = admins.length > 0
+      ? admins.map(a => a.userId)
+      : (incident.assignedUserId ? [incident.assignedUserId] : []);
+
+    for (const userId of recipients) {
+      try {
+        await dispatchNotification(incident.id, userId, 'new_incident');
+      } catch (error) {
+        logger.error({ error, incidentId: incident.id, userId }, 'Failed to notify team admin of alert storm');
+      }
+    }
+
+    logger.warn(
+      { incidentId: incident.id, kind: decision.kind, scope: decision.scope, count: decision.count, recipients: recipients.length },
+      `${stormLabel(decision)} detected - collapsing alerts into one incident`
+    );
+  }
+}
+
+function stormLabel(decision: StormDecision): string {
+  return decision.kind === 'flapping' ? 'Flapping alert' : 'Alert storm';
+}
+
+function hashIdentity(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex').substring(0, 16);
+}
+
+export const alertStormService = new AlertStormService();
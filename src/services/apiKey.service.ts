@@ -1,20 +1,29 @@
 import crypto from 'crypto';
+import { TeamRole } from '@prisma/client';
 import { prisma } from '../config/database.js';
 import { auditService } from './audit.service.js';
+import type { AuthenticatedUser } from '../types/auth.js';
 
-export type ApiKeyScope =
-  | 'webhooks:write'
-  | 'alerts:write'
-  | 'incidents:read'
-  | 'incidents:write'
-  | 'admin:read'
-  | 'admin:write';
+export const API_KEY_SCOPES = [
+  'webhooks:write',
+  'alerts:write',
+  'incidents:read',
+  'incidents:write',
+  'schedules:read',
+  'schedules:write',
+  'admin:read',
+  'admin:write'
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
 
 export interface CreateApiKeyParams {
   name: string;
   service: string;
   description?: string;
   scopes: ApiKeyScope[];
+  teamId?: string;
+  rateLimitPerMinute?: number;
   expiresAt?: Date;
   createdById: string;
 }
@@ -59,10 +68,13 @@ export class ApiKeyService {
         service: params.service,
         description: params.description,
         scopes: params.scopes,
+        teamId: params.teamId,
+        rateLimitPerMinute: params.rateLimitPerMinute,
         createdById: params.createdById,
         expiresAt: params.expiresAt
       },
       include: {
+        team: { select: { id: true, name: true } },
         createdBy: {
           select: {
             id: true,
@@ -77,6 +89,7 @@ export class ApiKeyService {
     await auditService.log({
       action: 'apikey.created',
       userId: params.createdById,
+      teamId: params.teamId,
       resourceType: 'apikey',
       resourceId: record.id,
       severity: 'HIGH',
@@ -84,6 +97,7 @@ export class ApiKeyService {
         name: params.name,
         service: params.service,
         scopes: params.scopes,
+        rateLimitPerMinute: params.rateLimitPerMinute,
         keyPrefix
       }
     });
@@ -133,9 +147,59 @@ export class ApiKeyService {
     return { valid: true, apiKey };
   }
 
-  // Check if key has required scope
+  // Check if key has required scope (a write scope also grants the matching read scope)
   hasScope(apiKey: any, requiredScope: ApiKeyScope): boolean {
-    return apiKey.scopes.includes(requiredScope);
+    if (apiKey.scopes.includes(requiredScope)) return true;
+    return requiredScope.endsWith(':read') &&
+      apiKey.scopes.includes(requiredScope.replace(/:read$/, ':write'));
+  }
+
+  // Build the user a key acts as on /api routes. Actions are attributed to the key's
+  // creator; team-scoped keys get a single membership on their team, with a role
+  // derived from their scopes, so existing permission checks confine them to it.
+  async getActor(apiKey: any): Promise<AuthenticatedUser | null> {
+    const creator = await prisma.user.findUnique({
+      where: { id: apiKey.createdById },
+      include: {
+        teamMembers: {
+          include: { team: { select: { id: true, name: true, isActive: true } } }
+        }
+      }
+    });
+
+    if (!creator) {
+      return null;
+    }
+
+    if (!apiKey.teamId) {
+      return creator;
+    }
+
+    const team = await prisma.team.findUnique({
+      where: { id: apiKey.teamId },
+      select: { id: true, name: true, isActive: true }
+    });
+
+    if (!team) {
+      return null;
+    }
+
+    const role: TeamRole = this.hasScope(apiKey, 'admin:write') ? 'TEAM_ADMIN'
+      : this.hasScope(apiKey, 'incidents:write') ? 'RESPONDER'
+      : 'OBSERVER';
+
+    return {
+      ...creator,
+      platformRole: 'USER',
+      teamMembers: [{
+        id: `apikey-${apiKey.id}`,
+        userId: creator.id,
+        teamId: team.id,
+        role,
+        joinedAt: apiKey.createdAt,
+        team
+      }]
+    };
   }
 
   // Record API key usage
@@ -176,6 +240,9 @@ export class ApiKeyService {
           service: true,
           description: true,
           scopes: true,
+          teamId: true,
+          team: { select: { id: true, name: true } },
+          rateLimitPerMinute: true,
           isActive: true,
           lastUsedAt: true,
           usageCount: true,
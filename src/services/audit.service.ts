@@ -1,7 +1,18 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { PrismaClient, AuditEvent, Prisma } from '@prisma/client';
-import { AuditLogParams, AuditQueryParams } from '../types/audit.js';
+import { AuditApiKeyAttribution, AuditLogParams, AuditQueryParams } from '../types/audit.js';
 import { prisma } from '../config/database.js';
 
+// Set for the duration of a request authenticated with an API key
+const apiKeyAttribution = new AsyncLocalStorage<AuditApiKeyAttribution>();
+
+/**
+ * Run a request handler so that every audit event it logs names the API key
+ */
+export function runWithApiKeyAttribution<T>(apiKey: AuditApiKeyAttribution, fn: () => T): T {
+  return apiKeyAttribution.run(apiKey, fn);
+}
+
 export class AuditService {
   constructor(private prisma: PrismaClient) {}
 
@@ -9,6 +20,9 @@ export class AuditService {
    * Log an audit event
    */
   async log(params: AuditLogParams): Promise<AuditEvent> {
+    const apiKey = apiKeyAttribution.getStore();
+    const metadata = apiKey ? { ...params.metadata, apiKey } : params.metadata;
+
     return this.prisma.auditEvent.create({
       data: {
         action: params.action,
@@ -16,7 +30,7 @@ export class AuditService {
         teamId: params.teamId,
         resourceType: params.resourceType,
         resourceId: params.resourceId,
-        metadata: params.metadata as Prisma.InputJsonValue || Prisma.JsonNull,
+        metadata: metadata as Prisma.InputJsonValue || Prisma.JsonNull,
         severity: params.severity || 'INFO',
         ipAddress: params.ipAddress,
         userAgent: params.userAgent,
@@ -1,13 +1,19 @@
 import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database.js';
 import { routingService } from './routing.service.js';
+import { groupingRuleService } from './groupingRule.service.js';
 import { socketService } from './socket.service.js';
 import { logger } from '../config/logger.js';
-import { onIncidentCreated } from './workflow/workflow-integration.js';
+import { onIncidentCreated, onAlertReceived } from './workflow/workflow-integration.js';
 
 export interface DeduplicationResult {
   incident: any;
   isDuplicate: boolean;
+  // Set when incident creation was skipped (alert is kept, nobody is paged)
+  suppressed?: {
+    reason: 'team_maintenance';
+    teamId: string;
+  };
 }
 
 class DeduplicationService {
@@ -37,7 +43,7 @@ class DeduplicationService {
         const result = await this.executeTransaction(alertId, fingerprint, alert, windowMinutes, integration);
 
         // Broadcast new incident creation via WebSocket (only for new incidents, not duplicates)
-        if (!result.isDuplicate) {
+        if (!result.isDuplicate && !result.suppressed) {
           // Fetch full incident data with relations for broadcast
           const fullIncident = await prisma.incident.findUnique({
             where: { id: result.incident.id },
@@ -54,7 +60,7 @@ class DeduplicationService {
               fingerprint: fullIncident.fingerprint,
               status: fullIncident.status,
               priority: fullIncident.priority,
-              title: alert.title || alert.description || fullIncident.fingerprint,
+              title: fullIncident.title || alert.description || fullIncident.fingerprint,
               teamId: fullIncident.teamId,
               team: fullIncident.team,
               assignedUserId: fullIncident.assignedUserId ?? undefined,
@@ -83,6 +89,34 @@ class DeduplicationService {
           }
         }
 
+        // Trigger alert_received workflows for alerts grouped into an open incident
+        if (result.isDuplicate && result.incident) {
+          try {
+            await onAlertReceived(
+              {
+                id: result.incident.id,
+                priority: result.incident.priority,
+                status: result.incident.status,
+                teamId: result.incident.teamId,
+                createdAt: result.incident.createdAt,
+                metadata: alert.metadata
+              },
+              {
+                id: alertId,
+                title: alert.title,
+                severity: alert.severity,
+                source: alert.source,
+                metadata: alert.metadata
+              }
+            );
+          } catch (workflowError) {
+            logger.error(
+              { error: workflowError, incidentId: result.incident.id, alertId },
+              'Failed to trigger workflows on grouped alert'
+            );
+          }
+        }
+
         return result;
       } catch (error: any) {
         if (error.code === 'P2034' && attempt < this.MAX_RETRIES) {
@@ -115,42 +149,69 @@ class DeduplicationService {
       async (tx) => {
         const windowStart = new Date(Date.now() - windowMinutes * 60 * 1000);
 
-        // Check for existing incident with same fingerprint in window
+        // Check for existing incident with same fingerprint in window - an incident
+        // merged into another open incident keeps feeding that incident
         const existing = await tx.incident.findFirst({
           where: {
             fingerprint,
-            status: { in: ['OPEN', 'ACKNOWLEDGED'] },
-            createdAt: { gte: windowStart }
+            createdAt: { gte: windowStart },
+            OR: [
+              { status: { in: ['OPEN', 'ACKNOWLEDGED'] } },
+              { mergedInto: { status: { in: ['OPEN', 'ACKNOWLEDGED'] } } }
+            ]
           }
         });
 
         if (existing) {
-          // Link alert to existing incident, increment count
-          await tx.alert.update({
-            where: { id: alertId },
-            data: { incidentId: existing.id }
-          });
+          return this.groupIntoIncident(tx, existing.mergedIntoId ?? existing.id, alertId);
+        }
 
-          const updated = await tx.incident.update({
-            where: { id: existing.id },
-            data: { alertCount: { increment: 1 } }
-          });
+        // Route to team and get on-call user (with integration for service fallback)
+        const routing = await routingService.routeAlertToTeam(alert, integration);
+
+        // Grouping rules for the service/integration (same host, cluster, similar title...)
+        const grouping = await groupingRuleService.findGroup(tx, {
+          teamId: routing.teamId,
+          serviceId: routing.serviceId ?? null,
+          integrationId: alert.integrationId ?? null,
+          title: alert.title,
+          metadata: (alert.metadata ?? {}) as Record<string, unknown>
+        });
 
+        if (grouping.incident) {
           logger.info(
-            { incidentId: existing.id, alertId, alertCount: updated.alertCount },
-            'Alert grouped to existing incident'
+            { incidentId: grouping.incident.id, alertId, groupingRuleId: grouping.ruleId },
+            'Alert matched grouping rule'
           );
-
-          return { incident: updated, isDuplicate: true };
+          return this.groupIntoIncident(tx, grouping.incident.id, alertId);
         }
 
-        // Route to team and get on-call user (with integration for service fallback)
-        const routing = await routingService.routeAlertToTeam(alert, integration);
+        // Team in maintenance: keep the alert unlinked instead of opening an incident
+        const team = await tx.team.findUnique({
+          where: { id: routing.teamId },
+          select: { maintenanceMode: true }
+        });
+
+        if (team?.maintenanceMode) {
+          logger.info(
+            { alertId, teamId: routing.teamId },
+            'Incident creation suppressed - team in maintenance mode'
+          );
+
+          return {
+            incident: null,
+            isDuplicate: false,
+            suppressed: { reason: 'team_maintenance', teamId: routing.teamId }
+          };
+        }
 
         // Create new incident with serviceId if routed via service (ROUTE-03)
         const incident = await tx.incident.create({
           data: {
             fingerprint,
+            groupKey: grouping.groupKey,
+            title: alert.title,
+            summary: alert.description,
             status: 'OPEN',
             priority: alert.severity,
             teamId: routing.teamId,
@@ -169,6 +230,9 @@ class DeduplicationService {
           data: { incidentId: incident.id }
         });
 
+        // Round-robin levels hand the next incident to the following responder
+        await routingService.commitAssignment(routing, tx);
+
         logger.info(
           { incidentId: incident.id, alertId, teamId: routing.teamId },
           'New incident created from alert'
@@ -179,6 +243,32 @@ class DeduplicationService {
       { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
     );
   }
+
+  /**
+   * Link alert to an existing incident and increment its alert count.
+   */
+  private async groupIntoIncident(
+    tx: Prisma.TransactionClient,
+    incidentId: string,
+    alertId: string
+  ): Promise<DeduplicationResult> {
+    await tx.alert.update({
+      where: { id: alertId },
+      data: { incidentId }
+    });
+
+    const updated = await tx.incident.update({
+      where: { id: incidentId },
+      data: { alertCount: { increment: 1 } }
+    });
+
+    logger.info(
+      { incidentId, alertId, alertCount: updated.alertCount },
+      'Alert grouped to existing incident'
+    );
+
+    return { incident: updated, isDuplicate: true };
+  }
 }
 
 export const deduplicationService = new DeduplicationService();
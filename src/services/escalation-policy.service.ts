@@ -1,6 +1,8 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database.js';
 import { auditService } from './audit.service.js';
 import { logger } from '../config/logger.js';
+import type { AssignmentStrategy, EscalationTarget } from './routing.service.js';
 
 // Types
 interface CreateEscalationPolicyInput {
@@ -9,6 +11,7 @@ interface CreateEscalationPolicyInput {
   description?: string;
   isDefault?: boolean;
   repeatCount?: number;
+  ackTimeoutMinutes?: number | null;
   levels: CreateEscalationLevelInput[];
 }
 
@@ -16,6 +19,8 @@ interface CreateEscalationLevelInput {
   levelNumber: number;
   targetType: 'user' | 'schedule' | 'entire_team';
   targetId?: string;
+  targets?: EscalationTarget[]; // Multi-target level; first target mirrors targetType/targetId
+  assignmentStrategy?: AssignmentStrategy; // Page all users, or one by round-robin/least-loaded
   timeoutMinutes?: number;
 }
 
@@ -24,6 +29,7 @@ interface UpdateEscalationPolicyInput {
   description?: string;
   isDefault?: boolean;
   repeatCount?: number;
+  ackTimeoutMinutes?: number | null;
   isActive?: boolean;
 }
 
@@ -33,6 +39,10 @@ class EscalationPolicyService {
   private readonly MIN_TIMEOUT_MULTI_TARGET = 3;     // 3 minutes for multiple targets
   private readonly MAX_REPEAT_COUNT = 9;
   private readonly MAX_LEVELS = 10;
+  private readonly MAX_TARGETS_PER_LEVEL = 10;
+  private readonly MIN_ACK_TIMEOUT = 5;
+  private readonly MAX_ACK_TIMEOUT = 24 * 60;
+  private readonly ASSIGNMENT_STRATEGIES: AssignmentStrategy[] = ['all', 'round_robin', 'least_loaded'];
 
   async create(
     input: CreateEscalationPolicyInput,
@@ -40,6 +50,7 @@ class EscalationPolicyService {
   ): Promise<any> {
     // Validate levels
     this.validateLevels(input.levels);
+    this.validateAckTimeout(input.ackTimeoutMinutes);
 
     // If setting as default, unset other defaults
     if (input.isDefault) {
@@ -56,11 +67,12 @@ class EscalationPolicyService {
         description: input.description,
         isDefault: input.isDefault ?? false,
         repeatCount: Math.min(input.repeatCount ?? 1, this.MAX_REPEAT_COUNT),
+        ackTimeoutMinutes: input.ackTimeoutMinutes ?? null,
         levels: {
           create: input.levels.map(level => ({
             levelNumber: level.levelNumber,
-            targetType: level.targetType,
-            targetId: level.targetId,
+            ...this.targetData(level),
+            assignmentStrategy: level.assignmentStrategy ?? 'all',
             timeoutMinutes: level.timeoutMinutes ?? 30
           }))
         }
@@ -124,6 +136,8 @@ class EscalationPolicyService {
       throw new Error('Escalation policy not found');
     }
 
+    this.validateAckTimeout(input.ackTimeoutMinutes);
+
     // If setting as default, unset other defaults
     if (input.isDefault) {
       await prisma.escalationPolicy.updateMany({
@@ -141,6 +155,7 @@ class EscalationPolicyService {
         ...(input.repeatCount !== undefined && {
           repeatCount: Math.min(input.repeatCount, this.MAX_REPEAT_COUNT)
         }),
+        ...(input.ackTimeoutMinutes !== undefined && { ackTimeoutMinutes: input.ackTimeoutMinutes }),
         ...(input.isActive !== undefined && { isActive: input.isActive })
       },
       include: { levels: { orderBy: { levelNumber: 'asc' } } }
@@ -183,12 +198,17 @@ class EscalationPolicyService {
       throw new Error(`Level ${input.levelNumber} already exists`);
     }
 
+    this.validateTargets(input);
+    if (input.assignmentStrategy) {
+      this.validateStrategy(input.levelNumber, input.assignmentStrategy);
+    }
+
     const level = await prisma.escalationLevel.create({
       data: {
         escalationPolicyId: policyId,
         levelNumber: input.levelNumber,
-        targetType: input.targetType,
-        targetId: input.targetId,
+        ...this.targetData(input),
+        assignmentStrategy: input.assignmentStrategy ?? 'all',
         timeoutMinutes: input.timeoutMinutes ?? 30
       }
     });
@@ -220,13 +240,32 @@ class EscalationPolicyService {
       throw new Error('Escalation level not found');
     }
 
+    if (input.assignmentStrategy) {
+      this.validateStrategy(level.levelNumber, input.assignmentStrategy);
+    }
+
+    if (input.targets) {
+      this.validateTargets({
+        levelNumber: level.levelNumber,
+        targets: input.targets,
+        timeoutMinutes: input.timeoutMinutes ?? level.timeoutMinutes
+      });
+    }
+
     const updated = await prisma.escalationLevel.update({
       where: { id: levelId },
-      data: {
-        ...(input.targetType && { targetType: input.targetType }),
-        ...(input.targetId !== undefined && { targetId: input.targetId }),
-        ...(input.timeoutMinutes && { timeoutMinutes: input.timeoutMinutes })
-      }
+      data: input.targets
+        ? {
+            ...this.targetData(input as CreateEscalationLevelInput),
+            ...(input.assignmentStrategy && { assignmentStrategy: input.assignmentStrategy }),
+            ...(input.timeoutMinutes && { timeoutMinutes: input.timeoutMinutes })
+          }
+        : {
+            ...(input.targetType && { targetType: input.targetType }),
+            ...(input.targetId !== undefined && { targetId: input.targetId }),
+            ...(input.assignmentStrategy && { assignmentStrategy: input.assignmentStrategy }),
+            ...(input.timeoutMinutes && { timeoutMinutes: input.timeoutMinutes })
+          }
     });
 
     await auditService.log({
@@ -321,26 +360,85 @@ class EscalationPolicyService {
       }
     }
 
-    // Validate timeouts
     for (const level of levels) {
-      if (level.timeoutMinutes !== undefined) {
-        const minTimeout = level.targetType === 'entire_team'
-          ? this.MIN_TIMEOUT_MULTI_TARGET
-          : this.MIN_TIMEOUT_SINGLE_TARGET;
-
-        if (level.timeoutMinutes < minTimeout) {
-          throw new Error(
-            `Level ${level.levelNumber}: minimum timeout is ${minTimeout} minutes for ${level.targetType}`
-          );
-        }
+      this.validateTargets(level);
+      if (level.assignmentStrategy) {
+        this.validateStrategy(level.levelNumber, level.assignmentStrategy);
       }
+    }
+  }
+
+  // Ack timeout applies to every incident on the policy, so keep it within sane bounds
+  private validateAckTimeout(minutes: number | null | undefined): void {
+    if (minutes === undefined || minutes === null) {
+      return;
+    }
 
-      // Validate targetId is provided for user/schedule types
-      if ((level.targetType === 'user' || level.targetType === 'schedule') && !level.targetId) {
-        throw new Error(`Level ${level.levelNumber}: targetId required for ${level.targetType}`);
+    if (!Number.isInteger(minutes) || minutes < this.MIN_ACK_TIMEOUT || minutes > this.MAX_ACK_TIMEOUT) {
+      throw new Error(
+        `Ack timeout must be between ${this.MIN_ACK_TIMEOUT} and ${this.MAX_ACK_TIMEOUT} minutes`
+      );
+    }
+  }
+
+  private validateStrategy(levelNumber: number, strategy: string): void {
+    if (!this.ASSIGNMENT_STRATEGIES.includes(strategy as AssignmentStrategy)) {
+      throw new Error(
+        `Level ${levelNumber}: assignment strategy must be one of ${this.ASSIGNMENT_STRATEGIES.join(', ')}`
+      );
+    }
+  }
+
+  // Validate a level's targets and its timeout for the number of people paged
+  private validateTargets(
+    level: Pick<CreateEscalationLevelInput, 'levelNumber' | 'targetId' | 'targets' | 'timeoutMinutes'> &
+      { targetType?: CreateEscalationLevelInput['targetType'] }
+  ): void {
+    const targets: EscalationTarget[] = level.targets?.length
+      ? level.targets
+      : [{ type: level.targetType!, id: level.targetId }];
+
+    if (targets.length > this.MAX_TARGETS_PER_LEVEL) {
+      throw new Error(`Level ${level.levelNumber}: maximum ${this.MAX_TARGETS_PER_LEVEL} targets allowed`);
+    }
+
+    // Validate timeouts
+    if (level.timeoutMinutes !== undefined) {
+      const isMultiTarget = targets.length > 1 || targets[0].type === 'entire_team';
+      const minTimeout = isMultiTarget
+        ? this.MIN_TIMEOUT_MULTI_TARGET
+        : this.MIN_TIMEOUT_SINGLE_TARGET;
+
+      if (level.timeoutMinutes < minTimeout) {
+        throw new Error(
+          `Level ${level.levelNumber}: minimum timeout is ${minTimeout} minutes for ${isMultiTarget ? 'multiple targets' : targets[0].type}`
+        );
+      }
+    }
+
+    // Validate targetId is provided for user/schedule types
+    for (const target of targets) {
+      if ((target.type === 'user' || target.type === 'schedule') && !target.id) {
+        throw new Error(`Level ${level.levelNumber}: targetId required for ${target.type}`);
       }
     }
   }
+
+  // Target columns for a level; multi-target levels keep the first target in targetType/targetId
+  private targetData(
+    level: Pick<CreateEscalationLevelInput, 'targetType' | 'targetId' | 'targets'>
+  ): { targetType: string; targetId: string | null; targets: Prisma.InputJsonValue | typeof Prisma.JsonNull } {
+    if (level.targets?.length) {
+      const targets = level.targets.map(t => ({ type: t.type, id: t.type === 'entire_team' ? null : t.id ?? null }));
+      return {
+        targetType: targets[0].type,
+        targetId: targets[0].id,
+        targets: targets.length > 1 ? targets : Prisma.JsonNull
+      };
+    }
+
+    return { targetType: level.targetType, targetId: level.targetId ?? null, targets: Prisma.JsonNull };
+  }
 }
 
 export const escalationPolicyService = new EscalationPolicyService();
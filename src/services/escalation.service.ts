@@ -1,10 +1,13 @@
+import type { EscalationLevel } from '@prisma/client';
 import { prisma } from '../config/database.js';
-import { scheduleEscalation } from '../queues/escalation.queue.js';
+import { cancelEscalation, scheduleEscalation, scheduleHeldEscalation } from '../queues/escalation.queue.js';
 import { dispatchNotification } from './notification/index.js';
 import { routingService } from './routing.service.js';
 import { auditService } from './audit.service.js';
 import { logger } from '../config/logger.js';
 import { onIncidentEscalated } from './workflow/workflow-integration.js';
+import { supportHoursService } from './supportHours.service.js';
+import type { SupportHours } from '../types/service.js';
 
 class EscalationService {
   // Start escalation for a new incident
@@ -12,6 +15,8 @@ class EscalationService {
     const incident = await prisma.incident.findUnique({
       where: { id: incidentId },
       include: {
+        team: { select: { maintenanceMode: true } },
+        service: { select: { supportHours: true, urgencyRules: true } },
         escalationPolicy: {
           include: { levels: { orderBy: { levelNumber: 'asc' } } }
         }
@@ -23,12 +28,422 @@ class EscalationService {
       return;
     }
 
+    // Planned work: don't page anyone for teams in maintenance mode
+    if (incident.team.maintenanceMode) {
+      logger.info({ incidentId, teamId: incident.teamId }, 'Escalation suppressed - team in maintenance mode');
+
+      await this.recordMaintenanceSuppression(incidentId, incident.teamId);
+      return;
+    }
+
+    const firstLevel = incident.escalationPolicy.levels[0];
+    if (!firstLevel) {
+      logger.error({ incidentId }, 'Escalation policy has no levels');
+      return;
+    }
+
+    // Urgency routing: low-urgency incidents outside support hours wait for the next window
+    const now = new Date();
+    const urgency = supportHoursService.resolveUrgency(incident.service, incident.priority);
+    const supportHours = incident.service?.supportHours as SupportHours | null | undefined;
+    const releaseAt = urgency === 'low' && supportHours && !supportHoursService.isWithinSupportHours(supportHours, now)
+      ? supportHoursService.nextWindowStart(supportHours, now)
+      : null;
+
+    if (urgency !== incident.urgency || releaseAt) {
+      await prisma.incident.update({
+        where: { id: incidentId },
+        data: { urgency, heldUntil: releaseAt }
+      });
+    }
+
+    if (releaseAt) {
+      const bullJobId = await scheduleHeldEscalation(incidentId, releaseAt);
+
+      // Tracked like an escalation so acknowledge/resolve cancel the release
+      await prisma.escalationJob.create({
+        data: {
+          incidentId,
+          bullJobId,
+          scheduledLevel: 1,
+          scheduledFor: releaseAt
+        }
+      });
+
+      await auditService.log({
+        action: 'incident.escalation.held',
+        teamId: incident.teamId,
+        resourceType: 'incident',
+        resourceId: incidentId,
+        severity: 'INFO',
+        metadata: {
+          reason: 'outside_support_hours',
+          urgency,
+          serviceId: incident.serviceId,
+          heldUntil: releaseAt.toISOString()
+        }
+      });
+
+      logger.info(
+        { incidentId, serviceId: incident.serviceId, heldUntil: releaseAt },
+        'Escalation held - low urgency outside support hours'
+      );
+      return;
+    }
+
+    await this.beginPaging(incidentId, incident.teamId, firstLevel, incident.assignedUserId);
+  }
+
+  // Start paging a held incident when its service's support window opens (called by worker)
+  async releaseHeldIncident(incidentId: string): Promise<void> {
+    const incident = await prisma.incident.findUnique({
+      where: { id: incidentId },
+      include: {
+        team: { select: { maintenanceMode: true } },
+        escalationPolicy: {
+          include: { levels: { orderBy: { levelNumber: 'asc' } } }
+        }
+      }
+    });
+
+    // Acknowledged or resolved while held - nothing to page
+    if (!incident || incident.status !== 'OPEN' || !incident.heldUntil) {
+      logger.info(
+        { incidentId, status: incident?.status },
+        'Held release skipped - incident no longer held'
+      );
+      return;
+    }
+
     const firstLevel = incident.escalationPolicy.levels[0];
     if (!firstLevel) {
       logger.error({ incidentId }, 'Escalation policy has no levels');
       return;
     }
 
+    if (incident.team.maintenanceMode) {
+      await prisma.incident.update({ where: { id: incidentId }, data: { heldUntil: null } });
+
+      await this.recordMaintenanceSuppression(incidentId, incident.teamId);
+      return;
+    }
+
+    // On-call may have changed while the incident was held
+    const assignee = await routingService.resolveEscalationTarget(firstLevel, incident.teamId)
+      ?? incident.assignedUserId;
+
+    await prisma.incident.update({
+      where: { id: incidentId },
+      data: { heldUntil: null, assignedUserId: assignee }
+    });
+
+    await auditService.log({
+      action: 'incident.escalation.released',
+      teamId: incident.teamId,
+      resourceType: 'incident',
+      resourceId: incidentId,
+      severity: 'INFO',
+      metadata: {
+        heldSince: incident.createdAt.toISOString(),
+        assignee
+      }
+    });
+
+    await this.beginPaging(incidentId, incident.teamId, firstLevel, assignee);
+  }
+
+  // Escalate to the next level now instead of waiting for the level timeout
+  async escalateNow(incidentId: string, metadata: Record<string, unknown> = {}): Promise<void> {
+    const incident = await prisma.incident.findUnique({
+      where: { id: incidentId },
+      include: { escalationJobs: { where: { completed: false } } }
+    });
+
+    if (!incident) {
+      throw new Error('Incident not found');
+    }
+
+    if (incident.status !== 'OPEN') {
+      throw new Error(`Cannot escalate incident in ${incident.status} status`);
+    }
+
+    // Cancel the pending timer so the next level is not paged twice
+    for (const job of incident.escalationJobs) {
+      await cancelEscalation(job.bullJobId);
+      await prisma.escalationJob.update({
+        where: { id: job.id },
+        data: { completed: true, cancelledAt: new Date() }
+      });
+    }
+
+    await auditService.log({
+      action: 'incident.escalation.manual',
+      teamId: incident.teamId,
+      resourceType: 'incident',
+      resourceId: incidentId,
+      severity: 'HIGH',
+      metadata: {
+        fromLevel: incident.currentLevel,
+        held: Boolean(incident.heldUntil),
+        ...metadata
+      }
+    });
+
+    // A held incident has not paged anyone yet - start with level 1
+    if (incident.heldUntil) {
+      await this.releaseHeldIncident(incidentId);
+      return;
+    }
+
+    await this.processEscalation(incidentId, incident.currentLevel + 1, incident.currentRepeat);
+  }
+
+  // Reopen a snoozed incident when its snooze ends and page the assignee (called by worker)
+  async wakeSnoozedIncident(incidentId: string): Promise<void> {
+    const incident = await prisma.incident.findUnique({
+      where: { id: incidentId },
+      include: { team: { select: { maintenanceMode: true } } }
+    });
+
+    // Resolved, or snoozed again with a later wake-up - nothing to do
+    if (
+      !incident ||
+      incident.status !== 'ACKNOWLEDGED' ||
+      !incident.snoozedUntil ||
+      incident.snoozedUntil.getTime() > Date.now()
+    ) {
+      logger.info(
+        { incidentId, status: incident?.status, snoozedUntil: incident?.snoozedUntil },
+        'Snooze wake-up skipped - incident no longer snoozed'
+      );
+      return;
+    }
+
+    // Conditional on the snooze read above so a concurrent resolve or re-snooze isn't undone
+    const { count } = await prisma.incident.updateMany({
+      where: { id: incidentId, status: 'ACKNOWLEDGED', snoozedUntil: incident.snoozedUntil },
+      data: { status: 'OPEN', acknowledgedAt: null, snoozedUntil: null }
+    });
+
+    if (count === 0) {
+      return;
+    }
+
+    await auditService.log({
+      action: 'incident.snooze.ended',
+      teamId: incident.teamId,
+      resourceType: 'incident',
+      resourceId: incidentId,
+      severity: 'INFO',
+      metadata: {
+        snoozedUntil: incident.snoozedUntil.toISOString(),
+        assignee: incident.assignedUserId
+      }
+    });
+
+    // Planned work: the incident reopens, but nobody is paged until maintenance ends
+    if (incident.team.maintenanceMode) {
+      await this.recordMaintenanceSuppression(incidentId, incident.teamId);
+      return;
+    }
+
+    if (incident.assignedUserId) {
+      await this.notifyTargets(incidentId, [incident.assignedUserId], 'escalation', incident.currentLevel);
+    }
+
+    // Nobody acknowledging again moves the incident up the policy as usual
+    await this.resumeEscalation(incidentId);
+
+    logger.info({ incidentId, assignee: incident.assignedUserId }, 'Snoozed incident reopened');
+  }
+
+  // Revert an acknowledgement nobody followed up on: back to OPEN, assignee paged again,
+  // and escalation carries on from the current level
+  async expireAcknowledgement(incidentId: string): Promise<void> {
+    const incident = await prisma.incident.findUnique({
+      where: { id: incidentId },
+      include: {
+        team: { select: { maintenanceMode: true } },
+        escalationPolicy: { select: { ackTimeoutMinutes: true } }
+      }
+    });
+
+    const timeoutMinutes = incident?.escalationPolicy?.ackTimeoutMinutes;
+
+    // Resolved, re-acknowledged since, snoozed, or the policy timeout was removed - nothing to do
+    if (
+      !incident ||
+      incident.status !== 'ACKNOWLEDGED' ||
+      incident.snoozedUntil ||
+      !incident.acknowledgedAt ||
+      !timeoutMinutes ||
+      incident.acknowledgedAt.getTime() + timeoutMinutes * 60 * 1000 > Date.now()
+    ) {
+      logger.info(
+        { incidentId, status: incident?.status, acknowledgedAt: incident?.acknowledgedAt },
+        'Acknowledgement timeout skipped - incident no longer stale'
+      );
+      return;
+    }
+
+    // Conditional on the acknowledgement read above so a concurrent resolve or snooze isn't undone
+    const { count } = await prisma.incident.updateMany({
+      where: { id: incidentId, status: 'ACKNOWLEDGED', acknowledgedAt: incident.acknowledgedAt, snoozedUntil: null },
+      data: { status: 'OPEN', acknowledgedAt: null }
+    });
+
+    if (count === 0) {
+      return;
+    }
+
+    await auditService.log({
+      action: 'incident.acknowledgement.expired',
+      teamId: incident.teamId,
+      resourceType: 'incident',
+      resourceId: incidentId,
+      severity: 'HIGH',
+      metadata: {
+        ackTimeoutMinutes: timeoutMinutes,
+        acknowledgedAt: incident.acknowledgedAt.toISOString(),
+        assignee: incident.assignedUserId
+      }
+    });
+
+    if (incident.team.maintenanceMode) {
+      await this.recordMaintenanceSuppression(incidentId, incident.teamId);
+      return;
+    }
+
+    if (incident.assignedUserId) {
+      await this.notifyTargets(incidentId, [incident.assignedUserId], 'escalation', incident.currentLevel);
+    }
+
+    await this.resumeEscalation(incidentId);
+
+    logger.info(
+      { incidentId, ackTimeoutMinutes: timeoutMinutes, assignee: incident.assignedUserId },
+      'Stale acknowledgement reverted to OPEN'
+    );
+  }
+
+  // Schedule the next escalation from the incident's current level, after that level's timeout
+  async resumeEscalation(incidentId: string): Promise<void> {
+    const incident = await prisma.incident.findUnique({
+      where: { id: incidentId },
+      include: {
+        escalationPolicy: {
+          include: { levels: { orderBy: { levelNumber: 'asc' } } }
+        }
+      }
+    });
+
+    if (!incident?.escalationPolicy || incident.status !== 'OPEN') {
+      return;
+    }
+
+    const policy = incident.escalationPolicy;
+    const currentLevel = policy.levels.find(l => l.levelNumber === incident.currentLevel) ?? policy.levels[0];
+    const nextLevel = policy.levels.find(l => l.levelNumber === incident.currentLevel + 1);
+
+    if (!currentLevel || (!nextLevel && incident.currentRepeat >= policy.repeatCount)) {
+      logger.info({ incidentId }, 'Escalation not resumed - policy exhausted');
+      return;
+    }
+
+    const now = new Date();
+    const bullJobId = await scheduleEscalation(
+      incidentId,
+      incident.currentLevel,
+      incident.currentRepeat,
+      currentLevel.timeoutMinutes,
+      now
+    );
+
+    // Past the last level the policy repeats from its first level
+    await prisma.escalationJob.create({
+      data: {
+        incidentId,
+        bullJobId,
+        scheduledLevel: (nextLevel ?? policy.levels[0]).levelNumber,
+        scheduledFor: new Date(now.getTime() + currentLevel.timeoutMinutes * 60 * 1000)
+      }
+    });
+
+    logger.info(
+      { incidentId, fromLevel: incident.currentLevel, timeoutMinutes: currentLevel.timeoutMinutes },
+      'Escalation resumed'
+    );
+  }
+
+  // Page again after a priority upgrade: everyone on the current level while the incident
+  // is open, or just the assignee once it has been acknowledged. Timers are left as they are.
+  async repageForPriority(incidentId: string, previousPriority: string): Promise<void> {
+    const incident = await prisma.incident.findUnique({
+      where: { id: incidentId },
+      include: {
+        escalationPolicy: {
+          include: { levels: { orderBy: { levelNumber: 'asc' } } }
+        }
+      }
+    });
+
+    if (!incident || !['OPEN', 'ACKNOWLEDGED'].includes(incident.status)) {
+      return;
+    }
+
+    // Held incidents page when their support window opens
+    if (incident.heldUntil) {
+      logger.info({ incidentId }, 'Priority upgrade re-page skipped - incident is held');
+      return;
+    }
+
+    // Round-robin/least-loaded levels re-page only the assignee, like the first page;
+    // a re-page never advances the round-robin cursor
+    const level = incident.escalationPolicy?.levels.find(l => l.levelNumber === incident.currentLevel);
+    let recipients: string[];
+    if (incident.status === 'ACKNOWLEDGED') {
+      recipients = incident.assignedUserId ? [incident.assignedUserId] : [];
+    } else if (incident.assignedUserId && level && level.assignmentStrategy !== 'all') {
+      recipients = [incident.assignedUserId];
+    } else {
+      const targets = level
+        ? await routingService.resolveEscalationTargets(level, incident.teamId, { persistCursor: false })
+        : [];
+      recipients = incident.assignedUserId
+        ? [incident.assignedUserId, ...targets.filter(userId => userId !== incident.assignedUserId)]
+        : targets;
+    }
+
+    await auditService.log({
+      action: 'incident.escalation.repaged',
+      teamId: incident.teamId,
+      resourceType: 'incident',
+      resourceId: incidentId,
+      severity: 'HIGH',
+      metadata: {
+        reason: 'priority_upgraded',
+        previousPriority,
+        priority: incident.priority,
+        level: incident.currentLevel,
+        notifiedUserIds: recipients
+      }
+    });
+
+    await this.notifyTargets(incidentId, recipients, 'escalation', incident.currentLevel);
+
+    logger.info(
+      { incidentId, previousPriority, priority: incident.priority, recipients: recipients.length },
+      'Responders re-paged after priority upgrade'
+    );
+  }
+
+  // Schedule the first escalation and page everyone on level 1
+  private async beginPaging(
+    incidentId: string,
+    teamId: string,
+    firstLevel: EscalationLevel,
+    assignedUserId: string | null
+  ): Promise<void> {
     // Schedule first escalation
     const bullJobId = await scheduleEscalation(
       incidentId,
@@ -47,24 +462,20 @@ class EscalationService {
       }
     });
 
-    // Dispatch initial notification to assigned user
-    if (incident.assignedUserId) {
-      try {
-        await dispatchNotification(
-          incidentId,
-          incident.assignedUserId,
-          'new_incident',
-          { escalationLevel: 1 }
-        );
-      } catch (notificationError) {
-        // Log but don't fail escalation - notification is best-effort
-        logger.error(
-          { error: notificationError, incidentId, userId: incident.assignedUserId, escalationLevel: 1 },
-          'Failed to dispatch notification'
-        );
-      }
+    // Round-robin/least-loaded levels page only the assignee picked at routing;
+    // otherwise page everyone on level 1, starting with the assignee
+    let recipients: string[];
+    if (assignedUserId && firstLevel.assignmentStrategy !== 'all') {
+      recipients = [assignedUserId];
+    } else {
+      const targets = await routingService.resolveEscalationTargets(firstLevel, teamId);
+      recipients = assignedUserId
+        ? [assignedUserId, ...targets.filter(userId => userId !== assignedUserId)]
+        : targets;
     }
 
+    await this.notifyTargets(incidentId, recipients, 'new_incident', 1);
+
     logger.info(
       { incidentId, scheduledLevel: 1, timeoutMinutes: firstLevel.timeoutMinutes },
       'Escalation started'
@@ -80,6 +491,7 @@ class EscalationService {
     const incident = await prisma.incident.findUnique({
       where: { id: incidentId },
       include: {
+        team: { select: { maintenanceMode: true } },
         escalationPolicy: {
           include: { levels: { orderBy: { levelNumber: 'asc' } } }
         }
@@ -95,6 +507,13 @@ class EscalationService {
       return;
     }
 
+    // Maintenance started after the incident opened: stop paging further levels
+    if (incident.team.maintenanceMode) {
+      logger.info({ incidentId, teamId: incident.teamId, toLevel }, 'Escalation suppressed - team in maintenance mode');
+      await this.recordMaintenanceSuppression(incidentId, incident.teamId);
+      return;
+    }
+
     // Check if already at higher level (stale job)
     if (incident.currentLevel >= toLevel && incident.currentRepeat >= repeatNumber) {
       logger.info(
@@ -142,16 +561,28 @@ class EscalationService {
     await this.escalateToLevel(incident, nextLevel, repeatNumber);
   }
 
+  private async recordMaintenanceSuppression(incidentId: string, teamId: string): Promise<void> {
+    await auditService.log({
+      action: 'incident.escalation.suppressed',
+      teamId,
+      resourceType: 'incident',
+      resourceId: incidentId,
+      severity: 'INFO',
+      metadata: { reason: 'team_maintenance' }
+    });
+  }
+
   private async escalateToLevel(
     incident: any,
     level: any,
     repeatNumber: number
   ): Promise<void> {
-    // Resolve target user for this level
-    const newAssignee = await routingService.resolveEscalationTarget(
+    // Resolve every user on this level; the first is assigned until someone acknowledges
+    const targets = await routingService.resolveEscalationTargets(
       level,
       incident.teamId
     );
+    const newAssignee = targets[0] ?? null;
 
     // Update incident
     await prisma.incident.update({
@@ -175,27 +606,13 @@ class EscalationService {
         toLevel: level.levelNumber,
         repeatNumber,
         targetType: level.targetType,
-        newAssignee
+        newAssignee,
+        notifiedUserIds: targets
       }
     });
 
-    // Notify new assignee
-    if (newAssignee) {
-      try {
-        await dispatchNotification(
-          incident.id,
-          newAssignee,
-          'escalation',
-          { escalationLevel: level.levelNumber }
-        );
-      } catch (notificationError) {
-        // Log but don't fail escalation - notification is best-effort
-        logger.error(
-          { error: notificationError, incidentId: incident.id, userId: newAssignee, escalationLevel: level.levelNumber },
-          'Failed to dispatch escalation notification'
-        );
-      }
-    }
+    // Page everyone on the level in parallel
+    await this.notifyTargets(incident.id, targets, 'escalation', level.levelNumber);
 
     logger.info(
       { incidentId: incident.id, level: level.levelNumber, repeatNumber, newAssignee },
@@ -262,6 +679,26 @@ class EscalationService {
     // else: policy exhausted, don't schedule more
   }
 
+  // Notify each paged user in parallel - the first to acknowledge becomes the assignee
+  private async notifyTargets(
+    incidentId: string,
+    userIds: string[],
+    type: 'new_incident' | 'escalation',
+    escalationLevel: number
+  ): Promise<void> {
+    await Promise.all(userIds.map(async (userId) => {
+      try {
+        await dispatchNotification(incidentId, userId, type, { escalationLevel });
+      } catch (notificationError) {
+        // Log but don't fail escalation - notification is best-effort
+        logger.error(
+          { error: notificationError, incidentId, userId, escalationLevel },
+          'Failed to dispatch notification'
+        );
+      }
+    }));
+  }
+
   // Reconcile stale escalations on server startup
   async reconcileStaleEscalations(): Promise<number> {
     const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
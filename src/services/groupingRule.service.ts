@@ -0,0 +1,373 @@
+import crypto from 'crypto';
+import { AlertGroupingRule, Incident, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { logger } from '../config/logger.js';
+import { auditService } from './audit.service.js';
+import { getMetadataValue } from '../utils/metadata.js';
+import type {
+  CreateGroupingRuleInput,
+  UpdateGroupingRuleInput,
+  GroupingStrategy,
+  GroupingTarget
+} from '../types/groupingRule.js';
+
+// Open incidents compared per title similarity rule (most recent first)
+const MAX_SIMILARITY_CANDIDATES = 50;
+
+export interface GroupingMatch {
+  // Open incident the alert belongs to (null when a new incident is needed)
+  incident: Incident | null;
+  // Group key for a new incident, from the first applicable rule
+  groupKey: string | null;
+  ruleId: string | null;
+}
+
+/**
+ * GroupingRuleService manages alert grouping rules.
+ * Consulted by deduplication after the exact-fingerprint check - a matching
+ * rule links the alert to an existing open incident instead of opening a new one.
+ */
+class GroupingRuleService {
+  /**
+   * Create a grouping rule.
+   */
+  async create(input: CreateGroupingRuleInput, userId: string): Promise<AlertGroupingRule> {
+    await this.validate(input.teamId, input);
+
+    const rule = await prisma.alertGroupingRule.create({
+      data: {
+        name: input.name,
+        teamId: input.teamId,
+        createdById: userId,
+        serviceId: input.serviceId,
+        integrationId: input.integrationId,
+        strategy: input.strategy,
+        metadataKeys: input.metadataKeys || [],
+        similarityThreshold: input.similarityThreshold,
+        windowMinutes: input.windowMinutes,
+        priority: input.priority
+      }
+    });
+
+    await auditService.log({
+      action: 'grouping_rule.created',
+      userId,
+      teamId: input.teamId,
+      resourceType: 'grouping_rule',
+      resourceId: rule.id,
+      metadata: {
+        name: rule.name,
+        strategy: rule.strategy,
+        serviceId: rule.serviceId,
+        integrationId: rule.integrationId
+      }
+    });
+
+    logger.info({ groupingRuleId: rule.id, teamId: input.teamId }, 'Created alert grouping rule');
+
+    return rule;
+  }
+
+  /**
+   * Update a grouping rule.
+   */
+  async update(id: string, input: UpdateGroupingRuleInput, userId: string): Promise<AlertGroupingRule> {
+    const current = await prisma.alertGroupingRule.findUnique({ where: { id } });
+
+    if (!current) {
+      throw new Error('Grouping rule not found');
+    }
+
+    await this.validate(current.teamId, {
+      serviceId: input.serviceId === undefined ? current.serviceId : input.serviceId,
+      integrationId: input.integrationId === undefined ? current.integrationId : input.integrationId,
+      strategy: input.strategy ?? (current.strategy as GroupingStrategy),
+      metadataKeys: input.metadataKeys ?? current.metadataKeys
+    });
+
+    const rule = await prisma.alertGroupingRule.update({
+      where: { id },
+      data: {
+        name: input.name,
+        serviceId: input.serviceId,
+        integrationId: input.integrationId,
+        strategy: input.strategy,
+        metadataKeys: input.metadataKeys,
+        similarityThreshold: input.similarityThreshold,
+        windowMinutes: input.windowMinutes,
+        priority: input.priority,
+        isActive: input.isActive
+      }
+    });
+
+    await auditService.log({
+      action: 'grouping_rule.updated',
+      userId,
+      teamId: rule.teamId,
+      resourceType: 'grouping_rule',
+      resourceId: id,
+      metadata: {
+        changes: Object.keys(input).filter(k => input[k as keyof UpdateGroupingRuleInput] !== undefined)
+      }
+    });
+
+    return rule;
+  }
+
+  /**
+   * Delete a grouping rule.
+   */
+  async delete(id: string, userId: string): Promise<void> {
+    const rule = await prisma.alertGroupingRule.delete({ where: { id } });
+
+    await auditService.log({
+      action: 'grouping_rule.deleted',
+      userId,
+      teamId: rule.teamId,
+      resourceType: 'grouping_rule',
+      resourceId: id,
+      metadata: { name: rule.name }
+    });
+
+    logger.info({ groupingRuleId: id }, 'Deleted alert grouping rule');
+  }
+
+  /**
+   * Get a grouping rule by ID.
+   */
+  async getById(id: string): Promise<AlertGroupingRule | null> {
+    return prisma.alertGroupingRule.findUnique({ where: { id } });
+  }
+
+  /**
+   * List grouping rules, optionally filtered by team, service or integration.
+   */
+  async list(params: { teamId?: string; serviceId?: string; integrationId?: string; includeInactive?: boolean }) {
+    const where: Prisma.AlertGroupingRuleWhereInput = {};
+
+    if (params.teamId) where.teamId = params.teamId;
+    if (params.serviceId) where.serviceId = params.serviceId;
+    if (params.integrationId) where.integrationId = params.integrationId;
+    if (!params.includeInactive) where.isActive = true;
+
+    return prisma.alertGroupingRule.findMany({
+      where,
+      include: { team: { select: { id: true, name: true } } },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }]
+    });
+  }
+
+  /**
+   * Find the open incident an alert should be grouped into under the grouping
+   * rules for its service/integration. Only the rules and incidents of the team
+   * the alert was routed to are considered, since integrations are shared across
+   * teams. Rules run in priority order; the first match wins. A new incident is
+   * tagged with the first applicable rule's key.
+   *
+   * Runs inside the deduplication transaction.
+   */
+  async findGroup(
+    tx: Prisma.TransactionClient,
+    target: GroupingTarget,
+    now: Date = new Date()
+  ): Promise<GroupingMatch> {
+    const scopes: Prisma.AlertGroupingRuleWhereInput[] = [];
+    if (target.serviceId) scopes.push({ serviceId: target.serviceId });
+    if (target.integrationId) scopes.push({ integrationId: target.integrationId });
+
+    if (scopes.length === 0) {
+      return { incident: null, groupKey: null, ruleId: null };
+    }
+
+    const rules = await tx.alertGroupingRule.findMany({
+      where: { isActive: true, teamId: target.teamId, OR: scopes },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }]
+    });
+
+    let firstKey: { groupKey: string; ruleId: string } | null = null;
+
+    for (const rule of rules) {
+      if (!this.matchesScope(rule, target)) continue;
+
+      const groupKey = this.buildGroupKey(rule, target);
+      if (!groupKey) continue;
+
+      firstKey ??= { groupKey, ruleId: rule.id };
+
+      const windowStart = new Date(now.getTime() - rule.windowMinutes * 60 * 1000);
+      const incident = rule.strategy === 'title_similarity'
+        ? await this.findSimilarIncident(tx, rule, groupKey, target, windowStart)
+        : await tx.incident.findFirst({
+            where: {
+              groupKey,
+              teamId: target.teamId,
+              status: { in: ['OPEN', 'ACKNOWLEDGED'] },
+              createdAt: { gte: windowStart }
+            },
+            orderBy: { createdAt: 'desc' }
+          });
+
+      if (incident) {
+        return { incident, groupKey, ruleId: rule.id };
+      }
+    }
+
+    return { incident: null, groupKey: firstKey?.groupKey ?? null, ruleId: firstKey?.ruleId ?? null };
+  }
+
+  /**
+   * Check a rule's scope against an alert. Every set scope must match.
+   */
+  matchesScope(
+    rule: Pick<AlertGroupingRule, 'serviceId' | 'integrationId'>,
+    target: Pick<GroupingTarget, 'serviceId' | 'integrationId'>
+  ): boolean {
+    if (!rule.serviceId && !rule.integrationId) return false;
+    if (rule.serviceId && rule.serviceId !== target.serviceId) return false;
+    if (rule.integrationId && rule.integrationId !== target.integrationId) return false;
+    return true;
+  }
+
+  /**
+   * Build the group key for an alert under a rule, or null if the rule doesn't apply
+   * (e.g., a grouping metadata key is missing).
+   */
+  buildGroupKey(
+    rule: Pick<AlertGroupingRule, 'id' | 'strategy' | 'metadataKeys'>,
+    target: Pick<GroupingTarget, 'metadata'>
+  ): string | null {
+    switch (rule.strategy) {
+      case 'metadata_keys': {
+        if (rule.metadataKeys.length === 0) return null;
+        const values = rule.metadataKeys.map(key => getMetadataValue(target.metadata, key));
+        if (values.some(value => value === undefined || value === null || value === '')) return null;
+        return `${rule.id}:${hashValues(values.map(String))}`;
+      }
+      case 'routing_key': {
+        const routingKey = target.metadata.routing_key || target.metadata.routingKey;
+        if (typeof routingKey !== 'string' || !routingKey) return null;
+        return `${rule.id}:${hashValues([routingKey])}`;
+      }
+      case 'title_similarity':
+        // Titles are compared against each candidate incident
+        return `${rule.id}:similar`;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Most similar open incident opened under the rule, if above its threshold.
+   */
+  private async findSimilarIncident(
+    tx: Prisma.TransactionClient,
+    rule: AlertGroupingRule,
+    groupKey: string,
+    target: Pick<GroupingTarget, 'teamId' | 'title'>,
+    windowStart: Date
+  ): Promise<Incident | null> {
+    const candidates = await tx.incident.findMany({
+      where: {
+        groupKey,
+        teamId: target.teamId,
+        status: { in: ['OPEN', 'ACKNOWLEDGED'] },
+        createdAt: { gte: windowStart }
+      },
+      include: {
+        alerts: { select: { title: true }, orderBy: { triggeredAt: 'asc' }, take: 1 }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_SIMILARITY_CANDIDATES
+    });
+
+    let best: { incident: Incident; score: number } | null = null;
+
+    for (const { alerts, ...incident } of candidates) {
+      if (alerts.length === 0) continue;
+      const score = titleSimilarity(alerts[0].title, target.title);
+      if (score >= rule.similarityThreshold && (!best || score > best.score)) {
+        best = { incident, score };
+      }
+    }
+
+    return best?.incident ?? null;
+  }
+
+  /**
+   * Validate scope, strategy options and that the service belongs to the team.
+   */
+  private async validate(
+    teamId: string,
+    input: {
+      serviceId?: string | null;
+      integrationId?: string | null;
+      strategy: GroupingStrategy;
+      metadataKeys?: string[];
+    }
+  ): Promise<void> {
+    if (!input.serviceId && !input.integrationId) {
+      throw new Error('At least one of serviceId or integrationId is required');
+    }
+
+    if (input.strategy === 'metadata_keys' && (input.metadataKeys || []).length === 0) {
+      throw new Error('At least one metadata key is required for metadata_keys grouping');
+    }
+
+    if (input.serviceId) {
+      const service = await prisma.service.findFirst({
+        where: { id: input.serviceId, teamId },
+        select: { id: true }
+      });
+
+      if (!service) {
+        throw new Error('Service does not belong to this team');
+      }
+    }
+
+    if (input.integrationId) {
+      const integration = await prisma.integration.findUnique({
+        where: { id: input.integrationId },
+        select: { id: true }
+      });
+
+      if (!integration) {
+        throw new Error('Integration not found');
+      }
+    }
+  }
+}
+
+/**
+ * Similarity of two alert titles (0-1), as the Dice coefficient of their word sets.
+ * Numbers are masked so "node-12 disk full" and "node-7 disk full" compare equal.
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+
+  if (tokensA.size === 0 && tokensB.size === 0) return 1;
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let shared = 0;
+  for (const token of tokensA) {
+    if (tokensB.has(token)) shared++;
+  }
+
+  return (2 * shared) / (tokensA.size + tokensB.size);
+}
+
+function tokenize(title: string): Set<string> {
+  return new Set(
+    title
+      .toLowerCase()
+      .replace(/\d+/g, '#')
+      .split(/[^a-z#]+/)
+      .filter(Boolean)
+  );
+}
+
+function hashValues(values: string[]): string {
+  return crypto.createHash('sha256').update(JSON.stringify(values)).digest('hex').substring(0, 16);
+}
+
+export const groupingRuleService = new GroupingRuleService();
@@ -1,11 +1,43 @@
 import crypto from 'crypto';
+import type { Prisma } from '@prisma/client';
 import { prisma } from '../config/database.js';
-import { cancelEscalation } from '../queues/escalation.queue.js';
+import { cancelEscalation, scheduleSnoozeWake, scheduleAckTimeout } from '../queues/escalation.queue.js';
+import { cancelIncidentNotifications } from '../queues/notification.queue.js';
 import { auditService } from './audit.service.js';
 import { socketService } from './socket.service.js';
 import { logger } from '../config/logger.js';
-import { onIncidentCreated, onIncidentStateChanged } from './workflow/workflow-integration.js';
+import {
+  onIncidentCreated,
+  onIncidentStateChanged,
+  onIncidentNoteAdded,
+  onIncidentReassigned
+} from './workflow/workflow-integration.js';
+import type { ExecutionContext } from './workflow/workflow-trigger.service.js';
 import { statusComputationService } from './statusComputation.service.js';
+import { escalationService } from './escalation.service.js';
+
+// Actor ID for automated transitions (auto-resolve, timers) - not a real user
+export const SYSTEM_ACTOR_ID = 'system';
+
+export type IncidentPriority = 'INFO' | 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+// Lowest to highest - used to pick a split incident's priority from its alerts
+const PRIORITY_RANK: IncidentPriority[] = ['INFO', 'LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+
+const ACTIVE_STATUSES = ['OPEN', 'ACKNOWLEDGED'];
+
+// Snooze bounds - used when a reply or button doesn't name a duration
+export const DEFAULT_SNOOZE_MINUTES = 60;
+export const MIN_SNOOZE_MINUTES = 5;
+export const MAX_SNOOZE_MINUTES = 24 * 60;
+
+// Editable incident details - omitted fields are left unchanged
+export interface IncidentDetailsUpdate {
+  title?: string;
+  summary?: string | null;
+  priority?: IncidentPriority;
+  impactedServiceIds?: string[];
+}
 
 interface IncidentFilter {
   teamId?: string;
@@ -52,6 +84,16 @@ class IncidentService {
         escalationJobs: {
           where: { completed: false },
           select: { id: true, scheduledLevel: true, scheduledFor: true }
+        },
+        responders: {
+          where: { removedAt: null },
+          select: {
+            id: true,
+            role: true,
+            assignedAt: true,
+            user: { select: { id: true, firstName: true, lastName: true, email: true } }
+          },
+          orderBy: { assignedAt: 'asc' }
         }
       }
     });
@@ -60,11 +102,19 @@ class IncidentService {
       return null;
     }
 
-    // Add title and description from first alert
+    const impactedServices = incident.impactedServiceIds.length > 0
+      ? await prisma.service.findMany({
+          where: { id: { in: incident.impactedServiceIds } },
+          select: { id: true, name: true, routingKey: true }
+        })
+      : [];
+
+    // Incidents created before titles were stored fall back to their first alert
     return {
       ...incident,
-      title: incident.alerts[0]?.title || 'Untitled Incident',
-      description: incident.alerts[0]?.description || incident.description
+      impactedServices,
+      title: incident.title || incident.alerts[0]?.title || 'Untitled Incident',
+      description: incident.summary || incident.alerts[0]?.description
     };
   }
 
@@ -133,11 +183,11 @@ class IncidentService {
       }
     });
 
-    // Map incidents to include title and description from first alert
+    // Incidents created before titles were stored fall back to their first alert
     const incidentsWithTitles = incidents.map(incident => ({
       ...incident,
-      title: incident.alerts[0]?.title || 'Untitled Incident',
-      description: incident.alerts[0]?.description || incident.description
+      title: incident.title || incident.alerts[0]?.title || 'Untitled Incident',
+      description: incident.summary || incident.alerts[0]?.description
     }));
 
     return {
@@ -165,16 +215,26 @@ class IncidentService {
       throw new Error(`Cannot acknowledge incident in ${incident.status} status`);
     }
 
-    // Update incident status
-    const updated = await prisma.incident.update({
-      where: { id: incidentId },
+    // Acknowledged by the sending tool (Events API) - keeps the current assignee
+    const isSystem = userId === SYSTEM_ACTOR_ID;
+
+    // Update incident status - conditional on OPEN so that when a multi-target
+    // level pages several responders, only the first to acknowledge is assigned
+    const { count } = await prisma.incident.updateMany({
+      where: { id: incidentId, status: 'OPEN' },
       data: {
         status: 'ACKNOWLEDGED',
         acknowledgedAt: new Date(),
-        assignedUserId: userId // Assign to acknowledger
+        ...(!isSystem && { assignedUserId: userId }) // Assign to acknowledger
       }
     });
 
+    if (count === 0) {
+      throw new Error('Cannot acknowledge incident - already acknowledged by another responder');
+    }
+
+    const updated = await prisma.incident.findUniqueOrThrow({ where: { id: incidentId } });
+
     // Cancel all pending escalation jobs
     for (const job of incident.escalationJobs) {
       await cancelEscalation(job.bullJobId);
@@ -184,10 +244,31 @@ class IncidentService {
       });
     }
 
-    // Audit log
+    // On policies with an ack timeout, the acknowledgement lapses unless the incident moves on
+    const policy = updated.escalationPolicyId
+      ? await prisma.escalationPolicy.findUnique({
+          where: { id: updated.escalationPolicyId },
+          select: { ackTimeoutMinutes: true }
+        })
+      : null;
+
+    if (policy?.ackTimeoutMinutes) {
+      const expiresAt = new Date(updated.acknowledgedAt!.getTime() + policy.ackTimeoutMinutes * 60 * 1000);
+      const bullJobId = await scheduleAckTimeout(incidentId, expiresAt);
+      await prisma.escalationJob.create({
+        data: {
+          incidentId,
+          bullJobId,
+          scheduledLevel: updated.currentLevel,
+          scheduledFor: expiresAt
+        }
+      });
+    }
+
+    // Audit log (system acknowledgements have no user)
     await auditService.log({
       action: 'incident.acknowledged',
-      userId,
+      userId: isSystem ? undefined : userId,
       teamId: incident.teamId,
       resourceType: 'incident',
       resourceId: incidentId,
@@ -195,15 +276,18 @@ class IncidentService {
       metadata: {
         previousStatus: incident.status,
         escalationsCancelled: incident.escalationJobs.length,
-        ...metadata
+        ...metadata,
+        ...(isSystem && { automatic: true })
       }
     });
 
     // Broadcast acknowledgment via WebSocket
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { id: true, firstName: true, lastName: true }
-    });
+    const user = isSystem
+      ? { id: SYSTEM_ACTOR_ID, firstName: 'System', lastName: '' }
+      : await prisma.user.findUnique({
+          where: { id: userId },
+          select: { id: true, firstName: true, lastName: true }
+        });
 
     if (user) {
       socketService.broadcastIncidentAcknowledged(
@@ -250,11 +334,138 @@ class IncidentService {
     return updated;
   }
 
+  // Snooze incident - acknowledges it, stops escalation, and reopens it and pages
+  // the snoozing user when the snooze ends
+  async snooze(
+    incidentId: string,
+    userId: string,
+    minutes: number,
+    metadata?: Record<string, unknown>
+  ): Promise<any> {
+    if (!Number.isInteger(minutes) || minutes < MIN_SNOOZE_MINUTES || minutes > MAX_SNOOZE_MINUTES) {
+      throw new Error(`Snooze duration must be between ${MIN_SNOOZE_MINUTES} minutes and ${MAX_SNOOZE_MINUTES / 60} hours`);
+    }
+
+    const incident = await prisma.incident.findUnique({
+      where: { id: incidentId },
+      include: { escalationJobs: { where: { completed: false } } }
+    });
+
+    if (!incident) {
+      throw new Error('Incident not found');
+    }
+
+    if (!ACTIVE_STATUSES.includes(incident.status)) {
+      throw new Error(`Cannot snooze incident in ${incident.status} status`);
+    }
+
+    const snoozedUntil = new Date(Date.now() + minutes * 60 * 1000);
+
+    // Conditional on the status read above so a concurrent resolve isn't undone
+    const { count } = await prisma.incident.updateMany({
+      where: { id: incidentId, status: incident.status },
+      data: {
+        status: 'ACKNOWLEDGED',
+        acknowledgedAt: incident.acknowledgedAt ?? new Date(),
+        assignedUserId: userId,
+        snoozedUntil
+      }
+    });
+
+    if (count === 0) {
+      throw new Error('Cannot snooze incident - its status changed, try again');
+    }
+
+    // Pending escalations and any earlier snooze wake-up are replaced by this snooze
+    for (const job of incident.escalationJobs) {
+      await cancelEscalation(job.bullJobId);
+      await prisma.escalationJob.update({
+        where: { id: job.id },
+        data: { completed: true, cancelledAt: new Date() }
+      });
+    }
+
+    const bullJobId = await scheduleSnoozeWake(incidentId, snoozedUntil);
+    await prisma.escalationJob.create({
+      data: {
+        incidentId,
+        bullJobId,
+        scheduledLevel: incident.currentLevel,
+        scheduledFor: snoozedUntil
+      }
+    });
+
+    const updated = await prisma.incident.findUniqueOrThrow({
+      where: { id: incidentId },
+      include: {
+        team: { select: { id: true, name: true } },
+        alerts: { select: { title: true }, orderBy: { triggeredAt: 'asc' }, take: 1 }
+      }
+    });
+
+    await auditService.log({
+      action: 'incident.snoozed',
+      userId,
+      teamId: incident.teamId,
+      resourceType: 'incident',
+      resourceId: incidentId,
+      severity: 'INFO',
+      metadata: {
+        minutes,
+        snoozedUntil: snoozedUntil.toISOString(),
+        previousStatus: incident.status,
+        escalationsCancelled: incident.escalationJobs.length,
+        ...metadata
+      }
+    });
+
+    socketService.broadcastIncidentUpdated({
+      id: updated.id,
+      fingerprint: updated.fingerprint,
+      status: updated.status,
+      priority: updated.priority,
+      title: updated.title || updated.alerts[0]?.title || 'Untitled incident',
+      teamId: updated.teamId,
+      team: updated.team,
+      assignedUserId: updated.assignedUserId ?? undefined,
+      serviceId: updated.serviceId ?? undefined,
+      createdAt: updated.createdAt.toISOString(),
+      acknowledgedAt: updated.acknowledgedAt?.toISOString(),
+      snoozedUntil: snoozedUntil.toISOString()
+    });
+
+    logger.info({ incidentId, userId, minutes, snoozedUntil }, 'Incident snoozed');
+
+    // Snoozing an open incident acknowledges it (don't fail the snooze on workflow error)
+    if (incident.status === 'OPEN') {
+      try {
+        await onIncidentStateChanged(
+          {
+            id: updated.id,
+            priority: updated.priority,
+            status: updated.status,
+            teamId: updated.teamId,
+            createdAt: updated.createdAt
+          },
+          'OPEN',
+          'ACKNOWLEDGED'
+        );
+      } catch (workflowError) {
+        logger.error(
+          { error: workflowError, incidentId },
+          'Failed to trigger workflows on snooze'
+        );
+      }
+    }
+
+    return updated;
+  }
+
   // Resolve incident
   async resolve(
     incidentId: string,
     userId: string,
-    metadata: { resolutionNote?: string }
+    metadata: { resolutionNote?: string; [key: string]: unknown }
   ): Promise<any> {
     const incident = await prisma.incident.findUnique({
       where: { id: incidentId },
@@ -274,7 +485,8 @@ class IncidentService {
       where: { id: incidentId },
       data: {
         status: 'RESOLVED',
-        resolvedAt: new Date()
+        resolvedAt: new Date(),
+        snoozedUntil: null
       }
     });
 
@@ -287,26 +499,32 @@ class IncidentService {
       });
     }
 
-    // Audit log
+    const isSystem = userId === SYSTEM_ACTOR_ID;
+
+    // Audit log (system resolutions have no user)
     await auditService.log({
       action: 'incident.resolved',
-      userId,
+      userId: isSystem ? undefined : userId,
       teamId: incident.teamId,
       resourceType: 'incident',
       resourceId: incidentId,
       severity: 'INFO',
       metadata: {
+        ...metadata,
         previousStatus: incident.status,
         resolutionNote: metadata.resolutionNote,
-        durationMs: updated.resolvedAt!.getTime() - incident.createdAt.getTime()
+        durationMs: updated.resolvedAt!.getTime() - incident.createdAt.getTime(),
+        ...(isSystem && { automatic: true })
       }
     });
 
     // Broadcast resolution via WebSocket
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { id: true, firstName: true, lastName: true }
-    });
+    const user = isSystem
+      ? { id: SYSTEM_ACTOR_ID, firstName: 'System', lastName: '' }
+      : await prisma.user.findUnique({
+          where: { id: userId },
+          select: { id: true, firstName: true, lastName: true }
+        });
 
     if (user) {
       socketService.broadcastIncidentResolved(
@@ -354,6 +572,36 @@ class IncidentService {
     return updated;
   }
 
+  // Resolve incident on behalf of the monitoring tool once every linked alert has recovered
+  async resolveIfAlertsResolved(incidentId: string, integrationName: string): Promise<boolean> {
+    const incident = await prisma.incident.findUnique({
+      where: { id: incidentId },
+      select: { status: true }
+    });
+
+    if (!incident || !['OPEN', 'ACKNOWLEDGED'].includes(incident.status)) {
+      return false;
+    }
+
+    const unresolvedAlerts = await prisma.alert.count({
+      where: {
+        incidentId,
+        status: { notIn: ['RESOLVED', 'CLOSED'] }
+      }
+    });
+
+    if (unresolvedAlerts > 0) {
+      logger.info({ incidentId, unresolvedAlerts }, 'Incident still has unresolved alerts');
+      return false;
+    }
+
+    await this.resolve(incidentId, SYSTEM_ACTOR_ID, {
+      resolutionNote: `Auto-resolved: all alerts recovered (${integrationName})`
+    });
+
+    return true;
+  }
+
   // Close incident (final state)
   async close(incidentId: string, userId: string): Promise<any> {
     const incident = await prisma.incident.findUnique({
@@ -458,7 +706,9 @@ class IncidentService {
     incidentId: string,
     newUserId: string,
     byUserId: string,
-    reason?: string
+    reason?: string,
+    metadata?: Record<string, unknown>,
+    workflowContext?: ExecutionContext
   ): Promise<any> {
     const incident = await prisma.incident.findUnique({
       where: { id: incidentId }
@@ -495,7 +745,7 @@ class IncidentService {
 
     await auditService.log({
       action: 'incident.reassigned',
-      userId: byUserId,
+      userId: byUserId === SYSTEM_ACTOR_ID ? undefined : byUserId,
       teamId: incident.teamId,
       resourceType: 'incident',
       resourceId: incidentId,
@@ -503,7 +753,8 @@ class IncidentService {
       metadata: {
         previousAssignee,
         newAssignee: newUserId,
-        reason
+        reason,
+        ...metadata
       }
     });
 
@@ -531,6 +782,27 @@ class IncidentService {
       'Incident reassigned'
     );
 
+    // Trigger reassigned workflows (don't fail reassignment on workflow error)
+    try {
+      await onIncidentReassigned(
+        {
+          id: updated.id,
+          priority: updated.priority,
+          status: updated.status,
+          teamId: updated.teamId,
+          createdAt: updated.createdAt
+        },
+        previousAssignee,
+        newUserId,
+        workflowContext
+      );
+    } catch (workflowError) {
+      logger.error(
+        { error: workflowError, incidentId },
+        'Failed to trigger workflows on reassignment'
+      );
+    }
+
     return updated;
   }
 
@@ -538,7 +810,9 @@ class IncidentService {
   async addNote(
     incidentId: string,
     userId: string,
-    note: string
+    note: string,
+    metadata?: Record<string, unknown>,
+    workflowContext?: ExecutionContext
   ): Promise<void> {
     const incident = await prisma.incident.findUnique({
       where: { id: incidentId }
@@ -548,22 +822,26 @@ class IncidentService {
       throw new Error('Incident not found');
     }
 
+    const isSystem = userId === SYSTEM_ACTOR_ID;
+
     // Store note as audit event (timeline is built from audit events)
     await auditService.log({
       action: 'incident.note.added',
-      userId,
+      userId: isSystem ? undefined : userId,
       teamId: incident.teamId,
       resourceType: 'incident',
       resourceId: incidentId,
       severity: 'INFO',
-      metadata: { note }
+      metadata: { note, ...metadata }
     });
 
     // Broadcast note added via WebSocket
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { firstName: true, lastName: true }
-    });
+    const user = isSystem
+      ? { firstName: 'System', lastName: '' }
+      : await prisma.user.findUnique({
+          where: { id: userId },
+          select: { firstName: true, lastName: true }
+        });
 
     if (user) {
       socketService.broadcastNoteAdded(
@@ -582,6 +860,161 @@ class IncidentService {
     }
 
     logger.debug({ incidentId, userId }, 'Note added to incident');
+
+    // Trigger note_added workflows (don't fail the note on workflow error)
+    try {
+      await onIncidentNoteAdded(
+        {
+          id: incident.id,
+          priority: incident.priority,
+          status: incident.status,
+          teamId: incident.teamId,
+          createdAt: incident.createdAt
+        },
+        { text: note, userId: isSystem ? undefined : userId },
+        workflowContext
+      );
+    } catch (workflowError) {
+      logger.error(
+        { error: workflowError, incidentId },
+        'Failed to trigger workflows on note added'
+      );
+    }
+  }
+
+  // Change incident priority
+  async updatePriority(
+    incidentId: string,
+    priority: IncidentPriority,
+    userId: string,
+    metadata?: Record<string, unknown>
+  ): Promise<any> {
+    return this.update(incidentId, { priority }, userId, metadata);
+  }
+
+  // Edit title, summary, priority and impacted services. Each changed field is audited
+  // on its own so it reads on the timeline; a priority upgrade pages responders again.
+  async update(
+    incidentId: string,
+    changes: IncidentDetailsUpdate,
+    userId: string,
+    metadata?: Record<string, unknown>
+  ): Promise<any> {
+    const incident = await prisma.incident.findUnique({
+      where: { id: incidentId },
+      include: {
+        team: { select: { id: true, name: true } },
+        alerts: { select: { title: true }, orderBy: { triggeredAt: 'asc' }, take: 1 }
+      }
+    });
+
+    if (!incident) {
+      throw new Error('Incident not found');
+    }
+
+    const previousTitle = incident.title || incident.alerts[0]?.title || null;
+    const data: Prisma.IncidentUpdateInput = {};
+    const audits: { action: string; metadata: Record<string, unknown> }[] = [];
+
+    if (changes.title !== undefined && changes.title !== previousTitle) {
+      data.title = changes.title;
+      audits.push({
+        action: 'incident.title.updated',
+        metadata: { previousTitle, title: changes.title }
+      });
+    }
+
+    if (changes.summary !== undefined && (changes.summary || null) !== incident.summary) {
+      data.summary = changes.summary || null;
+      audits.push({
+        action: 'incident.summary.updated',
+        metadata: { previousSummary: incident.summary, summary: changes.summary || null }
+      });
+    }
+
+    if (changes.priority !== undefined && changes.priority !== incident.priority) {
+      if (!ACTIVE_STATUSES.includes(incident.status)) {
+        throw new Error(`Cannot change priority of incident in ${incident.status} status`);
+      }
+      data.priority = changes.priority;
+      audits.push({
+        action: 'incident.priority.updated',
+        metadata: { previousPriority: incident.priority, priority: changes.priority }
+      });
+    }
+
+    if (changes.impactedServiceIds !== undefined) {
+      const serviceIds = [...new Set(changes.impactedServiceIds)];
+      const unchanged = serviceIds.length === incident.impactedServiceIds.length &&
+        serviceIds.every(id => incident.impactedServiceIds.includes(id));
+
+      if (!unchanged) {
+        const found = await prisma.service.count({ where: { id: { in: serviceIds } } });
+        if (found !== serviceIds.length) {
+          throw new Error('Impacted services must exist');
+        }
+
+        data.impactedServiceIds = serviceIds;
+        audits.push({
+          action: 'incident.services.updated',
+          metadata: { previousServiceIds: incident.impactedServiceIds, impactedServiceIds: serviceIds }
+        });
+      }
+    }
+
+    if (audits.length === 0) {
+      return incident;
+    }
+
+    const updated = await prisma.incident.update({
+      where: { id: incidentId },
+      data
+    });
+
+    for (const audit of audits) {
+      await auditService.log({
+        action: audit.action,
+        userId: userId === SYSTEM_ACTOR_ID ? undefined : userId,
+        teamId: incident.teamId,
+        resourceType: 'incident',
+        resourceId: incidentId,
+        severity: 'INFO',
+        metadata: { ...audit.metadata, ...metadata }
+      });
+    }
+
+    socketService.broadcastIncidentUpdated({
+      id: updated.id,
+      fingerprint: updated.fingerprint,
+      status: updated.status,
+      priority: updated.priority,
+      title: updated.title || previousTitle || 'Untitled incident',
+      summary: updated.summary,
+      impactedServiceIds: updated.impactedServiceIds,
+      teamId: updated.teamId,
+      team: incident.team,
+      assignedUserId: updated.assignedUserId ?? undefined,
+      serviceId: updated.serviceId ?? undefined,
+      createdAt: updated.createdAt.toISOString(),
+      acknowledgedAt: updated.acknowledgedAt?.toISOString()
+    });
+
+    logger.info(
+      { incidentId, changes: audits.map(a => a.action), userId },
+      'Incident details updated'
+    );
+
+    // Raising the priority pages responders again (don't fail the edit on paging errors)
+    if (data.priority && PRIORITY_RANK.indexOf(updated.priority as IncidentPriority) >
+        PRIORITY_RANK.indexOf(incident.priority as IncidentPriority)) {
+      try {
+        await escalationService.repageForPriority(incidentId, incident.priority);
+      } catch (error) {
+        logger.error({ error, incidentId }, 'Failed to re-page after priority upgrade');
+      }
+    }
+
+    return updated;
   }
 
   // Create incident manually
@@ -601,6 +1034,8 @@ class IncidentService {
     const incident = await prisma.incident.create({
       data: {
         fingerprint,
+        title: data.title,
+        summary: data.description,
         teamId: data.teamId,
         escalationPolicyId: data.escalationPolicyId,
         priority: data.priority,
@@ -674,12 +1109,314 @@ class IncidentService {
     return incidentWithTitle;
   }
 
-  // Get incident timeline (audit events for this incident)
+  // Merge incidents into this one - alerts and timelines move over, and the absorbed
+  // incidents are resolved with their pending escalations and notifications cancelled
+  async merge(targetId: string, sourceIds: string[], userId: string): Promise<any> {
+    const ids = [...new Set(sourceIds)].filter(id => id !== targetId);
+
+    if (ids.length === 0) {
+      throw new Error('Select at least one other incident to merge');
+    }
+
+    const target = await prisma.incident.findUnique({
+      where: { id: targetId }
+    });
+
+    if (!target) {
+      throw new Error('Incident not found');
+    }
+
+    if (!ACTIVE_STATUSES.includes(target.status)) {
+      throw new Error(`Cannot merge into incident in ${target.status} status`);
+    }
+
+    const sources = await prisma.incident.findMany({
+      where: { id: { in: ids } },
+      include: { escalationJobs: { where: { completed: false } } }
+    });
+
+    if (sources.length !== ids.length) {
+      throw new Error('Incident not found');
+    }
+
+    for (const source of sources) {
+      if (source.teamId !== target.teamId) {
+        throw new Error('Cannot merge incidents from different teams');
+      }
+      if (!ACTIVE_STATUSES.includes(source.status)) {
+        throw new Error(`Cannot merge incident in ${source.status} status`);
+      }
+    }
+
+    const alertsMoved = sources.reduce((sum, source) => sum + source.alertCount, 0);
+    const mergedAt = new Date();
+
+    const updated = await prisma.$transaction(async (tx) => {
+      // Conditional on status so a concurrent acknowledge/resolve can't be overwritten
+      const { count } = await tx.incident.updateMany({
+        where: { id: { in: ids }, status: { in: ACTIVE_STATUSES } },
+        data: { status: 'RESOLVED', resolvedAt: mergedAt, mergedIntoId: targetId }
+      });
+
+      if (count !== ids.length) {
+        throw new Error('Cannot merge - an incident changed status during the merge');
+      }
+
+      await tx.alert.updateMany({
+        where: { incidentId: { in: ids } },
+        data: { incidentId: targetId }
+      });
+
+      // Incidents merged into a source earlier now point at the target
+      await tx.incident.updateMany({
+        where: { mergedIntoId: { in: ids } },
+        data: { mergedIntoId: targetId }
+      });
+
+      return tx.incident.update({
+        where: { id: targetId },
+        data: { alertCount: { increment: alertsMoved } },
+        include: {
+          team: { select: { id: true, name: true } },
+          alerts: { select: { title: true }, orderBy: { triggeredAt: 'asc' }, take: 1 }
+        }
+      });
+    });
+
+    const isSystem = userId === SYSTEM_ACTOR_ID;
+    const actor = isSystem
+      ? { id: SYSTEM_ACTOR_ID, firstName: 'System', lastName: '' }
+      : await prisma.user.findUnique({
+          where: { id: userId },
+          select: { id: true, firstName: true, lastName: true }
+        });
+
+    for (const source of sources) {
+      for (const job of source.escalationJobs) {
+        await cancelEscalation(job.bullJobId);
+        await prisma.escalationJob.update({
+          where: { id: job.id },
+          data: { completed: true, cancelledAt: mergedAt }
+        });
+      }
+
+      const cancelledLogIds = await cancelIncidentNotifications(source.id);
+      if (cancelledLogIds.length > 0) {
+        await prisma.notificationLog.updateMany({
+          where: { id: { in: cancelledLogIds } },
+          data: { status: 'FAILED', error: `Cancelled - incident merged into ${targetId}` }
+        });
+      }
+
+      await auditService.log({
+        action: 'incident.merged.into',
+        userId: isSystem ? undefined : userId,
+        teamId: source.teamId,
+        resourceType: 'incident',
+        resourceId: source.id,
+        severity: 'INFO',
+        metadata: {
+          targetIncidentId: targetId,
+          previousStatus: source.status,
+          alertsMoved: source.alertCount,
+          escalationsCancelled: source.escalationJobs.length,
+          notificationsCancelled: cancelledLogIds.length
+        }
+      });
+
+      if (actor) {
+        socketService.broadcastIncidentResolved(
+          {
+            incidentId: source.id,
+            userId,
+            user: actor,
+            resolvedAt: mergedAt.toISOString(),
+            resolutionNote: `Merged into #${targetId.slice(-8)}`,
+          },
+          source.teamId
+        );
+      }
+
+      statusComputationService.recomputeForIncident(source.id).catch(err => {
+        logger.warn({ error: (err as Error).message, incidentId: source.id }, 'Failed to recompute status for incident');
+      });
+    }
+
+    await auditService.log({
+      action: 'incident.merged',
+      userId: isSystem ? undefined : userId,
+      teamId: target.teamId,
+      resourceType: 'incident',
+      resourceId: targetId,
+      severity: 'INFO',
+      metadata: {
+        sourceIncidentIds: ids,
+        alertsMoved,
+        alertCount: updated.alertCount
+      }
+    });
+
+    socketService.broadcastIncidentUpdated({
+      id: updated.id,
+      fingerprint: updated.fingerprint,
+      status: updated.status,
+      priority: updated.priority,
+      title: updated.title || updated.alerts[0]?.title || 'Untitled incident',
+      teamId: updated.teamId,
+      team: updated.team,
+      assignedUserId: updated.assignedUserId ?? undefined,
+      serviceId: updated.serviceId ?? undefined,
+      createdAt: updated.createdAt.toISOString(),
+      acknowledgedAt: updated.acknowledgedAt?.toISOString()
+    });
+
+    logger.info(
+      { incidentId: targetId, sourceIncidentIds: ids, alertsMoved, userId },
+      'Incidents merged'
+    );
+
+    return updated;
+  }
+
+  // Split alerts out of an incident into a new incident on the same team, policy and service
+  async split(incidentId: string, alertIds: string[], userId: string): Promise<any> {
+    const ids = [...new Set(alertIds)];
+
+    const incident = await prisma.incident.findUnique({
+      where: { id: incidentId },
+      include: {
+        alerts: { select: { id: true, title: true, severity: true } }
+      }
+    });
+
+    if (!incident) {
+      throw new Error('Incident not found');
+    }
+
+    if (!ACTIVE_STATUSES.includes(incident.status)) {
+      throw new Error(`Cannot split incident in ${incident.status} status`);
+    }
+
+    const moving = incident.alerts.filter(alert => ids.includes(alert.id));
+
+    if (moving.length === 0 || moving.length !== ids.length) {
+      throw new Error('Alerts must belong to the incident being split');
+    }
+
+    if (moving.length === incident.alerts.length) {
+      throw new Error('Cannot split every alert out of an incident');
+    }
+
+    // The new incident takes the most severe of its alerts
+    const priority = moving
+      .map(alert => alert.severity as IncidentPriority)
+      .reduce((max, severity) =>
+        PRIORITY_RANK.indexOf(severity) > PRIORITY_RANK.indexOf(max) ? severity : max
+      );
+
+    const created = await prisma.$transaction(async (tx) => {
+      const splitIncident = await tx.incident.create({
+        data: {
+          fingerprint: `split:${incidentId}:${Date.now()}`,
+          title: moving[0].title,
+          teamId: incident.teamId,
+          escalationPolicyId: incident.escalationPolicyId,
+          serviceId: incident.serviceId,
+          assignedUserId: incident.assignedUserId,
+          status: 'OPEN',
+          priority,
+          urgency: incident.urgency,
+          alertCount: moving.length,
+          currentLevel: 1,
+          currentRepeat: 1
+        },
+        include: {
+          team: { select: { id: true, name: true } },
+          assignedUser: { select: { id: true, firstName: true, lastName: true } }
+        }
+      });
+
+      await tx.alert.updateMany({
+        where: { id: { in: ids }, incidentId },
+        data: { incidentId: splitIncident.id }
+      });
+
+      await tx.incident.update({
+        where: { id: incidentId },
+        data: { alertCount: Math.max(1, incident.alertCount - moving.length) }
+      });
+
+      return splitIncident;
+    });
+
+    const isSystem = userId === SYSTEM_ACTOR_ID;
+
+    await auditService.log({
+      action: 'incident.split',
+      userId: isSystem ? undefined : userId,
+      teamId: incident.teamId,
+      resourceType: 'incident',
+      resourceId: incidentId,
+      severity: 'INFO',
+      metadata: { newIncidentId: created.id, alertIds: ids }
+    });
+
+    await auditService.log({
+      action: 'incident.created',
+      userId: isSystem ? undefined : userId,
+      teamId: incident.teamId,
+      resourceType: 'incident',
+      resourceId: created.id,
+      severity: 'INFO',
+      metadata: { splitFrom: incidentId, alertIds: ids, priority }
+    });
+
+    socketService.broadcastIncidentCreated({
+      id: created.id,
+      fingerprint: created.fingerprint,
+      status: created.status,
+      priority: created.priority,
+      title: created.title ?? moving[0].title,
+      teamId: created.teamId,
+      team: created.team,
+      assignedUserId: created.assignedUserId ?? undefined,
+      assignedUser: created.assignedUser ?? undefined,
+      serviceId: created.serviceId ?? undefined,
+      createdAt: created.createdAt.toISOString(),
+    });
+
+    // The split incident needs its own owner, so it pages like a new incident
+    await escalationService.startEscalation(created.id);
+
+    onIncidentCreated({
+      id: created.id,
+      priority: created.priority,
+      status: created.status,
+      teamId: created.teamId,
+      createdAt: created.createdAt
+    }).catch(err => {
+      logger.warn({ error: (err as Error).message, incidentId: created.id }, 'Failed to trigger workflows for split incident');
+    });
+
+    logger.info(
+      { incidentId, newIncidentId: created.id, alertsMoved: moving.length, userId },
+      'Incident split'
+    );
+
+    return created;
+  }
+
+  // Get incident timeline (audit events for this incident and any incidents merged into it)
   async getTimeline(incidentId: string): Promise<any[]> {
+    const merged = await prisma.incident.findMany({
+      where: { mergedIntoId: incidentId },
+      select: { id: true }
+    });
+
     return prisma.auditEvent.findMany({
       where: {
         resourceType: 'incident',
-        resourceId: incidentId
+        resourceId: { in: [incidentId, ...merged.map(m => m.id)] }
       },
       orderBy: { timestamp: 'asc' },
       include: {
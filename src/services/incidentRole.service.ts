@@ -0,0 +1,266 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { auditService } from './audit.service.js';
+import { socketService } from './socket.service.js';
+import { dispatchNotification } from './notification/index.js';
+import { logger } from '../config/logger.js';
+
+// Named roles - at most one active holder each
+export const NAMED_INCIDENT_ROLES = ['INCIDENT_COMMANDER', 'COMMS_LEAD', 'SCRIBE'] as const;
+
+export type NamedIncidentRole = typeof NAMED_INCIDENT_ROLES[number];
+export type IncidentRole = NamedIncidentRole | 'RESPONDER';
+
+// Roles allowed to publish status page updates once assigned
+const STATUS_PUBLISHER_ROLES: IncidentRole[] = ['INCIDENT_COMMANDER', 'COMMS_LEAD'];
+
+const userSelect = { id: true, firstName: true, lastName: true, email: true };
+
+class IncidentRoleService {
+  // Current role holders and additional responders
+  async listActive(incidentId: string) {
+    return prisma.incidentResponder.findMany({
+      where: { incidentId, removedAt: null },
+      include: { user: { select: userSelect } },
+      orderBy: { assignedAt: 'asc' }
+    });
+  }
+
+  // Every assignment ever made, including ones since removed
+  async getHistory(incidentId: string) {
+    return prisma.incidentResponder.findMany({
+      where: { incidentId },
+      include: { user: { select: userSelect } },
+      orderBy: { assignedAt: 'asc' }
+    });
+  }
+
+  // Users who may publish status page updates (empty when no IC or comms lead is named)
+  async getStatusPublisherIds(incidentId: string): Promise<string[]> {
+    const holders = await prisma.incidentResponder.findMany({
+      where: { incidentId, removedAt: null, role: { in: STATUS_PUBLISHER_ROLES } },
+      select: { userId: true }
+    });
+    return holders.map(h => h.userId);
+  }
+
+  // Assign a named role, replacing whoever holds it now. The IC and comms lead decide who
+  // publishes status updates, so only team admins or the current holder may hand them over.
+  async assignRole(
+    incidentId: string,
+    role: NamedIncidentRole,
+    userId: string,
+    byUserId: string,
+    options: { canManageTeam: boolean }
+  ) {
+    const incident = await this.getAssignableIncident(incidentId);
+    const user = await this.getActiveUser(userId);
+
+    const membership = await prisma.teamMember.findFirst({
+      where: { userId, teamId: incident.teamId },
+      select: { id: true }
+    });
+
+    if (!membership) {
+      throw new Error('Assignee must be a member of the incident team');
+    }
+
+    // Serializable so concurrent assignments can't both see no holder and leave two active
+    const { assignment, current } = await prisma.$transaction(
+      async (tx) => {
+        const current = await tx.incidentResponder.findFirst({
+          where: { incidentId, role, removedAt: null }
+        });
+
+        if (current?.userId === userId) {
+          throw new Error(`User already holds the ${role} role`);
+        }
+
+        if (STATUS_PUBLISHER_ROLES.includes(role) && !options.canManageTeam && current?.userId !== byUserId) {
+          throw new Error(`Only team admins or the current holder can assign the ${role} role`);
+        }
+
+        if (current) {
+          await tx.incidentResponder.update({
+            where: { id: current.id },
+            data: { removedAt: new Date(), removedById: byUserId }
+          });
+        }
+
+        const assignment = await tx.incidentResponder.create({
+          data: { incidentId, userId, role, assignedById: byUserId },
+          include: { user: { select: userSelect } }
+        });
+
+        return { assignment, current };
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+
+    await auditService.log({
+      action: 'incident.role.assigned',
+      userId: byUserId,
+      teamId: incident.teamId,
+      resourceType: 'incident',
+      resourceId: incidentId,
+      severity: 'INFO',
+      metadata: {
+        role,
+        assigneeId: userId,
+        assigneeName: `${user.firstName} ${user.lastName}`,
+        previousAssigneeId: current?.userId ?? null
+      }
+    });
+
+    socketService.broadcastRolesChanged(
+      { incidentId, change: 'assigned', role, userId, user },
+      incident.teamId
+    );
+
+    logger.info({ incidentId, role, userId, byUserId }, 'Incident role assigned');
+    return assignment;
+  }
+
+  // Bring in an additional responder and page them
+  async addResponder(incidentId: string, userId: string, byUserId: string) {
+    const incident = await this.getAssignableIncident(incidentId);
+    const user = await this.getActiveUser(userId);
+
+    const existing = await prisma.incidentResponder.findFirst({
+      where: { incidentId, userId, role: 'RESPONDER', removedAt: null }
+    });
+
+    if (existing) {
+      throw new Error('User is already a responder on this incident');
+    }
+
+    const assignment = await prisma.incidentResponder.create({
+      data: { incidentId, userId, role: 'RESPONDER', assignedById: byUserId },
+      include: { user: { select: userSelect } }
+    });
+
+    // Page the responder - the assignment stands even if paging fails
+    let channels: string[] = [];
+    try {
+      const result = await dispatchNotification(incidentId, userId, 'escalation');
+      channels = result.channels;
+    } catch (error) {
+      logger.error({ error, incidentId, userId }, 'Failed to page added responder');
+    }
+
+    await auditService.log({
+      action: 'incident.responder.added',
+      userId: byUserId,
+      teamId: incident.teamId,
+      resourceType: 'incident',
+      resourceId: incidentId,
+      severity: 'INFO',
+      metadata: {
+        role: 'RESPONDER',
+        assigneeId: userId,
+        assigneeName: `${user.firstName} ${user.lastName}`,
+        pagedVia: channels
+      }
+    });
+
+    socketService.broadcastRolesChanged(
+      { incidentId, change: 'assigned', role: 'RESPONDER', userId, user },
+      incident.teamId
+    );
+
+    logger.info({ incidentId, userId, byUserId, channels }, 'Responder added to incident');
+    return assignment;
+  }
+
+  // End an assignment (named role or additional responder)
+  async remove(
+    incidentId: string,
+    assignmentId: string,
+    byUserId: string,
+    options: { canManageTeam: boolean }
+  ): Promise<void> {
+    const assignment = await prisma.incidentResponder.findFirst({
+      where: { id: assignmentId, incidentId, removedAt: null },
+      include: {
+        user: { select: { id: true, firstName: true, lastName: true } },
+        incident: { select: { teamId: true } }
+      }
+    });
+
+    if (!assignment) {
+      throw new Error('Role assignment not found');
+    }
+
+    if (
+      STATUS_PUBLISHER_ROLES.includes(assignment.role as IncidentRole) &&
+      !options.canManageTeam &&
+      assignment.userId !== byUserId
+    ) {
+      throw new Error(`Only team admins or the current holder can remove the ${assignment.role} role`);
+    }
+
+    await prisma.incidentResponder.update({
+      where: { id: assignmentId },
+      data: { removedAt: new Date(), removedById: byUserId }
+    });
+
+    await auditService.log({
+      action: 'incident.role.removed',
+      userId: byUserId,
+      teamId: assignment.incident.teamId,
+      resourceType: 'incident',
+      resourceId: incidentId,
+      severity: 'INFO',
+      metadata: {
+        role: assignment.role,
+        assigneeId: assignment.userId,
+        assigneeName: `${assignment.user.firstName} ${assignment.user.lastName}`
+      }
+    });
+
+    socketService.broadcastRolesChanged(
+      {
+        incidentId,
+        change: 'removed',
+        role: assignment.role,
+        userId: assignment.userId,
+        user: assignment.user
+      },
+      assignment.incident.teamId
+    );
+
+    logger.info({ incidentId, role: assignment.role, userId: assignment.userId, byUserId }, 'Incident role removed');
+  }
+
+  private async getAssignableIncident(incidentId: string) {
+    const incident = await prisma.incident.findUnique({
+      where: { id: incidentId },
+      select: { id: true, teamId: true, status: true }
+    });
+
+    if (!incident) {
+      throw new Error('Incident not found');
+    }
+
+    if (!['OPEN', 'ACKNOWLEDGED'].includes(incident.status)) {
+      throw new Error(`Cannot change roles on incident in ${incident.status} status`);
+    }
+
+    return incident;
+  }
+
+  private async getActiveUser(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, firstName: true, lastName: true, isActive: true }
+    });
+
+    if (!user?.isActive) {
+      throw new Error('User must be an active user');
+    }
+
+    return { id: user.id, firstName: user.firstName, lastName: user.lastName };
+  }
+}
+
+export const incidentRoleService = new IncidentRoleService();
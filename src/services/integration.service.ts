@@ -1,20 +1,27 @@
 import crypto from 'crypto';
 import { prisma } from '../config/database.js';
-import { AlertSeverity } from '@prisma/client';
+import { AlertSeverity, Prisma } from '@prisma/client';
 import { auditService } from './audit.service.js';
 import { scheduleAutoResolve } from '../queues/test-resolve.queue.js';
 import { alertService } from './alert.service.js';
 import { deduplicationService } from './deduplication.service.js';
 import { generateContentFingerprint } from '../utils/content-fingerprint.js';
+import { getMappingNormalizer, type MappingConfig } from '../webhooks/schemas/index.js';
 
 export interface CreateIntegrationParams {
   name: string;
-  type: 'datadog' | 'newrelic' | 'pagerduty' | 'generic';
+  type: 'datadog' | 'newrelic' | 'alertmanager' | 'pagerduty' | 'generic';
   signatureHeader?: string;
   signatureAlgorithm?: 'sha256' | 'sha512';
   signatureFormat?: 'hex' | 'base64';
   signaturePrefix?: string;
   deduplicationWindowMinutes?: number;
+  autoResolve?: boolean;
+  stormThreshold?: number | null;
+  stormWindowMinutes?: number;
+  flapThreshold?: number | null;
+  flapWindowMinutes?: number;
+  mappingConfig?: MappingConfig;
 }
 
 export interface UpdateIntegrationParams {
@@ -24,6 +31,12 @@ export interface UpdateIntegrationParams {
   signatureFormat?: 'hex' | 'base64';
   signaturePrefix?: string;
   deduplicationWindowMinutes?: number;
+  autoResolve?: boolean;
+  stormThreshold?: number | null; // null disables storm protection
+  stormWindowMinutes?: number;
+  flapThreshold?: number | null; // null disables flapping detection
+  flapWindowMinutes?: number;
+  mappingConfig?: MappingConfig | null; // null removes the mapping
   isActive?: boolean;
   defaultServiceId?: string | null; // Phase 13 - ROUTE-04
 }
@@ -44,6 +57,14 @@ const TYPE_DEFAULTS: Record<string, Partial<CreateIntegrationParams>> = {
     signaturePrefix: '',
     deduplicationWindowMinutes: 15
   },
+  alertmanager: {
+    // Bearer token auth: set http_config.authorization.credentials to the webhook secret
+    signatureHeader: 'Authorization',
+    signatureAlgorithm: 'sha256',
+    signatureFormat: 'hex',
+    signaturePrefix: 'Bearer ',
+    deduplicationWindowMinutes: 15
+  },
   pagerduty: {
     signatureHeader: 'X-PagerDuty-Signature',
     signatureAlgorithm: 'sha256',
@@ -81,7 +102,13 @@ class IntegrationService {
         signatureAlgorithm: params.signatureAlgorithm || defaults.signatureAlgorithm!,
         signatureFormat: params.signatureFormat || defaults.signatureFormat!,
         signaturePrefix: params.signaturePrefix ?? defaults.signaturePrefix ?? null,
-        deduplicationWindowMinutes: params.deduplicationWindowMinutes || defaults.deduplicationWindowMinutes!
+        deduplicationWindowMinutes: params.deduplicationWindowMinutes || defaults.deduplicationWindowMinutes!,
+        autoResolve: params.autoResolve,
+        stormThreshold: params.stormThreshold,
+        stormWindowMinutes: params.stormWindowMinutes,
+        flapThreshold: params.flapThreshold,
+        flapWindowMinutes: params.flapWindowMinutes,
+        mappingConfig: params.mappingConfig
       }
     });
 
@@ -216,6 +243,12 @@ class IntegrationService {
         signatureFormat: params.signatureFormat,
         signaturePrefix: params.signaturePrefix,
         deduplicationWindowMinutes: params.deduplicationWindowMinutes,
+        autoResolve: params.autoResolve,
+        stormThreshold: params.stormThreshold,
+        stormWindowMinutes: params.stormWindowMinutes,
+        flapThreshold: params.flapThreshold,
+        flapWindowMinutes: params.flapWindowMinutes,
+        mappingConfig: params.mappingConfig === null ? Prisma.JsonNull : params.mappingConfig,
         isActive: params.isActive,
         defaultServiceId: params.defaultServiceId
       }
@@ -337,7 +370,7 @@ class IntegrationService {
       service: (alert.metadata as any)?.service || alert.source
     });
 
-    const { incident, isDuplicate } = await deduplicationService.deduplicateAndCreateIncident(
+    const { incident, isDuplicate, suppressed } = await deduplicationService.deduplicateAndCreateIncident(
       alert.id,
       deduplicationFingerprint,
       alert,
@@ -345,7 +378,10 @@ class IntegrationService {
     );
 
     // Schedule auto-resolve (5 minutes) per user decision
-    await scheduleAutoResolve(incident.id, 5 * 60 * 1000);
+    // No incident exists when the routed team is in maintenance mode
+    if (incident) {
+      await scheduleAutoResolve(incident.id, 5 * 60 * 1000);
+    }
 
     await auditService.log({
       action: 'integration.test_webhook',
@@ -355,7 +391,8 @@ class IntegrationService {
       severity: 'INFO',
       metadata: {
         alertId: alert.id,
-        incidentId: incident.id,
+        incidentId: incident?.id,
+        suppressed: suppressed?.reason,
         autoResolveIn: '5 minutes'
       }
     });
@@ -367,10 +404,11 @@ class IntegrationService {
         title: alert.title,
         severity: alert.severity
       },
-      incident: {
+      incident: incident ? {
         id: incident.id,
         isDuplicate
-      },
+      } : null,
+      suppressed: suppressed?.reason ?? null,
       validation: {
         severityMapped: `${mockPayload.inputPriority} -> ${alert.severity}`,
         serviceRouted: (alert.metadata as any)?.service || 'default',
@@ -467,13 +505,67 @@ class IntegrationService {
         statusCode: true,
         errorMessage: true,
         createdAt: true,
-        alertId: true
+        alertId: true,
+        replayOfId: true
       }
     });
 
     return deliveries;
   }
 
+  /**
+   * Runs a mapping config against a stored delivery's raw payload without creating anything.
+   * Uses the integration's saved mapping unless a draft is supplied; defaults to the latest delivery.
+   * Returns null if the integration doesn't exist.
+   */
+  async previewMapping(
+    integrationId: string,
+    params: { deliveryId?: string; mappingConfig?: MappingConfig }
+  ) {
+    const integration = await prisma.integration.findUnique({ where: { id: integrationId } });
+    if (!integration) return null;
+
+    const mappingConfig = params.mappingConfig ?? integration.mappingConfig;
+    if (!mappingConfig) {
+      throw new Error('Integration has no mapping config');
+    }
+
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: {
+        integrationId,
+        ...(params.deliveryId && { id: params.deliveryId })
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, rawPayload: true, createdAt: true }
+    });
+
+    if (!delivery) {
+      throw new Error('Delivery not found');
+    }
+
+    try {
+      const normalized = getMappingNormalizer(mappingConfig)(delivery.rawPayload, integration.name);
+      const alert = Array.isArray(normalized) ? normalized[0] : normalized;
+      const { raw, ...metadata } = alert.metadata;
+
+      return {
+        deliveryId: delivery.id,
+        receivedAt: delivery.createdAt,
+        valid: true,
+        alert: { ...alert, metadata },
+        error: null
+      };
+    } catch (error) {
+      return {
+        deliveryId: delivery.id,
+        receivedAt: delivery.createdAt,
+        valid: false,
+        alert: null,
+        error: error instanceof Error ? error.message : 'Mapping failed'
+      };
+    }
+  }
+
   /**
    * Removes webhook secret from integration object.
    */
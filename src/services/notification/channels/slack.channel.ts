@@ -117,6 +117,15 @@ export class SlackChannel extends BaseChannel {
     }, { incidentId: payload.incidentId, userId: payload.userId });
   }
 
+  // Post a plain message to a channel (workflow notify_channel action)
+  async postToChannel(channel: string, text: string): Promise<string | undefined> {
+    const result = await this.slackClient.chat.postMessage({ channel, text });
+
+    logger.info({ channel: 'slack', type: 'channel', slackChannel: channel, ts: result.ts }, 'Slack channel message posted');
+
+    return result.ts;
+  }
+
   // Get provider health status
   async getProviderStatus(): Promise<{ healthy: boolean; latencyMs?: number }> {
     const start = Date.now();
@@ -135,6 +135,20 @@ export class TeamsChannel extends BaseChannel {
     }, { incidentId: payload.incidentId, userId: payload.userId });
   }
 
+  // Post a plain message to a team channel (workflow notify_channel action)
+  async postToChannel(teamId: string, channelId: string, text: string): Promise<string | undefined> {
+    if (!this.graphClient) {
+      throw new Error('Teams client not initialized');
+    }
+
+    const message = await this.graphClient.api(`/teams/${teamId}/channels/${channelId}/messages`)
+      .post({ body: { contentType: 'text', content: text } });
+
+    logger.info({ channel: 'teams', type: 'channel', teamsChannelId: channelId, messageId: message.id }, 'Teams channel message posted');
+
+    return message.id;
+  }
+
   // Get provider health status
   async getProviderStatus(): Promise<{ healthy: boolean; latencyMs?: number }> {
     if (!this.graphClient) {
@@ -96,6 +96,14 @@ class DeliveryTracker {
     );
   }
 
+  // Mark a queued notification that was dropped before sending (no audit - nothing was attempted)
+  async trackCancelled(logId: string, reason: string): Promise<void> {
+    await prisma.notificationLog.update({
+      where: { id: logId },
+      data: { status: 'FAILED', error: `Cancelled - ${reason}` }
+    });
+  }
+
   // Get delivery status for an incident across all channels
   async getDeliveryStatus(incidentId: string): Promise<any[]> {
     return prisma.notificationLog.findMany({
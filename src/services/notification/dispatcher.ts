@@ -2,10 +2,13 @@ import { prisma } from '../../config/database.js';
 import { notificationQueue, type NotificationJobData } from '../../queues/notification.queue.js';
 import { deliveryTracker } from './delivery-tracker.js';
 import { auditService } from '../audit.service.js';
+import { notificationRuleService } from '../notificationRule.service.js';
 import { logger } from '../../config/logger.js';
 import type { NotificationPayload, ChannelEscalationConfig } from './types.js';
+import type { QuietHours } from '../../types/notificationRule.js';
 
 // Per user decision: Hybrid parallel/sequential delivery
+// Default for users without notification rules for the incident priority
 // Primary (push, email, slack) = parallel
 // Secondary (sms) = if primary fails
 // Fallback (voice) = if secondary fails
@@ -52,6 +55,7 @@ class NotificationDispatcher {
         where: { id: userId },
         include: {
           notificationPreferences: { where: { enabled: true }, orderBy: { priority: 'asc' } },
+          notificationRules: { orderBy: { delayMinutes: 'asc' } },
           slackConnection: { select: { isActive: true } },
           teamsConnection: { select: { isActive: true } }
         }
@@ -62,17 +66,25 @@ class NotificationDispatcher {
       throw new Error(`Incident or user not found: ${incidentId}, ${userId}`);
     }
 
-    // Determine which channels to use
-    let channels: string[];
+    // Pages follow the user's rules and quiet hours; overrides are explicit and sent as-is
+    const isPage = !options.channelsOverride && (type === 'new_incident' || type === 'escalation');
+    const rules = isPage
+      ? user.notificationRules.filter(r => r.priority === incident.priority)
+      : [];
+
+    // Determine which channels to use, and how long after dispatch each fires
+    let steps: Array<{ channel: string; delayMinutes: number }>;
 
     if (options.channelsOverride) {
-      channels = options.channelsOverride;
+      steps = options.channelsOverride.map(channel => ({ channel, delayMinutes: 0 }));
     } else {
-      // Get user's enabled channels from preferences
-      channels = user.notificationPreferences.map(p => p.channel.toLowerCase());
+      // User's rules for this priority, otherwise their enabled channels from preferences
+      steps = rules.length > 0
+        ? rules.map(r => ({ channel: r.channel.toLowerCase(), delayMinutes: r.delayMinutes }))
+        : user.notificationPreferences.map(p => ({ channel: p.channel.toLowerCase(), delayMinutes: 0 }));
 
       // Filter out channels user doesn't have configured
-      channels = channels.filter(c => {
+      steps = steps.filter(({ channel: c }) => {
         if (c === 'slack' && !user.slackConnection?.isActive) return false;
         if (c === 'teams' && !user.teamsConnection?.isActive) return false;
         if (c === 'sms' && !user.phone) return false;
@@ -81,7 +93,7 @@ class NotificationDispatcher {
       });
     }
 
-    if (channels.length === 0) {
+    if (steps.length === 0) {
       logger.warn({ incidentId, userId }, 'No notification channels available for user');
       return { queued: 0, channels: [] };
     }
@@ -91,8 +103,8 @@ class NotificationDispatcher {
     const payload: NotificationPayload = {
       incidentId: incident.id,
       userId: user.id,
-      title: incident.alerts[0]?.title || `Incident #${incident.id.slice(-8)}`,
-      body: incident.alerts[0]?.description || 'No description available',
+      title: incident.title || incident.alerts[0]?.title || `Incident #${incident.id.slice(-8)}`,
+      body: incident.summary || incident.alerts[0]?.description || 'No description available',
       priority: incident.priority as any,
       service: incident.alerts[0]?.source || 'unknown',
       teamName: incident.team.name,
@@ -102,13 +114,24 @@ class NotificationDispatcher {
       triggeredAt: incident.createdAt
     };
 
-    // Determine tier for each channel
-    const primaryChannels = options.skipTiers
-      ? channels
-      : (this.groupByTier(channels).primary || []);
+    // Without rules, send the primary tier now; later tiers follow on delivery failure
+    const useTiers = rules.length === 0;
+    if (useTiers && !options.skipTiers) {
+      const primary = this.groupByTier(steps.map(s => s.channel)).primary || [];
+      steps = steps.filter(s => primary.includes(s.channel));
+    }
+
+    // Non-critical pages wait out the user's quiet hours
+    const heldUntil = isPage
+      ? notificationRuleService.heldUntil(user.quietHours as QuietHours | null, incident.priority)
+      : null;
+    const holdMs = heldUntil ? heldUntil.getTime() - Date.now() : 0;
+
     const queuedChannels: string[] = [];
 
-    for (const channel of primaryChannels) {
+    for (const { channel, delayMinutes } of steps) {
+      const delay = holdMs + delayMinutes * 60 * 1000;
+
       // Create tracking entry
       const logId = await deliveryTracker.trackQueued(
         incidentId,
@@ -126,12 +149,15 @@ class NotificationDispatcher {
         // Extended data for worker
         payload,
         logId,
-        tier: this.getChannelTier(channel)
+        tier: useTiers ? this.getChannelTier(channel) : undefined,
+        // Held and delayed steps are dropped if the incident is acknowledged first
+        requireUnacknowledged: delay > 0 || undefined
       };
 
       await notificationQueue.add(`notify-${channel}`, jobData, {
         ...RETRY_CONFIG,
-        priority: incident.priority === 'CRITICAL' ? 1 : 10
+        priority: incident.priority === 'CRITICAL' ? 1 : 10,
+        ...(delay > 0 && { delay })
       });
 
       queuedChannels.push(channel);
@@ -148,7 +174,9 @@ class NotificationDispatcher {
       metadata: {
         type,
         channels: queuedChannels,
-        escalationLevel: options.escalationLevel
+        escalationLevel: options.escalationLevel,
+        ...(rules.length > 0 && { rules: steps }),
+        ...(heldUntil && { heldUntil: heldUntil.toISOString() })
       }
     });
 
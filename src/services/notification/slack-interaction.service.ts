@@ -1,12 +1,16 @@
 import crypto from 'crypto';
 import { WebClient } from '@slack/web-api';
-import { incidentService } from '../incident.service.js';
+import { incidentService, DEFAULT_SNOOZE_MINUTES } from '../incident.service.js';
+import { permissionService } from '../permission.service.js';
 import { prisma } from '../../config/database.js';
 import { env } from '../../config/env.js';
 import { logger } from '../../config/logger.js';
+import { parseDurationMinutes, formatDurationMinutes } from '../../utils/duration.js';
+import type { PermissionResult } from '../../types/auth.js';
 import {
   buildSlackAcknowledgedBlocks,
-  buildSlackResolvedBlocks
+  buildSlackResolvedBlocks,
+  buildSlackSnoozedBlocks
 } from './templates/slack.templates.js';
 
 interface SlackActionPayload {
@@ -92,6 +96,10 @@ class SlackInteractionService {
           await this.handleResolve(incidentId, slackConnection.userId, payload, slackUserId);
           break;
 
+        case 'snooze_incident':
+          await this.handleSnooze(incidentId, slackConnection.userId, payload, slackUserId);
+          break;
+
         default:
           logger.warn({ actionId: action.action_id }, 'Unknown Slack action');
       }
@@ -159,10 +167,54 @@ class SlackInteractionService {
     logger.info({ incidentId, userId, slackUserId }, 'Incident resolved via Slack');
   }
 
+  private async handleSnooze(
+    incidentId: string,
+    userId: string,
+    payload: SlackActionPayload,
+    slackUserId: string
+  ): Promise<void> {
+    const incident = await prisma.incident.findUnique({
+      where: { id: incidentId },
+      select: { teamId: true }
+    });
+    if (!incident) {
+      throw new Error('Incident not found');
+    }
+
+    // Snoozing takes the incident over, so it needs the same rights as the web route
+    const permission = await this.checkCanRespond(userId, incident.teamId);
+    if (!permission.allowed) {
+      throw new Error(permission.reason);
+    }
+
+    // Snooze button always uses the default duration
+    const updated = await incidentService.snooze(incidentId, userId, DEFAULT_SNOOZE_MINUTES, { source: 'slack' });
+
+    const updatedBlocks = buildSlackSnoozedBlocks(
+      payload.message.blocks,
+      slackUserId,
+      updated.snoozedUntil
+    );
+
+    await this.slackClient.chat.update({
+      channel: payload.channel.id,
+      ts: payload.message.ts,
+      blocks: updatedBlocks,
+      attachments: [{
+        color: '#999999',  // Grey for snoozed
+        blocks: updatedBlocks
+      }]
+    });
+
+    logger.info({ incidentId, userId, slackUserId }, 'Incident snoozed via Slack');
+  }
+
   // Update message with loading state (optimistic UI)
   private async updateMessageWithLoading(channelId: string, ts: string, actionId: string): Promise<void> {
     try {
-      const actionText = actionId === 'acknowledge_incident' ? 'Acknowledging...' : 'Resolving...';
+      const actionText = actionId === 'acknowledge_incident' ? 'Acknowledging...'
+        : actionId === 'snooze_incident' ? 'Snoozing...'
+        : 'Resolving...';
       await this.slackClient.chat.update({
         channel: channelId,
         ts: ts,
@@ -242,7 +294,7 @@ class SlackInteractionService {
       return;
     }
 
-    const [action, incidentRef] = text.trim().split(/\s+/);
+    const [action, incidentRef, ...args] = text.trim().split(/\s+/);
 
     try {
       switch (action?.toLowerCase()) {
@@ -263,6 +315,30 @@ class SlackInteractionService {
           await this.handleSlashResolve(incidentRef, slackConnection.userId, slackUserId, responseUrl);
           break;
 
+        case 'snooze':
+          if (!incidentRef) {
+            await this.sendSlashResponse(responseUrl, 'ephemeral', 'Usage: `/oncall snooze <incident-id> [duration, e.g. 30m or 2h]`');
+            return;
+          }
+          await this.handleSlashSnooze(incidentRef, args.join(' '), slackConnection.userId, slackUserId, responseUrl);
+          break;
+
+        case 'merge':
+          if (!incidentRef || args.length === 0) {
+            await this.sendSlashResponse(responseUrl, 'ephemeral', 'Usage: `/oncall merge <incident-id> <other-id> [...]`');
+            return;
+          }
+          await this.handleSlashMerge(incidentRef, args, slackConnection.userId, slackUserId, responseUrl);
+          break;
+
+        case 'split':
+          if (!incidentRef || args.length === 0) {
+            await this.sendSlashResponse(responseUrl, 'ephemeral', 'Usage: `/oncall split <incident-id> <alert-id> [...]`');
+            return;
+          }
+          await this.handleSlashSplit(incidentRef, args, slackConnection.userId, slackUserId, responseUrl);
+          break;
+
         case 'list':
           await this.handleSlashList(slackConnection.userId, responseUrl);
           break;
@@ -276,6 +352,9 @@ class SlackInteractionService {
             'Usage:\n' +
             '`/oncall ack <id>` - Acknowledge incident\n' +
             '`/oncall resolve <id>` - Resolve incident\n' +
+            '`/oncall snooze <id> [duration]` - Snooze incident (default 1h)\n' +
+            '`/oncall merge <id> <other-id...>` - Merge other incidents into an incident\n' +
+            '`/oncall split <id> <alert-id...>` - Move alerts into a new incident\n' +
             '`/oncall list` - List your open incidents\n' +
             '`/oncall integrations` - View integration status (admin only)'
           );
@@ -323,6 +402,119 @@ class SlackInteractionService {
     );
   }
 
+  private async handleSlashSnooze(
+    incidentRef: string,
+    durationText: string,
+    userId: string,
+    slackUserId: string,
+    responseUrl: string
+  ): Promise<void> {
+    const incident = await this.findIncident(incidentRef);
+    if (!incident) {
+      await this.sendSlashResponse(responseUrl, 'ephemeral', `Incident not found: ${incidentRef}`);
+      return;
+    }
+
+    const permission = await this.checkCanRespond(userId, incident.teamId);
+    if (!permission.allowed) {
+      await this.sendSlashResponse(responseUrl, 'ephemeral', `:lock: ${permission.reason}`);
+      return;
+    }
+
+    let minutes = DEFAULT_SNOOZE_MINUTES;
+    if (durationText) {
+      const parsed = parseDurationMinutes(durationText);
+      if (parsed === null) {
+        await this.sendSlashResponse(responseUrl, 'ephemeral', `Invalid duration: ${durationText} (try 30m or 2h)`);
+        return;
+      }
+      minutes = parsed;
+    }
+
+    await incidentService.snooze(incident.id, userId, minutes, { source: 'slack' });
+    await this.sendSlashResponse(responseUrl, 'in_channel',
+      `:zzz: Incident #${incident.id.slice(-8)} snoozed for ${formatDurationMinutes(minutes)} by <@${slackUserId}>`
+    );
+  }
+
+  private async handleSlashMerge(
+    incidentRef: string,
+    sourceRefs: string[],
+    userId: string,
+    slackUserId: string,
+    responseUrl: string
+  ): Promise<void> {
+    const incident = await this.findIncident(incidentRef);
+    if (!incident) {
+      await this.sendSlashResponse(responseUrl, 'ephemeral', `Incident not found: ${incidentRef}`);
+      return;
+    }
+
+    const permission = await this.checkCanRespond(userId, incident.teamId);
+    if (!permission.allowed) {
+      await this.sendSlashResponse(responseUrl, 'ephemeral', `:lock: ${permission.reason}`);
+      return;
+    }
+
+    const sourceIds: string[] = [];
+    for (const ref of sourceRefs) {
+      const source = await this.findIncident(ref);
+      if (!source) {
+        await this.sendSlashResponse(responseUrl, 'ephemeral', `Incident not found: ${ref}`);
+        return;
+      }
+      sourceIds.push(source.id);
+    }
+
+    await incidentService.merge(incident.id, sourceIds, userId);
+    await this.sendSlashResponse(responseUrl, 'in_channel',
+      `:twisted_rightwards_arrows: ${sourceIds.map(id => `#${id.slice(-8)}`).join(', ')} merged into ` +
+      `Incident #${incident.id.slice(-8)} by <@${slackUserId}>`
+    );
+  }
+
+  private async handleSlashSplit(
+    incidentRef: string,
+    alertRefs: string[],
+    userId: string,
+    slackUserId: string,
+    responseUrl: string
+  ): Promise<void> {
+    const incident = await this.findIncident(incidentRef);
+    if (!incident) {
+      await this.sendSlashResponse(responseUrl, 'ephemeral', `Incident not found: ${incidentRef}`);
+      return;
+    }
+
+    const permission = await this.checkCanRespond(userId, incident.teamId);
+    if (!permission.allowed) {
+      await this.sendSlashResponse(responseUrl, 'ephemeral', `:lock: ${permission.reason}`);
+      return;
+    }
+
+    // Alerts can be referenced by full ID or short ID suffix within the incident
+    const alerts = await prisma.alert.findMany({
+      where: { incidentId: incident.id },
+      select: { id: true }
+    });
+
+    const alertIds: string[] = [];
+    for (const ref of alertRefs) {
+      const alert = alerts.find(a => a.id === ref) ?? alerts.find(a => a.id.endsWith(ref));
+      if (!alert) {
+        await this.sendSlashResponse(responseUrl, 'ephemeral', `Alert not found on incident #${incident.id.slice(-8)}: ${ref}`);
+        return;
+      }
+      alertIds.push(alert.id);
+    }
+
+    const created = await incidentService.split(incident.id, alertIds, userId);
+    await this.sendSlashResponse(responseUrl, 'in_channel',
+      `:scissors: ${alertIds.length} alert${alertIds.length === 1 ? '' : 's'} split from Incident #${incident.id.slice(-8)} ` +
+      `into #${created.id.slice(-8)} by <@${slackUserId}>`
+    );
+  }
+
   private async handleSlashList(userId: string, responseUrl: string): Promise<void> {
     const { incidents } = await incidentService.list(
       { assignedUserId: userId, status: ['OPEN', 'ACKNOWLEDGED'] },
@@ -417,6 +609,7 @@ class SlackInteractionService {
       // Format type for display
       const typeDisplay = int.type === 'datadog' ? 'DataDog'
         : int.type === 'newrelic' ? 'New Relic'
+        : int.type === 'alertmanager' ? 'Alertmanager'
         : int.type.charAt(0).toUpperCase() + int.type.slice(1);
 
       // Build status line per specific idea format
@@ -435,6 +628,24 @@ class SlackInteractionService {
     );
   }
 
+  // Same check the incident routes apply before snooze, merge and split, for the linked user
+  private async checkCanRespond(userId: string, teamId: string): Promise<PermissionResult> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: {
+        teamMembers: {
+          include: { team: { select: { id: true, name: true, isActive: true } } }
+        }
+      }
+    });
+
+    if (!user || !user.isActive) {
+      return { allowed: false, reason: 'Linked account is not active' };
+    }
+
+    return permissionService.canRespondToIncident(user, teamId);
+  }
+
   private async findIncident(ref: string): Promise<any> {
     // Try full ID first
     let incident = await prisma.incident.findUnique({ where: { id: ref } });
@@ -1,8 +1,9 @@
 import twilio from 'twilio';
 import { prisma } from '../../config/database.js';
-import { incidentService } from '../incident.service.js';
+import { incidentService, DEFAULT_SNOOZE_MINUTES } from '../incident.service.js';
 import { env } from '../../config/env.js';
 import { logger } from '../../config/logger.js';
+import { parseDurationMinutes, formatDurationMinutes } from '../../utils/duration.js';
 
 class SMSReplyService {
   private twilioClient: ReturnType<typeof twilio>;
@@ -40,6 +41,23 @@ class SMSReplyService {
     const match = body.match(/\b(\d{4,})\b/);  // Find 4+ digit number (incident short ID)
 
     if (!match) {
+      if (/\bsnooze\b/i.test(body)) {
+        // Snooze the user's most recent active incident (snoozing again extends it)
+        const activeIncident = await prisma.incident.findFirst({
+          where: {
+            assignedUserId: user.id,
+            status: { in: ['OPEN', 'ACKNOWLEDGED'] }
+          },
+          orderBy: { createdAt: 'desc' }
+        });
+
+        if (!activeIncident) {
+          return 'You have no open incidents to snooze.';
+        }
+
+        return this.snooze(activeIncident.id, activeIncident.id.slice(-6), user.id, body);
+      }
+
       // Try to find most recent open incident for this user
       const recentIncident = await prisma.incident.findFirst({
         where: {
@@ -97,7 +115,33 @@ class SMSReplyService {
       }
     }
 
-    return `Incident #${shortId} found. Reply ACK to acknowledge or RESOLVE to resolve.`;
+    if (/\bsnooze\b/i.test(body)) {
+      // Snoozing takes the incident over, so only the incident's team may do it by short ID
+      const membership = await prisma.teamMember.findUnique({
+        where: { userId_teamId: { userId: user.id, teamId: incident.teamId } }
+      });
+      if (!membership) {
+        return `Failed to snooze: you are not a member of incident #${shortId}'s team.`;
+      }
+
+      return this.snooze(incident.id, shortId, user.id, body);
+    }
+
+    return `Incident #${shortId} found. Reply ACK to acknowledge, SNOOZE 1h to snooze or RESOLVE to resolve.`;
+  }
+
+  // Snooze for the duration named in the reply (e.g. "SNOOZE 30m"), or the default
+  private async snooze(incidentId: string, shortId: string, userId: string, body: string): Promise<string> {
+    const minutes = parseDurationMinutes(body) ?? DEFAULT_SNOOZE_MINUTES;
+
+    try {
+      await incidentService.snooze(incidentId, userId, minutes, { source: 'sms' });
+      logger.info({ incidentId, userId, minutes }, 'Incident snoozed via SMS');
+      return `Incident #${shortId} snoozed for ${formatDurationMinutes(minutes)}.`;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Unknown error';
+      return `Failed to snooze: ${msg}`;
+    }
   }
 
   // Send reply SMS
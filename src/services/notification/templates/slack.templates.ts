@@ -132,6 +132,16 @@ export function buildSlackIncidentBlocks(payload: NotificationPayload): {
               value: payload.incidentId,
               action_id: 'resolve_incident'
             },
+            {
+              type: 'button',
+              text: {
+                type: 'plain_text',
+                text: 'Snooze 1h',
+                emoji: true
+              },
+              value: payload.incidentId,
+              action_id: 'snooze_incident'
+            },
             {
               type: 'button',
               text: {
@@ -191,6 +201,27 @@ export function buildSlackResolvedBlocks(
   });
 }
 
+// Build updated message after snoozing
+export function buildSlackSnoozedBlocks(
+  originalBlocks: any[],
+  snoozedBy: string,
+  snoozedUntil: Date
+): any[] {
+  return originalBlocks.map(block => {
+    // Update action buttons block
+    if (block.type === 'actions' && block.block_id?.startsWith('incident_actions_')) {
+      return {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `:zzz: *Snoozed by <@${snoozedBy}>* until <!date^${Math.floor(snoozedUntil.getTime() / 1000)}^{date_short_pretty} {time}|${snoozedUntil.toISOString()}>`
+        }
+      };
+    }
+    return block;
+  });
+}
+
 function truncateForSlack(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
   return text.substring(0, maxLength - 20) + '\n... (truncated)';
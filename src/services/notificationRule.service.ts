@@ -0,0 +1,133 @@
+import { DateTime } from 'luxon';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { auditService } from './audit.service.js';
+import { logger } from '../config/logger.js';
+import type { NotificationRuleInput, QuietHours } from '../types/notificationRule.js';
+
+export const MAX_RULE_DELAY_MINUTES = 60;
+
+/**
+ * NotificationRuleService owns each user's notification rules - which channels
+ * fire for an incident priority and after what delay - and their quiet hours,
+ * during which non-critical pages are held until the window ends. The
+ * dispatcher evaluates both; priorities without rules use the default tiers.
+ */
+class NotificationRuleService {
+  // A user's rules (ordered by delay) and quiet hours
+  async getForUser(userId: string) {
+    const [rules, user] = await Promise.all([
+      prisma.notificationRule.findMany({
+        where: { userId },
+        orderBy: [{ delayMinutes: 'asc' }, { channel: 'asc' }]
+      }),
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { quietHours: true }
+      })
+    ]);
+
+    return {
+      rules,
+      quietHours: (user?.quietHours ?? null) as QuietHours | null
+    };
+  }
+
+  // Replace a user's whole rule set and quiet hours
+  async replace(userId: string, rules: NotificationRuleInput[], quietHours: QuietHours | null) {
+    this.validate(rules, quietHours);
+
+    await prisma.$transaction([
+      prisma.notificationRule.deleteMany({ where: { userId } }),
+      prisma.notificationRule.createMany({
+        data: rules.map(rule => ({ userId, ...rule }))
+      }),
+      prisma.user.update({
+        where: { id: userId },
+        data: { quietHours: quietHours ? { ...quietHours } : Prisma.JsonNull }
+      })
+    ]);
+
+    await auditService.log({
+      action: 'user.notification_rules.updated',
+      userId,
+      resourceType: 'user',
+      resourceId: userId,
+      severity: 'INFO',
+      metadata: {
+        ruleCount: rules.length,
+        priorities: [...new Set(rules.map(r => r.priority))],
+        quietHours
+      }
+    });
+
+    logger.info({ userId, ruleCount: rules.length, quietHours: !!quietHours }, 'Notification rules updated');
+    return this.getForUser(userId);
+  }
+
+  /**
+   * When a page for an incident of this priority may go out, or null to send now.
+   * Critical incidents always page; others wait out the user's quiet hours.
+   */
+  heldUntil(quietHours: QuietHours | null, priority: string, at: Date = new Date()): Date | null {
+    if (!quietHours || priority === 'CRITICAL') {
+      return null;
+    }
+
+    const local = DateTime.fromJSDate(at, { zone: quietHours.timezone });
+    const minute = local.hour * 60 + local.minute;
+    const start = toMinutes(quietHours.start);
+    const end = toMinutes(quietHours.end);
+
+    const quiet = start < end
+      ? minute >= start && minute < end
+      : minute >= start || minute < end;  // Window wraps past midnight
+
+    if (!quiet) {
+      return null;
+    }
+
+    let release = local.startOf('day').set({ hour: Math.floor(end / 60), minute: end % 60 });
+    if (release <= local) {
+      release = release.plus({ days: 1 });
+    }
+
+    return release.toJSDate();
+  }
+
+  /**
+   * Validate a rule set and quiet hours, throwing on the first problem.
+   */
+  validate(rules: NotificationRuleInput[], quietHours: QuietHours | null): void {
+    const seen = new Set<string>();
+
+    for (const rule of rules) {
+      if (rule.delayMinutes < 0 || rule.delayMinutes > MAX_RULE_DELAY_MINUTES) {
+        throw new Error(`Rule delay must be between 0 and ${MAX_RULE_DELAY_MINUTES} minutes`);
+      }
+
+      const key = `${rule.priority}:${rule.channel}`;
+      if (seen.has(key)) {
+        throw new Error(`Duplicate rule for ${rule.priority} incidents via ${rule.channel}`);
+      }
+      seen.add(key);
+    }
+
+    if (quietHours) {
+      if (!DateTime.local().setZone(quietHours.timezone).isValid) {
+        throw new Error(`Unknown timezone "${quietHours.timezone}"`);
+      }
+
+      if (toMinutes(quietHours.start) === toMinutes(quietHours.end)) {
+        throw new Error('Quiet hours must start and end at different times');
+      }
+    }
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export const notificationRuleService = new NotificationRuleService();
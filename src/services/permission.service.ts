@@ -107,6 +107,40 @@ export class PermissionService {
     };
   }
 
+  /**
+   * Check if user can publish status page updates about an incident
+   * Once an incident commander or comms lead is named, only they can publish;
+   * before that, team admins can.
+   */
+  canPublishStatusUpdate(
+    user: AuthenticatedUser,
+    teamId: string,
+    publisherIds: string[]
+  ): PermissionResult {
+    if (this.isPlatformAdmin(user)) {
+      return { allowed: true };
+    }
+
+    if (publisherIds.length > 0) {
+      if (publisherIds.includes(user.id)) {
+        return { allowed: true };
+      }
+      return {
+        allowed: false,
+        reason: 'Only the incident commander or communications lead can publish status updates'
+      };
+    }
+
+    if (this.hasMinimumTeamRole(user, teamId, 'TEAM_ADMIN')) {
+      return { allowed: true };
+    }
+
+    return {
+      allowed: false,
+      reason: 'Team admin access required'
+    };
+  }
+
   /**
    * Check if user can view audit logs
    */
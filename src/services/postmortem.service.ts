@@ -1,6 +1,7 @@
 import { prisma } from '../config/database.js';
 import { auditService } from './audit.service.js';
 import { logger } from '../config/logger.js';
+import { onPostmortemPublished } from './workflow/workflow-integration.js';
 import type {
   CreatePostmortemInput,
   UpdatePostmortemInput,
@@ -113,6 +114,19 @@ class PostmortemService {
     });
 
     logger.info({ postmortemId: id, userId }, 'Postmortem updated');
+
+    // Trigger postmortem_published workflows (don't fail the update on workflow error)
+    if (data.status === 'PUBLISHED' && existing.status !== 'PUBLISHED') {
+      try {
+        await onPostmortemPublished(postmortem);
+      } catch (workflowError) {
+        logger.error(
+          { error: workflowError, postmortemId: id },
+          'Failed to trigger workflows on postmortem publish'
+        );
+      }
+    }
+
     return postmortem as unknown as Postmortem;
   }
 
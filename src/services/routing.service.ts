@@ -1,3 +1,4 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database.js';
 import { onCallService } from './oncall.service.js';
 import { logger } from '../config/logger.js';
@@ -9,6 +10,22 @@ export interface RoutingResult {
   escalationPolicyId: string;
   assignedUserId: string | null;
   serviceId?: string; // Present when routed via service (ROUTE-03)
+  // Round-robin level whose cursor moves to assignedUserId once an incident is opened
+  roundRobinLevelId?: string;
+}
+
+// One target of an escalation level; a level pages all of its targets in parallel
+export interface EscalationTarget {
+  type: 'user' | 'schedule' | 'entire_team';
+  id?: string | null; // User ID or Schedule ID, unset for entire_team
+}
+
+// How a level picks who to page among its users
+export type AssignmentStrategy = 'all' | 'round_robin' | 'least_loaded';
+
+export interface ResolveTargetOptions {
+  // Advance the round-robin cursor (false when only previewing the assignee)
+  persistCursor?: boolean;
 }
 
 class RoutingService {
@@ -74,9 +91,9 @@ class RoutingService {
       throw new Error(`Team ${team.name} has no active escalation policy`);
     }
 
-    // Determine first target from level 1
+    // Determine first target from level 1 (cursor moves when the incident is opened)
     const firstLevel = policy.levels[0];
-    const assignedUserId = await this.resolveEscalationTarget(firstLevel, team.id);
+    const assignedUserId = await this.resolveEscalationTarget(firstLevel, team.id, { persistCursor: false });
 
     logger.info(
       { alertId: alert.id, teamId: team.id, policyId: policy.id, assignedUserId },
@@ -86,7 +103,8 @@ class RoutingService {
     return {
       teamId: team.id,
       escalationPolicyId: policy.id,
-      assignedUserId
+      assignedUserId,
+      roundRobinLevelId: this.roundRobinLevelId(firstLevel)
     };
   }
 
@@ -126,9 +144,9 @@ class RoutingService {
       throw new Error(`No active escalation policy for service ${service.name} or its team`);
     }
 
-    // Resolve first escalation target
+    // Resolve first escalation target (cursor moves when the incident is opened)
     const firstLevel = policy.levels[0];
-    const assignedUserId = await this.resolveEscalationTarget(firstLevel, teamId);
+    const assignedUserId = await this.resolveEscalationTarget(firstLevel, teamId, { persistCursor: false });
 
     logger.info(
       { alertId, teamId, serviceId: service.id, policyId: policy.id, assignedUserId },
@@ -139,14 +157,15 @@ class RoutingService {
       teamId,
       escalationPolicyId: policy.id,
       assignedUserId,
-      serviceId: service.id
+      serviceId: service.id,
+      roundRobinLevelId: this.roundRobinLevelId(firstLevel)
     };
   }
 
   /**
    * Determine team from alert metadata (service name, integration default, etc.)
    */
-  private async determineTeamFromAlert(alert: any): Promise<any | null> {
+  async determineTeamFromAlert(alert: any): Promise<any | null> {
     const metadata = alert.metadata as any;
 
     // Try service name from metadata
@@ -177,25 +196,133 @@ class RoutingService {
 
   /**
    * Resolve escalation target to a specific user ID.
+   * For multi-target levels this is the first user paged (the initial assignee).
    * Returns null if no user available (creates incident without assignment).
    */
   async resolveEscalationTarget(
     level: any,
-    teamId: string
+    teamId: string,
+    options: ResolveTargetOptions = {}
   ): Promise<string | null> {
-    switch (level.targetType) {
+    const users = await this.resolveEscalationTargets(level, teamId, options);
+    return users[0] ?? null;
+  }
+
+  /**
+   * Resolve the users a level pages, in target order without duplicates.
+   * Round-robin and least-loaded levels pick a single user from that pool.
+   */
+  async resolveEscalationTargets(
+    level: any,
+    teamId: string,
+    options: ResolveTargetOptions = {}
+  ): Promise<string[]> {
+    const users: string[] = [];
+
+    for (const target of this.getLevelTargets(level)) {
+      for (const userId of await this.resolveTarget(target, teamId)) {
+        if (!users.includes(userId)) {
+          users.push(userId);
+        }
+      }
+    }
+
+    if (users.length <= 1) {
+      return users;
+    }
+
+    switch (level.assignmentStrategy as AssignmentStrategy | undefined) {
+      case 'round_robin': {
+        const next = nextRoundRobinUser(users, level.lastAssignedUserId ?? null);
+        if (options.persistCursor !== false) {
+          await this.commitRoundRobin(level.id, next);
+        }
+        return [next];
+      }
+
+      case 'least_loaded':
+        return [await this.resolveLeastLoadedUser(users)];
+
+      default:
+        return users;
+    }
+  }
+
+  /**
+   * Move a round-robin level's cursor to the user just assigned.
+   * Called with the incident-creating transaction once routing turns into an incident.
+   */
+  async commitAssignment(
+    routing: Pick<RoutingResult, 'roundRobinLevelId' | 'assignedUserId'>,
+    tx: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    if (routing.roundRobinLevelId && routing.assignedUserId) {
+      await this.commitRoundRobin(routing.roundRobinLevelId, routing.assignedUserId, tx);
+    }
+  }
+
+  private async commitRoundRobin(
+    levelId: string,
+    userId: string,
+    tx: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    await tx.escalationLevel.update({
+      where: { id: levelId },
+      data: { lastAssignedUserId: userId }
+    });
+  }
+
+  private roundRobinLevelId(level: { id: string; assignmentStrategy: string }): string | undefined {
+    return level.assignmentStrategy === 'round_robin' ? level.id : undefined;
+  }
+
+  /**
+   * User with the fewest open or acknowledged incidents assigned; ties go to target order.
+   */
+  private async resolveLeastLoadedUser(userIds: string[]): Promise<string> {
+    const loads = await prisma.incident.groupBy({
+      by: ['assignedUserId'],
+      where: {
+        assignedUserId: { in: userIds },
+        status: { in: ['OPEN', 'ACKNOWLEDGED'] }
+      },
+      _count: { _all: true }
+    });
+
+    const openCount = new Map(loads.map(l => [l.assignedUserId, l._count._all]));
+
+    return userIds.reduce((best, userId) =>
+      (openCount.get(userId) ?? 0) < (openCount.get(best) ?? 0) ? userId : best
+    );
+  }
+
+  /**
+   * Targets of an escalation level. Levels without a targets list page their single target.
+   */
+  getLevelTargets(level: { targetType: string; targetId?: string | null; targets?: unknown }): EscalationTarget[] {
+    if (Array.isArray(level.targets) && level.targets.length > 0) {
+      return level.targets as EscalationTarget[];
+    }
+    return [{ type: level.targetType as EscalationTarget['type'], id: level.targetId }];
+  }
+
+  private async resolveTarget(target: EscalationTarget, teamId: string): Promise<string[]> {
+    let userId: string | null = null;
+
+    switch (target.type) {
       case 'user':
-        return this.resolveDirectUser(level.targetId);
+        userId = await this.resolveDirectUser(target.id!);
+        break;
 
       case 'schedule':
-        return this.resolveScheduleUser(level.targetId, teamId);
+        userId = await this.resolveScheduleUser(target.id!, teamId);
+        break;
 
       case 'entire_team':
-        return this.resolveTeamUser(teamId);
-
-      default:
-        return null;
+        return this.resolveTeamUsers(teamId);
     }
+
+    return userId ? [userId] : [];
   }
 
   /**
@@ -231,21 +358,30 @@ class RoutingService {
   }
 
   /**
-   * Resolve first available team member.
+   * Resolve all available team members, longest-serving first.
    */
-  private async resolveTeamUser(teamId: string): Promise<string | null> {
+  private async resolveTeamUsers(teamId: string): Promise<string[]> {
     const members = await prisma.teamMember.findMany({
       where: {
         teamId,
         role: { in: ['RESPONDER', 'TEAM_ADMIN'] },
         user: { isActive: true }
       },
-      include: { user: true },
+      select: { userId: true },
       orderBy: { joinedAt: 'asc' }
     });
 
-    return members[0]?.userId || null;
+    return members.map(m => m.userId);
   }
 }
 
+/**
+ * Next user after the cursor in pool order, wrapping around.
+ * Starts from the first user when the cursor user has left the pool.
+ */
+export function nextRoundRobinUser(userIds: string[], lastAssignedUserId: string | null): string {
+  const index = lastAssignedUserId ? userIds.indexOf(lastAssignedUserId) : -1;
+  return userIds[(index + 1) % userIds.length];
+}
+
 export const routingService = new RoutingService();
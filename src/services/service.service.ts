@@ -19,6 +19,8 @@ export class ServiceService {
         teamId: input.teamId,
         escalationPolicyId: input.escalationPolicyId,
         tags: input.tags || [],
+        supportHours: input.supportHours as Prisma.InputJsonValue | undefined,
+        urgencyRules: input.urgencyRules as Prisma.InputJsonValue | undefined,
       },
       include: {
         team: { select: { id: true, name: true } },
@@ -118,6 +120,13 @@ export class ServiceService {
         description: input.description,
         tags: input.tags,
         escalationPolicyId: input.escalationPolicyId,
+        // null clears the config (24/7 paging, default urgency rules)
+        supportHours: input.supportHours === null
+          ? Prisma.JsonNull
+          : input.supportHours as Prisma.InputJsonValue | undefined,
+        urgencyRules: input.urgencyRules === null
+          ? Prisma.JsonNull
+          : input.urgencyRules as Prisma.InputJsonValue | undefined,
       },
       include: {
         team: { select: { id: true, name: true } },
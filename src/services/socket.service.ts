@@ -5,6 +5,7 @@ import type {
   IncidentResolveData,
   IncidentReassignData,
   IncidentNoteData,
+  IncidentRolesChangedData,
   StatusChangeData,
   ServerToClientEvents,
 } from '../types/socket.js';
@@ -90,6 +91,17 @@ class SocketService {
     }
   }
 
+  // Broadcast responder role assigned or removed
+  broadcastRolesChanged(data: IncidentRolesChangedData, teamId: string): void {
+    try {
+      const io = getIO();
+      io.to(`team:${teamId}`).emit('incident:roles_changed', data);
+      io.to('incidents:all').emit('incident:roles_changed', data);
+    } catch (error) {
+      logger.warn({ error }, 'Failed to broadcast incident:roles_changed');
+    }
+  }
+
   // Broadcast status change for status page components
   broadcastStatusChange(data: StatusChangeData): void {
     try {
@@ -203,7 +203,7 @@ class StatusIncidentService {
           select: { id: true, name: true, teamId: true }
         },
         incident: {
-          select: { id: true, status: true, priority: true, fingerprint: true }
+          select: { id: true, teamId: true, status: true, priority: true, fingerprint: true }
         }
       }
     });
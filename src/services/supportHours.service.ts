@@ -0,0 +1,106 @@
+import { DateTime } from 'luxon';
+import type { SupportHours, SupportWindow, Urgency, UrgencyRules } from '../types/service.js';
+
+// Applied for severities a service has no urgency rule for
+export const DEFAULT_URGENCY_RULES: Record<string, Urgency> = {
+  CRITICAL: 'high',
+  HIGH: 'high',
+  MEDIUM: 'low',
+  LOW: 'low',
+  INFO: 'low'
+};
+
+/**
+ * SupportHoursService decides whether an incident should page right away.
+ * Services map alert severity to urgency and declare weekly support windows
+ * in their own timezone; low-urgency incidents outside those windows are held
+ * by the escalation service until the next window opens.
+ */
+class SupportHoursService {
+  /**
+   * Urgency for an incident priority under a service's rules.
+   * Services without support hours always page, so their incidents are high urgency.
+   */
+  resolveUrgency(
+    service: { supportHours: unknown; urgencyRules: unknown } | null,
+    priority: string
+  ): Urgency {
+    if (!service?.supportHours) {
+      return 'high';
+    }
+
+    const rules = (service.urgencyRules ?? {}) as UrgencyRules;
+    return rules[priority as keyof UrgencyRules] ?? DEFAULT_URGENCY_RULES[priority] ?? 'high';
+  }
+
+  /**
+   * Check whether a moment falls inside any support window.
+   */
+  isWithinSupportHours(config: SupportHours, at: Date = new Date()): boolean {
+    const local = DateTime.fromJSDate(at, { zone: config.timezone });
+    const minute = local.hour * 60 + local.minute;
+
+    return config.windows.some(window =>
+      window.days.includes(local.weekday) &&
+      minute >= toMinutes(window.start) &&
+      minute < toMinutes(window.end)
+    );
+  }
+
+  /**
+   * Start of the next support window after a moment, or null if no window is defined.
+   * Returns the moment itself when it already falls inside a window.
+   */
+  nextWindowStart(config: SupportHours, at: Date = new Date()): Date | null {
+    if (this.isWithinSupportHours(config, at)) {
+      return at;
+    }
+
+    const local = DateTime.fromJSDate(at, { zone: config.timezone });
+
+    // Today plus a full week covers every weekly window
+    for (let offset = 0; offset <= 7; offset++) {
+      const day = local.startOf('day').plus({ days: offset });
+
+      const starts = config.windows
+        .filter(window => window.days.includes(day.weekday))
+        .map(window => toMinutes(window.start))
+        .sort((a, b) => a - b);
+
+      for (const start of starts) {
+        const candidate = day.set({ hour: Math.floor(start / 60), minute: start % 60 });
+        if (candidate > local) {
+          return candidate.toJSDate();
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate a support hours config, throwing on the first problem.
+   */
+  validate(config: SupportHours): void {
+    if (!DateTime.local().setZone(config.timezone).isValid) {
+      throw new Error(`Unknown timezone "${config.timezone}"`);
+    }
+
+    if (config.windows.length === 0) {
+      throw new Error('Support hours need at least one window');
+    }
+
+    for (const window of config.windows) {
+      if (toMinutes(window.start) >= toMinutes(window.end)) {
+        throw new Error(`Support window ${window.start}-${window.end} must end after it starts`);
+      }
+    }
+  }
+}
+
+function toMinutes(time: SupportWindow['start']): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export const supportHoursService = new SupportHoursService();
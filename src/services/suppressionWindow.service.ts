@@ -0,0 +1,330 @@
+import { Prisma, SuppressionWindow } from '@prisma/client';
+import * as rruleModule from 'rrule';
+const { RRule } = rruleModule;
+import { prisma } from '../config/database.js';
+import { logger } from '../config/logger.js';
+import { auditService } from './audit.service.js';
+import { maintenanceService } from './maintenance.service.js';
+import { serviceService } from './service.service.js';
+import { routingService } from './routing.service.js';
+import { getMetadataValue } from '../utils/metadata.js';
+import type {
+  CreateSuppressionWindowInput,
+  UpdateSuppressionWindowInput,
+  SuppressionMatcher,
+  SuppressionTarget
+} from '../types/suppressionWindow.js';
+
+/**
+ * SuppressionWindowService manages scheduled alert suppression.
+ * Consulted by the webhook pipeline before deduplication - a matching
+ * window keeps the alert but skips incident creation and paging.
+ */
+class SuppressionWindowService {
+  /**
+   * Create a suppression window.
+   */
+  async create(input: CreateSuppressionWindowInput, userId: string): Promise<SuppressionWindow> {
+    await this.validate(input.teamId, input);
+
+    const window = await prisma.suppressionWindow.create({
+      data: {
+        name: input.name,
+        description: input.description,
+        teamId: input.teamId,
+        createdById: userId,
+        startTime: input.startTime,
+        endTime: input.endTime,
+        recurrenceRule: input.recurrenceRule,
+        serviceIds: input.serviceIds || [],
+        integrationIds: input.integrationIds || [],
+        matchers: (input.matchers || []) as unknown as Prisma.InputJsonValue
+      }
+    });
+
+    await auditService.log({
+      action: 'suppression_window.created',
+      userId,
+      teamId: input.teamId,
+      resourceType: 'suppression_window',
+      resourceId: window.id,
+      metadata: {
+        name: window.name,
+        startTime: window.startTime,
+        endTime: window.endTime,
+        recurrenceRule: window.recurrenceRule
+      }
+    });
+
+    logger.info({ suppressionWindowId: window.id, teamId: input.teamId }, 'Created suppression window');
+
+    return window;
+  }
+
+  /**
+   * Update a suppression window.
+   */
+  async update(
+    id: string,
+    input: UpdateSuppressionWindowInput,
+    userId: string
+  ): Promise<SuppressionWindow> {
+    const current = await prisma.suppressionWindow.findUnique({ where: { id } });
+
+    if (!current) {
+      throw new Error('Suppression window not found');
+    }
+
+    await this.validate(current.teamId, {
+      startTime: input.startTime || current.startTime,
+      endTime: input.endTime || current.endTime,
+      recurrenceRule: input.recurrenceRule === undefined ? current.recurrenceRule : input.recurrenceRule,
+      serviceIds: input.serviceIds ?? current.serviceIds,
+      integrationIds: input.integrationIds ?? current.integrationIds,
+      matchers: input.matchers ?? (current.matchers as unknown as SuppressionMatcher[])
+    });
+
+    const window = await prisma.suppressionWindow.update({
+      where: { id },
+      data: {
+        name: input.name,
+        description: input.description,
+        startTime: input.startTime,
+        endTime: input.endTime,
+        recurrenceRule: input.recurrenceRule,
+        serviceIds: input.serviceIds,
+        integrationIds: input.integrationIds,
+        matchers: input.matchers as unknown as Prisma.InputJsonValue | undefined,
+        isActive: input.isActive
+      }
+    });
+
+    await auditService.log({
+      action: 'suppression_window.updated',
+      userId,
+      teamId: window.teamId,
+      resourceType: 'suppression_window',
+      resourceId: id,
+      metadata: {
+        changes: Object.keys(input).filter(k => input[k as keyof UpdateSuppressionWindowInput] !== undefined)
+      }
+    });
+
+    return window;
+  }
+
+  /**
+   * Delete a suppression window.
+   */
+  async delete(id: string, userId: string): Promise<void> {
+    const window = await prisma.suppressionWindow.delete({ where: { id } });
+
+    await auditService.log({
+      action: 'suppression_window.deleted',
+      userId,
+      teamId: window.teamId,
+      resourceType: 'suppression_window',
+      resourceId: id,
+      metadata: { name: window.name }
+    });
+
+    logger.info({ suppressionWindowId: id }, 'Deleted suppression window');
+  }
+
+  /**
+   * Get a suppression window by ID.
+   */
+  async getById(id: string): Promise<SuppressionWindow | null> {
+    return prisma.suppressionWindow.findUnique({ where: { id } });
+  }
+
+  /**
+   * List suppression windows, optionally filtered by one team or a set of teams.
+   */
+  async list(params: { teamId?: string; teamIds?: string[]; includeInactive?: boolean }) {
+    const where: Prisma.SuppressionWindowWhereInput = {};
+
+    if (params.teamId) {
+      where.teamId = params.teamId;
+    } else if (params.teamIds) {
+      where.teamId = { in: params.teamIds };
+    }
+
+    if (!params.includeInactive) {
+      where.isActive = true;
+    }
+
+    const windows = await prisma.suppressionWindow.findMany({
+      where,
+      include: { team: { select: { id: true, name: true } } },
+      orderBy: { startTime: 'asc' }
+    });
+
+    const now = new Date();
+    return windows.map(window => ({
+      ...window,
+      inEffect: maintenanceService.isMaintenanceActive(window, now)
+    }));
+  }
+
+  /**
+   * Resolve the suppression target for an alert.
+   * Service and team resolution mirror routing: routing_key first, then
+   * integration default, then the TeamTag fallback for the team.
+   */
+  async resolveTarget(
+    alert: { metadata: unknown; integrationId?: string | null },
+    integration?: { id: string; defaultServiceId?: string | null }
+  ): Promise<SuppressionTarget> {
+    const metadata = (alert.metadata ?? {}) as Record<string, unknown>;
+
+    const routingKey = metadata.routing_key || metadata.routingKey;
+    const keyService = typeof routingKey === 'string'
+      ? await serviceService.getByRoutingKey(routingKey)
+      : null;
+    const defaultService = integration?.defaultServiceId
+      ? await serviceService.get(integration.defaultServiceId)
+      : null;
+
+    // Routing skips archived services, so the alert lands with the next candidate's team
+    const routedService = [keyService, defaultService].find(s => s && s.status !== 'ARCHIVED');
+    const teamId = routedService
+      ? routedService.teamId
+      : (await routingService.determineTeamFromAlert(alert))?.id ?? null;
+
+    return {
+      serviceId: keyService?.id ?? integration?.defaultServiceId ?? null,
+      integrationId: integration?.id ?? alert.integrationId ?? null,
+      teamId,
+      metadata
+    };
+  }
+
+  /**
+   * Find the first suppression window currently in effect for the target.
+   * Returns null when the alert should be processed normally.
+   */
+  async findActiveWindow(
+    target: SuppressionTarget,
+    now: Date = new Date()
+  ): Promise<SuppressionWindow | null> {
+    // Windows only apply to their own team's alerts
+    if (!target.teamId) {
+      return null;
+    }
+
+    // One-off windows must contain now; recurring windows only need to have started
+    const candidates = await prisma.suppressionWindow.findMany({
+      where: {
+        teamId: target.teamId,
+        isActive: true,
+        startTime: { lte: now },
+        OR: [
+          { recurrenceRule: null, endTime: { gte: now } },
+          { recurrenceRule: { not: null } }
+        ]
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    for (const window of candidates) {
+      if (!this.matchesTarget(window, target)) continue;
+      if (!maintenanceService.isMaintenanceActive(window, now)) continue;
+      return window;
+    }
+
+    return null;
+  }
+
+  /**
+   * Check window targets against an alert.
+   * The alert must route to the window's team, and every non-empty target
+   * list must match; a window with no targets never matches.
+   */
+  matchesTarget(
+    window: Pick<SuppressionWindow, 'teamId' | 'serviceIds' | 'integrationIds' | 'matchers'>,
+    target: SuppressionTarget
+  ): boolean {
+    const matchers = (window.matchers ?? []) as unknown as SuppressionMatcher[];
+
+    if (window.teamId !== target.teamId) {
+      return false;
+    }
+
+    if (window.serviceIds.length === 0 && window.integrationIds.length === 0 && matchers.length === 0) {
+      return false;
+    }
+
+    if (window.serviceIds.length > 0 &&
+        (!target.serviceId || !window.serviceIds.includes(target.serviceId))) {
+      return false;
+    }
+
+    if (window.integrationIds.length > 0 &&
+        (!target.integrationId || !window.integrationIds.includes(target.integrationId))) {
+      return false;
+    }
+
+    return matchers.every(matcher => {
+      const actual = getMetadataValue(target.metadata, matcher.key);
+      return actual !== undefined && actual !== null && String(actual) === matcher.value;
+    });
+  }
+
+  /**
+   * Validate times, recurrence rule and that targeted services belong to the team.
+   */
+  private async validate(
+    teamId: string,
+    input: {
+      startTime: Date;
+      endTime: Date;
+      recurrenceRule?: string | null;
+      serviceIds?: string[];
+      integrationIds?: string[];
+      matchers?: SuppressionMatcher[];
+    }
+  ): Promise<void> {
+    if (input.endTime <= input.startTime) {
+      throw new Error('End time must be after start time');
+    }
+
+    if (input.recurrenceRule) {
+      try {
+        RRule.fromString(input.recurrenceRule);
+      } catch {
+        throw new Error('Invalid recurrence rule');
+      }
+    }
+
+    const serviceIds = input.serviceIds || [];
+    const integrationIds = input.integrationIds || [];
+
+    if (serviceIds.length === 0 && integrationIds.length === 0 && (input.matchers || []).length === 0) {
+      throw new Error('At least one service, integration or metadata matcher is required');
+    }
+
+    if (serviceIds.length > 0) {
+      const services = await prisma.service.findMany({
+        where: { id: { in: serviceIds }, teamId },
+        select: { id: true }
+      });
+
+      if (services.length !== serviceIds.length) {
+        throw new Error('Some service IDs do not belong to this team');
+      }
+    }
+
+    if (integrationIds.length > 0) {
+      const integrations = await prisma.integration.count({
+        where: { id: { in: integrationIds } }
+      });
+
+      if (integrations !== integrationIds.length) {
+        throw new Error('Some integration IDs were not found');
+      }
+    }
+  }
+}
+
+export const suppressionWindowService = new SuppressionWindowService();
@@ -1,6 +1,6 @@
 import { prisma } from '../config/database.js';
 import { auditService } from './audit.service.js';
-import { CreateTeamInput, UpdateTeamInput, TeamMemberInput, TeamWithMembers } from '../types/team.js';
+import { CreateTeamInput, UpdateTeamInput, TeamMemberInput, TeamWithMembers, SuppressedAlertSummary } from '../types/team.js';
 import { TeamRole, TagType } from '@prisma/client';
 
 export class TeamService {
@@ -119,6 +119,15 @@ export class TeamService {
 
   // Update team (team admin or platform admin)
   async update(teamId: string, input: UpdateTeamInput, updatedByUserId: string): Promise<TeamWithMembers | null> {
+    const existing = await prisma.team.findUnique({
+      where: { id: teamId },
+      select: { maintenanceMode: true, maintenanceStartedAt: true }
+    });
+
+    const maintenanceToggled = existing !== null &&
+      input.maintenanceMode !== undefined &&
+      input.maintenanceMode !== existing.maintenanceMode;
+
     const team = await prisma.team.update({
       where: { id: teamId },
       data: {
@@ -126,6 +135,9 @@ export class TeamService {
         description: input.description,
         slackChannel: input.slackChannel,
         maintenanceMode: input.maintenanceMode,
+        maintenanceStartedAt: maintenanceToggled
+          ? (input.maintenanceMode ? new Date() : null)
+          : undefined,
         notificationDefaults: input.notificationDefaults,
         escalationDefaults: input.escalationDefaults
       },
@@ -150,9 +162,87 @@ export class TeamService {
       }
     });
 
+    if (maintenanceToggled) {
+      if (input.maintenanceMode) {
+        await auditService.log({
+          action: 'team.maintenance.started',
+          userId: updatedByUserId,
+          teamId: team.id,
+          severity: 'WARN',
+          metadata: { startedAt: team.maintenanceStartedAt }
+        });
+      } else {
+        // Summarize what was swallowed so the team can follow up on anything still relevant
+        const summary = await this.getSuppressedAlertSummary(team.id, existing!.maintenanceStartedAt);
+
+        await auditService.log({
+          action: 'team.maintenance.ended',
+          userId: updatedByUserId,
+          teamId: team.id,
+          severity: summary.total > 0 ? 'WARN' : 'INFO',
+          metadata: {
+            startedAt: summary.since,
+            endedAt: summary.until,
+            suppressedAlerts: summary.total,
+            bySeverity: summary.bySeverity,
+            byIntegration: summary.byIntegration
+          }
+        });
+      }
+    }
+
     return this.formatTeam(team);
   }
 
+  // Summarize alerts suppressed by maintenance mode within a time range
+  async getSuppressedAlertSummary(
+    teamId: string,
+    since: Date | null,
+    until: Date = new Date()
+  ): Promise<SuppressedAlertSummary> {
+    const events = await prisma.auditEvent.findMany({
+      where: {
+        teamId,
+        action: 'alert.suppressed',
+        metadata: { path: ['reason'], equals: 'team_maintenance' },
+        timestamp: {
+          ...(since && { gte: since }),
+          lte: until
+        }
+      },
+      orderBy: { timestamp: 'desc' }
+    });
+
+    const bySeverity: Record<string, number> = {};
+    const byIntegration: Record<string, number> = {};
+
+    const alerts = events.map(event => {
+      const metadata = (event.metadata ?? {}) as Record<string, any>;
+      const severity = metadata.severity || 'UNKNOWN';
+      const integration = metadata.integration || 'unknown';
+
+      bySeverity[severity] = (bySeverity[severity] || 0) + 1;
+      byIntegration[integration] = (byIntegration[integration] || 0) + 1;
+
+      return {
+        alertId: event.resourceId,
+        title: metadata.title || 'Untitled alert',
+        severity,
+        integration,
+        suppressedAt: event.timestamp
+      };
+    });
+
+    return {
+      since,
+      until,
+      total: events.length,
+      bySeverity,
+      byIntegration,
+      alerts: alerts.slice(0, 50)
+    };
+  }
+
   // Archive team (soft delete)
   async archive(teamId: string, archivedByUserId: string): Promise<boolean> {
     await prisma.team.update({
@@ -360,6 +450,7 @@ export class TeamService {
       syncedFromOkta: team.syncedFromOkta,
       slackChannel: team.slackChannel,
       maintenanceMode: team.maintenanceMode,
+      maintenanceStartedAt: team.maintenanceStartedAt ?? null,
       tags: (team.tags || []).map((t: { tagType: TagType; tagValue: string }) => ({
         type: t.tagType,
         value: t.tagValue
@@ -0,0 +1,356 @@
+import crypto from 'crypto';
+import {
+  verifyRegistrationResponse,
+  verifyAuthenticationResponse,
+  type RegistrationResponseJSON,
+  type AuthenticationResponseJSON,
+  type AuthenticatorTransportFuture
+} from '@simplewebauthn/server';
+import { prisma } from '../config/database.js';
+import { env } from '../config/env.js';
+import { logger } from '../config/logger.js';
+import { auditService } from './audit.service.js';
+
+// Challenges must be answered within 5 minutes
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+type ChallengeType = 'registration' | 'authentication';
+
+/**
+ * Credential as sent by the frontend (lib/webauthn.ts).
+ * Binary fields are base64 (standard or url-safe).
+ */
+export interface ClientCredential {
+  id: string;
+  rawId: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    attestationObject?: string;
+    authenticatorData?: string;
+    signature?: string;
+    userHandle?: string | null;
+    transports?: string[];
+  };
+}
+
+export class WebAuthnService {
+  // Relying party ID (the domain users log in on)
+  get rpId(): string {
+    return env.WEBAUTHN_RP_ID;
+  }
+
+  // Origins assertions may come from (web app plus any mobile app origins)
+  private get expectedOrigins(): string[] {
+    const origins = env.WEBAUTHN_ORIGIN || env.FRONTEND_URL || 'http://localhost:3001';
+    return origins.split(',').map(o => o.trim()).filter(Boolean);
+  }
+
+  // Create a registration challenge bound to the user
+  async createRegistrationChallenge(userId: string) {
+    const challenge = await this.createChallenge('registration', userId);
+
+    // Stop the browser from re-registering an authenticator it already has
+    const existing = await prisma.webAuthnCredential.findMany({
+      where: { userId },
+      select: { credentialId: true, transports: true }
+    });
+
+    return {
+      challenge: toBase64(challenge),
+      rpId: this.rpId,
+      rpName: env.WEBAUTHN_RP_NAME,
+      excludeCredentials: existing.map(c => ({ id: toBase64(c.credentialId), transports: c.transports }))
+    };
+  }
+
+  // Create a login challenge (usernameless - the credential identifies the user)
+  async createAuthenticationChallenge() {
+    const challenge = await this.createChallenge('authentication');
+
+    return {
+      challenge: toBase64(challenge),
+      rpId: this.rpId,
+      allowCredentials: []
+    };
+  }
+
+  // Verify attestation and store the new credential
+  async register(userId: string, credential: ClientCredential, name?: string) {
+    const response: RegistrationResponseJSON = {
+      id: toBase64Url(credential.rawId),
+      rawId: toBase64Url(credential.rawId),
+      type: 'public-key',
+      response: {
+        clientDataJSON: toBase64Url(credential.response.clientDataJSON),
+        attestationObject: toBase64Url(credential.response.attestationObject || ''),
+        transports: credential.response.transports as AuthenticatorTransportFuture[] | undefined
+      },
+      clientExtensionResults: {}
+    };
+
+    const verification = await verifyRegistrationResponse({
+      response,
+      expectedChallenge: (challenge) => this.consumeChallenge(challenge, 'registration', userId),
+      expectedOrigin: this.expectedOrigins,
+      expectedRPID: this.rpId,
+      requireUserVerification: true
+    });
+
+    if (!verification.verified) {
+      throw new Error('Registration could not be verified');
+    }
+
+    const info = verification.registrationInfo;
+
+    const existing = await prisma.webAuthnCredential.findUnique({
+      where: { credentialId: info.credential.id }
+    });
+    if (existing) {
+      throw new Error('Credential already registered');
+    }
+
+    const record = await prisma.webAuthnCredential.create({
+      data: {
+        userId,
+        credentialId: info.credential.id,
+        publicKey: Buffer.from(info.credential.publicKey),
+        counter: BigInt(info.credential.counter),
+        transports: info.credential.transports || [],
+        deviceType: info.credentialDeviceType,
+        backedUp: info.credentialBackedUp,
+        name
+      }
+    });
+
+    await auditService.log({
+      action: 'auth.webauthn.registered',
+      userId,
+      resourceType: 'webauthn_credential',
+      resourceId: record.id,
+      severity: 'WARN',
+      metadata: {
+        name,
+        deviceType: record.deviceType,
+        attestationFormat: info.fmt
+      }
+    });
+
+    logger.info({ userId, credentialId: record.id }, 'Registered WebAuthn credential');
+
+    return this.format(record);
+  }
+
+  // Verify an assertion and return the user to log in (null if rejected)
+  async authenticate(credential: ClientCredential) {
+    const credentialId = toBase64Url(credential.rawId || credential.id);
+
+    const stored = await prisma.webAuthnCredential.findUnique({
+      where: { credentialId },
+      include: {
+        user: {
+          include: {
+            teamMembers: {
+              where: { team: { isActive: true } },
+              include: { team: { select: { id: true, name: true, isActive: true } } }
+            }
+          }
+        }
+      }
+    });
+
+    if (!stored || !stored.user.isActive) {
+      await auditService.log({
+        action: 'auth.webauthn.failed',
+        userId: stored?.userId,
+        severity: 'HIGH',
+        metadata: { reason: stored ? 'user_inactive' : 'unknown_credential' }
+      });
+      return null;
+    }
+
+    // Discoverable credentials report the user handle - it must match the owner
+    const userHandle = credential.response.userHandle
+      ? Buffer.from(credential.response.userHandle, 'base64').toString('utf8')
+      : null;
+
+    if (userHandle && userHandle !== stored.userId) {
+      await auditService.log({
+        action: 'auth.webauthn.failed',
+        userId: stored.userId,
+        severity: 'HIGH',
+        metadata: { reason: 'user_handle_mismatch', credentialId: stored.id }
+      });
+      return null;
+    }
+
+    const response: AuthenticationResponseJSON = {
+      id: credentialId,
+      rawId: credentialId,
+      type: 'public-key',
+      response: {
+        clientDataJSON: toBase64Url(credential.response.clientDataJSON),
+        authenticatorData: toBase64Url(credential.response.authenticatorData || ''),
+        signature: toBase64Url(credential.response.signature || ''),
+        userHandle: credential.response.userHandle
+          ? toBase64Url(credential.response.userHandle)
+          : undefined
+      },
+      clientExtensionResults: {}
+    };
+
+    let newCounter: number;
+    try {
+      // Checks challenge, origin, rpId, signature and that the counter moved forward
+      const verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge: (challenge) => this.consumeChallenge(challenge, 'authentication'),
+        expectedOrigin: this.expectedOrigins,
+        expectedRPID: this.rpId,
+        credential: {
+          id: stored.credentialId,
+          publicKey: new Uint8Array(stored.publicKey),
+          counter: Number(stored.counter),
+          transports: stored.transports as AuthenticatorTransportFuture[]
+        },
+        requireUserVerification: true
+      });
+
+      if (!verification.verified) {
+        throw new Error('Assertion could not be verified');
+      }
+
+      newCounter = verification.authenticationInfo.newCounter;
+    } catch (error) {
+      await auditService.log({
+        action: 'auth.webauthn.failed',
+        userId: stored.userId,
+        severity: 'HIGH',
+        metadata: {
+          reason: 'verification_failed',
+          credentialId: stored.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }
+      });
+      return null;
+    }
+
+    await prisma.webAuthnCredential.update({
+      where: { id: stored.id },
+      data: {
+        counter: BigInt(newCounter),
+        lastUsedAt: new Date()
+      }
+    });
+
+    await auditService.log({
+      action: 'auth.webauthn.success',
+      userId: stored.userId,
+      resourceType: 'webauthn_credential',
+      resourceId: stored.id,
+      severity: stored.user.isBreakGlassAccount ? 'HIGH' : 'INFO',
+      metadata: { isBreakGlassAccount: stored.user.isBreakGlassAccount }
+    });
+
+    return stored.user;
+  }
+
+  // List a user's credentials (public key material omitted)
+  async listCredentials(userId: string) {
+    const credentials = await prisma.webAuthnCredential.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return credentials.map(c => this.format(c));
+  }
+
+  // Revoke one of the user's credentials
+  async revokeCredential(userId: string, id: string): Promise<boolean> {
+    const credential = await prisma.webAuthnCredential.findFirst({
+      where: { id, userId }
+    });
+
+    if (!credential) {
+      return false;
+    }
+
+    await prisma.webAuthnCredential.delete({ where: { id } });
+
+    await auditService.log({
+      action: 'auth.webauthn.revoked',
+      userId,
+      resourceType: 'webauthn_credential',
+      resourceId: id,
+      severity: 'WARN',
+      metadata: { name: credential.name }
+    });
+
+    return true;
+  }
+
+  // Persist a new single-use challenge, pruning expired ones
+  private async createChallenge(type: ChallengeType, userId?: string): Promise<string> {
+    await prisma.webAuthnChallenge.deleteMany({
+      where: { expiresAt: { lt: new Date() } }
+    });
+
+    const challenge = crypto.randomBytes(32).toString('base64url');
+
+    await prisma.webAuthnChallenge.create({
+      data: {
+        challenge,
+        type,
+        userId,
+        expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS)
+      }
+    });
+
+    return challenge;
+  }
+
+  // Consume a challenge echoed by the authenticator; false if unknown, expired or reused
+  private async consumeChallenge(challenge: string, type: ChallengeType, userId?: string): Promise<boolean> {
+    const { count } = await prisma.webAuthnChallenge.deleteMany({
+      where: {
+        challenge,
+        type,
+        expiresAt: { gt: new Date() },
+        ...(userId && { userId })
+      }
+    });
+
+    return count === 1;
+  }
+
+  private format(credential: {
+    id: string;
+    name: string | null;
+    deviceType: string;
+    backedUp: boolean;
+    transports: string[];
+    lastUsedAt: Date | null;
+    createdAt: Date;
+  }) {
+    return {
+      id: credential.id,
+      name: credential.name,
+      deviceType: credential.deviceType,
+      backedUp: credential.backedUp,
+      transports: credential.transports,
+      lastUsedAt: credential.lastUsedAt,
+      createdAt: credential.createdAt
+    };
+  }
+}
+
+// The frontend sends standard base64; WebAuthn verification expects base64url
+function toBase64Url(value: string): string {
+  return Buffer.from(value, 'base64').toString('base64url');
+}
+
+function toBase64(value: string): string {
+  return Buffer.from(value, 'base64url').toString('base64');
+}
+
+export const webauthnService = new WebAuthnService();
@@ -0,0 +1,220 @@
+import type { Integration, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { logger } from '../config/logger.js';
+import { auditService } from './audit.service.js';
+import { alertService } from './alert.service.js';
+import { routingService } from './routing.service.js';
+import { suppressionWindowService } from './suppressionWindow.service.js';
+import { alertStormService } from './alertStorm.service.js';
+import { ingestWebhook, normalizeWebhookPayload } from '../webhooks/alert-receiver.js';
+import type { NormalizedAlert } from '../webhooks/schemas/index.js';
+
+// Upper bound on deliveries replayed by one request
+const MAX_REPLAY_BATCH = 100;
+
+export interface ReplayDeliveriesParams {
+  deliveryIds?: string[];
+  statusCodes?: number[];
+  since?: Date;
+  until?: Date;
+  limit?: number;
+  dryRun?: boolean;
+}
+
+class WebhookReplayService {
+  /**
+   * Re-runs stored webhook deliveries through normalization, dedup and routing.
+   * Signature and timestamp checks are skipped (the payload was received earlier).
+   * Each replay records a new delivery linked to the original; dry runs write nothing.
+   * Returns null if the integration doesn't exist.
+   */
+  async replay(integrationId: string, params: ReplayDeliveriesParams, userId: string) {
+    const integration = await prisma.integration.findUnique({ where: { id: integrationId } });
+    if (!integration) return null;
+
+    const where: Prisma.WebhookDeliveryWhereInput = {
+      integrationId,
+      ...(params.deliveryIds && { id: { in: params.deliveryIds } }),
+      ...(params.statusCodes && { statusCode: { in: params.statusCodes } }),
+      ...((params.since || params.until) && {
+        createdAt: {
+          ...(params.since && { gte: params.since }),
+          ...(params.until && { lte: params.until })
+        }
+      })
+    };
+
+    // Oldest first so replays hit the pipeline in the order they originally arrived
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where,
+      orderBy: { createdAt: 'asc' },
+      take: Math.min(params.limit ?? MAX_REPLAY_BATCH, MAX_REPLAY_BATCH),
+      select: { id: true, rawPayload: true, headers: true, statusCode: true }
+    });
+
+    const dryRun = params.dryRun ?? false;
+    const results = [];
+
+    for (const delivery of deliveries) {
+      if (dryRun) {
+        results.push({
+          deliveryId: delivery.id,
+          originalStatusCode: delivery.statusCode,
+          ...(await this.simulate(integration, delivery.rawPayload))
+        });
+        continue;
+      }
+
+      const outcome = await ingestWebhook(
+        integration,
+        delivery.rawPayload,
+        (delivery.headers ?? {}) as Record<string, any>,
+        { replayOfId: delivery.id }
+      );
+
+      const replayDelivery = await prisma.webhookDelivery.findFirst({
+        where: { replayOfId: delivery.id },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true }
+      });
+
+      results.push({
+        deliveryId: delivery.id,
+        originalStatusCode: delivery.statusCode,
+        replayDeliveryId: replayDelivery?.id ?? null,
+        statusCode: outcome.statusCode,
+        response: outcome.body
+      });
+    }
+
+    await auditService.log({
+      action: dryRun ? 'webhook.replay_previewed' : 'webhook.replayed',
+      userId,
+      resourceType: 'integration',
+      resourceId: integration.id,
+      severity: dryRun ? 'INFO' : 'WARN',
+      metadata: {
+        name: integration.name,
+        deliveryIds: deliveries.map(d => d.id),
+        filter: {
+          statusCodes: params.statusCodes,
+          since: params.since,
+          until: params.until
+        }
+      }
+    });
+
+    logger.info(
+      { integrationId, count: results.length, dryRun },
+      'Replayed webhook deliveries'
+    );
+
+    return { dryRun, count: results.length, results };
+  }
+
+  /**
+   * Reports what the pipeline would do with a payload without writing anything.
+   * Applies suppression windows, storm protection and team maintenance like the
+   * live pipeline; grouping into existing incidents is not predicted.
+   */
+  private async simulate(integration: Integration, payload: unknown) {
+    const normalization = normalizeWebhookPayload(integration, payload);
+
+    if (!normalization.success) {
+      return { statusCode: 400, error: normalization.errorMessage, alerts: [] };
+    }
+
+    const alerts = [];
+    for (const alert of normalization.alerts) {
+      alerts.push(await this.simulateAlert(integration, alert));
+    }
+
+    return { statusCode: 200, error: null, alerts };
+  }
+
+  private async simulateAlert(integration: Integration, alert: NormalizedAlert) {
+    const summary = {
+      title: alert.title,
+      severity: alert.severity,
+      externalId: alert.externalId,
+      action: alert.action ?? 'trigger'
+    };
+
+    if (alert.action === 'resolve') {
+      const open = alert.externalId
+        ? await alertService.findOpenByExternalId(integration.id, alert.externalId)
+        : null;
+      return { ...summary, outcome: open ? 'resolved' : 'no_match', existingAlertId: open?.id ?? null };
+    }
+
+    if (alert.dedupKey && alert.externalId) {
+      const existing = await alertService.findOpenByExternalId(integration.id, alert.externalId, alert.triggeredAt);
+      if (existing) {
+        return { ...summary, outcome: 'duplicate', existingAlertId: existing.id };
+      }
+    }
+
+    // Same order as the live pipeline: suppression windows, storm protection, then routing
+    const suppressionTarget = await suppressionWindowService.resolveTarget(
+      { metadata: alert.metadata, integrationId: integration.id },
+      integration
+    );
+    const suppressionWindow = await suppressionWindowService.findActiveWindow(suppressionTarget);
+    if (suppressionWindow) {
+      return {
+        ...summary,
+        outcome: 'suppressed',
+        reason: 'suppression_window',
+        teamId: suppressionWindow.teamId,
+        suppressionWindowId: suppressionWindow.id
+      };
+    }
+
+    const storm = await alertStormService.preview(alert, integration, suppressionTarget.serviceId);
+    if (storm) {
+      const stormIncident = await prisma.incident.findFirst({
+        where: { groupKey: storm.groupKey, status: { in: ['OPEN', 'ACKNOWLEDGED'] } },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true }
+      });
+      if (stormIncident) {
+        return { ...summary, outcome: 'grouped', storm: storm.kind, existingIncidentId: stormIncident.id };
+      }
+    }
+
+    let routing;
+    try {
+      routing = await routingService.routeAlertToTeam(
+        { id: 'replay-dry-run', ...alert },
+        { defaultServiceId: integration.defaultServiceId }
+      );
+    } catch (error) {
+      return {
+        ...summary,
+        outcome: 'unroutable',
+        error: error instanceof Error ? error.message : 'Routing failed'
+      };
+    }
+
+    // Team in maintenance mode: the alert would be kept but nobody paged
+    const team = await prisma.team.findUnique({
+      where: { id: routing.teamId },
+      select: { maintenanceMode: true }
+    });
+    if (team?.maintenanceMode) {
+      return { ...summary, outcome: 'suppressed', reason: 'team_maintenance', teamId: routing.teamId };
+    }
+
+    return {
+      ...summary,
+      outcome: 'created',
+      // Storm incidents notify team admins instead of starting escalation
+      ...(storm && { storm: storm.kind }),
+      teamId: routing.teamId,
+      serviceId: routing.serviceId ?? null,
+      escalationPolicyId: routing.escalationPolicyId
+    };
+  }
+}
+
+export const webhookReplayService = new WebhookReplayService();
@@ -0,0 +1,213 @@
+/**
+ * Workflow Condition Evaluation
+ *
+ * Shared by trigger matching and condition nodes. A condition is either a
+ * single field rule (field, operator, value) or a nested all/any group.
+ *
+ * Operators:
+ * - '=' / '!=': string equality
+ * - 'in': value is a comma-separated list
+ * - 'contains': substring, or element for array fields
+ * - 'matches': regular expression (patterns prone to catastrophic
+ *   backtracking never match, and only the start of long values is tested)
+ * - '>', '>=', '<', '<=': numeric comparison
+ * - 'exists': field is present and non-empty (value ignored)
+ *
+ * @module services/workflow/condition.service
+ */
+
+import safeRegex from 'safe-regex2';
+import { logger } from '../../config/logger.js';
+import type {
+  ConditionGroup,
+  ConditionOperator,
+  ConditionRule,
+  TriggerCondition
+} from '../../types/workflow.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const CONDITION_OPERATORS: ConditionOperator[] = [
+  '=', '!=', 'in', 'contains', 'matches', '>', '>=', '<', '<=', 'exists'
+];
+
+/** Deepest group nesting evaluated - deeper groups never match */
+export const MAX_CONDITION_DEPTH = 5;
+
+/** Longest regex pattern accepted by the 'matches' operator */
+const MAX_PATTERN_LENGTH = 500;
+
+/** Longest prefix of a field value tested by the 'matches' operator */
+const MAX_MATCH_INPUT_LENGTH = 1000;
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Resolves a dot-notation field path to its value.
+ */
+export type FieldResolver = (field: string) => unknown;
+
+/**
+ * Evaluate a list of conditions - all must match (the top-level list is an implicit 'all' group).
+ *
+ * @param rules - Conditions and groups to evaluate
+ * @param resolve - Looks up field values
+ * @returns True if every rule matches
+ */
+export function evaluateConditions(rules: ConditionRule[] | undefined, resolve: FieldResolver): boolean {
+  return (rules ?? []).every(rule => evaluateRule(rule, resolve, 1));
+}
+
+/**
+ * Evaluate a single rule or group.
+ *
+ * @param rule - Field rule or all/any group
+ * @param resolve - Looks up field values
+ * @returns True if the rule matches
+ */
+export function evaluateCondition(rule: ConditionRule, resolve: FieldResolver): boolean {
+  return evaluateRule(rule, resolve, 1);
+}
+
+/**
+ * Type guard for all/any groups.
+ */
+export function isConditionGroup(rule: ConditionRule): rule is ConditionGroup {
+  return typeof rule === 'object' && rule !== null && 'match' in rule && Array.isArray(rule.conditions);
+}
+
+function evaluateRule(rule: ConditionRule, resolve: FieldResolver, depth: number): boolean {
+  if (isConditionGroup(rule)) {
+    if (depth > MAX_CONDITION_DEPTH) {
+      logger.warn({ depth }, 'Condition group nested too deeply, treating as not matched');
+      return false;
+    }
+
+    return rule.match === 'any'
+      ? rule.conditions.some(child => evaluateRule(child, resolve, depth + 1))
+      : rule.conditions.every(child => evaluateRule(child, resolve, depth + 1));
+  }
+
+  const actual = resolve(rule.field);
+  const matches = compare(actual, rule);
+
+  logger.debug({
+    field: rule.field,
+    operator: rule.operator ?? '=',
+    expectedValue: rule.value,
+    actualValue: actual,
+    matches
+  }, 'Evaluating condition');
+
+  return matches;
+}
+
+/**
+ * Apply a rule's operator to a resolved field value.
+ * Conditions saved before operators existed have no operator and mean '='.
+ */
+function compare(actual: unknown, rule: TriggerCondition): boolean {
+  const expected = rule.value ?? '';
+  const operator = rule.operator ?? '=';
+
+  switch (operator) {
+    case '=':
+      return String(actual) === String(expected);
+
+    case '!=':
+      return String(actual) !== String(expected);
+
+    case 'in':
+      return expected.split(',').map(v => v.trim()).includes(String(actual));
+
+    case 'contains':
+      if (Array.isArray(actual)) {
+        return actual.some(item => String(item) === expected);
+      }
+      return actual !== null && actual !== undefined && String(actual).includes(expected);
+
+    case 'matches':
+      return matchesPattern(actual, expected);
+
+    case '>':
+    case '>=':
+    case '<':
+    case '<=':
+      return compareNumbers(actual, expected, operator);
+
+    case 'exists':
+      return actual !== null && actual !== undefined && actual !== '';
+
+    default:
+      logger.warn({ operator }, 'Unknown condition operator, treating as not matched');
+      return false;
+  }
+}
+
+function matchesPattern(actual: unknown, pattern: string): boolean {
+  if (actual === null || actual === undefined || pattern.length > MAX_PATTERN_LENGTH) {
+    return false;
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern);
+  } catch {
+    logger.warn({ pattern }, 'Invalid regex in workflow condition, treating as not matched');
+    return false;
+  }
+
+  // Conditions run on the alert path - refuse patterns that can backtrack catastrophically
+  if (!safeRegex(regex)) {
+    logger.warn({ pattern }, 'Unsafe regex in workflow condition, treating as not matched');
+    return false;
+  }
+
+  return regex.test(String(actual).slice(0, MAX_MATCH_INPUT_LENGTH));
+}
+
+function compareNumbers(actual: unknown, expected: string, operator: '>' | '>=' | '<' | '<='): boolean {
+  if (actual === null || actual === undefined || actual === '' || expected.trim() === '') {
+    return false;
+  }
+
+  const left = Number(actual);
+  const right = Number(expected);
+
+  if (!Number.isFinite(left) || !Number.isFinite(right)) {
+    return false;
+  }
+
+  switch (operator) {
+    case '>': return left > right;
+    case '>=': return left >= right;
+    case '<': return left < right;
+    case '<=': return left <= right;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Build a resolver over an object using dot notation (e.g., 'metadata.service').
+ */
+export function fieldResolver(obj: Record<string, unknown>): FieldResolver {
+  return (field: string) => {
+    let value: unknown = obj;
+
+    for (const part of field.split('.')) {
+      if (value === null || value === undefined || typeof value !== 'object') {
+        return undefined;
+      }
+      value = (value as Record<string, unknown>)[part];
+    }
+
+    return value;
+  };
+}
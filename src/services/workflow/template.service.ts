@@ -136,9 +136,9 @@ export async function buildTemplateContext(
     throw new Error(`Incident not found: ${incidentId}`);
   }
 
-  // Get title from first alert
+  // Incidents created before titles were stored fall back to their first alert
   const firstAlert = incident.alerts[0];
-  const title = firstAlert?.title ?? `Incident ${incident.id}`;
+  const title = incident.title ?? firstAlert?.title ?? `Incident ${incident.id}`;
   const metadata = (firstAlert?.metadata as Record<string, unknown>) ?? {};
 
   // Build context
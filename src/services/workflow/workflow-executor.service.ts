@@ -6,16 +6,23 @@
  * - Configurable timeout enforcement
  * - State persistence after each action
  * - Retry with exponential backoff per action
+ * - Durable delays: executions park at delay nodes and resume from the queue
+ * - Manual retry: failed executions resume from the failed node, or re-run
+ *   that node and carry on, without repeating completed steps
  */
 
 import { Prisma, WorkflowExecution } from '@prisma/client';
 import { prisma } from '../../config/database.js';
 import { logger } from '../../config/logger.js';
-import { buildTemplateContext } from './template.service.js';
+import { buildTemplateContext, type TemplateContext } from './template.service.js';
 import { executeWebhookWithRetry, type WebhookConfig } from '../actions/webhook.action.js';
 import { createJiraTicket, type JiraConfig, type JiraCredentials } from '../actions/jira.action.js';
 import { createLinearTicket, type LinearConfig } from '../actions/linear.action.js';
+import { postChannelMessage } from '../actions/channel.action.js';
+import { executeIncidentAction } from '../actions/incident.action.js';
 import { scheduleRunbook } from '../../queues/runbook.queue.js';
+import { scheduleWorkflowResume } from '../../queues/workflow.queue.js';
+import { evaluateCondition, fieldResolver } from './condition.service.js';
 import type {
   WorkflowDefinition,
   WorkflowNode,
@@ -26,6 +33,8 @@ import type {
   NodeResult,
   WorkflowExecutionResult,
   RunbookActionData,
+  NotifyChannelActionData,
+  IncidentActionData,
   isActionData,
   isConditionData,
   isDelayData
@@ -45,6 +54,23 @@ const WORKFLOW_TIMEOUTS: Record<string, number> = {
 /** Default per-action timeout (max 30 seconds per research recommendation) */
 const DEFAULT_ACTION_TIMEOUT_MS = 30_000;
 
+/** Longest supported delay node (30 days) */
+const MAX_DELAY_MINUTES = 30 * 24 * 60;
+
+/**
+ * Options for resuming a parked execution
+ */
+export interface ExecuteWorkflowOptions {
+  /** Delay node whose wait has elapsed (set by resume jobs) */
+  resumeFromNodeId?: string;
+  /** When the elapsed delay started */
+  delayStartedAt?: Date;
+  /** Chain of workflow IDs, carried to resume jobs for cycle detection */
+  executionChain?: string[];
+  /** Failed action node to re-run before the remaining nodes (set by manual re-run jobs) */
+  rerunNodeId?: string;
+}
+
 // ============================================================================
 // Main Executor
 // ============================================================================
@@ -55,13 +81,20 @@ const DEFAULT_ACTION_TIMEOUT_MS = 30_000;
  * Sequential execution, stop on first error per user decision.
  * Persists state after each action for crash recovery.
  *
+ * Nodes already recorded in completedNodes are skipped, so a resumed
+ * execution continues where it parked and a retried one continues from the
+ * node that failed. The workflow timeout applies to each active run, not to
+ * time spent waiting on delay nodes.
+ *
  * @param execution - The WorkflowExecution record with definitionSnapshot
  * @param secrets - Map of secret name -> decrypted value
+ * @param options - Resume state when continuing after a delay, or the node to re-run
  * @returns Execution result with status and completed nodes
  */
 export async function executeWorkflow(
   execution: WorkflowExecution,
-  secrets: Map<string, string>
+  secrets: Map<string, string>,
+  options: ExecuteWorkflowOptions = {}
 ): Promise<WorkflowExecutionResult> {
   const startTime = Date.now();
   const definition = execution.definitionSnapshot as unknown as WorkflowDefinition;
@@ -71,8 +104,9 @@ export async function executeWorkflow(
     executionId: execution.id,
     workflowId: execution.workflowId,
     incidentId: execution.incidentId,
-    timeout: definition.settings.timeout
-  }, 'Starting workflow execution');
+    timeout: definition.settings.timeout,
+    resumeFromNodeId: options.resumeFromNodeId
+  }, options.resumeFromNodeId ? 'Resuming workflow execution' : 'Starting workflow execution');
 
   // Build template context
   let context;
@@ -99,11 +133,37 @@ export async function executeWorkflow(
   // Sort nodes topologically for sequential execution
   const sortedNodes = topologicalSort(definition.nodes, definition.edges);
 
-  const completedNodes: NodeResult[] = [];
+  // Restore progress from earlier runs of this execution
+  const completedNodes: NodeResult[] = loadCompletedNodes(execution);
+  const finishedNodeIds = new Set(
+    completedNodes.filter(n => n.status === 'completed').map(n => n.nodeId)
+  );
   let currentPath: string[] = ['true']; // Default path for non-branching
+  for (const previous of completedNodes) {
+    const previousNode = definition.nodes.find(n => n.id === previous.nodeId);
+    if (previousNode?.type === 'condition' && previous.result) {
+      currentPath = [String(previous.result)];
+    }
+  }
+
+  if (options.rerunNodeId) {
+    const failed = await rerunFailedNode(execution, options.rerunNodeId, {
+      definition, completedNodes, context, secrets, workflowTimeout, currentPath, options, startTime
+    });
+
+    // Still failing - stop here; otherwise carry on with the remaining nodes
+    if (failed) {
+      return failed;
+    }
+    finishedNodeIds.add(options.rerunNodeId);
+  }
 
   // Execute nodes sequentially
   for (const node of sortedNodes) {
+    if (finishedNodeIds.has(node.id)) {
+      continue;
+    }
+
     const elapsed = Date.now() - startTime;
 
     // Check workflow timeout (per research pitfall #4)
@@ -131,6 +191,39 @@ export async function executeWorkflow(
       data: { currentNodeId: node.id }
     });
 
+    // Park at delay nodes - the queue resumes this execution once the wait elapses
+    if (node.type === 'delay' && node.id !== options.resumeFromNodeId) {
+      const data = node.data as DelayData;
+
+      if (data.durationMinutes > 0 && data.durationMinutes <= MAX_DELAY_MINUTES) {
+        const resumeAt = new Date(Date.now() + data.durationMinutes * 60 * 1000);
+
+        await scheduleWorkflowResume(
+          execution.id,
+          execution.incidentId,
+          execution.workflowId,
+          execution.triggeredBy as 'event' | 'manual',
+          node.id,
+          resumeAt,
+          options.executionChain
+        );
+
+        logger.info({
+          executionId: execution.id,
+          nodeId: node.id,
+          resumeAt: resumeAt.toISOString()
+        }, 'Workflow execution waiting on delay node');
+
+        return {
+          executionId: execution.id,
+          status: 'WAITING',
+          completedNodes,
+          duration: Date.now() - startTime,
+          resumeAt
+        };
+      }
+    }
+
     // Execute node
     const nodeStartTime = Date.now();
     const remainingTimeout = workflowTimeout - elapsed;
@@ -143,7 +236,8 @@ export async function executeWorkflow(
         secrets,
         remainingTimeout,
         currentPath,
-        execution
+        execution,
+        options
       );
 
       // Update path if condition node
@@ -209,6 +303,74 @@ export async function executeWorkflow(
   };
 }
 
+// ============================================================================
+// Manual Re-run
+// ============================================================================
+
+/**
+ * Run a single failed action node of a failed execution.
+ *
+ * Completed nodes keep their results. Returns the failed result if the node
+ * fails again, or null once it succeeds so the remaining nodes run as usual.
+ */
+async function rerunFailedNode(
+  execution: WorkflowExecution,
+  nodeId: string,
+  state: {
+    definition: WorkflowDefinition;
+    completedNodes: NodeResult[];
+    context: TemplateContext;
+    secrets: Map<string, string>;
+    workflowTimeout: number;
+    currentPath: string[];
+    options: ExecuteWorkflowOptions;
+    startTime: number;
+  }
+): Promise<WorkflowExecutionResult | null> {
+  const { completedNodes, context, startTime } = state;
+  const node = state.definition.nodes.find(n => n.id === nodeId);
+
+  if (!node || node.type !== 'action') {
+    const error = `Action node not found in workflow snapshot: ${nodeId}`;
+    await updateExecutionStatus(execution.id, 'FAILED', error);
+    return { executionId: execution.id, status: 'FAILED', completedNodes, error, duration: Date.now() - startTime };
+  }
+
+  await prisma.workflowExecution.update({
+    where: { id: execution.id },
+    data: { currentNodeId: node.id }
+  });
+
+  logger.info({ executionId: execution.id, nodeId }, 'Re-running failed workflow node');
+
+  const nodeResult = await executeNode(
+    node,
+    context,
+    state.secrets,
+    state.workflowTimeout,
+    state.currentPath,
+    execution,
+    state.options
+  );
+
+  completedNodes.push(nodeResult);
+  await persistCompletedNode(execution.id, nodeResult);
+
+  if (nodeResult.status !== 'failed') {
+    return null;
+  }
+
+  await updateExecutionStatus(execution.id, 'FAILED', nodeResult.error);
+
+  return {
+    executionId: execution.id,
+    status: 'FAILED',
+    completedNodes,
+    error: nodeResult.error,
+    duration: Date.now() - startTime
+  };
+}
+
 // ============================================================================
 // Node Execution
 // ============================================================================
@@ -220,7 +382,7 @@ export async function executeWorkflow(
  * - trigger: No-op (start marker)
  * - action: Execute webhook/jira/linear/runbook
  * - condition: Evaluate condition
- * - delay: Wait for duration
+ * - delay: Record the elapsed wait (the wait itself happens in the queue)
  */
 async function executeNode(
   node: WorkflowNode,
@@ -228,7 +390,8 @@ async function executeNode(
   secrets: Map<string, string>,
   remainingTimeout: number,
   _currentPath: string[],
-  execution: WorkflowExecution
+  execution: WorkflowExecution,
+  options: ExecuteWorkflowOptions
 ): Promise<NodeResult> {
   const startedAt = new Date();
 
@@ -243,13 +406,13 @@ async function executeNode(
       };
 
     case 'action':
-      return executeActionNode(node, context, secrets, remainingTimeout, execution);
+      return executeActionNode(node, context, secrets, remainingTimeout, execution, options);
 
     case 'condition':
       return executeConditionNode(node, context);
 
     case 'delay':
-      return executeDelayNode(node, remainingTimeout);
+      return executeDelayNode(node, options.delayStartedAt);
 
     default:
       return {
@@ -270,7 +433,8 @@ async function executeActionNode(
   context: Awaited<ReturnType<typeof buildTemplateContext>>,
   secrets: Map<string, string>,
   remainingTimeout: number,
-  execution: WorkflowExecution
+  execution: WorkflowExecution,
+  options: ExecuteWorkflowOptions
 ): Promise<NodeResult> {
   const startedAt = new Date();
   const data = node.data as ActionData;
@@ -295,6 +459,23 @@ async function executeActionNode(
       case 'runbook':
         return await executeRunbookAction(node.id, data as RunbookActionData, context, execution);
 
+      case 'notify_channel':
+        return await executeNotifyChannelAction(node.id, data, context);
+
+      case 'update_priority':
+      case 'reassign':
+      case 'add_note':
+      case 'escalate':
+      case 'resolve':
+      case 'publish_status':
+      case 'page_user':
+        return await executeBuiltInIncidentAction(
+          node.id,
+          data,
+          context,
+          options.executionChain ?? [execution.workflowId]
+        );
+
       default:
         return {
           nodeId: node.id,
@@ -553,9 +734,60 @@ async function executeRunbookAction(
   }
 }
 
+/**
+ * Post a message to a Slack or Teams channel.
+ */
+async function executeNotifyChannelAction(
+  nodeId: string,
+  data: NotifyChannelActionData,
+  context: Awaited<ReturnType<typeof buildTemplateContext>>
+): Promise<NodeResult> {
+  const startedAt = new Date();
+  const result = await postChannelMessage(data.config, context);
+
+  return {
+    nodeId,
+    status: result.success ? 'completed' : 'failed',
+    result: result.success ? {
+      platform: result.platform,
+      channel: result.channel,
+      messageId: result.messageId
+    } : undefined,
+    error: result.error,
+    startedAt,
+    completedAt: new Date()
+  };
+}
+
+/**
+ * Execute a built-in incident action (priority, reassign, note, escalate,
+ * resolve, status page, page user). Runs as the system actor.
+ */
+async function executeBuiltInIncidentAction(
+  nodeId: string,
+  data: IncidentActionData,
+  context: Awaited<ReturnType<typeof buildTemplateContext>>,
+  executionChain: string[]
+): Promise<NodeResult> {
+  const startedAt = new Date();
+  const result = await executeIncidentAction(data, context, executionChain);
+
+  return {
+    nodeId,
+    status: result.success ? 'completed' : 'failed',
+    result: result.result,
+    error: result.error,
+    startedAt,
+    completedAt: new Date()
+  };
+}
+
 /**
  * Execute a condition node.
  * Returns 'true' or 'false' as result to determine edge to follow.
+ *
+ * Fields resolve against the template context ('incident.priority',
+ * 'team.name'), falling back to the incident ('priority', 'metadata.service').
  */
 async function executeConditionNode(
   node: WorkflowNode,
@@ -564,11 +796,14 @@ async function executeConditionNode(
   const startedAt = new Date();
   const data = node.data as ConditionData;
 
-  // Extract field value from context using nested path
-  const value = getNestedValue(context as unknown as Record<string, unknown>, data.field);
+  const fromContext = fieldResolver(context as unknown as Record<string, unknown>);
+  const fromIncident = fieldResolver(context.incident as unknown as Record<string, unknown>);
+  const resolve = (field: string) => fromContext(field) ?? fromIncident(field);
 
-  // Simple equality check (per user decision)
-  const matches = String(value) === String(data.value);
+  const matches = evaluateCondition(
+    data.group ?? { field: data.field, operator: data.operator, value: data.value },
+    resolve
+  );
 
   return {
     nodeId: node.id,
@@ -580,36 +815,34 @@ async function executeConditionNode(
 }
 
 /**
- * Execute a delay node.
+ * Complete a delay node once its resume job has fired.
+ * Only invalid durations fail here - valid delays park the execution before this runs.
  */
 async function executeDelayNode(
   node: WorkflowNode,
-  remainingTimeout: number
+  delayStartedAt?: Date
 ): Promise<NodeResult> {
-  const startedAt = new Date();
+  const completedAt = new Date();
   const data = node.data as DelayData;
 
-  const delayMs = data.durationMinutes * 60 * 1000;
-
-  // Don't exceed remaining timeout
-  const actualDelay = Math.min(delayMs, remainingTimeout - 1000);
-
-  if (actualDelay < delayMs) {
-    logger.warn({
+  if (!data.durationMinutes || data.durationMinutes <= 0 || data.durationMinutes > MAX_DELAY_MINUTES) {
+    return {
       nodeId: node.id,
-      requestedDelay: delayMs,
-      actualDelay
-    }, 'Delay truncated due to workflow timeout');
+      status: 'failed',
+      error: `Delay must be between 1 minute and ${MAX_DELAY_MINUTES / 1440} days`,
+      startedAt: completedAt,
+      completedAt
+    };
   }
 
-  await new Promise(resolve => setTimeout(resolve, actualDelay));
+  const startedAt = delayStartedAt ?? completedAt;
 
   return {
     nodeId: node.id,
     status: 'completed',
-    result: { delayedMs: actualDelay },
+    result: { delayedMs: completedAt.getTime() - startedAt.getTime() },
     startedAt,
-    completedAt: new Date()
+    completedAt
   };
 }
 
@@ -667,26 +900,6 @@ function topologicalSort(nodes: WorkflowNode[], edges: WorkflowEdge[]): Workflow
   return result;
 }
 
-/**
- * Get nested value from object using dot notation.
- */
-function getNestedValue(obj: Record<string, unknown>, path: string): unknown {
-  const parts = path.split('.');
-  let value: unknown = obj;
-
-  for (const part of parts) {
-    if (value === null || value === undefined) {
-      return undefined;
-    }
-    if (typeof value !== 'object') {
-      return undefined;
-    }
-    value = (value as Record<string, unknown>)[part];
-  }
-
-  return value;
-}
-
 /**
  * Serialized node result for JSON storage
  */
@@ -699,6 +912,22 @@ interface SerializedNodeResult {
   completedAt: string;
 }
 
+/**
+ * Deserialize node results persisted by earlier runs of an execution.
+ */
+function loadCompletedNodes(execution: WorkflowExecution): NodeResult[] {
+  const persisted = (execution.completedNodes as unknown as SerializedNodeResult[]) || [];
+
+  return persisted.map(node => ({
+    nodeId: node.nodeId,
+    status: node.status as NodeResult['status'],
+    result: node.result,
+    error: node.error,
+    startedAt: new Date(node.startedAt),
+    completedAt: new Date(node.completedAt)
+  }));
+}
+
 /**
  * Persist completed node result to database.
  */
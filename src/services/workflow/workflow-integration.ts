@@ -5,7 +5,10 @@
  * - Incident created
  * - State changes (acknowledged, resolved, closed)
  * - Escalation events
- * - Age-based triggers (polling)
+ * - Alerts grouped into an existing incident
+ * - Notes and reassignments
+ * - Postmortem published
+ * - Age, acknowledgment-timeout and overdue action item triggers (polling)
  * - Manual trigger
  *
  * Per user decisions:
@@ -16,13 +19,14 @@
  * @module services/workflow/workflow-integration
  */
 
-import { Prisma } from '@prisma/client';
+import { Prisma, type Workflow } from '@prisma/client';
 import { prisma } from '../../config/database.js';
 import { logger } from '../../config/logger.js';
 import { auditService } from '../audit.service.js';
-import { findMatchingWorkflows, type ExecutionContext } from './workflow-trigger.service.js';
+import { findMatchingWorkflows, evaluateTrigger, type ExecutionContext } from './workflow-trigger.service.js';
+import { evaluateConditions, fieldResolver } from './condition.service.js';
 import { scheduleWorkflow } from '../../queues/workflow.queue.js';
-import type { TriggerEvent, WorkflowDefinition } from '../../types/workflow.js';
+import type { TriggerEvent, TriggerEventType, WorkflowDefinition } from '../../types/workflow.js';
 
 // ============================================================================
 // Types
@@ -50,6 +54,9 @@ let agePollingInterval: NodeJS.Timeout | null = null;
 /** Polling interval in milliseconds (5 minutes) */
 const AGE_POLLING_INTERVAL_MS = 5 * 60 * 1000;
 
+/** Default minutes an OPEN incident may go unacknowledged before ack_timeout fires */
+const DEFAULT_ACK_TIMEOUT_MINUTES = 15;
+
 // ============================================================================
 // Main Trigger Functions
 // ============================================================================
@@ -90,50 +97,16 @@ export async function triggerWorkflows(
     // Trigger each matching workflow
     for (const workflow of matchingWorkflows) {
       try {
-        // Create execution record with definition snapshot (per user decision)
-        const execution = await prisma.workflowExecution.create({
-          data: {
-            workflowId: workflow.id,
-            workflowVersion: workflow.version,
-            definitionSnapshot: workflow.definition as Prisma.InputJsonValue,
-            incidentId: event.incident.id,
-            triggeredBy: 'event',
-            triggerEvent: event.type,
-            status: 'PENDING',
-            completedNodes: []
-          }
-        });
-
         // Build execution chain for cycle detection
         const executionChain = context
           ? [...context.executionChain, workflow.id]
           : [workflow.id];
 
-        // Schedule workflow for execution
-        await scheduleWorkflow(
-          execution.id,
-          event.incident.id,
-          workflow.id,
-          'event',
-          executionChain
-        );
-
-        // Audit log for workflow triggered
-        await auditService.log({
-          action: 'workflow.triggered',
-          teamId: workflow.teamId ?? undefined,
-          resourceType: 'workflow',
-          resourceId: workflow.id,
-          metadata: {
-            executionId: execution.id,
-            incidentId: event.incident.id,
-            triggerEvent: event.type,
-            workflowName: workflow.name
-          }
-        });
+        // Snapshot the definition, schedule and audit (per user decision)
+        const executionId = await startEventExecution(workflow, event.incident.id, event.type, executionChain);
 
         logger.debug(
-          { workflowId: workflow.id, executionId: execution.id, incidentId: event.incident.id },
+          { workflowId: workflow.id, executionId, incidentId: event.incident.id },
           'Workflow triggered and scheduled'
         );
       } catch (error) {
@@ -241,6 +214,106 @@ export async function onIncidentEscalated(incident: IncidentData): Promise<void>
   await triggerWorkflows(event);
 }
 
+/**
+ * Hook for alerts grouped into an existing incident.
+ * The first alert of an incident is covered by incident_created.
+ *
+ * @param incident - The incident the alert was grouped into
+ * @param alert - The grouped alert
+ */
+export async function onAlertReceived(
+  incident: IncidentData,
+  alert: { id: string; title: string; severity: string; source?: string; metadata?: unknown }
+): Promise<void> {
+  const event: TriggerEvent = {
+    type: 'alert_received',
+    incident: toEventIncident(incident),
+    payload: {
+      alert: {
+        id: alert.id,
+        title: alert.title,
+        severity: alert.severity,
+        source: alert.source,
+        metadata: alert.metadata
+      }
+    }
+  };
+
+  await triggerWorkflows(event);
+}
+
+/**
+ * Hook for notes added to an incident timeline.
+ *
+ * @param incident - The incident
+ * @param note - Note text and author (undefined for system notes)
+ * @param context - Execution context when the note came from a workflow action
+ */
+export async function onIncidentNoteAdded(
+  incident: IncidentData,
+  note: { text: string; userId?: string },
+  context?: ExecutionContext
+): Promise<void> {
+  const event: TriggerEvent = {
+    type: 'note_added',
+    incident: toEventIncident(incident),
+    payload: { note }
+  };
+
+  await triggerWorkflows(event, context);
+}
+
+/**
+ * Hook for incident reassignment.
+ *
+ * @param incident - The reassigned incident
+ * @param previousAssigneeId - Assignee before the change (null if unassigned)
+ * @param newAssigneeId - New assignee
+ * @param context - Execution context when the reassignment came from a workflow action
+ */
+export async function onIncidentReassigned(
+  incident: IncidentData,
+  previousAssigneeId: string | null,
+  newAssigneeId: string,
+  context?: ExecutionContext
+): Promise<void> {
+  const event: TriggerEvent = {
+    type: 'reassigned',
+    incident: toEventIncident(incident),
+    payload: { previousAssigneeId, newAssigneeId }
+  };
+
+  await triggerWorkflows(event, context);
+}
+
+/**
+ * Hook for postmortem publication.
+ * Fires once for each incident linked to the postmortem.
+ *
+ * @param postmortem - The published postmortem
+ */
+export async function onPostmortemPublished(postmortem: {
+  id: string;
+  title: string;
+  teamId: string;
+  incidentIds: string[];
+}): Promise<void> {
+  const incidents = await prisma.incident.findMany({
+    where: { id: { in: postmortem.incidentIds } },
+    select: { id: true, priority: true, status: true, teamId: true, createdAt: true }
+  });
+
+  for (const incident of incidents) {
+    await triggerWorkflows({
+      type: 'postmortem_published',
+      incident: toEventIncident(incident),
+      payload: {
+        postmortem: { id: postmortem.id, title: postmortem.title, teamId: postmortem.teamId }
+      }
+    });
+  }
+}
+
 /**
  * Manually trigger a workflow for an incident.
  *
@@ -403,47 +476,16 @@ export async function checkAgeBasedTriggers(): Promise<void> {
 
         // Evaluate conditions
         const definition = workflow.definition as unknown as WorkflowDefinition;
-        const conditionsMet = definition.trigger.conditions.every((condition) => {
-          const value = getIncidentFieldValue(incident, condition.field);
-          return String(value) === String(condition.value);
-        });
+        const conditionsMet = evaluateConditions(
+          definition.trigger.conditions,
+          fieldResolver(incident)
+        );
 
         if (conditionsMet) {
           // Trigger the workflow
           try {
-            const execution = await prisma.workflowExecution.create({
-              data: {
-                workflowId: workflow.id,
-                workflowVersion: workflow.version,
-                definitionSnapshot: workflow.definition as Prisma.InputJsonValue,
-                incidentId: incident.id,
-                triggeredBy: 'event',
-                triggerEvent: 'age',
-                status: 'PENDING',
-                completedNodes: []
-              }
-            });
-
-            await scheduleWorkflow(
-              execution.id,
-              incident.id,
-              workflow.id,
-              'event',
-              [workflow.id]
-            );
-
-            await auditService.log({
-              action: 'workflow.triggered',
-              teamId: workflow.teamId ?? undefined,
-              resourceType: 'workflow',
-              resourceId: workflow.id,
-              metadata: {
-                executionId: execution.id,
-                incidentId: incident.id,
-                triggerEvent: 'age',
-                workflowName: workflow.name,
-                ageMinutes: Math.round((Date.now() - incident.createdAt.getTime()) / 60000)
-              }
+            await startEventExecution(workflow, incident.id, 'age', [workflow.id], {
+              ageMinutes: Math.round((Date.now() - incident.createdAt.getTime()) / 60000)
             });
 
             logger.info(
@@ -477,23 +519,201 @@ export async function checkAgeBasedTriggers(): Promise<void> {
 }
 
 /**
- * Helper to get field value from incident for condition matching.
+ * Check for acknowledgment-timeout triggers.
+ *
+ * Finds OPEN, never-acknowledged incidents older than each ack_timeout
+ * workflow's threshold. Each workflow fires at most once per incident.
  */
-function getIncidentFieldValue(incident: Record<string, unknown>, field: string): unknown {
-  const parts = field.split('.');
-  let value: unknown = incident;
+export async function checkAckTimeoutTriggers(): Promise<void> {
+  try {
+    const workflows = await prisma.workflow.findMany({
+      where: { isEnabled: true, isTemplate: false }
+    });
+
+    const ackWorkflows = workflows.filter((workflow) => {
+      const definition = workflow.definition as unknown as WorkflowDefinition;
+      return definition.trigger?.type === 'ack_timeout';
+    });
+
+    for (const workflow of ackWorkflows) {
+      const definition = workflow.definition as unknown as WorkflowDefinition;
+      const timeoutMinutes = definition.trigger.ackTimeoutMinutes || DEFAULT_ACK_TIMEOUT_MINUTES;
+      const thresholdTime = new Date(Date.now() - timeoutMinutes * 60 * 1000);
+
+      const incidentWhere: Prisma.IncidentWhereInput = {
+        status: 'OPEN',
+        acknowledgedAt: null,
+        createdAt: { lt: thresholdTime },
+        // Skip incidents this workflow already fired for
+        workflowExecutions: { none: { workflowId: workflow.id, triggerEvent: 'ack_timeout' } }
+      };
 
-  for (const part of parts) {
-    if (value === null || value === undefined) {
-      return undefined;
+      if (workflow.scopeType === 'team' && workflow.teamId) {
+        incidentWhere.teamId = workflow.teamId;
+      }
+
+      const eligibleIncidents = await prisma.incident.findMany({
+        where: incidentWhere,
+        select: { id: true, priority: true, status: true, teamId: true, createdAt: true }
+      });
+
+      for (const incident of eligibleIncidents) {
+        const minutesUnacknowledged = Math.round((Date.now() - incident.createdAt.getTime()) / 60000);
+        const event: TriggerEvent = {
+          type: 'ack_timeout',
+          incident: toEventIncident(incident),
+          payload: { minutesUnacknowledged }
+        };
+
+        if (!evaluateTrigger(workflow, event)) {
+          continue;
+        }
+
+        try {
+          await startEventExecution(workflow, incident.id, 'ack_timeout', [workflow.id], { minutesUnacknowledged });
+
+          logger.info(
+            { workflowId: workflow.id, incidentId: incident.id, minutesUnacknowledged },
+            'Acknowledgment-timeout workflow triggered'
+          );
+        } catch (error) {
+          logger.error(
+            {
+              error: error instanceof Error ? error.message : 'Unknown error',
+              workflowId: workflow.id,
+              incidentId: incident.id
+            },
+            'Failed to trigger acknowledgment-timeout workflow'
+          );
+        }
+      }
     }
-    if (typeof value !== 'object') {
-      return undefined;
+  } catch (error) {
+    logger.error(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      'Error checking acknowledgment-timeout triggers'
+    );
+  }
+}
+
+/**
+ * Check for overdue postmortem action items.
+ *
+ * Open action items past their due date fire action_item_overdue once
+ * (until the due date changes) for each incident linked to the postmortem.
+ */
+export async function checkOverdueActionItems(): Promise<void> {
+  try {
+    const overdueItems = await prisma.actionItem.findMany({
+      where: {
+        status: { not: 'COMPLETED' },
+        dueDate: { lt: new Date() },
+        overdueNotifiedAt: null
+      },
+      include: {
+        postmortem: { select: { id: true, title: true, incidentIds: true } }
+      }
+    });
+
+    for (const item of overdueItems) {
+      // Claim the item so concurrent pollers don't fire twice
+      const claimed = await prisma.actionItem.updateMany({
+        where: { id: item.id, overdueNotifiedAt: null },
+        data: { overdueNotifiedAt: new Date() }
+      });
+
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      const incidents = await prisma.incident.findMany({
+        where: { id: { in: item.postmortem.incidentIds } },
+        select: { id: true, priority: true, status: true, teamId: true, createdAt: true }
+      });
+
+      for (const incident of incidents) {
+        await triggerWorkflows({
+          type: 'action_item_overdue',
+          incident: toEventIncident(incident),
+          payload: {
+            actionItem: {
+              id: item.id,
+              title: item.title,
+              priority: item.priority,
+              status: item.status,
+              assigneeId: item.assigneeId,
+              dueDate: item.dueDate?.toISOString()
+            },
+            postmortem: { id: item.postmortem.id, title: item.postmortem.title }
+          }
+        });
+      }
     }
-    value = (value as Record<string, unknown>)[part];
+  } catch (error) {
+    logger.error(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      'Error checking overdue action items'
+    );
   }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
 
-  return value;
+/**
+ * Incident fields exposed to trigger conditions.
+ */
+function toEventIncident(incident: IncidentData): TriggerEvent['incident'] {
+  return {
+    id: incident.id,
+    priority: incident.priority,
+    status: incident.status,
+    teamId: incident.teamId,
+    metadata: incident.metadata
+  };
+}
+
+/**
+ * Create a PENDING execution with a definition snapshot, schedule it and audit it.
+ */
+async function startEventExecution(
+  workflow: Workflow,
+  incidentId: string,
+  triggerEvent: TriggerEventType,
+  executionChain: string[],
+  auditMetadata: Record<string, unknown> = {}
+): Promise<string> {
+  const execution = await prisma.workflowExecution.create({
+    data: {
+      workflowId: workflow.id,
+      workflowVersion: workflow.version,
+      definitionSnapshot: workflow.definition as Prisma.InputJsonValue,
+      incidentId,
+      triggeredBy: 'event',
+      triggerEvent,
+      status: 'PENDING',
+      completedNodes: []
+    }
+  });
+
+  await scheduleWorkflow(execution.id, incidentId, workflow.id, 'event', executionChain);
+
+  await auditService.log({
+    action: 'workflow.triggered',
+    teamId: workflow.teamId ?? undefined,
+    resourceType: 'workflow',
+    resourceId: workflow.id,
+    metadata: {
+      executionId: execution.id,
+      incidentId,
+      triggerEvent,
+      workflowName: workflow.name,
+      ...auditMetadata
+    }
+  });
+
+  return execution.id;
 }
 
 // ============================================================================
@@ -501,9 +721,18 @@ function getIncidentFieldValue(incident: Record<string, unknown>, field: string)
 // ============================================================================
 
 /**
- * Setup age-based trigger polling.
+ * Run every polled trigger check in turn.
+ */
+async function checkPolledTriggers(): Promise<void> {
+  await checkAgeBasedTriggers();
+  await checkAckTimeoutTriggers();
+  await checkOverdueActionItems();
+}
+
+/**
+ * Setup polled triggers (age, acknowledgment timeout, overdue action items).
  *
- * Runs checkAgeBasedTriggers every 5 minutes.
+ * Runs the checks every 5 minutes.
  */
 export function setupWorkflowTriggers(): void {
   if (agePollingInterval) {
@@ -512,7 +741,7 @@ export function setupWorkflowTriggers(): void {
   }
 
   // Run immediately on startup
-  checkAgeBasedTriggers().catch((error) => {
+  checkPolledTriggers().catch((error) => {
     logger.error(
       { error: error instanceof Error ? error.message : 'Unknown error' },
       'Initial age trigger check failed'
@@ -521,7 +750,7 @@ export function setupWorkflowTriggers(): void {
 
   // Then run on interval
   agePollingInterval = setInterval(() => {
-    checkAgeBasedTriggers().catch((error) => {
+    checkPolledTriggers().catch((error) => {
       logger.error(
         { error: error instanceof Error ? error.message : 'Unknown error' },
         'Age trigger check failed'
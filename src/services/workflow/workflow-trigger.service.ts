@@ -4,13 +4,16 @@
  * Finds workflows matching incident events and evaluates trigger conditions.
  * Supports cycle detection to prevent infinite workflow loops.
  *
- * Event types: incident_created, state_changed, escalation, manual, age
+ * Event types: incident_created, state_changed, escalation, manual, age,
+ * alert_received, note_added, reassigned, ack_timeout, postmortem_published,
+ * action_item_overdue
  */
 
 import { Workflow } from '@prisma/client';
 import { prisma } from '../../config/database.js';
 import { logger } from '../../config/logger.js';
-import type { WorkflowDefinition, TriggerEvent, TriggerCondition } from '../../types/workflow.js';
+import { evaluateConditions, fieldResolver } from './condition.service.js';
+import type { WorkflowDefinition, TriggerEvent } from '../../types/workflow.js';
 
 // ============================================================================
 // Constants
@@ -43,7 +46,7 @@ export interface ExecutionContext {
  * Queries workflows for:
  * - The incident's team OR global scope
  * - Matching trigger type
- * - All conditions satisfied (simple field matching, no AND/OR)
+ * - All conditions satisfied (operators and nested all/any groups)
  *
  * Per user decision: Allow all matching workflows to run in parallel.
  *
@@ -126,10 +129,11 @@ export function evaluateTrigger(workflow: Workflow, event: TriggerEvent): boolea
     }
   }
 
-  // Check all conditions (simple field matching, no AND/OR per user decision)
-  return trigger.conditions.every((condition) => {
-    return matchCondition(condition, event.incident);
-  });
+  // Check all conditions (top-level list is an implicit 'all' group).
+  // Incident fields win; event details ('alert.severity', 'note.text') fill the rest.
+  const fromIncident = fieldResolver(event.incident);
+  const fromPayload = fieldResolver(event.payload ?? {});
+  return evaluateConditions(trigger.conditions, (field) => fromIncident(field) ?? fromPayload(field));
 }
 
 /**
@@ -170,56 +174,6 @@ export function canTriggerWorkflow(workflowId: string, context: ExecutionContext
 // Helper Functions
 // ============================================================================
 
-/**
- * Match a single condition against incident data.
- * Simple equality check: field value === condition value
- *
- * @param condition - The condition to evaluate
- * @param incident - The incident data to check against
- * @returns True if condition matches
- */
-function matchCondition(
-  condition: TriggerCondition,
-  incident: TriggerEvent['incident']
-): boolean {
-  const value = getFieldValue(incident, condition.field);
-  const matches = String(value) === String(condition.value);
-
-  logger.debug({
-    field: condition.field,
-    expectedValue: condition.value,
-    actualValue: value,
-    matches
-  }, 'Evaluating trigger condition');
-
-  return matches;
-}
-
-/**
- * Get a field value from an object using dot notation.
- * Supports nested paths like 'metadata.service'.
- *
- * @param obj - The object to extract from
- * @param field - The field path (e.g., 'priority', 'metadata.service')
- * @returns The field value, or undefined if not found
- */
-function getFieldValue(obj: Record<string, unknown>, field: string): unknown {
-  const parts = field.split('.');
-  let value: unknown = obj;
-
-  for (const part of parts) {
-    if (value === null || value === undefined) {
-      return undefined;
-    }
-    if (typeof value !== 'object') {
-      return undefined;
-    }
-    value = (value as Record<string, unknown>)[part];
-  }
-
-  return value;
-}
-
 /**
  * Calculate incident age in minutes.
  * Used for age-based triggers.
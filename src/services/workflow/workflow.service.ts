@@ -20,8 +20,9 @@ import { prisma } from '../../config/database.js';
 import { auditService } from '../audit.service.js';
 import { permissionService } from '../permission.service.js';
 import { logger } from '../../config/logger.js';
+import { scheduleWorkflowRetry } from '../../queues/workflow.queue.js';
 import type { AuthenticatedUser } from '../../types/auth.js';
-import type { WorkflowDefinition, WorkflowScope, TemplateCategory } from '../../types/workflow.js';
+import type { WorkflowDefinition, WorkflowScope, TemplateCategory, NodeResult } from '../../types/workflow.js';
 
 // =============================================================================
 // VALIDATION SCHEMAS
@@ -1040,5 +1041,107 @@ export const workflowService = {
       executionId: execution.id,
       status: 'PENDING'
     };
+  },
+
+  /**
+   * Retry a failed workflow execution.
+   *
+   * Without a node, the execution resumes from the node that failed using its
+   * frozen definitionSnapshot. With a node, that failed action node runs again
+   * first and the execution carries on once it succeeds. Either way completed
+   * nodes are not re-run, so steps that already created tickets or posted
+   * messages are not duplicated.
+   *
+   * @param executionId - Failed execution ID
+   * @param user - Authenticated user
+   * @param nodeId - Failed action node to re-run on its own
+   */
+  async retryExecution(executionId: string, user: AuthenticatedUser, nodeId?: string) {
+    const execution = await prisma.workflowExecution.findUnique({
+      where: { id: executionId },
+      include: { incident: { select: { teamId: true } } }
+    });
+
+    if (!execution) {
+      throw new Error('Workflow execution not found');
+    }
+
+    const canRespond = permissionService.canRespondToIncident(user, execution.incident.teamId);
+    if (!canRespond.allowed) {
+      throw new Error('Permission denied to retry workflow on this incident');
+    }
+
+    if (execution.status !== 'FAILED') {
+      throw new Error('Only failed executions can be retried');
+    }
+
+    if (nodeId) {
+      const definition = execution.definitionSnapshot as unknown as WorkflowDefinition;
+      const node = definition.nodes.find(n => n.id === nodeId);
+      if (!node || node.type !== 'action') {
+        throw new Error('Action node not found in execution');
+      }
+
+      // Only the latest result counts - a node that failed then succeeded is done
+      const results = (execution.completedNodes as unknown as NodeResult[]) || [];
+      const latest = results.filter(r => r.nodeId === nodeId).pop();
+      if (latest?.status !== 'failed') {
+        throw new Error('Only failed action nodes can be re-run');
+      }
+    }
+
+    // Claim the execution so concurrent retries don't both enqueue
+    const claimed = await prisma.workflowExecution.updateMany({
+      where: { id: executionId, status: 'FAILED' },
+      data: { status: 'PENDING', error: null, failedAt: null }
+    });
+
+    if (claimed.count === 0) {
+      throw new Error('Only failed executions can be retried');
+    }
+
+    try {
+      await scheduleWorkflowRetry(
+        execution.id,
+        execution.incidentId,
+        execution.workflowId,
+        execution.triggeredBy as 'event' | 'manual',
+        nodeId
+      );
+    } catch (error) {
+      // Put the execution back so it can be retried again
+      await prisma.workflowExecution.update({
+        where: { id: executionId },
+        data: { status: 'FAILED', error: execution.error, failedAt: execution.failedAt }
+      });
+      throw error;
+    }
+
+    // Audit log
+    await auditService.log({
+      action: 'workflow.execution.retried',
+      userId: user.id,
+      teamId: execution.incident.teamId,
+      resourceType: 'workflow',
+      resourceId: execution.workflowId,
+      metadata: {
+        executionId: execution.id,
+        incidentId: execution.incidentId,
+        mode: nodeId ? 'node' : 'resume',
+        ...(nodeId ? { nodeId } : { fromNodeId: execution.currentNodeId }),
+        previousError: execution.error
+      }
+    });
+
+    logger.info(
+      { executionId, workflowId: execution.workflowId, nodeId, userId: user.id },
+      nodeId ? 'Workflow node re-run requested' : 'Workflow execution resume requested'
+    );
+
+    return {
+      executionId: execution.id,
+      status: 'PENDING',
+      mode: nodeId ? 'node' : 'resume'
+    };
   }
 };
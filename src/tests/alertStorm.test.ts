@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { prisma } from '../config/database.js';
+import { alertStormService } from '../services/alertStorm.service.js';
+import { createTestUser, createTestTeam, cleanupTestData } from './setup.js';
+
+vi.mock('../services/notification/index.js', () => ({
+  dispatchNotification: vi.fn().mockResolvedValue({ queued: 1, channels: ['email'] })
+}));
+
+describe('Alert storm protection', () => {
+  beforeEach(async () => {
+    await cleanupTestData();
+  });
+
+  async function setup(settings: { stormThreshold?: number; flapThreshold?: number }) {
+    const team = await createTestTeam();
+    const admin = await createTestUser();
+    await prisma.teamMember.create({
+      data: { userId: admin.id, teamId: team.id, role: 'TEAM_ADMIN' }
+    });
+
+    await prisma.teamTag.create({
+      data: { teamId: team.id, tagType: 'TECHNICAL', tagValue: 'payments-api' }
+    });
+
+    await prisma.escalationPolicy.create({
+      data: {
+        teamId: team.id,
+        name: 'Default Policy',
+        isDefault: true,
+        levels: {
+          create: { levelNumber: 1, targetType: 'user', targetId: admin.id, timeoutMinutes: 30 }
+        }
+      }
+    });
+
+    const integration = await prisma.integration.create({
+      data: {
+        name: 'noisy-monitor',
+        type: 'generic',
+        webhookSecret: 'test-secret',
+        ...settings
+      }
+    });
+
+    return { team, admin, integration };
+  }
+
+  function createAlert(integrationId: string, title: string, data: { externalId?: string; status?: 'OPEN' | 'RESOLVED'; incidentId?: string } = {}) {
+    return prisma.alert.create({
+      data: {
+        title,
+        severity: 'HIGH',
+        source: 'noisy-monitor',
+        triggeredAt: new Date(),
+        integrationId,
+        metadata: { service: 'payments-api' },
+        ...data
+      }
+    });
+  }
+
+  it('collapses alerts beyond the integration threshold into one storm incident', async () => {
+    const { integration } = await setup({ stormThreshold: 2 });
+
+    await createAlert(integration.id, 'Alert 1');
+    const second = await createAlert(integration.id, 'Alert 2');
+    expect(await alertStormService.evaluate(second, integration, null)).toBeNull();
+
+    const third = await createAlert(integration.id, 'Alert 3');
+    const decision = await alertStormService.evaluate(third, integration, null);
+    expect(decision).toMatchObject({ kind: 'alert_storm', scope: 'integration', count: 3 });
+
+    const first = await alertStormService.collapse(third, integration, decision!);
+    expect(first.isNew).toBe(true);
+
+    const fourth = await createAlert(integration.id, 'Alert 4');
+    const next = await alertStormService.collapse(
+      fourth,
+      integration,
+      (await alertStormService.evaluate(fourth, integration, null))!
+    );
+
+    expect(next.isNew).toBe(false);
+    expect(next.incident!.id).toBe(first.incident!.id);
+    expect(next.incident!.alertCount).toBe(2);
+
+    // No escalation chain for storm incidents
+    const jobs = await prisma.escalationJob.count({ where: { incidentId: first.incident!.id } });
+    expect(jobs).toBe(0);
+  });
+
+  it('checks a service storm against the sending integration settings', async () => {
+    const { team, integration } = await setup({ stormThreshold: 2 });
+    const policy = await prisma.escalationPolicy.findFirstOrThrow({ where: { teamId: team.id } });
+    const service = await prisma.service.create({
+      data: { name: 'Payments API', routingKey: `payments-${Date.now()}`, teamId: team.id }
+    });
+
+    // Another monitor without storm protection has already sent two alerts for the service
+    const quiet = await prisma.integration.create({
+      data: { name: 'quiet-monitor', type: 'generic', webhookSecret: 'test-secret' }
+    });
+    const incident = await prisma.incident.create({
+      data: {
+        fingerprint: 'service-storm',
+        status: 'OPEN',
+        priority: 'HIGH',
+        teamId: team.id,
+        escalationPolicyId: policy.id,
+        serviceId: service.id
+      }
+    });
+    await createAlert(quiet.id, 'Checkout errors', { incidentId: incident.id });
+    await createAlert(quiet.id, 'Checkout errors', { incidentId: incident.id });
+
+    // The noisy monitor's threshold applies to the service: 2 linked + this alert
+    const alert = await createAlert(integration.id, 'Checkout errors');
+    const decision = await alertStormService.evaluate(alert, integration, service.id);
+    expect(decision).toMatchObject({ kind: 'alert_storm', scope: 'service', count: 3 });
+
+    // Alerts from an integration without storm protection skip the service check
+    const unprotected = await createAlert(quiet.id, 'Checkout errors');
+    expect(await alertStormService.evaluate(unprotected, quiet, service.id)).toBeNull();
+
+    await prisma.alert.deleteMany({ where: { integrationId: { in: [integration.id, quiet.id] } } });
+    await prisma.incident.delete({ where: { id: incident.id } });
+    await prisma.service.delete({ where: { id: service.id } });
+  });
+
+  it('flags alerts that keep resolving and re-opening as flapping', async () => {
+    const { integration } = await setup({ flapThreshold: 2 });
+
+    await createAlert(integration.id, 'Disk full', { externalId: 'disk-1', status: 'RESOLVED' });
+    await createAlert(integration.id, 'Disk full', { externalId: 'disk-1', status: 'RESOLVED' });
+    const reopened = await createAlert(integration.id, 'Disk full', { externalId: 'disk-1' });
+
+    const decision = await alertStormService.evaluate(reopened, integration, null);
+    expect(decision).toMatchObject({ kind: 'flapping', scope: 'alert', count: 2 });
+
+    const stored = await prisma.alert.findUnique({ where: { id: reopened.id } });
+    expect(stored?.isFlapping).toBe(true);
+  });
+});
@@ -116,6 +116,48 @@ describe('Authentication', () => {
     });
   });
 
+  describe('WebAuthn', () => {
+    it('issues a login challenge that is persisted with an expiry', async () => {
+      const res = await request(app).get('/auth/webauthn/login-challenge');
+      expect(res.status).toBe(200);
+      expect(res.body.challenge).toBeDefined();
+      expect(res.body.allowCredentials).toEqual([]);
+
+      const stored = await prisma.webAuthnChallenge.findUnique({
+        where: { challenge: Buffer.from(res.body.challenge, 'base64').toString('base64url') }
+      });
+      expect(stored?.type).toBe('authentication');
+      expect(stored!.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('rejects assertions from unknown credentials', async () => {
+      const res = await request(app)
+        .post('/auth/webauthn/login')
+        .send({
+          credential: {
+            id: 'unknown',
+            rawId: Buffer.from('unknown').toString('base64'),
+            type: 'public-key',
+            response: {
+              clientDataJSON: Buffer.from('{}').toString('base64'),
+              authenticatorData: 'AAAA',
+              signature: 'AAAA'
+            }
+          }
+        });
+
+      expect(res.status).toBe(401);
+    });
+
+    it('requires authentication to register or list credentials', async () => {
+      const challenge = await request(app).post('/auth/webauthn/register-challenge');
+      expect(challenge.status).toBe(401);
+
+      const list = await request(app).get('/auth/webauthn/credentials');
+      expect(list.status).toBe(401);
+    });
+  });
+
   describe('POST /auth/logout', () => {
     it('returns 401 when not authenticated', async () => {
       const res = await request(app).post('/auth/logout');
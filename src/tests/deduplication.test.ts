@@ -402,4 +402,224 @@ describe('Alert Deduplication', () => {
     expect(routing.escalationPolicyId).toBe(policy.id);
     expect(routing.assignedUserId).toBeNull();
   });
+
+  it('should suppress incident creation when team is in maintenance mode', async () => {
+    const team = await createTestTeam({ maintenanceMode: true, maintenanceStartedAt: new Date() });
+    const user = await createTestUser();
+    await prisma.teamMember.create({
+      data: {
+        userId: user.id,
+        teamId: team.id,
+        role: 'RESPONDER'
+      }
+    });
+
+    await prisma.teamTag.create({
+      data: {
+        teamId: team.id,
+        tagType: 'TECHNICAL',
+        tagValue: 'payments-api'
+      }
+    });
+
+    await prisma.escalationPolicy.create({
+      data: {
+        teamId: team.id,
+        name: 'Default Policy',
+        isDefault: true,
+        levels: {
+          create: {
+            levelNumber: 1,
+            targetType: 'user',
+            targetId: user.id,
+            timeoutMinutes: 30
+          }
+        }
+      }
+    });
+
+    const alert = await prisma.alert.create({
+      data: {
+        title: 'Planned Restart',
+        severity: 'HIGH',
+        source: 'test-integration',
+        triggeredAt: new Date(),
+        metadata: { service: 'payments-api' }
+      }
+    });
+
+    const result = await deduplicationService.deduplicateAndCreateIncident(
+      alert.id,
+      'maint123',
+      alert,
+      15
+    );
+
+    expect(result.incident).toBeNull();
+    expect(result.isDuplicate).toBe(false);
+    expect(result.suppressed).toEqual({ reason: 'team_maintenance', teamId: team.id });
+
+    // Alert is kept but not linked to any incident
+    const storedAlert = await prisma.alert.findUnique({ where: { id: alert.id } });
+    expect(storedAlert?.incidentId).toBeNull();
+
+    const incidentCount = await prisma.incident.count({ where: { teamId: team.id } });
+    expect(incidentCount).toBe(0);
+  });
+
+  it('should group alerts with different fingerprints by grouping rule metadata keys', async () => {
+    const team = await createTestTeam();
+    const user = await createTestUser();
+    await prisma.teamMember.create({
+      data: {
+        userId: user.id,
+        teamId: team.id,
+        role: 'RESPONDER'
+      }
+    });
+
+    await prisma.teamTag.create({
+      data: {
+        teamId: team.id,
+        tagType: 'TECHNICAL',
+        tagValue: 'payments-api'
+      }
+    });
+
+    await prisma.escalationPolicy.create({
+      data: {
+        teamId: team.id,
+        name: 'Default Policy',
+        isDefault: true,
+        levels: {
+          create: {
+            levelNumber: 1,
+            targetType: 'user',
+            targetId: user.id,
+            timeoutMinutes: 30
+          }
+        }
+      }
+    });
+
+    const integration = await prisma.integration.create({
+      data: {
+        name: 'test-integration',
+        type: 'alertmanager',
+        webhookSecret: 'test-secret'
+      }
+    });
+
+    await prisma.alertGroupingRule.create({
+      data: {
+        name: 'Group by cluster',
+        teamId: team.id,
+        createdById: user.id,
+        integrationId: integration.id,
+        strategy: 'metadata_keys',
+        metadataKeys: ['labels.cluster']
+      }
+    });
+
+    const createAlert = (title: string, cluster: string) => prisma.alert.create({
+      data: {
+        title,
+        severity: 'HIGH',
+        source: integration.name,
+        triggeredAt: new Date(),
+        integrationId: integration.id,
+        metadata: { service: 'payments-api', labels: { cluster } }
+      }
+    });
+
+    const first = await createAlert('Node 1 not ready', 'prod-eu');
+    const second = await createAlert('Node 2 disk pressure', 'prod-eu');
+    const other = await createAlert('Node 3 not ready', 'prod-us');
+
+    const result1 = await deduplicationService.deduplicateAndCreateIncident(first.id, 'fp-1', first, 15);
+    const result2 = await deduplicationService.deduplicateAndCreateIncident(second.id, 'fp-2', second, 15);
+    const result3 = await deduplicationService.deduplicateAndCreateIncident(other.id, 'fp-3', other, 15);
+
+    expect(result1.isDuplicate).toBe(false);
+    expect(result2.isDuplicate).toBe(true);
+    expect(result2.incident.id).toBe(result1.incident.id);
+    expect(result2.incident.alertCount).toBe(2);
+
+    // Different cluster opens its own incident
+    expect(result3.isDuplicate).toBe(false);
+    expect(result3.incident.id).not.toBe(result1.incident.id);
+  });
+
+  it('should not group alerts into another team\'s incident through a shared integration', async () => {
+    const integration = await prisma.integration.create({
+      data: {
+        name: 'test-shared-integration',
+        type: 'alertmanager',
+        webhookSecret: 'test-secret'
+      }
+    });
+
+    const setupTeam = async (serviceTag: string) => {
+      const team = await createTestTeam();
+      const user = await createTestUser();
+      await prisma.teamMember.create({
+        data: { userId: user.id, teamId: team.id, role: 'RESPONDER' }
+      });
+      await prisma.teamTag.create({
+        data: { teamId: team.id, tagType: 'TECHNICAL', tagValue: serviceTag }
+      });
+      await prisma.escalationPolicy.create({
+        data: {
+          teamId: team.id,
+          name: 'Default Policy',
+          isDefault: true,
+          levels: {
+            create: { levelNumber: 1, targetType: 'user', targetId: user.id, timeoutMinutes: 30 }
+          }
+        }
+      });
+      return { team, user };
+    };
+
+    const payments = await setupTeam('payments-api');
+    const billing = await setupTeam('billing-api');
+
+    // Only the payments team groups this integration's alerts by cluster
+    await prisma.alertGroupingRule.create({
+      data: {
+        name: 'Group by cluster',
+        teamId: payments.team.id,
+        createdById: payments.user.id,
+        integrationId: integration.id,
+        strategy: 'metadata_keys',
+        metadataKeys: ['labels.cluster']
+      }
+    });
+
+    const createAlert = (title: string, service: string) => prisma.alert.create({
+      data: {
+        title,
+        severity: 'HIGH',
+        source: integration.name,
+        triggeredAt: new Date(),
+        integrationId: integration.id,
+        metadata: { service, labels: { cluster: 'prod-eu' } }
+      }
+    });
+
+    const paymentsAlert = await createAlert('Node 1 not ready', 'payments-api');
+    const billingAlert = await createAlert('Node 2 not ready', 'billing-api');
+
+    const paymentsResult = await deduplicationService.deduplicateAndCreateIncident(
+      paymentsAlert.id, 'fp-payments', paymentsAlert, 15
+    );
+    const billingResult = await deduplicationService.deduplicateAndCreateIncident(
+      billingAlert.id, 'fp-billing', billingAlert, 15
+    );
+
+    expect(paymentsResult.incident.teamId).toBe(payments.team.id);
+    expect(billingResult.isDuplicate).toBe(false);
+    expect(billingResult.incident.id).not.toBe(paymentsResult.incident.id);
+    expect(billingResult.incident.teamId).toBe(billing.team.id);
+  });
 });
@@ -2,6 +2,7 @@ import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import { prisma } from '../config/database.js';
 import { escalationPolicyService } from '../services/escalation-policy.service.js';
 import { escalationService } from '../services/escalation.service.js';
+import { routingService } from '../services/routing.service.js';
 
 describe('Escalation Policy Service', () => {
   let testTeam: any;
@@ -49,6 +50,50 @@ describe('Escalation Policy Service', () => {
       expect(policy.levels[1].levelNumber).toBe(2);
     });
 
+    it('should create multi-target levels that page every target', async () => {
+      const policy = await escalationPolicyService.create({
+        teamId: testTeam.id,
+        name: 'Multi-target Policy',
+        levels: [
+          {
+            levelNumber: 1,
+            targetType: 'user',
+            targets: [
+              { type: 'user', id: testUser.id },
+              { type: 'entire_team' }
+            ],
+            timeoutMinutes: 5
+          }
+        ]
+      }, testUser.id);
+
+      const level = policy.levels[0];
+      expect(level.targetType).toBe('user');
+      expect(level.targetId).toBe(testUser.id);
+      expect(level.targets).toHaveLength(2);
+
+      // Duplicate users across targets are paged once
+      const userIds = await routingService.resolveEscalationTargets(level, testTeam.id);
+      expect(userIds).toEqual([testUser.id]);
+    });
+
+    it('should enforce minimum timeout for multiple targets', async () => {
+      await expect(
+        escalationPolicyService.create({
+          teamId: testTeam.id,
+          name: 'Invalid Multi-target Timeout',
+          levels: [
+            {
+              levelNumber: 1,
+              targetType: 'user',
+              targets: [{ type: 'user', id: testUser.id }, { type: 'entire_team' }],
+              timeoutMinutes: 1
+            }
+          ]
+        }, testUser.id)
+      ).rejects.toThrow('minimum timeout');
+    });
+
     it('should enforce minimum timeout for single target', async () => {
       await expect(
         escalationPolicyService.create({
@@ -106,6 +151,23 @@ describe('Escalation Policy Service', () => {
       expect(updated.name).toBe('Updated Name');
       expect(updated.repeatCount).toBe(3);
     });
+
+    it('should set and clear the ack timeout within bounds', async () => {
+      const policy = await escalationPolicyService.create({
+        teamId: testTeam.id,
+        name: 'Ack Timeout Test',
+        ackTimeoutMinutes: 30,
+        levels: [{ levelNumber: 1, targetType: 'entire_team' }]
+      }, testUser.id);
+      expect(policy.ackTimeoutMinutes).toBe(30);
+
+      await expect(
+        escalationPolicyService.update(policy.id, { ackTimeoutMinutes: 1 }, testUser.id)
+      ).rejects.toThrow('Ack timeout must be between');
+
+      const cleared = await escalationPolicyService.update(policy.id, { ackTimeoutMinutes: null }, testUser.id);
+      expect(cleared.ackTimeoutMinutes).toBeNull();
+    });
   });
 
   describe('delete', () => {
@@ -209,7 +271,218 @@ describe('Escalation Service', () => {
       expect(updated?.status).toBe('RESOLVED'); // Still resolved
     });
 
+    it('should stop escalating once the team enters maintenance', async () => {
+      const incident = await prisma.incident.create({
+        data: {
+          fingerprint: `esc-maintenance-test-${Date.now()}`,
+          status: 'OPEN',
+          priority: 'HIGH',
+          teamId: testTeam.id,
+          escalationPolicyId: testPolicy.id,
+          currentLevel: 1
+        }
+      });
+      await prisma.team.update({ where: { id: testTeam.id }, data: { maintenanceMode: true } });
+
+      try {
+        await escalationService.processEscalation(incident.id, 2, 1);
+      } finally {
+        await prisma.team.update({ where: { id: testTeam.id }, data: { maintenanceMode: false } });
+      }
+
+      const updated = await prisma.incident.findUnique({ where: { id: incident.id } });
+      expect(updated?.currentLevel).toBe(1); // Unchanged
+
+      const suppressed = await prisma.auditEvent.findFirst({
+        where: { action: 'incident.escalation.suppressed', resourceId: incident.id }
+      });
+      expect(suppressed?.metadata).toEqual({ reason: 'team_maintenance' });
+    });
+
     // Note: Full escalation flow test requires Redis/BullMQ for job queueing
     // This is tested via incident.test.ts lifecycle where acknowledgment stops escalation
   });
+
+  describe('expireAcknowledgement', () => {
+    beforeAll(async () => {
+      await prisma.escalationPolicy.update({
+        where: { id: testPolicy.id },
+        data: { ackTimeoutMinutes: 5 }
+      });
+    });
+
+    it('should revert a stale acknowledgement and resume escalation', async () => {
+      const incident = await prisma.incident.create({
+        data: {
+          fingerprint: `esc-ack-timeout-test-${Date.now()}`,
+          status: 'ACKNOWLEDGED',
+          priority: 'HIGH',
+          teamId: testTeam.id,
+          escalationPolicyId: testPolicy.id,
+          assignedUserId: testUser.id,
+          acknowledgedAt: new Date(Date.now() - 10 * 60 * 1000),
+          currentLevel: 1
+        }
+      });
+
+      await escalationService.expireAcknowledgement(incident.id);
+
+      const updated = await prisma.incident.findUniqueOrThrow({ where: { id: incident.id } });
+      expect(updated.status).toBe('OPEN');
+      expect(updated.acknowledgedAt).toBeNull();
+
+      const jobs = await prisma.escalationJob.findMany({ where: { incidentId: incident.id } });
+      expect(jobs).toHaveLength(1);
+      expect(jobs[0].scheduledLevel).toBe(2);
+
+      const event = await prisma.auditEvent.findFirst({
+        where: { resourceId: incident.id, action: 'incident.acknowledgement.expired' }
+      });
+      expect(event?.metadata).toMatchObject({ ackTimeoutMinutes: 5, assignee: testUser.id });
+    });
+
+    it('should leave recent and snoozed acknowledgements alone', async () => {
+      const recent = await prisma.incident.create({
+        data: {
+          fingerprint: `esc-ack-recent-test-${Date.now()}`,
+          status: 'ACKNOWLEDGED',
+          priority: 'HIGH',
+          teamId: testTeam.id,
+          escalationPolicyId: testPolicy.id,
+          acknowledgedAt: new Date(),
+          currentLevel: 1
+        }
+      });
+      const snoozed = await prisma.incident.create({
+        data: {
+          fingerprint: `esc-ack-snoozed-test-${Date.now()}`,
+          status: 'ACKNOWLEDGED',
+          priority: 'HIGH',
+          teamId: testTeam.id,
+          escalationPolicyId: testPolicy.id,
+          acknowledgedAt: new Date(Date.now() - 10 * 60 * 1000),
+          snoozedUntil: new Date(Date.now() + 60 * 60 * 1000),
+          currentLevel: 1
+        }
+      });
+
+      await escalationService.expireAcknowledgement(recent.id);
+      await escalationService.expireAcknowledgement(snoozed.id);
+
+      const statuses = await prisma.incident.findMany({
+        where: { id: { in: [recent.id, snoozed.id] } },
+        select: { status: true }
+      });
+      expect(statuses.map(i => i.status)).toEqual(['ACKNOWLEDGED', 'ACKNOWLEDGED']);
+    });
+
+    it('should resume escalation each time an acknowledgement expires at the same level', async () => {
+      const incident = await prisma.incident.create({
+        data: {
+          fingerprint: `esc-ack-twice-test-${Date.now()}`,
+          status: 'ACKNOWLEDGED',
+          priority: 'HIGH',
+          teamId: testTeam.id,
+          escalationPolicyId: testPolicy.id,
+          acknowledgedAt: new Date(Date.now() - 10 * 60 * 1000),
+          currentLevel: 1
+        }
+      });
+
+      await escalationService.expireAcknowledgement(incident.id);
+
+      // Acknowledged again and left stale again
+      await prisma.escalationJob.updateMany({
+        where: { incidentId: incident.id },
+        data: { completed: true, cancelledAt: new Date() }
+      });
+      await prisma.incident.update({
+        where: { id: incident.id },
+        data: { status: 'ACKNOWLEDGED', acknowledgedAt: new Date(Date.now() - 10 * 60 * 1000) }
+      });
+
+      await escalationService.expireAcknowledgement(incident.id);
+
+      const jobs = await prisma.escalationJob.findMany({ where: { incidentId: incident.id } });
+      expect(jobs).toHaveLength(2);
+      expect(new Set(jobs.map(j => j.bullJobId)).size).toBe(2);
+      expect(jobs.filter(j => !j.completed)).toHaveLength(1);
+    });
+  });
+
+  describe('wakeSnoozedIncident', () => {
+    it('should resume escalation for an incident snoozed after escalating', async () => {
+      const incident = await prisma.incident.create({
+        data: {
+          fingerprint: `esc-wake-level2-test-${Date.now()}`,
+          status: 'ACKNOWLEDGED',
+          priority: 'HIGH',
+          teamId: testTeam.id,
+          escalationPolicyId: testPolicy.id,
+          acknowledgedAt: new Date(Date.now() - 10 * 60 * 1000),
+          snoozedUntil: new Date(Date.now() - 1000),
+          currentLevel: 2,
+          currentRepeat: 1
+        }
+      });
+
+      // The repeat timer stored when level 2 was paged, cancelled by the acknowledgement
+      await prisma.escalationJob.create({
+        data: {
+          incidentId: incident.id,
+          bullJobId: `incident-${incident.id}-level-3-repeat-1`,
+          scheduledLevel: 1,
+          scheduledFor: new Date(),
+          completed: true,
+          cancelledAt: new Date()
+        }
+      });
+
+      await escalationService.wakeSnoozedIncident(incident.id);
+
+      const updated = await prisma.incident.findUniqueOrThrow({ where: { id: incident.id } });
+      expect(updated.status).toBe('OPEN');
+
+      const pending = await prisma.escalationJob.findMany({
+        where: { incidentId: incident.id, completed: false }
+      });
+      expect(pending).toHaveLength(1);
+      // Past the last level the policy repeats from level 1
+      expect(pending[0].scheduledLevel).toBe(1);
+    });
+
+    it('should resume escalation on every wake at the same level', async () => {
+      const incident = await prisma.incident.create({
+        data: {
+          fingerprint: `esc-wake-twice-test-${Date.now()}`,
+          status: 'ACKNOWLEDGED',
+          priority: 'HIGH',
+          teamId: testTeam.id,
+          escalationPolicyId: testPolicy.id,
+          acknowledgedAt: new Date(Date.now() - 10 * 60 * 1000),
+          snoozedUntil: new Date(Date.now() - 1000),
+          currentLevel: 1
+        }
+      });
+
+      await escalationService.wakeSnoozedIncident(incident.id);
+
+      // Snoozed again before the resumed timer fired
+      await prisma.escalationJob.updateMany({
+        where: { incidentId: incident.id },
+        data: { completed: true, cancelledAt: new Date() }
+      });
+      await prisma.incident.update({
+        where: { id: incident.id },
+        data: { status: 'ACKNOWLEDGED', acknowledgedAt: new Date(), snoozedUntil: new Date(Date.now() - 1000) }
+      });
+
+      await escalationService.wakeSnoozedIncident(incident.id);
+
+      const jobs = await prisma.escalationJob.findMany({ where: { incidentId: incident.id } });
+      expect(jobs).toHaveLength(2);
+      expect(new Set(jobs.map(j => j.bullJobId)).size).toBe(2);
+      expect(jobs.filter(j => !j.completed)).toHaveLength(1);
+    });
+  });
 });
@@ -2,6 +2,8 @@ import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
 import { prisma } from '../config/database.js';
 import { incidentService } from '../services/incident.service.js';
 import { escalationPolicyService } from '../services/escalation-policy.service.js';
+import { incidentRoleService } from '../services/incidentRole.service.js';
+import { permissionService } from '../services/permission.service.js';
 
 describe('Incident Service', () => {
   let testTeam: any;
@@ -138,6 +140,45 @@ describe('Incident Service', () => {
     });
   });
 
+  describe('resolveIfAlertsResolved', () => {
+    const createAlert = (status: 'OPEN' | 'RESOLVED') => prisma.alert.create({
+      data: {
+        title: 'Recovering alert',
+        severity: 'HIGH',
+        status,
+        source: 'test',
+        triggeredAt: new Date(),
+        incidentId: testIncident.id
+      }
+    });
+
+    it('should resolve once every alert has recovered', async () => {
+      await createAlert('RESOLVED');
+      await createAlert('RESOLVED');
+
+      const resolved = await incidentService.resolveIfAlertsResolved(testIncident.id, 'datadog-test');
+      const incident = await prisma.incident.findUnique({ where: { id: testIncident.id } });
+
+      expect(resolved).toBe(true);
+      expect(incident?.status).toBe('RESOLVED');
+
+      await prisma.alert.deleteMany({ where: { incidentId: testIncident.id } });
+    });
+
+    it('should leave the incident open while alerts are still firing', async () => {
+      await createAlert('RESOLVED');
+      await createAlert('OPEN');
+
+      const resolved = await incidentService.resolveIfAlertsResolved(testIncident.id, 'datadog-test');
+      const incident = await prisma.incident.findUnique({ where: { id: testIncident.id } });
+
+      expect(resolved).toBe(false);
+      expect(incident?.status).toBe('OPEN');
+
+      await prisma.alert.deleteMany({ where: { incidentId: testIncident.id } });
+    });
+  });
+
   describe('reassign', () => {
     it('should update assignedUserId', async () => {
       const otherUser = await prisma.user.create({
@@ -183,6 +224,371 @@ describe('Incident Service', () => {
     });
   });
 
+  describe('merge', () => {
+    it('should move alerts into the target and resolve the absorbed incident', async () => {
+      const other = await prisma.incident.create({
+        data: {
+          fingerprint: `test-merge-fingerprint-${Date.now()}`,
+          status: 'OPEN',
+          priority: 'HIGH',
+          teamId: testTeam.id,
+          escalationPolicyId: testPolicy.id,
+          alertCount: 2
+        }
+      });
+      await prisma.alert.createMany({
+        data: [1, 2].map(n => ({
+          title: `Duplicate monitor ${n}`,
+          severity: 'HIGH' as const,
+          source: 'test',
+          triggeredAt: new Date(),
+          incidentId: other.id
+        }))
+      });
+
+      const result = await incidentService.merge(testIncident.id, [other.id], testUser.id);
+      expect(result.alertCount).toBe(testIncident.alertCount + 2);
+
+      const absorbed = await prisma.incident.findUniqueOrThrow({ where: { id: other.id } });
+      expect(absorbed.status).toBe('RESOLVED');
+      expect(absorbed.mergedIntoId).toBe(testIncident.id);
+      expect(await prisma.alert.count({ where: { incidentId: testIncident.id } })).toBe(2);
+
+      // The target's timeline includes the absorbed incident's events
+      const timeline = await incidentService.getTimeline(testIncident.id);
+      expect(timeline.map(e => e.action)).toEqual(
+        expect.arrayContaining(['incident.merged', 'incident.merged.into'])
+      );
+
+      await expect(
+        incidentService.merge(testIncident.id, [other.id], testUser.id)
+      ).rejects.toThrow('Cannot merge incident in RESOLVED status');
+
+      await prisma.alert.deleteMany({ where: { incidentId: testIncident.id } });
+      await prisma.auditEvent.deleteMany({ where: { resourceId: { in: [testIncident.id, other.id] } } });
+    });
+  });
+
+  describe('split', () => {
+    it('should move selected alerts into a new incident', async () => {
+      const alerts = await Promise.all(['LOW', 'CRITICAL', 'MEDIUM'].map(severity =>
+        prisma.alert.create({
+          data: {
+            title: `Split alert ${severity}`,
+            severity: severity as 'LOW' | 'CRITICAL' | 'MEDIUM',
+            source: 'test',
+            triggeredAt: new Date(),
+            incidentId: testIncident.id
+          }
+        })
+      ));
+      await prisma.incident.update({ where: { id: testIncident.id }, data: { alertCount: 3 } });
+
+      await expect(
+        incidentService.split(testIncident.id, alerts.map(a => a.id), testUser.id)
+      ).rejects.toThrow('Cannot split every alert');
+
+      const created = await incidentService.split(testIncident.id, [alerts[0].id, alerts[1].id], testUser.id);
+
+      expect(created.priority).toBe('CRITICAL');
+      expect(created.alertCount).toBe(2);
+      expect(created.teamId).toBe(testTeam.id);
+      expect(await prisma.alert.count({ where: { incidentId: created.id } })).toBe(2);
+
+      const source = await prisma.incident.findUniqueOrThrow({ where: { id: testIncident.id } });
+      expect(source.alertCount).toBe(1);
+
+      await prisma.alert.deleteMany({ where: { incidentId: { in: [testIncident.id, created.id] } } });
+      await prisma.escalationJob.deleteMany({ where: { incidentId: created.id } });
+      await prisma.notificationLog.deleteMany({ where: { incidentId: created.id } });
+    });
+  });
+
+  describe('update', () => {
+    it('should audit each changed field and re-page on priority upgrade', async () => {
+      await incidentService.update(testIncident.id, {
+        title: 'Checkout latency',
+        summary: 'p99 above 2s in eu-west',
+        priority: 'CRITICAL'
+      }, testUser.id);
+
+      const updated = await prisma.incident.findUniqueOrThrow({ where: { id: testIncident.id } });
+      expect(updated.title).toBe('Checkout latency');
+      expect(updated.summary).toBe('p99 above 2s in eu-west');
+      expect(updated.priority).toBe('CRITICAL');
+
+      const actions = (await incidentService.getTimeline(testIncident.id)).map(e => e.action);
+      expect(actions).toEqual(expect.arrayContaining([
+        'incident.title.updated',
+        'incident.summary.updated',
+        'incident.priority.updated',
+        'incident.escalation.repaged'
+      ]));
+
+      // Unchanged values are not audited again, and a downgrade does not page
+      await incidentService.update(testIncident.id, { title: 'Checkout latency', priority: 'LOW' }, testUser.id);
+      const timeline = await incidentService.getTimeline(testIncident.id);
+      expect(timeline.filter(e => e.action === 'incident.title.updated')).toHaveLength(1);
+      expect(timeline.filter(e => e.action === 'incident.escalation.repaged')).toHaveLength(1);
+
+      await prisma.notificationLog.deleteMany({ where: { incidentId: testIncident.id } });
+      await prisma.auditEvent.deleteMany({ where: { resourceId: testIncident.id } });
+    });
+
+    it('should re-page only the assignee on round-robin levels without moving the cursor', async () => {
+      const otherUser = await prisma.user.create({
+        data: { email: `incident-rr-${Date.now()}@example.com`, firstName: 'Other', lastName: 'User' }
+      });
+      await prisma.teamMember.create({
+        data: { userId: otherUser.id, teamId: testTeam.id, role: 'RESPONDER' }
+      });
+
+      const rrPolicy = await prisma.escalationPolicy.create({
+        data: {
+          teamId: testTeam.id,
+          name: 'Round Robin Policy',
+          levels: {
+            create: [{
+              levelNumber: 1,
+              targetType: 'entire_team',
+              assignmentStrategy: 'round_robin',
+              lastAssignedUserId: testUser.id
+            }]
+          }
+        },
+        include: { levels: true }
+      });
+
+      const incident = await prisma.incident.create({
+        data: {
+          fingerprint: `test-rr-fingerprint-${Date.now()}`,
+          status: 'OPEN',
+          priority: 'LOW',
+          teamId: testTeam.id,
+          escalationPolicyId: rrPolicy.id,
+          assignedUserId: testUser.id
+        }
+      });
+
+      await incidentService.update(incident.id, { priority: 'CRITICAL' }, testUser.id);
+
+      const repage = await prisma.auditEvent.findFirstOrThrow({
+        where: { resourceId: incident.id, action: 'incident.escalation.repaged' }
+      });
+      expect((repage.metadata as any).notifiedUserIds).toEqual([testUser.id]);
+
+      const level = await prisma.escalationLevel.findUniqueOrThrow({ where: { id: rrPolicy.levels[0].id } });
+      expect(level.lastAssignedUserId).toBe(testUser.id);
+
+      await prisma.notificationLog.deleteMany({ where: { incidentId: incident.id } });
+      await prisma.auditEvent.deleteMany({ where: { resourceId: incident.id } });
+      await prisma.incident.delete({ where: { id: incident.id } });
+      await prisma.escalationPolicy.delete({ where: { id: rrPolicy.id } });
+      await prisma.teamMember.deleteMany({ where: { userId: otherUser.id } });
+      await prisma.user.delete({ where: { id: otherUser.id } });
+    });
+
+    it('should reject priority changes on resolved incidents but allow title edits', async () => {
+      await prisma.incident.update({ where: { id: testIncident.id }, data: { status: 'RESOLVED' } });
+
+      await expect(
+        incidentService.update(testIncident.id, { priority: 'CRITICAL' }, testUser.id)
+      ).rejects.toThrow('Cannot change priority');
+
+      const updated = await incidentService.update(testIncident.id, { title: 'Postmortem title' }, testUser.id);
+      expect(updated.title).toBe('Postmortem title');
+
+      await expect(
+        incidentService.update(testIncident.id, { impactedServiceIds: ['missing-service'] }, testUser.id)
+      ).rejects.toThrow('must exist');
+
+      await prisma.auditEvent.deleteMany({ where: { resourceId: testIncident.id } });
+    });
+  });
+
+  describe('snooze', () => {
+    it('should acknowledge, schedule a wake-up and record the snooze on the timeline', async () => {
+      const snoozed = await incidentService.snooze(testIncident.id, testUser.id, 30, { source: 'web' });
+
+      expect(snoozed.status).toBe('ACKNOWLEDGED');
+      expect(snoozed.assignedUserId).toBe(testUser.id);
+      expect(snoozed.snoozedUntil.getTime()).toBeGreaterThan(Date.now() + 29 * 60 * 1000);
+
+      const jobs = await prisma.escalationJob.findMany({
+        where: { incidentId: testIncident.id, completed: false }
+      });
+      expect(jobs).toHaveLength(1);
+      expect(jobs[0].bullJobId).toContain('snooze');
+
+      const timeline = await incidentService.getTimeline(testIncident.id);
+      const event = timeline.find(e => e.action === 'incident.snoozed');
+      expect(event?.metadata).toMatchObject({ minutes: 30, previousStatus: 'OPEN', source: 'web' });
+
+      // Resolving cancels the pending wake-up and clears the snooze
+      await incidentService.resolve(testIncident.id, testUser.id, {});
+      const resolved = await prisma.incident.findUniqueOrThrow({ where: { id: testIncident.id } });
+      expect(resolved.snoozedUntil).toBeNull();
+      expect(await prisma.escalationJob.count({
+        where: { incidentId: testIncident.id, completed: false }
+      })).toBe(0);
+
+      await prisma.auditEvent.deleteMany({ where: { resourceId: testIncident.id } });
+    });
+
+    it('should reject out-of-range durations and inactive incidents', async () => {
+      await expect(
+        incidentService.snooze(testIncident.id, testUser.id, 1, {})
+      ).rejects.toThrow('Snooze duration');
+
+      await prisma.incident.update({ where: { id: testIncident.id }, data: { status: 'RESOLVED' } });
+      await expect(
+        incidentService.snooze(testIncident.id, testUser.id, 60, {})
+      ).rejects.toThrow('Cannot snooze');
+    });
+  });
+
+  describe('roles', () => {
+    const asAdmin = { canManageTeam: true };
+    const asResponder = { canManageTeam: false };
+
+    it('should replace the role holder and keep the history on the timeline', async () => {
+      const other = await prisma.user.create({
+        data: {
+          email: `incident-role-${Date.now()}@example.com`,
+          firstName: 'Other',
+          lastName: 'User'
+        }
+      });
+      await prisma.teamMember.create({
+        data: { userId: other.id, teamId: testTeam.id, role: 'RESPONDER' }
+      });
+
+      await incidentRoleService.assignRole(testIncident.id, 'INCIDENT_COMMANDER', testUser.id, testUser.id, asAdmin);
+      await expect(
+        incidentRoleService.assignRole(testIncident.id, 'INCIDENT_COMMANDER', testUser.id, testUser.id, asAdmin)
+      ).rejects.toThrow('already holds');
+      await incidentRoleService.assignRole(testIncident.id, 'INCIDENT_COMMANDER', other.id, testUser.id, asAdmin);
+
+      const active = await incidentRoleService.listActive(testIncident.id);
+      expect(active).toHaveLength(1);
+      expect(active[0].userId).toBe(other.id);
+
+      const history = await incidentRoleService.getHistory(testIncident.id);
+      expect(history).toHaveLength(2);
+      expect(history[0].removedAt).not.toBeNull();
+
+      const timeline = await incidentService.getTimeline(testIncident.id);
+      const assigned = timeline.filter(e => e.action === 'incident.role.assigned');
+      expect(assigned).toHaveLength(2);
+      expect(assigned[1].metadata).toMatchObject({ role: 'INCIDENT_COMMANDER', previousAssigneeId: testUser.id });
+
+      await prisma.incidentResponder.deleteMany({ where: { incidentId: testIncident.id } });
+      await prisma.auditEvent.deleteMany({ where: { resourceId: testIncident.id } });
+      await prisma.teamMember.deleteMany({ where: { userId: other.id } });
+      await prisma.user.delete({ where: { id: other.id } });
+    });
+
+    it('should add responders and remove them', async () => {
+      const assignment = await incidentRoleService.addResponder(testIncident.id, testUser.id, testUser.id);
+      expect(assignment.role).toBe('RESPONDER');
+
+      await expect(
+        incidentRoleService.addResponder(testIncident.id, testUser.id, testUser.id)
+      ).rejects.toThrow('already a responder');
+
+      await incidentRoleService.remove(testIncident.id, assignment.id, testUser.id, asAdmin);
+      expect(await incidentRoleService.listActive(testIncident.id)).toHaveLength(0);
+
+      const timeline = await incidentService.getTimeline(testIncident.id);
+      expect(timeline.map(e => e.action)).toEqual(
+        expect.arrayContaining(['incident.responder.added', 'incident.role.removed'])
+      );
+
+      await prisma.notificationLog.deleteMany({ where: { incidentId: testIncident.id } });
+      await prisma.incidentResponder.deleteMany({ where: { incidentId: testIncident.id } });
+      await prisma.auditEvent.deleteMany({ where: { resourceId: testIncident.id } });
+    });
+
+    it('should limit status page publishing to the IC and comms lead once named', async () => {
+      const user = { id: testUser.id, platformRole: 'USER', teamMembers: [{ teamId: testTeam.id, role: 'TEAM_ADMIN' }] } as any;
+
+      expect(permissionService.canPublishStatusUpdate(user, testTeam.id, []).allowed).toBe(true);
+
+      await incidentRoleService.assignRole(testIncident.id, 'SCRIBE', testUser.id, testUser.id, asAdmin);
+      expect(await incidentRoleService.getStatusPublisherIds(testIncident.id)).toEqual([]);
+
+      const commsLead = await prisma.user.create({
+        data: {
+          email: `incident-comms-${Date.now()}@example.com`,
+          firstName: 'Comms',
+          lastName: 'Lead'
+        }
+      });
+      await prisma.teamMember.create({
+        data: { userId: commsLead.id, teamId: testTeam.id, role: 'RESPONDER' }
+      });
+      await incidentRoleService.assignRole(testIncident.id, 'COMMS_LEAD', commsLead.id, testUser.id, asAdmin);
+
+      const publisherIds = await incidentRoleService.getStatusPublisherIds(testIncident.id);
+      expect(publisherIds).toEqual([commsLead.id]);
+      expect(permissionService.canPublishStatusUpdate(user, testTeam.id, publisherIds).allowed).toBe(false);
+
+      await prisma.incidentResponder.deleteMany({ where: { incidentId: testIncident.id } });
+      await prisma.auditEvent.deleteMany({ where: { resourceId: testIncident.id } });
+      await prisma.teamMember.deleteMany({ where: { userId: commsLead.id } });
+      await prisma.user.delete({ where: { id: commsLead.id } });
+    });
+    it('should only let team admins or the current holder hand over the IC role', async () => {
+      const other = await prisma.user.create({
+        data: {
+          email: `incident-role-member-${Date.now()}@example.com`,
+          firstName: 'Other',
+          lastName: 'User'
+        }
+      });
+      await prisma.teamMember.create({
+        data: { userId: other.id, teamId: testTeam.id, role: 'RESPONDER' }
+      });
+      const outsider = await prisma.user.create({
+        data: {
+          email: `incident-role-outsider-${Date.now()}@example.com`,
+          firstName: 'Outside',
+          lastName: 'User'
+        }
+      });
+
+      await expect(
+        incidentRoleService.assignRole(testIncident.id, 'INCIDENT_COMMANDER', other.id, other.id, asResponder)
+      ).rejects.toThrow('Only team admins or the current holder');
+
+      await incidentRoleService.assignRole(testIncident.id, 'INCIDENT_COMMANDER', testUser.id, testUser.id, asAdmin);
+
+      // A responder can't take the role over, but the holder can hand it on
+      await expect(
+        incidentRoleService.assignRole(testIncident.id, 'INCIDENT_COMMANDER', other.id, other.id, asResponder)
+      ).rejects.toThrow('Only team admins or the current holder');
+      await incidentRoleService.assignRole(testIncident.id, 'INCIDENT_COMMANDER', other.id, testUser.id, asResponder);
+
+      // Scribe carries no publishing rights, so any responder can assign it
+      await incidentRoleService.assignRole(testIncident.id, 'SCRIBE', testUser.id, other.id, asResponder);
+
+      await expect(
+        incidentRoleService.assignRole(testIncident.id, 'COMMS_LEAD', outsider.id, testUser.id, asAdmin)
+      ).rejects.toThrow('must be a member of the incident team');
+
+      const active = await incidentRoleService.listActive(testIncident.id);
+      expect(active.map(a => [a.role, a.userId])).toEqual([
+        ['INCIDENT_COMMANDER', other.id],
+        ['SCRIBE', testUser.id]
+      ]);
+
+      await prisma.incidentResponder.deleteMany({ where: { incidentId: testIncident.id } });
+      await prisma.auditEvent.deleteMany({ where: { resourceId: testIncident.id } });
+      await prisma.teamMember.deleteMany({ where: { userId: other.id } });
+      await prisma.user.deleteMany({ where: { id: { in: [other.id, outsider.id] } } });
+    });
+  });
+
   describe('list', () => {
     it('should filter by team', async () => {
       const result = await incidentService.list({ teamId: testTeam.id });
@@ -214,6 +214,139 @@ describe('Integration Management API', () => {
     });
   });
 
+  describe('POST /api/integrations/:id/deliveries/replay', () => {
+    it('should require delivery IDs or a filter', async () => {
+      const res = await request(app)
+        .post(`/api/integrations/${testIntegrationId}/deliveries/replay`)
+        .set('Cookie', adminSessionCookie)
+        .send({ dryRun: true });
+
+      expect(res.status).toBe(400);
+    });
+
+    it('should dry-run a stored delivery without writing', async () => {
+      const delivery = await prisma.webhookDelivery.create({
+        data: {
+          integrationId: testIntegrationId,
+          contentFingerprint: 'replay-dry-run',
+          rawPayload: {
+            alert_id: 'dd-replay-1',
+            alert_title: 'Replayed alert',
+            alert_status: 'alert',
+            alert_priority: 'P2',
+            event_msg: 'Stored payload',
+            date: Math.floor(Date.now() / 1000)
+          },
+          headers: {},
+          statusCode: 400,
+          errorMessage: 'Validation failed',
+          processedAt: new Date()
+        }
+      });
+
+      const res = await request(app)
+        .post(`/api/integrations/${testIntegrationId}/deliveries/replay`)
+        .set('Cookie', adminSessionCookie)
+        .send({ deliveryIds: [delivery.id], dryRun: true });
+
+      expect(res.status).toBe(200);
+      expect(res.body.dryRun).toBe(true);
+      expect(res.body.results[0].statusCode).toBe(200);
+      expect(res.body.results[0].alerts[0].title).toBe('[DataDog] Replayed alert');
+
+      const replays = await prisma.webhookDelivery.count({ where: { replayOfId: delivery.id } });
+      expect(replays).toBe(0);
+    });
+
+    it('should report deliveries a suppression window would swallow', async () => {
+      const admin = await prisma.user.findUniqueOrThrow({ where: { email: 'admin@test.com' } });
+      const team = await prisma.team.create({ data: { name: `replay-team-${Date.now()}` } });
+      const service = await prisma.service.create({
+        data: { name: 'Replay Service', routingKey: `replay-${Date.now()}`, teamId: team.id }
+      });
+      await prisma.integration.update({
+        where: { id: testIntegrationId },
+        data: { defaultServiceId: service.id }
+      });
+      const window = await prisma.suppressionWindow.create({
+        data: {
+          name: 'Deploy',
+          teamId: team.id,
+          createdById: admin.id,
+          startTime: new Date(Date.now() - 60 * 60 * 1000),
+          endTime: new Date(Date.now() + 60 * 60 * 1000),
+          integrationIds: [testIntegrationId]
+        }
+      });
+
+      const delivery = await prisma.webhookDelivery.create({
+        data: {
+          integrationId: testIntegrationId,
+          contentFingerprint: 'replay-suppressed',
+          rawPayload: {
+            alert_id: 'dd-replay-2',
+            alert_title: 'Deploy noise',
+            alert_status: 'alert',
+            alert_priority: 'P2',
+            event_msg: 'Stored payload',
+            date: Math.floor(Date.now() / 1000)
+          },
+          headers: {},
+          statusCode: 400,
+          processedAt: new Date()
+        }
+      });
+
+      try {
+        const res = await request(app)
+          .post(`/api/integrations/${testIntegrationId}/deliveries/replay`)
+          .set('Cookie', adminSessionCookie)
+          .send({ deliveryIds: [delivery.id], dryRun: true });
+
+        expect(res.status).toBe(200);
+        expect(res.body.results[0].alerts[0]).toMatchObject({
+          outcome: 'suppressed',
+          reason: 'suppression_window',
+          suppressionWindowId: window.id
+        });
+      } finally {
+        await prisma.integration.update({
+          where: { id: testIntegrationId },
+          data: { defaultServiceId: null }
+        });
+        await prisma.suppressionWindow.delete({ where: { id: window.id } });
+        await prisma.service.delete({ where: { id: service.id } });
+        await prisma.team.delete({ where: { id: team.id } });
+      }
+    });
+
+    it('should record a new delivery linked to the original', async () => {
+      const delivery = await prisma.webhookDelivery.create({
+        data: {
+          integrationId: testIntegrationId,
+          contentFingerprint: 'replay-invalid',
+          rawPayload: { unexpected: true },
+          headers: {},
+          statusCode: 400,
+          processedAt: new Date()
+        }
+      });
+
+      const res = await request(app)
+        .post(`/api/integrations/${testIntegrationId}/deliveries/replay`)
+        .set('Cookie', adminSessionCookie)
+        .send({ deliveryIds: [delivery.id] });
+
+      expect(res.status).toBe(200);
+      expect(res.body.results[0].statusCode).toBe(400);
+
+      const replay = await prisma.webhookDelivery.findUnique({
+        where: { id: res.body.results[0].replayDeliveryId }
+      });
+      expect(replay?.replayOfId).toBe(delivery.id);
+    });
+  });
+
   describe('DELETE /api/integrations/:id', () => {
     it('should delete integration', async () => {
       // Create integration to delete
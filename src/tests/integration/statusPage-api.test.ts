@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import { app } from '../../index.js';
+import { prisma } from '../../config/database.js';
+import bcrypt from 'bcrypt';
+
+describe('Status Page API', () => {
+  let responderCookie: string;
+  let responder: any;
+  let ownTeam: any;
+  let otherTeam: any;
+  let policy: any;
+  let incident: any;
+  let otherStatusPage: any;
+
+  beforeAll(async () => {
+    responder = await prisma.user.upsert({
+      where: { email: 'status-api-responder@test.com' },
+      update: {},
+      create: {
+        email: 'status-api-responder@test.com',
+        firstName: 'Status',
+        lastName: 'Responder',
+        platformRole: 'USER',
+        isBreakGlassAccount: true,
+        passwordHash: await bcrypt.hash('testpass123', 10)
+      }
+    });
+
+    ownTeam = await prisma.team.create({ data: { name: 'status-api-own-team' } });
+    otherTeam = await prisma.team.create({ data: { name: 'status-api-other-team' } });
+
+    await prisma.teamMember.create({
+      data: { userId: responder.id, teamId: ownTeam.id, role: 'RESPONDER' }
+    });
+
+    policy = await prisma.escalationPolicy.create({
+      data: { teamId: ownTeam.id, name: 'Status API Policy' }
+    });
+
+    // Responder is incident commander on their own team's incident
+    incident = await prisma.incident.create({
+      data: {
+        fingerprint: 'status-api-fp',
+        teamId: ownTeam.id,
+        escalationPolicyId: policy.id,
+        status: 'OPEN',
+        priority: 'HIGH'
+      }
+    });
+
+    await prisma.incidentResponder.create({
+      data: { incidentId: incident.id, userId: responder.id, role: 'INCIDENT_COMMANDER' }
+    });
+
+    otherStatusPage = await prisma.statusPage.create({
+      data: {
+        name: 'Other Team Status',
+        slug: 'status-api-other-team',
+        teamId: otherTeam.id,
+        createdById: responder.id
+      }
+    });
+
+    const authRes = await request(app)
+      .post('/api/auth/emergency')
+      .send({ email: 'status-api-responder@test.com', password: 'testpass123' });
+
+    responderCookie = authRes.headers['set-cookie']?.[0] || '';
+  });
+
+  afterAll(async () => {
+    await prisma.statusIncident.deleteMany({ where: { statusPageId: otherStatusPage?.id } });
+    await prisma.statusPage.deleteMany({ where: { id: otherStatusPage?.id } });
+    await prisma.incidentResponder.deleteMany({ where: { incidentId: incident?.id } });
+    await prisma.incident.deleteMany({ where: { id: incident?.id } });
+    await prisma.escalationPolicy.deleteMany({ where: { id: policy?.id } });
+    await prisma.teamMember.deleteMany({ where: { userId: responder?.id } });
+    await prisma.team.deleteMany({ where: { id: { in: [ownTeam?.id, otherTeam?.id] } } });
+    await prisma.session.deleteMany({
+      where: { sess: { path: ['userId'], equals: responder?.id } }
+    });
+    await prisma.user.deleteMany({ where: { email: 'status-api-responder@test.com' } });
+  });
+
+  describe('POST /api/status-pages/:id/incidents', () => {
+    it('rejects linking an incident from another team', async () => {
+      const res = await request(app)
+        .post(`/api/status-pages/${otherStatusPage.id}/incidents`)
+        .set('Cookie', responderCookie)
+        .send({
+          title: 'Degraded performance',
+          severity: 'MINOR',
+          incidentId: incident.id
+        });
+
+      expect(res.status).toBe(400);
+      expect(await prisma.statusIncident.count({ where: { statusPageId: otherStatusPage.id } })).toBe(0);
+    });
+
+    it('still requires team admin without a linked incident', async () => {
+      const res = await request(app)
+        .post(`/api/status-pages/${otherStatusPage.id}/incidents`)
+        .set('Cookie', responderCookie)
+        .send({ title: 'Degraded performance', severity: 'MINOR' });
+
+      expect(res.status).toBe(403);
+    });
+  });
+});
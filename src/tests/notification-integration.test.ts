@@ -273,4 +273,43 @@ describe('Notification Integration', () => {
       expect(criticalFailed).toBe(false);
     });
   });
+
+  describe('Notification Rules', () => {
+    it('should replace rules and quiet hours', async () => {
+      const { notificationRuleService } = await import('../services/notificationRule.service.js');
+
+      await notificationRuleService.replace(
+        testUser.id,
+        [
+          { priority: 'HIGH', channel: 'PUSH', delayMinutes: 0 },
+          { priority: 'HIGH', channel: 'SMS', delayMinutes: 2 },
+          { priority: 'HIGH', channel: 'VOICE', delayMinutes: 5 }
+        ],
+        { timezone: 'Europe/Berlin', start: '22:00', end: '07:00' }
+      );
+
+      const replaced = await notificationRuleService.replace(
+        testUser.id,
+        [{ priority: 'CRITICAL', channel: 'VOICE', delayMinutes: 0 }],
+        null
+      );
+
+      expect(replaced.rules).toHaveLength(1);
+      expect(replaced.rules[0].channel).toBe('VOICE');
+      expect(replaced.quietHours).toBeNull();
+    });
+
+    it('should reject duplicate rules', async () => {
+      const { notificationRuleService } = await import('../services/notificationRule.service.js');
+
+      await expect(notificationRuleService.replace(
+        testUser.id,
+        [
+          { priority: 'HIGH', channel: 'SMS', delayMinutes: 0 },
+          { priority: 'HIGH', channel: 'SMS', delayMinutes: 5 }
+        ],
+        null
+      )).rejects.toThrow('Duplicate rule');
+    });
+  });
 });
@@ -143,7 +143,7 @@ describe('Notification System', () => {
       const actionsBlock = blocks.find((b: any) => b.type === 'actions');
 
       expect(actionsBlock).toBeDefined();
-      expect(actionsBlock.elements).toHaveLength(3);  // Acknowledge, Resolve, View Dashboard
+      expect(actionsBlock.elements).toHaveLength(4);  // Acknowledge, Resolve, Snooze, View Dashboard
     });
 
     it('should use correct color for priority', () => {
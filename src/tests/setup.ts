@@ -57,6 +57,8 @@ export async function cleanupTestData() {
   await prisma.escalationLevel.deleteMany({});
   await prisma.escalationPolicy.deleteMany({});
   await prisma.integration.deleteMany({});
+  await prisma.suppressionWindow.deleteMany({});
+  await prisma.alertGroupingRule.deleteMany({});
 
   // Phase 3: Schedule cleanup
   await prisma.scheduleOverride.deleteMany({});
@@ -70,6 +72,8 @@ export async function cleanupTestData() {
   await prisma.notificationPreference.deleteMany({});
   await prisma.refreshToken.deleteMany({});
   await prisma.userDevice.deleteMany({});
+  await prisma.webAuthnCredential.deleteMany({});
+  await prisma.webAuthnChallenge.deleteMany({});
   await prisma.session.deleteMany({});
   await prisma.team.deleteMany({});
   await prisma.user.deleteMany({});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { getRequiredScope } from '../../middleware/apiKeyAuth.js';
+import { apiKeyService } from '../../services/apiKey.service.js';
+
+describe('API key route scopes', () => {
+  it('maps reads and writes to the route scope', () => {
+    expect(getRequiredScope('GET', '/incidents')).toBe('incidents:read');
+    expect(getRequiredScope('GET', '/incidents/abc/timeline')).toBe('incidents:read');
+    expect(getRequiredScope('POST', '/incidents/abc/acknowledge')).toBe('incidents:write');
+    expect(getRequiredScope('PATCH', '/incidents/abc')).toBe('incidents:write');
+    expect(getRequiredScope('GET', '/schedules/abc/oncall')).toBe('schedules:read');
+    expect(getRequiredScope('DELETE', '/escalation-policies/abc')).toBe('admin:write');
+  });
+
+  it('rejects routes keys cannot use', () => {
+    expect(getRequiredScope('POST', '/keys')).toBeNull();
+    expect(getRequiredScope('GET', '/auth/me')).toBeNull();
+    // Prefix must match a whole path segment
+    expect(getRequiredScope('GET', '/incidentsx')).toBeNull();
+    // Read-only prefixes have no write scope
+    expect(getRequiredScope('POST', '/oncall')).toBeNull();
+  });
+
+  it('lets a write scope satisfy the matching read scope', () => {
+    const apiKey = { scopes: ['incidents:write'] };
+    expect(apiKeyService.hasScope(apiKey, 'incidents:write')).toBe(true);
+    expect(apiKeyService.hasScope(apiKey, 'incidents:read')).toBe(true);
+    expect(apiKeyService.hasScope(apiKey, 'schedules:read')).toBe(false);
+  });
+});
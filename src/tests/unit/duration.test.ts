@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { formatDurationMinutes, parseDurationMinutes } from '../../utils/duration.js';
+
+describe('Duration parsing', () => {
+  it('parses minutes, hours and combinations', () => {
+    expect(parseDurationMinutes('30m')).toBe(30);
+    expect(parseDurationMinutes('2h')).toBe(120);
+    expect(parseDurationMinutes('1h30m')).toBe(90);
+    expect(parseDurationMinutes('snooze 2 hours')).toBe(120);
+    expect(parseDurationMinutes('SNOOZE 45 mins')).toBe(45);
+  });
+
+  it('requires a unit so incident numbers are not read as durations', () => {
+    expect(parseDurationMinutes('snooze 123456')).toBeNull();
+    expect(parseDurationMinutes('snooze 123456 1h')).toBe(60);
+    expect(parseDurationMinutes('snooze')).toBeNull();
+  });
+
+  it('formats minutes for replies', () => {
+    expect(formatDurationMinutes(45)).toBe('45m');
+    expect(formatDurationMinutes(120)).toBe('2h');
+    expect(formatDurationMinutes(90)).toBe('1h 30m');
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { groupingRuleService, titleSimilarity } from '../../services/groupingRule.service.js';
+
+describe('Grouping rule keys', () => {
+  const target = {
+    serviceId: 'svc-payments',
+    integrationId: 'int-prometheus',
+    title: 'Node 12 not ready',
+    metadata: { routing_key: 'payments', labels: { cluster: 'prod-eu', host: 'node-12' } }
+  };
+
+  it('requires every set scope to match', () => {
+    expect(groupingRuleService.matchesScope({ serviceId: 'svc-payments', integrationId: null }, target)).toBe(true);
+    expect(groupingRuleService.matchesScope({ serviceId: 'svc-payments', integrationId: 'int-other' }, target)).toBe(false);
+    expect(groupingRuleService.matchesScope({ serviceId: null, integrationId: null }, target)).toBe(false);
+  });
+
+  it('groups by metadata keys with dot notation', () => {
+    const rule = { id: 'rule-1', strategy: 'metadata_keys', metadataKeys: ['labels.cluster'] };
+    const sameCluster = { metadata: { labels: { cluster: 'prod-eu', host: 'node-3' } } };
+    const otherCluster = { metadata: { labels: { cluster: 'prod-us' } } };
+
+    const key = groupingRuleService.buildGroupKey(rule, target);
+    expect(key).toMatch(/^rule-1:/);
+    expect(groupingRuleService.buildGroupKey(rule, sameCluster)).toBe(key);
+    expect(groupingRuleService.buildGroupKey(rule, otherCluster)).not.toBe(key);
+  });
+
+  it('does not apply when a grouping key is missing', () => {
+    const rule = { id: 'rule-1', strategy: 'metadata_keys', metadataKeys: ['labels.rack'] };
+    expect(groupingRuleService.buildGroupKey(rule, target)).toBeNull();
+
+    const byRoutingKey = { id: 'rule-2', strategy: 'routing_key', metadataKeys: [] };
+    expect(groupingRuleService.buildGroupKey(byRoutingKey, { metadata: {} })).toBeNull();
+    expect(groupingRuleService.buildGroupKey(byRoutingKey, target)).toMatch(/^rule-2:/);
+  });
+});
+
+describe('Title similarity', () => {
+  it('treats titles differing only by numbers as identical', () => {
+    expect(titleSimilarity('Node 12 not ready', 'Node 7 not ready')).toBe(1);
+  });
+
+  it('scores partially overlapping titles between 0 and 1', () => {
+    const score = titleSimilarity('High CPU on api-server', 'High memory on api-server');
+    expect(score).toBeGreaterThan(0.5);
+    expect(score).toBeLessThan(1);
+    expect(titleSimilarity('Disk full', 'Certificate expiring')).toBe(0);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeMappedPayload, mappingConfigSchema } from '../../webhooks/schemas/mapping.schema.js';
+import { evaluateJsonPath } from '../../utils/json-path.js';
+
+describe('JSONPath evaluation', () => {
+  const data = {
+    alert: { name: 'Disk full', 'host-name': 'db-1' },
+    alerts: [{ id: 'a1' }, { id: 'a2' }]
+  };
+
+  it('resolves dot, bracket and index segments', () => {
+    expect(evaluateJsonPath(data, '$.alert.name')).toBe('Disk full');
+    expect(evaluateJsonPath(data, "$.alert['host-name']")).toBe('db-1');
+    expect(evaluateJsonPath(data, '$.alerts[0].id')).toBe('a1');
+    expect(evaluateJsonPath(data, '$.alerts[-1].id')).toBe('a2');
+  });
+
+  it('returns undefined for missing paths', () => {
+    expect(evaluateJsonPath(data, '$.alert.missing.deeper')).toBeUndefined();
+    expect(evaluateJsonPath(data, '$.alerts[5].id')).toBeUndefined();
+  });
+
+  it('rejects unsupported syntax', () => {
+    expect(() => evaluateJsonPath(data, '$..name')).toThrow('Invalid JSONPath');
+    expect(() => evaluateJsonPath(data, '$.alerts[*]')).toThrow('Invalid JSONPath');
+  });
+});
+
+describe('Mapping normalizer', () => {
+  const payload = {
+    check: { name: 'API latency', id: 'chk-42', level: 'crit' },
+    env: 'prod',
+    service: 'payments',
+    fired_at: 1700000000,
+    state: 'alerting'
+  };
+
+  const config = {
+    title: '[{{uppercase env}}] {{check.name}}',
+    description: 'Check {{check.id}} is {{state}}',
+    severity: '$.check.level',
+    severityMap: { crit: 'CRITICAL' as const },
+    externalId: '$.check.id',
+    routingKey: '$.service',
+    timestamp: '$.fired_at',
+    resolveCondition: { expression: '$.state', equals: ['ok', 'resolved'] }
+  };
+
+  it('maps fields with JSONPath and templates', () => {
+    const result = normalizeMappedPayload(payload, 'custom-monitor', config);
+
+    expect(result.title).toBe('[PROD] API latency');
+    expect(result.description).toBe('Check chk-42 is alerting');
+    expect(result.severity).toBe('CRITICAL');
+    expect(result.externalId).toBe('chk-42');
+    expect(result.triggeredAt.toISOString()).toBe('2023-11-14T22:13:20.000Z');
+    expect(result.source).toBe('custom-monitor');
+    expect(result.action).toBe('trigger');
+    expect(result.metadata.provider).toBe('custom');
+    expect(result.metadata.routing_key).toBe('payments');
+    expect(result.metadata.raw).toEqual(payload);
+  });
+
+  it('falls back to standard severity aliases and MEDIUM', () => {
+    const warning = normalizeMappedPayload({ ...payload, check: { ...payload.check, level: 'P2' } }, 'x', config);
+    expect(warning.severity).toBe('HIGH');
+
+    const missing = normalizeMappedPayload(payload, 'x', { title: '$.check.name' });
+    expect(missing.severity).toBe('MEDIUM');
+  });
+
+  it('marks payloads matching the resolve condition as resolve', () => {
+    const result = normalizeMappedPayload({ ...payload, state: 'OK' }, 'x', config);
+    expect(result.action).toBe('resolve');
+  });
+
+  it('rejects an empty title and invalid timestamps', () => {
+    expect(() => normalizeMappedPayload({}, 'x', { title: '$.missing' })).toThrow('empty title');
+    expect(() => normalizeMappedPayload({ at: 'yesterday' }, 'x', { title: 'Static', timestamp: '$.at' }))
+      .toThrow('not an ISO-8601 or Unix timestamp');
+  });
+
+  it('validates expressions in the config', () => {
+    expect(mappingConfigSchema.safeParse({ title: '{{#if}}' }).success).toBe(false);
+    expect(mappingConfigSchema.safeParse({ title: '$..name' }).success).toBe(false);
+    expect(mappingConfigSchema.safeParse({ title: '$.name', severityMap: { x: 'URGENT' } }).success).toBe(false);
+    expect(mappingConfigSchema.safeParse(config).success).toBe(true);
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect } from 'vitest';
 import { normalizeDatadogPayload } from '../../webhooks/schemas/datadog.schema.js';
 import { normalizeNewRelicPayload } from '../../webhooks/schemas/newrelic.schema.js';
+import { normalizeAlertmanagerPayload } from '../../webhooks/schemas/alertmanager.schema.js';
+import { normalizeEventsV2Payload } from '../../webhooks/schemas/events.schema.js';
 
 describe('DataDog Normalizer', () => {
   it('normalizes basic DataDog payload', () => {
@@ -162,6 +164,38 @@ describe('DataDog Normalizer', () => {
     const result = normalizeDatadogPayload(payload, 'test');
     expect(result.triggeredAt).toEqual(new Date(timestamp * 1000));
   });
+
+  it('emits a resolve signal for recovery transitions', () => {
+    const payload = {
+      alert_id: 'dd-1',
+      alert_title: 'High CPU Usage',
+      alert_priority: 'P2',
+      alert_status: 'ok',
+      alert_transition: 'Recovered',
+      event_msg: 'CPU back to normal',
+      date: Date.now() / 1000
+    };
+
+    const result = normalizeDatadogPayload(payload, 'test');
+    expect(result.action).toBe('resolve');
+    expect(result.externalId).toBe('dd-1');
+    expect(result.metadata.datadog.transition).toBe('Recovered');
+  });
+
+  it('treats alert transitions as triggers', () => {
+    const payload = {
+      alert_id: 'dd-1',
+      alert_title: 'High CPU Usage',
+      alert_priority: 'P2',
+      alert_status: 'alert',
+      alert_transition: 'Triggered',
+      event_msg: 'CPU above 90%',
+      date: Date.now() / 1000
+    };
+
+    const result = normalizeDatadogPayload(payload, 'test');
+    expect(result.action).toBe('trigger');
+  });
 });
 
 describe('New Relic Normalizer', () => {
@@ -386,4 +420,190 @@ describe('New Relic Normalizer', () => {
     expect(result.metadata.newrelic.incident_url).toBe('https://rpm.newrelic.com/incidents/456');
     expect(result.metadata.newrelic.state).toBe('acknowledged');
   });
+
+  it('emits a resolve signal when the issue is closed', () => {
+    const payload = {
+      id: 'nr-1',
+      title: 'Error rate elevated',
+      priority: 'HIGH',
+      state: 'closed',
+      message: 'Error rate back below threshold',
+      timestamp: new Date().toISOString()
+    };
+
+    const result = normalizeNewRelicPayload(payload, 'test');
+    expect(result.action).toBe('resolve');
+    expect(result.externalId).toBe('nr-1');
+  });
+});
+
+describe('Alertmanager Normalizer', () => {
+  const basePayload = {
+    version: '4',
+    groupKey: '{}:{alertname="HighLatency"}',
+    status: 'firing',
+    receiver: 'oncall',
+    groupLabels: { alertname: 'HighLatency' },
+    commonLabels: { alertname: 'HighLatency', job: 'checkout' },
+    commonAnnotations: {},
+    externalURL: 'http://alertmanager:9093',
+    alerts: [
+      {
+        status: 'firing',
+        labels: { alertname: 'HighLatency', job: 'checkout', instance: 'web-1', severity: 'critical' },
+        annotations: { summary: 'p99 latency above 2s on web-1', description: 'Latency is 3.1s' },
+        startsAt: '2024-01-01T00:00:00Z',
+        endsAt: '0001-01-01T00:00:00Z',
+        generatorURL: 'http://prometheus:9090/graph',
+        fingerprint: 'a1b2c3d4e5f60718'
+      },
+      {
+        status: 'resolved',
+        labels: { alertname: 'HighLatency', job: 'checkout', instance: 'web-2', severity: 'warning' },
+        annotations: {},
+        startsAt: '2024-01-01T00:00:00Z',
+        endsAt: '2024-01-01T00:10:00Z',
+        fingerprint: 'f0e1d2c3b4a59687'
+      }
+    ]
+  };
+
+  it('fans out one alert per group entry', () => {
+    const result = normalizeAlertmanagerPayload(basePayload, 'prometheus-prod');
+
+    expect(result).toHaveLength(2);
+    expect(result[0].title).toBe('[Prometheus] p99 latency above 2s on web-1');
+    expect(result[0].description).toBe('Latency is 3.1s');
+    expect(result[0].source).toBe('prometheus-prod');
+    expect(result[0].triggeredAt.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    expect(result[0].metadata.provider).toBe('alertmanager');
+    expect(result[0].metadata.service).toBe('checkout');
+    expect(result[0].metadata.labels.instance).toBe('web-1');
+    expect(result[0].metadata.alertmanager.groupKey).toBe('{}:{alertname="HighLatency"}');
+  });
+
+  it('maps severity labels', () => {
+    const result = normalizeAlertmanagerPayload(basePayload, 'test');
+    expect(result[0].severity).toBe('CRITICAL');
+    expect(result[1].severity).toBe('MEDIUM');
+  });
+
+  it('defaults missing severity label to MEDIUM', () => {
+    const payload = {
+      ...basePayload,
+      alerts: [{ ...basePayload.alerts[0], labels: { alertname: 'NoSeverity' } }]
+    };
+
+    const result = normalizeAlertmanagerPayload(payload, 'test');
+    expect(result[0].severity).toBe('MEDIUM');
+  });
+
+  it('uses the alert fingerprint as external ID and dedup key', () => {
+    const result = normalizeAlertmanagerPayload(basePayload, 'test');
+    expect(result[0].externalId).toBe('a1b2c3d4e5f60718');
+    expect(result[0].dedupKey).toBe('a1b2c3d4e5f60718');
+  });
+
+  it('derives a stable fingerprint from labels when missing', () => {
+    const { fingerprint: _, ...entry } = basePayload.alerts[0];
+    const payload = { ...basePayload, alerts: [entry] };
+
+    const first = normalizeAlertmanagerPayload(payload, 'test');
+    const second = normalizeAlertmanagerPayload(payload, 'test');
+    expect(first[0].externalId).toBeTruthy();
+    expect(first[0].externalId).toBe(second[0].externalId);
+  });
+
+  it('marks resolved entries as resolve signals', () => {
+    const result = normalizeAlertmanagerPayload(basePayload, 'test');
+    expect(result[0].action).toBe('trigger');
+    expect(result[1].action).toBe('resolve');
+    expect(result[1].externalId).toBe('f0e1d2c3b4a59687');
+  });
+
+  it('falls back to alertname for the title', () => {
+    const result = normalizeAlertmanagerPayload(basePayload, 'test');
+    expect(result[1].title).toBe('[Prometheus] HighLatency');
+  });
+
+  it('rejects payloads without alerts', () => {
+    expect(() => normalizeAlertmanagerPayload({ status: 'firing', alerts: [] }, 'test')).toThrow();
+  });
+
+  it('accepts offset start times and rejects malformed ones', () => {
+    const withStart = (startsAt: string) => ({ ...basePayload, alerts: [{ ...basePayload.alerts[0], startsAt }] });
+
+    const result = normalizeAlertmanagerPayload(withStart('2024-01-01T02:00:00.123456789+02:00'), 'test');
+    expect(result[0].triggeredAt.toISOString()).toBe('2024-01-01T00:00:00.123Z');
+    expect(() => normalizeAlertmanagerPayload(withStart('yesterday'), 'test')).toThrow();
+  });
+});
+
+describe('Events API v2 Normalizer', () => {
+  const triggerEvent = {
+    routing_key: 'checkout-api',
+    event_action: 'trigger',
+    dedup_key: 'checkout-5xx',
+    payload: {
+      summary: 'Checkout 5xx rate above 5%',
+      source: 'lb-1',
+      severity: 'critical',
+      timestamp: '2024-01-01T00:00:00.000+00:00',
+      component: 'checkout',
+      custom_details: { rate: '7.2%' }
+    }
+  };
+
+  it('normalizes a trigger event', () => {
+    const result = normalizeEventsV2Payload(triggerEvent);
+
+    expect(result.action).toBe('trigger');
+    expect(result.routingKey).toBe('checkout-api');
+    expect(result.dedupKey).toBe('checkout-5xx');
+    expect(result.alert?.title).toBe('Checkout 5xx rate above 5%');
+    expect(result.alert?.source).toBe('lb-1');
+    expect(result.alert?.externalId).toBe('checkout-5xx');
+    expect(result.alert?.triggeredAt.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    expect(result.alert?.metadata.routing_key).toBe('checkout-api');
+    expect(result.alert?.metadata.component).toBe('checkout');
+    expect(result.alert?.metadata.custom_details).toEqual({ rate: '7.2%' });
+  });
+
+  it('maps severities', () => {
+    const severityOf = (severity: string) =>
+      normalizeEventsV2Payload({ ...triggerEvent, payload: { ...triggerEvent.payload, severity } }).alert?.severity;
+
+    expect(severityOf('critical')).toBe('CRITICAL');
+    expect(severityOf('error')).toBe('HIGH');
+    expect(severityOf('warning')).toBe('MEDIUM');
+    expect(severityOf('info')).toBe('INFO');
+  });
+
+  it('generates a dedup key for triggers without one', () => {
+    const { dedup_key: _dedupKey, ...withoutKey } = triggerEvent;
+    const result = normalizeEventsV2Payload(withoutKey);
+
+    expect(result.dedupKey).toBeTruthy();
+    expect(result.alert?.externalId).toBe(result.dedupKey);
+  });
+
+  it('requires a dedup key for acknowledge and resolve', () => {
+    expect(() => normalizeEventsV2Payload({ routing_key: 'checkout-api', event_action: 'resolve' })).toThrow();
+    expect(normalizeEventsV2Payload({
+      routing_key: 'checkout-api',
+      event_action: 'acknowledge',
+      dedup_key: 'checkout-5xx'
+    })).toEqual({ action: 'acknowledge', routingKey: 'checkout-api', dedupKey: 'checkout-5xx' });
+  });
+
+  it('requires a payload for trigger events', () => {
+    expect(() => normalizeEventsV2Payload({ routing_key: 'checkout-api', event_action: 'trigger' })).toThrow();
+  });
+
+  it('rejects unknown severities', () => {
+    expect(() => normalizeEventsV2Payload({
+      ...triggerEvent,
+      payload: { ...triggerEvent.payload, severity: 'urgent' }
+    })).toThrow();
+  });
 });
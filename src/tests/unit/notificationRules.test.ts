@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { notificationRuleService } from '../../services/notificationRule.service.js';
+
+describe('Notification rules', () => {
+  // 22:00-07:00 in Berlin (UTC+2 in summer)
+  const overnight = { timezone: 'Europe/Berlin', start: '22:00', end: '07:00' };
+
+  it('holds non-critical pages until quiet hours end', () => {
+    // 2026-07-15 21:30 UTC = 23:30 Berlin -> released 07:00 Berlin next day
+    const held = notificationRuleService.heldUntil(overnight, 'HIGH', new Date('2026-07-15T21:30:00Z'));
+    expect(held?.toISOString()).toBe('2026-07-16T05:00:00.000Z');
+
+    // 2026-07-16 03:00 UTC = 05:00 Berlin -> released 07:00 Berlin the same day
+    const early = notificationRuleService.heldUntil(overnight, 'LOW', new Date('2026-07-16T03:00:00Z'));
+    expect(early?.toISOString()).toBe('2026-07-16T05:00:00.000Z');
+  });
+
+  it('sends outside quiet hours and always for critical incidents', () => {
+    // 2026-07-15 10:00 UTC = 12:00 Berlin
+    expect(notificationRuleService.heldUntil(overnight, 'MEDIUM', new Date('2026-07-15T10:00:00Z'))).toBeNull();
+    // Quiet end is exclusive
+    expect(notificationRuleService.heldUntil(overnight, 'MEDIUM', new Date('2026-07-16T05:00:00Z'))).toBeNull();
+    expect(notificationRuleService.heldUntil(overnight, 'CRITICAL', new Date('2026-07-15T21:30:00Z'))).toBeNull();
+    expect(notificationRuleService.heldUntil(null, 'LOW', new Date('2026-07-15T21:30:00Z'))).toBeNull();
+  });
+
+  it('handles quiet hours within a single day', () => {
+    const lunch = { timezone: 'UTC', start: '12:00', end: '13:00' };
+    const held = notificationRuleService.heldUntil(lunch, 'INFO', new Date('2026-07-15T12:15:00Z'));
+    expect(held?.toISOString()).toBe('2026-07-15T13:00:00.000Z');
+  });
+
+  it('rejects invalid rule sets and quiet hours', () => {
+    expect(() => notificationRuleService.validate(
+      [{ priority: 'HIGH', channel: 'SMS', delayMinutes: 61 }],
+      null
+    )).toThrow('Rule delay must be between 0 and 60 minutes');
+
+    expect(() => notificationRuleService.validate(
+      [
+        { priority: 'HIGH', channel: 'SMS', delayMinutes: 0 },
+        { priority: 'HIGH', channel: 'SMS', delayMinutes: 5 }
+      ],
+      null
+    )).toThrow('Duplicate rule for HIGH incidents via SMS');
+
+    expect(() => notificationRuleService.validate([], { ...overnight, timezone: 'Mars/Base' }))
+      .toThrow('Unknown timezone');
+
+    expect(() => notificationRuleService.validate([], { ...overnight, end: '22:00' }))
+      .toThrow('Quiet hours must start and end at different times');
+  });
+});
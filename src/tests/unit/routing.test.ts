@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { nextRoundRobinUser } from '../../services/routing.service.js';
+
+describe('Round-robin assignment', () => {
+  const pool = ['user-a', 'user-b', 'user-c'];
+
+  it('starts with the first user when no one has been assigned', () => {
+    expect(nextRoundRobinUser(pool, null)).toBe('user-a');
+  });
+
+  it('moves to the user after the cursor and wraps around', () => {
+    expect(nextRoundRobinUser(pool, 'user-a')).toBe('user-b');
+    expect(nextRoundRobinUser(pool, 'user-c')).toBe('user-a');
+  });
+
+  it('restarts when the cursor user has left the pool', () => {
+    expect(nextRoundRobinUser(pool, 'user-departed')).toBe('user-a');
+  });
+});
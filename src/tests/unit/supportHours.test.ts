@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { supportHoursService } from '../../services/supportHours.service.js';
+
+describe('Support hours', () => {
+  // Weekdays 09:00-17:00 in Berlin (UTC+2 in summer)
+  const businessHours = {
+    timezone: 'Europe/Berlin',
+    windows: [{ days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' }]
+  };
+
+  it('checks windows in the service timezone', () => {
+    // Wednesday 2026-07-15 08:30 UTC = 10:30 Berlin
+    expect(supportHoursService.isWithinSupportHours(businessHours, new Date('2026-07-15T08:30:00Z'))).toBe(true);
+    // Wednesday 2026-07-15 06:30 UTC = 08:30 Berlin
+    expect(supportHoursService.isWithinSupportHours(businessHours, new Date('2026-07-15T06:30:00Z'))).toBe(false);
+    // Window end is exclusive
+    expect(supportHoursService.isWithinSupportHours(businessHours, new Date('2026-07-15T15:00:00Z'))).toBe(false);
+  });
+
+  it('finds the next window start across the weekend', () => {
+    // Friday 2026-07-17 20:00 Berlin -> Monday 2026-07-20 09:00 Berlin
+    const next = supportHoursService.nextWindowStart(businessHours, new Date('2026-07-17T18:00:00Z'));
+    expect(next?.toISOString()).toBe('2026-07-20T07:00:00.000Z');
+  });
+
+  it('finds a later window on the same day', () => {
+    const split = {
+      timezone: 'UTC',
+      windows: [
+        { days: [3], start: '13:00', end: '18:00' },
+        { days: [3], start: '08:00', end: '12:00' }
+      ]
+    };
+
+    const next = supportHoursService.nextWindowStart(split, new Date('2026-07-15T12:30:00Z'));
+    expect(next?.toISOString()).toBe('2026-07-15T13:00:00.000Z');
+  });
+
+  it('maps severity to urgency with defaults for unlisted severities', () => {
+    const service = { supportHours: businessHours, urgencyRules: { HIGH: 'low' } };
+
+    expect(supportHoursService.resolveUrgency(service, 'HIGH')).toBe('low');
+    expect(supportHoursService.resolveUrgency(service, 'CRITICAL')).toBe('high');
+    expect(supportHoursService.resolveUrgency(service, 'MEDIUM')).toBe('low');
+    // Without support hours everything pages
+    expect(supportHoursService.resolveUrgency({ supportHours: null, urgencyRules: null }, 'INFO')).toBe('high');
+  });
+
+  it('rejects unknown timezones and inverted windows', () => {
+    expect(() => supportHoursService.validate({ ...businessHours, timezone: 'Mars/Olympus' })).toThrow('Unknown timezone');
+    expect(() => supportHoursService.validate({
+      timezone: 'UTC',
+      windows: [{ days: [1], start: '18:00', end: '09:00' }]
+    })).toThrow('must end after it starts');
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { suppressionWindowService } from '../../services/suppressionWindow.service.js';
+import { maintenanceService } from '../../services/maintenance.service.js';
+
+describe('Suppression window matching', () => {
+  const target = {
+    serviceId: 'svc-payments',
+    integrationId: 'int-datadog',
+    teamId: 'team-payments',
+    metadata: { job: 'nightly-etl', tags: { env: 'production' } }
+  };
+
+  it('never matches a window without targets', () => {
+    const window = { teamId: 'team-payments', serviceIds: [], integrationIds: [], matchers: [] };
+    expect(suppressionWindowService.matchesTarget(window, target)).toBe(false);
+  });
+
+  it('matches by service', () => {
+    const window = { teamId: 'team-payments', serviceIds: ['svc-payments'], integrationIds: [], matchers: [] };
+    expect(suppressionWindowService.matchesTarget(window, target)).toBe(true);
+    expect(suppressionWindowService.matchesTarget(window, { ...target, serviceId: null })).toBe(false);
+  });
+
+  it('requires every non-empty target to match', () => {
+    const window = { teamId: 'team-payments', serviceIds: ['svc-payments'], integrationIds: ['int-newrelic'], matchers: [] };
+    expect(suppressionWindowService.matchesTarget(window, target)).toBe(false);
+  });
+
+  it('matches metadata with dot notation', () => {
+    const window = {
+      teamId: 'team-payments',
+      serviceIds: [],
+      integrationIds: ['int-datadog'],
+      matchers: [
+        { key: 'job', value: 'nightly-etl' },
+        { key: 'tags.env', value: 'production' }
+      ]
+    };
+    expect(suppressionWindowService.matchesTarget(window, target)).toBe(true);
+
+    const staging = { ...target, metadata: { job: 'nightly-etl', tags: { env: 'staging' } } };
+    expect(suppressionWindowService.matchesTarget(window, staging)).toBe(false);
+  });
+
+  it("never suppresses another team's alerts", () => {
+    // Team A's integration-wide window must not swallow the same integration's alerts for team B
+    const window = { teamId: 'team-a', serviceIds: [], integrationIds: ['int-datadog'], matchers: [] };
+    expect(suppressionWindowService.matchesTarget(window, { ...target, teamId: 'team-a' })).toBe(true);
+    expect(suppressionWindowService.matchesTarget(window, { ...target, teamId: 'team-b' })).toBe(false);
+    expect(suppressionWindowService.matchesTarget(window, { ...target, teamId: null })).toBe(false);
+  });
+});
+
+describe('Suppression window schedule', () => {
+  it('applies recurring windows on every occurrence', () => {
+    // Nightly 02:00-03:00 UTC
+    const window = {
+      startTime: new Date('2025-01-01T02:00:00Z'),
+      endTime: new Date('2025-01-01T03:00:00Z'),
+      recurrenceRule: 'DTSTART:20250101T020000Z\nRRULE:FREQ=DAILY'
+    };
+
+    expect(maintenanceService.isMaintenanceActive(window, new Date('2025-03-15T02:30:00Z'))).toBe(true);
+    expect(maintenanceService.isMaintenanceActive(window, new Date('2025-03-15T04:00:00Z'))).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateCondition, evaluateConditions, fieldResolver } from '../../services/workflow/condition.service.js';
+
+describe('Workflow conditions', () => {
+  const resolve = fieldResolver({
+    priority: 'HIGH',
+    status: 'OPEN',
+    alertCount: 12,
+    metadata: { region: 'eu-west-1', tags: ['db', 'prod'], owner: '' }
+  });
+
+  it('treats conditions without an operator as equality', () => {
+    expect(evaluateConditions([{ field: 'priority', value: 'HIGH' }], resolve)).toBe(true);
+    expect(evaluateConditions([{ field: 'priority', value: 'LOW' }], resolve)).toBe(false);
+    expect(evaluateConditions([], resolve)).toBe(true);
+  });
+
+  it('supports list, substring, regex and existence operators', () => {
+    expect(evaluateCondition({ field: 'priority', operator: '!=', value: 'LOW' }, resolve)).toBe(true);
+    expect(evaluateCondition({ field: 'priority', operator: 'in', value: 'CRITICAL, HIGH' }, resolve)).toBe(true);
+    expect(evaluateCondition({ field: 'metadata.region', operator: 'contains', value: 'west' }, resolve)).toBe(true);
+    expect(evaluateCondition({ field: 'metadata.tags', operator: 'contains', value: 'prod' }, resolve)).toBe(true);
+    expect(evaluateCondition({ field: 'metadata.region', operator: 'matches', value: '^eu-' }, resolve)).toBe(true);
+    expect(evaluateCondition({ field: 'metadata.region', operator: 'matches', value: '([' }, resolve)).toBe(false);
+    expect(evaluateCondition({ field: 'metadata.region', operator: 'exists', value: '' }, resolve)).toBe(true);
+    expect(evaluateCondition({ field: 'metadata.owner', operator: 'exists', value: '' }, resolve)).toBe(false);
+    expect(evaluateCondition({ field: 'metadata.missing', operator: 'exists', value: '' }, resolve)).toBe(false);
+  });
+
+  it('never matches regexes prone to catastrophic backtracking', () => {
+    const longValue = fieldResolver({ title: `${'a'.repeat(40)}!` });
+    expect(evaluateCondition({ field: 'title', operator: 'matches', value: '^(a+)+$' }, longValue)).toBe(false);
+    expect(evaluateCondition({ field: 'title', operator: 'matches', value: '^a+!$' }, longValue)).toBe(true);
+  });
+
+  it('only tests the start of long values against a regex', () => {
+    const longValue = fieldResolver({ title: `${'x'.repeat(5000)}needle` });
+    expect(evaluateCondition({ field: 'title', operator: 'matches', value: '^x+' }, longValue)).toBe(true);
+    expect(evaluateCondition({ field: 'title', operator: 'matches', value: 'needle' }, longValue)).toBe(false);
+  });
+
+  it('compares numbers and rejects non-numeric values', () => {
+    expect(evaluateCondition({ field: 'alertCount', operator: '>', value: '10' }, resolve)).toBe(true);
+    expect(evaluateCondition({ field: 'alertCount', operator: '<=', value: '12' }, resolve)).toBe(true);
+    expect(evaluateCondition({ field: 'alertCount', operator: '<', value: '5' }, resolve)).toBe(false);
+    expect(evaluateCondition({ field: 'priority', operator: '>', value: '1' }, resolve)).toBe(false);
+  });
+
+  it('evaluates nested all/any groups', () => {
+    // priority is CRITICAL, or (HIGH and in an EU region)
+    const rule = {
+      match: 'any' as const,
+      conditions: [
+        { field: 'priority', value: 'CRITICAL' },
+        {
+          match: 'all' as const,
+          conditions: [
+            { field: 'priority', value: 'HIGH' },
+            { field: 'metadata.region', operator: 'matches' as const, value: '^eu-' }
+          ]
+        }
+      ]
+    };
+
+    expect(evaluateCondition(rule, resolve)).toBe(true);
+    expect(evaluateCondition({ match: 'any', conditions: [] }, resolve)).toBe(false);
+    expect(evaluateConditions([rule, { field: 'status', value: 'RESOLVED' }], resolve)).toBe(false);
+  });
+});
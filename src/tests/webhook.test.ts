@@ -418,6 +418,103 @@ describe('Webhook Receiver', () => {
     });
   });
 
+  describe('POST /v2/enqueue (Events API)', () => {
+    const triggerEvent = (dedupKey?: string) => ({
+      routing_key: 'webhook-test-service',
+      event_action: 'trigger',
+      ...(dedupKey && { dedup_key: dedupKey }),
+      payload: {
+        summary: 'Disk almost full on db-1',
+        source: 'db-1',
+        severity: 'error',
+        custom_details: { free_space: '2%' }
+      }
+    });
+
+    it('should open an incident for a trigger event', async () => {
+      const res = await request(app)
+        .post('/v2/enqueue')
+        .send(triggerEvent('disk-db-1'));
+
+      expect(res.status).toBe(202);
+      expect(res.body).toEqual({
+        status: 'success',
+        message: 'Event processed',
+        dedup_key: 'disk-db-1'
+      });
+
+      const alert = await prisma.alert.findFirst({ where: { externalId: 'disk-db-1' } });
+      expect(alert?.integrationId).toBeNull();
+      expect(alert?.severity).toBe('HIGH');
+      expect((alert?.metadata as any).custom_details).toEqual({ free_space: '2%' });
+
+      const incident = await prisma.incident.findUnique({ where: { id: alert!.incidentId! } });
+      expect(incident?.teamId).toBe(testTeam.id);
+      expect(incident?.status).toBe('OPEN');
+    });
+
+    it('should generate a dedup key when none is sent', async () => {
+      const res = await request(app)
+        .post('/v2/enqueue')
+        .send(triggerEvent());
+
+      expect(res.status).toBe(202);
+      expect(res.body.dedup_key).toBeTruthy();
+    });
+
+    it('should not create a second alert while the dedup key is open', async () => {
+      await request(app).post('/v2/enqueue').send(triggerEvent('disk-db-1'));
+      const res = await request(app).post('/v2/enqueue').send(triggerEvent('disk-db-1'));
+
+      expect(res.status).toBe(202);
+      expect(await prisma.alert.count({ where: { externalId: 'disk-db-1' } })).toBe(1);
+    });
+
+    it('should acknowledge and resolve by dedup key', async () => {
+      await request(app).post('/v2/enqueue').send(triggerEvent('disk-db-1'));
+
+      const ack = await request(app)
+        .post('/v2/enqueue')
+        .send({ routing_key: 'webhook-test-service', event_action: 'acknowledge', dedup_key: 'disk-db-1' });
+      expect(ack.status).toBe(202);
+
+      let alert = await prisma.alert.findFirst({ where: { externalId: 'disk-db-1' } });
+      let incident = await prisma.incident.findUnique({ where: { id: alert!.incidentId! } });
+      expect(incident?.status).toBe('ACKNOWLEDGED');
+      expect(incident?.assignedUserId).toBeNull();
+
+      const resolve = await request(app)
+        .post('/v2/enqueue')
+        .send({ routing_key: 'webhook-test-service', event_action: 'resolve', dedup_key: 'disk-db-1' });
+      expect(resolve.status).toBe(202);
+
+      alert = await prisma.alert.findFirst({ where: { externalId: 'disk-db-1' } });
+      incident = await prisma.incident.findUnique({ where: { id: alert!.incidentId! } });
+      expect(alert?.status).toBe('RESOLVED');
+      expect(incident?.status).toBe('RESOLVED');
+    });
+
+    it('should reject an unknown routing key', async () => {
+      const res = await request(app)
+        .post('/v2/enqueue')
+        .send({ ...triggerEvent('disk-db-1'), routing_key: 'no-such-service' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.status).toBe('invalid event');
+      expect(res.body.errors).toContain('Invalid routing key');
+    });
+
+    it('should reject an invalid event', async () => {
+      const res = await request(app)
+        .post('/v2/enqueue')
+        .send({ routing_key: 'webhook-test-service', event_action: 'resolve' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.status).toBe('invalid event');
+      expect(res.body.errors[0]).toContain('dedup_key');
+    });
+  });
+
   describe('Timestamp Validation', () => {
     let timestampIntegration: any;
     let timestampSecret: string;
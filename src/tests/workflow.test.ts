@@ -19,6 +19,7 @@ import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database.js';
 import { workflowService } from '../services/workflow/workflow.service.js';
 import { findMatchingWorkflows, evaluateTrigger, canTriggerWorkflow } from '../services/workflow/workflow-trigger.service.js';
+import { executeWorkflow } from '../services/workflow/workflow-executor.service.js';
 import { interpolateTemplate, validateTemplate, type TemplateContext } from '../services/workflow/template.service.js';
 import type { AuthenticatedUser } from '../types/auth.js';
 import type { WorkflowDefinition, TriggerEvent } from '../types/workflow.js';
@@ -669,6 +670,49 @@ describe('Workflow System', () => {
       await prisma.workflow.delete({ where: { id: workflow.id } });
     });
 
+    it('should match alert_received conditions against event details', async () => {
+      const definition = createTestWorkflowDefinition({
+        trigger: {
+          type: 'alert_received',
+          conditions: [
+            { field: 'priority', value: 'CRITICAL' },
+            { field: 'alert.source', operator: 'matches', value: '^datadog' }
+          ]
+        }
+      });
+
+      const workflow = await prisma.workflow.create({
+        data: {
+          name: 'Grouped Alert Workflow',
+          description: 'Trigger on grouped alerts',
+          definition: definition as unknown as Prisma.InputJsonValue,
+          scopeType: 'team',
+          teamId: testTeam.id,
+          isEnabled: true,
+          version: 1,
+          createdById: testUser.id
+        }
+      });
+
+      const event = (source: string): TriggerEvent => ({
+        type: 'alert_received',
+        incident: {
+          id: testIncident.id,
+          priority: 'CRITICAL',
+          status: 'OPEN',
+          teamId: testTeam.id
+        },
+        payload: { alert: { id: 'alert-1', title: 'Disk full', severity: 'CRITICAL', source } }
+      });
+
+      expect(evaluateTrigger(workflow, event('datadog-prod'))).toBe(true);
+      expect(evaluateTrigger(workflow, event('prometheus'))).toBe(false);
+      expect(evaluateTrigger(workflow, { ...event('datadog-prod'), type: 'note_added' })).toBe(false);
+
+      // Cleanup
+      await prisma.workflow.delete({ where: { id: workflow.id } });
+    });
+
     it('should detect cycles and prevent infinite loops', () => {
       const context = {
         executionChain: ['wf-1', 'wf-2'],
@@ -796,6 +840,399 @@ describe('Workflow System', () => {
     });
   });
 
+  // ==========================================================================
+  // DURABLE DELAY TESTS
+  // ==========================================================================
+
+  describe('Durable Delays', () => {
+    it('should park at a delay node and resume from persisted state', async () => {
+      const user = createAuthUser(testUser, testTeam.id, 'TEAM_ADMIN');
+      const definition = createTestWorkflowDefinition({
+        nodes: [
+          {
+            id: 'trigger-1',
+            type: 'trigger',
+            position: { x: 250, y: 50 },
+            data: { name: 'Manual', triggerType: 'manual', conditions: [] }
+          },
+          {
+            id: 'delay-1',
+            type: 'delay',
+            position: { x: 250, y: 150 },
+            data: { name: 'Wait two days', durationMinutes: 2 * 24 * 60 }
+          },
+          {
+            id: 'condition-1',
+            type: 'condition',
+            position: { x: 250, y: 250 },
+            data: { name: 'Still critical?', field: 'incident.priority', operator: '=', value: 'CRITICAL' }
+          }
+        ],
+        edges: [
+          { id: 'e1', source: 'trigger-1', target: 'delay-1' },
+          { id: 'e2', source: 'delay-1', target: 'condition-1' }
+        ],
+        settings: { timeout: '1min', enabled: true }
+      });
+
+      const workflow = await workflowService.create({
+        name: 'Durable Delay Workflow',
+        description: 'Waits longer than the workflow timeout',
+        definition,
+        scopeType: 'team',
+        teamId: testTeam.id
+      }, user);
+
+      const execution = await prisma.workflowExecution.create({
+        data: {
+          workflowId: workflow.id,
+          workflowVersion: 1,
+          definitionSnapshot: definition as unknown as Prisma.InputJsonValue,
+          incidentId: testIncident.id,
+          triggeredBy: 'manual',
+          status: 'RUNNING',
+          completedNodes: []
+        }
+      });
+
+      // First run stops at the delay instead of sleeping
+      const parked = await executeWorkflow(execution, new Map());
+      expect(parked.status).toBe('WAITING');
+      expect(parked.resumeAt!.getTime()).toBeGreaterThan(Date.now() + 47 * 60 * 60 * 1000);
+
+      const waiting = await prisma.workflowExecution.findUniqueOrThrow({ where: { id: execution.id } });
+      expect(waiting.status).toBe('RUNNING');
+      expect(waiting.currentNodeId).toBe('delay-1');
+      expect(waiting.completedNodes).toHaveLength(1);
+
+      // Resume job continues after the delay without re-running the trigger
+      const resumed = await executeWorkflow(waiting, new Map(), { resumeFromNodeId: 'delay-1' });
+      expect(resumed.status).toBe('COMPLETED');
+      expect(resumed.completedNodes.map(n => n.nodeId)).toEqual(['trigger-1', 'delay-1', 'condition-1']);
+
+      // Cleanup
+      await prisma.workflowExecution.deleteMany({ where: { workflowId: workflow.id } });
+      await prisma.workflowVersion.deleteMany({ where: { workflowId: workflow.id } });
+      await prisma.workflow.delete({ where: { id: workflow.id } });
+    });
+  });
+
+  describe('Execution Retry', () => {
+    it('should resume a failed execution without re-running completed nodes', async () => {
+      const user = createAuthUser(testUser, testTeam.id, 'TEAM_ADMIN');
+      const standbyUser = await prisma.user.create({
+        data: {
+          email: `workflow-standby-${timestamp}@example.com`,
+          firstName: 'Standby',
+          lastName: 'User',
+          isActive: false
+        }
+      });
+      await prisma.teamMember.create({
+        data: { userId: standbyUser.id, teamId: testTeam.id, role: 'RESPONDER' }
+      });
+      const incident = await prisma.incident.create({
+        data: {
+          fingerprint: `test-workflow-retry-${timestamp}`,
+          status: 'OPEN',
+          priority: 'HIGH',
+          teamId: testTeam.id,
+          escalationPolicyId: testPolicy.id,
+          assignedUserId: testUser.id
+        }
+      });
+
+      const retry = { attempts: 1, backoff: 'exponential' as const, initialDelayMs: 1000 };
+      const definition = createTestWorkflowDefinition({
+        nodes: [
+          {
+            id: 'trigger-1',
+            type: 'trigger',
+            position: { x: 250, y: 50 },
+            data: { name: 'Manual', triggerType: 'manual', conditions: [] }
+          },
+          {
+            id: 'note-1',
+            type: 'action',
+            position: { x: 250, y: 150 },
+            data: { name: 'Note', actionType: 'add_note', config: { note: 'Handing over' }, retry }
+          },
+          {
+            id: 'reassign-1',
+            type: 'action',
+            position: { x: 250, y: 250 },
+            data: { name: 'Hand to standby', actionType: 'reassign', config: { userId: standbyUser.id }, retry }
+          }
+        ],
+        edges: [
+          { id: 'e1', source: 'trigger-1', target: 'note-1' },
+          { id: 'e2', source: 'note-1', target: 'reassign-1' }
+        ]
+      });
+
+      const workflow = await workflowService.create({
+        name: 'Retry Workflow',
+        description: 'Fails until the standby user is active',
+        definition,
+        scopeType: 'team',
+        teamId: testTeam.id
+      }, user);
+
+      const execution = await prisma.workflowExecution.create({
+        data: {
+          workflowId: workflow.id,
+          workflowVersion: 1,
+          definitionSnapshot: definition as unknown as Prisma.InputJsonValue,
+          incidentId: incident.id,
+          triggeredBy: 'manual',
+          status: 'RUNNING',
+          completedNodes: []
+        }
+      });
+
+      const failed = await executeWorkflow(execution, new Map());
+      expect(failed.status).toBe('FAILED');
+
+      // Completed nodes can't be re-run on their own
+      await expect(workflowService.retryExecution(execution.id, user, 'note-1'))
+        .rejects.toThrow('Only failed action nodes can be re-run');
+
+      await prisma.user.update({ where: { id: standbyUser.id }, data: { isActive: true } });
+
+      const retried = await workflowService.retryExecution(execution.id, user);
+      expect(retried).toMatchObject({ status: 'PENDING', mode: 'resume' });
+
+      const pending = await prisma.workflowExecution.findUniqueOrThrow({ where: { id: execution.id } });
+      expect(pending.status).toBe('PENDING');
+      expect(pending.error).toBeNull();
+
+      const resumed = await executeWorkflow(pending, new Map());
+      expect(resumed.status).toBe('COMPLETED');
+
+      // The note from the first run is not added again
+      const notes = await prisma.auditEvent.count({
+        where: { resourceId: incident.id, action: 'incident.note.added' }
+      });
+      expect(notes).toBe(1);
+
+      const updated = await prisma.incident.findUniqueOrThrow({ where: { id: incident.id } });
+      expect(updated.assignedUserId).toBe(standbyUser.id);
+
+      await expect(workflowService.retryExecution(execution.id, user))
+        .rejects.toThrow('Only failed executions can be retried');
+
+      // Cleanup
+      await prisma.auditEvent.deleteMany({ where: { resourceId: incident.id } });
+      await prisma.workflowExecution.deleteMany({ where: { workflowId: workflow.id } });
+      await prisma.workflowVersion.deleteMany({ where: { workflowId: workflow.id } });
+      await prisma.workflow.delete({ where: { id: workflow.id } });
+      await prisma.incident.delete({ where: { id: incident.id } });
+      await prisma.teamMember.deleteMany({ where: { userId: standbyUser.id } });
+      await prisma.user.delete({ where: { id: standbyUser.id } });
+    });
+
+    it('should carry on with the remaining nodes after re-running the failed node', async () => {
+      const user = createAuthUser(testUser, testTeam.id, 'TEAM_ADMIN');
+      const standbyUser = await prisma.user.create({
+        data: {
+          email: `workflow-rerun-standby-${timestamp}@example.com`,
+          firstName: 'Standby',
+          lastName: 'User',
+          isActive: false
+        }
+      });
+      await prisma.teamMember.create({
+        data: { userId: standbyUser.id, teamId: testTeam.id, role: 'RESPONDER' }
+      });
+      const incident = await prisma.incident.create({
+        data: {
+          fingerprint: `test-workflow-rerun-${timestamp}`,
+          status: 'OPEN',
+          priority: 'HIGH',
+          teamId: testTeam.id,
+          escalationPolicyId: testPolicy.id,
+          assignedUserId: testUser.id
+        }
+      });
+
+      const retry = { attempts: 1, backoff: 'exponential' as const, initialDelayMs: 1000 };
+      const definition = createTestWorkflowDefinition({
+        nodes: [
+          {
+            id: 'trigger-1',
+            type: 'trigger',
+            position: { x: 250, y: 50 },
+            data: { name: 'Manual', triggerType: 'manual', conditions: [] }
+          },
+          {
+            id: 'reassign-1',
+            type: 'action',
+            position: { x: 250, y: 150 },
+            data: { name: 'Hand to standby', actionType: 'reassign', config: { userId: standbyUser.id }, retry }
+          },
+          {
+            id: 'note-1',
+            type: 'action',
+            position: { x: 250, y: 250 },
+            data: { name: 'Note', actionType: 'add_note', config: { note: 'Handed over' }, retry }
+          }
+        ],
+        edges: [
+          { id: 'e1', source: 'trigger-1', target: 'reassign-1' },
+          { id: 'e2', source: 'reassign-1', target: 'note-1' }
+        ]
+      });
+
+      const workflow = await workflowService.create({
+        name: 'Re-run Workflow',
+        description: 'Fails until the standby user is active',
+        definition,
+        scopeType: 'team',
+        teamId: testTeam.id
+      }, user);
+
+      const execution = await prisma.workflowExecution.create({
+        data: {
+          workflowId: workflow.id,
+          workflowVersion: 1,
+          definitionSnapshot: definition as unknown as Prisma.InputJsonValue,
+          incidentId: incident.id,
+          triggeredBy: 'manual',
+          status: 'RUNNING',
+          completedNodes: []
+        }
+      });
+
+      const failed = await executeWorkflow(execution, new Map());
+      expect(failed.status).toBe('FAILED');
+
+      await prisma.user.update({ where: { id: standbyUser.id }, data: { isActive: true } });
+
+      const retried = await workflowService.retryExecution(execution.id, user, 'reassign-1');
+      expect(retried).toMatchObject({ status: 'PENDING', mode: 'node' });
+
+      const pending = await prisma.workflowExecution.findUniqueOrThrow({ where: { id: execution.id } });
+      const rerun = await executeWorkflow(pending, new Map(), { rerunNodeId: 'reassign-1' });
+      expect(rerun.status).toBe('COMPLETED');
+
+      const completed = await prisma.workflowExecution.findUniqueOrThrow({ where: { id: execution.id } });
+      expect(completed.status).toBe('COMPLETED');
+      expect(completed.error).toBeNull();
+
+      const notes = await prisma.auditEvent.count({
+        where: { resourceId: incident.id, action: 'incident.note.added' }
+      });
+      expect(notes).toBe(1);
+
+      // Cleanup
+      await prisma.auditEvent.deleteMany({ where: { resourceId: incident.id } });
+      await prisma.workflowExecution.deleteMany({ where: { workflowId: workflow.id } });
+      await prisma.workflowVersion.deleteMany({ where: { workflowId: workflow.id } });
+      await prisma.workflow.delete({ where: { id: workflow.id } });
+      await prisma.incident.delete({ where: { id: incident.id } });
+      await prisma.teamMember.deleteMany({ where: { userId: standbyUser.id } });
+      await prisma.user.delete({ where: { id: standbyUser.id } });
+    });
+  });
+
+  // ==========================================================================
+  // BUILT-IN ACTION TESTS
+  // ==========================================================================
+
+  describe('Built-in Incident Actions', () => {
+    it('should update the incident as the system actor with workflow attribution', async () => {
+      const user = createAuthUser(testUser, testTeam.id, 'TEAM_ADMIN');
+      const incident = await prisma.incident.create({
+        data: {
+          fingerprint: `test-workflow-actions-${timestamp}`,
+          status: 'OPEN',
+          priority: 'MEDIUM',
+          teamId: testTeam.id,
+          escalationPolicyId: testPolicy.id,
+          assignedUserId: testUser.id
+        }
+      });
+
+      const retry = { attempts: 1, backoff: 'exponential' as const, initialDelayMs: 1000 };
+      const definition = createTestWorkflowDefinition({
+        nodes: [
+          {
+            id: 'trigger-1',
+            type: 'trigger',
+            position: { x: 250, y: 50 },
+            data: { name: 'Manual', triggerType: 'manual', conditions: [] }
+          },
+          {
+            id: 'priority-1',
+            type: 'action',
+            position: { x: 250, y: 150 },
+            data: { name: 'Raise priority', actionType: 'update_priority', config: { priority: 'HIGH' }, retry }
+          },
+          {
+            id: 'reassign-1',
+            type: 'action',
+            position: { x: 250, y: 250 },
+            data: { name: 'Hand to responder', actionType: 'reassign', config: { userId: responderUser.id }, retry }
+          },
+          {
+            id: 'note-1',
+            type: 'action',
+            position: { x: 250, y: 350 },
+            data: { name: 'Note', actionType: 'add_note', config: { note: 'Raised from {{incident.priority}}' }, retry }
+          }
+        ],
+        edges: [
+          { id: 'e1', source: 'trigger-1', target: 'priority-1' },
+          { id: 'e2', source: 'priority-1', target: 'reassign-1' },
+          { id: 'e3', source: 'reassign-1', target: 'note-1' }
+        ]
+      });
+
+      const workflow = await workflowService.create({
+        name: 'Built-in Actions Workflow',
+        description: 'Changes the incident directly',
+        definition,
+        scopeType: 'team',
+        teamId: testTeam.id
+      }, user);
+
+      const execution = await prisma.workflowExecution.create({
+        data: {
+          workflowId: workflow.id,
+          workflowVersion: 1,
+          definitionSnapshot: definition as unknown as Prisma.InputJsonValue,
+          incidentId: incident.id,
+          triggeredBy: 'manual',
+          status: 'RUNNING',
+          completedNodes: []
+        }
+      });
+
+      const result = await executeWorkflow(execution, new Map());
+      expect(result.status).toBe('COMPLETED');
+      expect(result.completedNodes.find(n => n.nodeId === 'priority-1')?.result)
+        .toEqual({ previousPriority: 'MEDIUM', priority: 'HIGH' });
+
+      const updated = await prisma.incident.findUniqueOrThrow({ where: { id: incident.id } });
+      expect(updated.priority).toBe('HIGH');
+      expect(updated.assignedUserId).toBe(responderUser.id);
+
+      // Template context is built once per run, so the note sees the original priority
+      const note = await prisma.auditEvent.findFirstOrThrow({
+        where: { resourceId: incident.id, action: 'incident.note.added' }
+      });
+      expect(note.userId).toBeNull();
+      expect(note.metadata).toMatchObject({ note: 'Raised from MEDIUM', workflowExecutionId: execution.id });
+
+      // Cleanup
+      await prisma.auditEvent.deleteMany({ where: { resourceId: incident.id } });
+      await prisma.workflowExecution.deleteMany({ where: { workflowId: workflow.id } });
+      await prisma.workflowVersion.deleteMany({ where: { workflowId: workflow.id } });
+      await prisma.workflow.delete({ where: { id: workflow.id } });
+      await prisma.incident.delete({ where: { id: incident.id } });
+    });
+  });
+
   // ==========================================================================
   // ANALYTICS TESTS
   // ==========================================================================
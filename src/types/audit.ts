@@ -12,6 +12,13 @@ export interface AuditLogParams {
   userAgent?: string;
 }
 
+// API key a request authenticated with - recorded on every audit event it causes
+export interface AuditApiKeyAttribution {
+  id: string;
+  name: string;
+  keyPrefix: string;
+}
+
 export interface AuditQueryParams {
   userId?: string;
   teamId?: string;
@@ -0,0 +1,49 @@
+/**
+ * Alert grouping rule types.
+ * Grouping rules fold related alerts (same host, cluster, routing key or
+ * similar title) into one open incident instead of paging for each.
+ */
+
+export type GroupingStrategy = 'metadata_keys' | 'routing_key' | 'title_similarity';
+
+/**
+ * Input for creating a grouping rule.
+ */
+export interface CreateGroupingRuleInput {
+  name: string;
+  teamId: string;
+  serviceId?: string;
+  integrationId?: string;
+  strategy: GroupingStrategy;
+  metadataKeys?: string[];
+  similarityThreshold?: number;
+  windowMinutes?: number;
+  priority?: number;
+}
+
+/**
+ * Input for updating a grouping rule.
+ */
+export interface UpdateGroupingRuleInput {
+  name?: string;
+  serviceId?: string | null;
+  integrationId?: string | null;
+  strategy?: GroupingStrategy;
+  metadataKeys?: string[];
+  similarityThreshold?: number;
+  windowMinutes?: number;
+  priority?: number;
+  isActive?: boolean;
+}
+
+/**
+ * What an incoming alert is grouped by.
+ */
+export interface GroupingTarget {
+  // Team the alert was routed to - only that team's rules and incidents apply
+  teamId: string;
+  serviceId: string | null;
+  integrationId: string | null;
+  title: string;
+  metadata: Record<string, unknown>;
+}
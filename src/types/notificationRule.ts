@@ -0,0 +1,21 @@
+import type { NotificationChannel } from '@prisma/client';
+
+// Incident priorities a notification rule can target
+export const NOTIFICATION_RULE_PRIORITIES = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', 'INFO'] as const;
+
+export type NotificationRulePriority = typeof NOTIFICATION_RULE_PRIORITIES[number];
+
+// One step of a user's rule set: send via channel after delayMinutes (0 = immediately)
+export interface NotificationRuleInput {
+  priority: NotificationRulePriority;
+  channel: NotificationChannel;
+  delayMinutes: number;
+}
+
+// Daily window in the user's timezone when non-critical pages are held.
+// Times are "HH:mm"; a start later than the end wraps past midnight (e.g. 22:00-07:00)
+export interface QuietHours {
+  timezone: string;
+  start: string;
+  end: string;
+}
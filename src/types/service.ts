@@ -1,4 +1,24 @@
-import { ServiceStatus } from '@prisma/client';
+import { AlertSeverity, ServiceStatus } from '@prisma/client';
+
+// Whether an incident pages immediately (high) or can wait for support hours (low)
+export type Urgency = 'high' | 'low';
+
+// Maps alert severity to urgency; unlisted severities use the default rules
+export type UrgencyRules = Partial<Record<AlertSeverity, Urgency>>;
+
+// A recurring support window in the service's timezone.
+// days are ISO weekdays (1 = Monday ... 7 = Sunday), times are "HH:mm" (end may be "24:00")
+export interface SupportWindow {
+  days: number[];
+  start: string;
+  end: string;
+}
+
+// When a service is staffed; low-urgency incidents outside these windows are held
+export interface SupportHours {
+  timezone: string;
+  windows: SupportWindow[];
+}
 
 // Base Service type matching Prisma model
 export interface Service {
@@ -10,6 +30,8 @@ export interface Service {
   escalationPolicyId: string | null;
   status: ServiceStatus;
   tags: string[];
+  supportHours: SupportHours | null;
+  urgencyRules: UrgencyRules | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -34,6 +56,8 @@ export interface CreateServiceInput {
   teamId: string;  // Required per SVC-05
   escalationPolicyId?: string;
   tags?: string[];
+  supportHours?: SupportHours;
+  urgencyRules?: UrgencyRules;
 }
 
 // Input for updating service metadata
@@ -42,6 +66,8 @@ export interface UpdateServiceInput {
   description?: string;
   tags?: string[];
   escalationPolicyId?: string | null;  // null to remove override
+  supportHours?: SupportHours | null;  // null for 24/7 paging
+  urgencyRules?: UrgencyRules | null;  // null for default rules
 }
 
 // Input for listing/filtering services
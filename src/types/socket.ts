@@ -14,6 +14,7 @@ export interface ServerToClientEvents {
   'incident:resolved': (data: IncidentResolveData) => void;
   'incident:reassigned': (data: IncidentReassignData) => void;
   'incident:note_added': (data: IncidentNoteData) => void;
+  'incident:roles_changed': (data: IncidentRolesChangedData) => void;
 
   // Status page events
   'status:changed': (data: StatusChangeData) => void;
@@ -41,6 +42,8 @@ export interface IncidentBroadcast {
   status: string;
   priority: string;
   title: string;
+  summary?: string | null;
+  impactedServiceIds?: string[];
   teamId: string;
   team: { id: string; name: string };
   assignedUserId?: string;
@@ -50,6 +53,7 @@ export interface IncidentBroadcast {
   createdAt: string;
   acknowledgedAt?: string;
   resolvedAt?: string;
+  snoozedUntil?: string;
 }
 
 export interface IncidentAckData {
@@ -86,6 +90,14 @@ export interface IncidentNoteData {
   };
 }
 
+export interface IncidentRolesChangedData {
+  incidentId: string;
+  change: 'assigned' | 'removed';
+  role: string;
+  userId: string;
+  user: { id: string; firstName: string; lastName: string };
+}
+
 // Status page change event data
 export interface StatusChangeData {
   statusPageId: string;
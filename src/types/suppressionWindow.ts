@@ -0,0 +1,54 @@
+/**
+ * Alert suppression window types.
+ * Suppression windows silence paging for matching alerts (deploys, batch jobs)
+ * without affecting status page state.
+ */
+
+/**
+ * Matches an alert metadata key against a value.
+ * Keys support dot notation for nested metadata (e.g., "tags.env").
+ */
+export interface SuppressionMatcher {
+  key: string;
+  value: string;
+}
+
+/**
+ * Input for creating a suppression window.
+ */
+export interface CreateSuppressionWindowInput {
+  name: string;
+  description?: string;
+  teamId: string;
+  startTime: Date;
+  endTime: Date;
+  recurrenceRule?: string;
+  serviceIds?: string[];
+  integrationIds?: string[];
+  matchers?: SuppressionMatcher[];
+}
+
+/**
+ * Input for updating a suppression window.
+ */
+export interface UpdateSuppressionWindowInput {
+  name?: string;
+  description?: string | null;
+  startTime?: Date;
+  endTime?: Date;
+  recurrenceRule?: string | null;
+  serviceIds?: string[];
+  integrationIds?: string[];
+  matchers?: SuppressionMatcher[];
+  isActive?: boolean;
+}
+
+/**
+ * What an incoming alert is checked against.
+ */
+export interface SuppressionTarget {
+  serviceId: string | null;
+  integrationId: string | null;
+  teamId: string | null; // Team the alert routes to; only its windows apply
+  metadata: Record<string, unknown>;
+}
@@ -29,6 +29,7 @@ export interface TeamWithMembers {
   syncedFromOkta: boolean;
   slackChannel: string | null;
   maintenanceMode: boolean;
+  maintenanceStartedAt: Date | null;
   tags: { type: TagType; value: string }[];
   members: {
     userId: string;
@@ -45,6 +46,22 @@ export interface TeamWithMembers {
   updatedAt: Date;
 }
 
+// Alerts recorded while a team was in maintenance mode (no incident, nobody paged)
+export interface SuppressedAlertSummary {
+  since: Date | null;
+  until: Date;
+  total: number;
+  bySeverity: Record<string, number>;
+  byIntegration: Record<string, number>;
+  alerts: {
+    alertId: string | null;
+    title: string;
+    severity: string;
+    integration: string;
+    suppressedAt: Date;
+  }[];
+}
+
 // Predefined tag values (per user decision: organizational + technical)
 export const ORGANIZATIONAL_TAGS = ['Engineering', 'Product', 'SRE', 'Security', 'Support'];
 export const TECHNICAL_TAGS = ['Backend', 'Frontend', 'Mobile', 'Payments', 'Auth', 'Infrastructure', 'Data'];
@@ -78,32 +78,69 @@ export type TriggerType =
   | 'state_changed'
   | 'escalation'
   | 'manual'
-  | 'age';
+  | 'age'
+  | 'alert_received'
+  | 'note_added'
+  | 'reassigned'
+  | 'ack_timeout'
+  | 'postmortem_published'
+  | 'action_item_overdue';
 
 /**
  * Trigger configuration for workflow activation
  */
 export interface TriggerConfig {
   type: TriggerType;
-  /** Simple field matching conditions (no AND/OR per user decision) */
-  conditions: TriggerCondition[];
+  /** Conditions that must all match - entries may be nested all/any groups */
+  conditions: ConditionRule[];
   /** For 'age' trigger - minutes before triggering */
   ageThresholdMinutes?: number;
+  /** For 'ack_timeout' trigger - minutes an OPEN incident may go unacknowledged */
+  ackTimeoutMinutes?: number;
   /** For 'state_changed' trigger - state transition */
   stateTransition?: StateTransition;
 }
 
 /**
- * Simple field matching condition (priority = HIGH, service = api-gateway)
- * No AND/OR logic per user decision
+ * Comparison operators for conditions
+ * - 'in': value is a comma-separated list
+ * - 'matches': value is a regular expression
+ * - 'exists': value is ignored
+ */
+export type ConditionOperator =
+  | '='
+  | '!='
+  | 'in'
+  | 'contains'
+  | 'matches'
+  | '>'
+  | '>='
+  | '<'
+  | '<='
+  | 'exists';
+
+/**
+ * Field matching condition (priority = HIGH, metadata.region in eu-west-1,us-east-1)
  */
 export interface TriggerCondition {
   /** Field to match: 'priority', 'service', 'metadata.service', 'team' */
   field: string;
+  /** Comparison operator (defaults to '=' for conditions saved before operators existed) */
+  operator?: ConditionOperator;
   /** Value to match against */
   value: string;
 }
 
+/**
+ * Nested group of conditions combined with AND ('all') or OR ('any')
+ */
+export interface ConditionGroup {
+  match: 'all' | 'any';
+  conditions: ConditionRule[];
+}
+
+export type ConditionRule = TriggerCondition | ConditionGroup;
+
 export interface StateTransition {
   from?: string;
   to: string;
@@ -115,8 +152,9 @@ export interface StateTransition {
 export interface TriggerData {
   name: string;
   triggerType: TriggerType;
-  conditions: TriggerCondition[];
+  conditions: ConditionRule[];
   ageThresholdMinutes?: number;
+  ackTimeoutMinutes?: number;
   stateTransition?: StateTransition;
 }
 
@@ -124,12 +162,42 @@ export interface TriggerData {
 // ACTION DATA (Discriminated union)
 // =============================================================================
 
-export type ActionType = 'webhook' | 'jira' | 'linear' | 'runbook';
+export type ActionType =
+  | 'webhook'
+  | 'jira'
+  | 'linear'
+  | 'runbook'
+  | 'notify_channel'
+  | 'update_priority'
+  | 'reassign'
+  | 'add_note'
+  | 'escalate'
+  | 'resolve'
+  | 'publish_status'
+  | 'page_user';
 
 /**
  * Action node data - discriminated union by actionType
  */
-export type ActionData = WebhookActionData | JiraActionData | LinearActionData | RunbookActionData;
+export type ActionData =
+  | WebhookActionData
+  | JiraActionData
+  | LinearActionData
+  | RunbookActionData
+  | NotifyChannelActionData
+  | IncidentActionData;
+
+/**
+ * Built-in actions that act on the incident itself
+ */
+export type IncidentActionData =
+  | UpdatePriorityActionData
+  | ReassignActionData
+  | AddNoteActionData
+  | EscalateActionData
+  | ResolveActionData
+  | PublishStatusActionData
+  | PageUserActionData;
 
 interface BaseActionData {
   name: string;
@@ -156,6 +224,80 @@ export interface RunbookActionData extends BaseActionData {
   config: RunbookActionConfig;
 }
 
+export interface NotifyChannelActionData extends BaseActionData {
+  actionType: 'notify_channel';
+  config: NotifyChannelConfig;
+}
+
+export interface UpdatePriorityActionData extends BaseActionData {
+  actionType: 'update_priority';
+  config: { priority: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW' | 'INFO' };
+}
+
+export interface ReassignActionData extends BaseActionData {
+  actionType: 'reassign';
+  /** New assignee - must be an active responder on the incident's team */
+  config: { userId: string };
+}
+
+export interface AddNoteActionData extends BaseActionData {
+  actionType: 'add_note';
+  /** Note - supports {{variable}} templates */
+  config: { note: string };
+}
+
+export interface EscalateActionData extends BaseActionData {
+  actionType: 'escalate';
+  /** Reason recorded on the timeline - supports {{variable}} templates */
+  config: { reason?: string };
+}
+
+export interface ResolveActionData extends BaseActionData {
+  actionType: 'resolve';
+  /** Resolution note - supports {{variable}} templates */
+  config: { resolutionNote?: string };
+}
+
+export interface PublishStatusActionData extends BaseActionData {
+  actionType: 'publish_status';
+  config: PublishStatusConfig;
+}
+
+export interface PageUserActionData extends BaseActionData {
+  actionType: 'page_user';
+  /** User to page; channels default to the user's notification preferences */
+  config: { userId: string; channels?: string[] };
+}
+
+/**
+ * Post a message to a Slack or Teams channel
+ */
+export interface NotifyChannelConfig {
+  platform: 'slack' | 'teams';
+  /** Slack channel - defaults to the incident team's Slack channel */
+  channel?: string;
+  /** Teams team (group) ID - required for Teams */
+  teamsTeamId?: string;
+  /** Teams channel ID - required for Teams */
+  teamsChannelId?: string;
+  /** Message - supports {{variable}} templates */
+  message: string;
+}
+
+/**
+ * Publish a status incident linked to the platform incident
+ */
+export interface PublishStatusConfig {
+  /** Status page owned by the incident's team */
+  statusPageId: string;
+  /** Title - supports {{variable}} templates */
+  title: string;
+  /** Initial update - supports {{variable}} templates */
+  message: string;
+  severity: 'MINOR' | 'MAJOR' | 'CRITICAL';
+  affectedComponentIds?: string[];
+}
+
 /**
  * Runbook action configuration for workflow execution
  */
@@ -273,17 +415,19 @@ export interface LinearConfig {
 // =============================================================================
 
 /**
- * Condition node data for if/else branching
- * Simple equality check per user decision (no advanced operators)
+ * Condition node data for if/else branching.
+ * A single field check, or a nested all/any group for compound logic.
  */
 export interface ConditionData {
   name: string;
   /** Field to check */
   field: string;
-  /** Operator - simple equality per user decision */
-  operator: '=';
+  /** Comparison operator */
+  operator: ConditionOperator;
   /** Value to compare against */
   value: string;
+  /** Compound logic - when set, evaluated instead of field/operator/value */
+  group?: ConditionGroup;
 }
 
 // =============================================================================
@@ -291,11 +435,12 @@ export interface ConditionData {
 // =============================================================================
 
 /**
- * Delay node data for configurable waits
+ * Delay node data for configurable waits.
+ * Delays are durable: the execution is parked and resumed by a delayed queue job.
  */
 export interface DelayData {
   name: string;
-  /** Duration to wait in minutes */
+  /** Duration to wait in minutes (hours and days are stored as minutes) */
   durationMinutes: number;
 }
 
@@ -388,11 +533,14 @@ export type ExecutionStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | '
  */
 export interface WorkflowExecutionResult {
   executionId: string;
-  status: 'COMPLETED' | 'FAILED' | 'CANCELLED';
+  /** WAITING - parked at a delay node; the execution stays RUNNING until resumed */
+  status: 'COMPLETED' | 'FAILED' | 'CANCELLED' | 'WAITING';
   completedNodes: NodeResult[];
   error?: string;
   /** Duration in milliseconds */
   duration: number;
+  /** When a WAITING execution resumes */
+  resumeAt?: Date;
 }
 
 export type NodeResultStatus = 'completed' | 'failed' | 'skipped';
@@ -435,7 +583,13 @@ export type TriggerEventType =
   | 'state_changed'
   | 'escalation'
   | 'manual'
-  | 'age';
+  | 'age'
+  | 'alert_received'
+  | 'note_added'
+  | 'reassigned'
+  | 'ack_timeout'
+  | 'postmortem_published'
+  | 'action_item_overdue';
 
 /**
  * Event that may trigger workflows
@@ -453,6 +607,11 @@ export interface TriggerEvent {
   previousState?: string;
   /** For state_changed - new state */
   newState?: string;
+  /**
+   * Event details (e.g. alert, note, postmortem, actionItem). Trigger
+   * conditions fall back to these fields, e.g. 'alert.severity'.
+   */
+  payload?: Record<string, unknown>;
 }
 
 // =============================================================================
@@ -92,6 +92,17 @@ function normalizePayload(payload: any): Record<string, any> {
       .toLowerCase();
   }
 
+  // Grouped notifications (e.g., Alertmanager) - group status plus each alert's state
+  if (Array.isArray(payload.alerts)) {
+    if (payload.groupKey) {
+      normalized.groupKey = String(payload.groupKey);
+    }
+    normalized.status = String(payload.status || '').toLowerCase();
+    normalized.alerts = payload.alerts
+      .map((a: any) => `${a?.fingerprint || JSON.stringify(a?.labels || {})}:${a?.status}:${a?.startsAt}`)
+      .sort();
+  }
+
   return normalized;
 }
 
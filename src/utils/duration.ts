@@ -0,0 +1,32 @@
+/**
+ * Parses a human duration such as "30m", "2h", "1h30m" or "2 hours" into minutes.
+ * A unit is required so the duration can't be confused with an incident number
+ * in free-text replies.
+ *
+ * @param text - Text containing the duration (other words are ignored)
+ * @returns Total minutes, or null when no duration is present
+ */
+export function parseDurationMinutes(text: string): number | null {
+  const pattern = /(\d+)\s*(minutes?|mins?|m|hours?|hrs?|h)(?![a-z])/gi;
+  let total = 0;
+  let found = false;
+
+  for (const match of text.matchAll(pattern)) {
+    const value = parseInt(match[1], 10);
+    total += match[2].toLowerCase().startsWith('h') ? value * 60 : value;
+    found = true;
+  }
+
+  return found ? total : null;
+}
+
+/**
+ * Formats minutes for replies, e.g. 90 -> "1h 30m".
+ */
+export function formatDurationMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
@@ -49,3 +49,29 @@ export function verifyHmacSignature(
     return false;
   }
 }
+
+/**
+ * Verifies a shared-secret bearer token using timing-safe comparison.
+ * For senders that authenticate with a static token instead of signing
+ * (e.g., Alertmanager http_config.authorization).
+ *
+ * @param headerValue - Header value (e.g., "Bearer abc123")
+ * @param secret - Webhook secret
+ * @param prefix - Scheme prefix to strip (e.g., "Bearer ")
+ * @returns true if the token matches the secret
+ */
+export function verifyBearerToken(
+  headerValue: string,
+  secret: string,
+  prefix: string = 'Bearer '
+): boolean {
+  const token = headerValue.startsWith(prefix)
+    ? headerValue.slice(prefix.length)
+    : headerValue;
+
+  // Compare digests so differing lengths don't short-circuit
+  const received = crypto.createHash('sha256').update(token).digest();
+  const expected = crypto.createHash('sha256').update(secret).digest();
+
+  return crypto.timingSafeEqual(received, expected);
+}
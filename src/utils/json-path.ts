@@ -0,0 +1,79 @@
+/**
+ * Minimal JSONPath resolver for webhook payload mapping.
+ *
+ * Supports the subset needed to point at a single value:
+ * - Root: $
+ * - Dot members: $.alert.name
+ * - Bracket members: $['alert-name'] or $["alert name"]
+ * - Array indexes: $.alerts[0], $.alerts[-1] (from the end)
+ *
+ * Filters, wildcards and recursive descent are intentionally not supported.
+ */
+
+const SEGMENT_PATTERN = /\.([A-Za-z0-9_$-]+)|\[(-?\d+)\]|\['([^']*)'\]|\["([^"]*)"\]/y;
+
+/**
+ * Returns true if the expression looks like a JSONPath (starts with "$").
+ */
+export function isJsonPath(expression: string): boolean {
+  return expression.trim().startsWith('$');
+}
+
+/**
+ * Parses a JSONPath into member names and array indexes.
+ * Throws on unsupported syntax.
+ */
+export function parseJsonPath(path: string): Array<string | number> {
+  const trimmed = path.trim();
+
+  if (!trimmed.startsWith('$')) {
+    throw new Error(`Invalid JSONPath "${path}": must start with $`);
+  }
+
+  const segments: Array<string | number> = [];
+  let position = 1;
+
+  while (position < trimmed.length) {
+    SEGMENT_PATTERN.lastIndex = position;
+    const match = SEGMENT_PATTERN.exec(trimmed);
+
+    if (!match) {
+      throw new Error(`Invalid JSONPath "${path}": unsupported syntax at position ${position}`);
+    }
+
+    if (match[2] !== undefined) {
+      segments.push(parseInt(match[2], 10));
+    } else {
+      segments.push(match[1] ?? match[3] ?? match[4]);
+    }
+
+    position = SEGMENT_PATTERN.lastIndex;
+  }
+
+  return segments;
+}
+
+/**
+ * Resolves a JSONPath against data. Returns undefined when any segment is missing.
+ */
+export function evaluateJsonPath(data: unknown, path: string): unknown {
+  let current: any = data;
+
+  for (const segment of parseJsonPath(path)) {
+    if (current === null || current === undefined) {
+      return undefined;
+    }
+
+    if (typeof segment === 'number') {
+      if (!Array.isArray(current)) return undefined;
+      current = current[segment < 0 ? current.length + segment : segment];
+    } else {
+      if (typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, segment)) {
+        return undefined;
+      }
+      current = current[segment];
+    }
+  }
+
+  return current;
+}
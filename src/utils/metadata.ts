@@ -0,0 +1,16 @@
+/**
+ * Reads an alert metadata value using dot notation (e.g., "labels.cluster").
+ * Used wherever rules match on metadata keys: grouping rules and suppression windows.
+ *
+ * @param metadata - Alert metadata object
+ * @param key - Dot-separated path to the value
+ * @returns The value, or undefined when any segment is missing
+ */
+export function getMetadataValue(metadata: Record<string, unknown>, key: string): unknown {
+  return key.split('.').reduce<unknown>((value, part) => {
+    if (value && typeof value === 'object') {
+      return (value as Record<string, unknown>)[part];
+    }
+    return undefined;
+  }, metadata);
+}
@@ -1,16 +1,21 @@
 import { Router, Request, Response } from 'express';
+import type { Integration } from '@prisma/client';
 import { rawBodyCapture } from './middleware/raw-body-capture.js';
 import { createDynamicSignatureVerifier } from './middleware/signature-verification.js';
 import { idempotencyService } from '../services/idempotency.service.js';
 import { alertService } from '../services/alert.service.js';
-import { getNormalizer, validateAlertPayload } from './schemas/index.js';
+import { getMappingNormalizer, getNormalizer, hasProviderNormalizer, validateAlertPayload } from './schemas/index.js';
+import type { NormalizedAlert } from './schemas/index.js';
 import { formatValidationError, createProblemDetails } from '../utils/problem-details.js';
 import { auditService } from '../services/audit.service.js';
 import { logger } from '../config/logger.js';
 import { deduplicationService } from '../services/deduplication.service.js';
 import { escalationService } from '../services/escalation.service.js';
+import { incidentService } from '../services/incident.service.js';
 import { generateContentFingerprint } from '../utils/content-fingerprint.js';
 import { webhookRateLimiter } from '../middleware/rateLimiter.js';
+import { suppressionWindowService } from '../services/suppressionWindow.service.js';
+import { alertStormService } from '../services/alertStorm.service.js';
 
 export const alertWebhookRouter = Router();
 
@@ -41,236 +46,535 @@ alertWebhookRouter.post(
       return;
     }
 
-    const headers = req.headers as Record<string, string | string[] | undefined>;
-    const fingerprint = idempotencyService.generateFingerprint(req.body);
-    const idempotencyKey = idempotencyService.extractKey(headers);
+    const outcome = await ingestWebhook(integration, req.body, req.headers, { instance: req.path });
+    res.status(outcome.statusCode).json(outcome.body);
+  }
+);
 
-    try {
-      // 1. Check for duplicate
-      const duplicateCheck = await idempotencyService.checkDuplicate(
-        integration.id,
-        headers,
-        req.body,
-        integration.deduplicationWindowMinutes
-      );
-
-      if (duplicateCheck.isDuplicate) {
-        // Record the delivery attempt (duplicate)
-        await alertService.recordDeliveryOnly({
-          integrationId: integration.id,
-          alertId: duplicateCheck.existingAlertId,
-          idempotencyKey,
-          contentFingerprint: fingerprint,
-          rawPayload: req.body,
-          headers: alertService.sanitizeHeaders(req.headers),
-          statusCode: 200,
-          errorMessage: 'Duplicate webhook'
-        });
+/**
+ * Options for running a payload through the ingestion pipeline.
+ */
+export interface IngestOptions {
+  // Stored delivery being replayed; skips the idempotency check and links the new delivery
+  replayOfId?: string;
+  // Request path reported in problem details
+  instance?: string;
+}
 
-        await auditService.log({
-          action: 'webhook.duplicate',
-          resourceType: 'alert',
-          resourceId: duplicateCheck.existingAlertId,
-          metadata: {
-            integration: integration.name,
-            idempotencyKey,
-            fingerprint: fingerprint.substring(0, 16)
-          }
-        });
+/**
+ * Result of normalizing a webhook payload for an integration.
+ */
+export type NormalizationResult =
+  | { success: true; alerts: NormalizedAlert[] }
+  | { success: false; errorMessage: string; problem: Record<string, any>; auditMetadata: Record<string, any> };
 
-        // Return 200 with existing alert ID (idempotent behavior per locked decision)
-        res.status(200).json({
-          alert_id: duplicateCheck.existingAlertId,
-          status: 'duplicate',
-          message: 'Alert already processed',
-          idempotent: true
-        });
-        return;
-      }
+/**
+ * Validate and normalize a payload the way the integration is configured to.
+ * Integrations with a mapping config use it regardless of type.
+ * Provider-specific types (datadog, newrelic, alertmanager) use direct normalization with Zod validation.
+ * Generic type uses existing validation path for backward compatibility.
+ */
+export function normalizeWebhookPayload(
+  integration: Integration,
+  payload: any,
+  instance?: string
+): NormalizationResult {
+  if (integration.mappingConfig || hasProviderNormalizer(integration.type)) {
+    // Mapping or provider-specific normalization (includes Zod validation)
+    const normalizer = integration.mappingConfig
+      ? getMappingNormalizer(integration.mappingConfig)
+      : getNormalizer(integration.type);
 
-      // 2. Validate and normalize payload
-      // Provider-specific types (datadog, newrelic) use direct normalization with Zod validation
-      // Generic type uses existing validation path for backward compatibility
-      let normalizedData;
-
-      if (integration.type === 'datadog' || integration.type === 'newrelic') {
-        // Provider-specific normalization (includes Zod validation)
-        const normalizer = getNormalizer(integration.type);
-
-        try {
-          normalizedData = normalizer(req.body, integration.name);
-        } catch (error) {
-          // Record validation failure
-          await alertService.recordDeliveryOnly({
-            integrationId: integration.id,
-            idempotencyKey,
-            contentFingerprint: fingerprint,
-            rawPayload: req.body,
-            headers: alertService.sanitizeHeaders(req.headers),
-            statusCode: 400,
-            errorMessage: error instanceof Error ? error.message : 'Validation failed'
-          });
-
-          await auditService.log({
-            action: 'webhook.validation_failed',
-            severity: 'WARN',
-            metadata: {
-              integration: integration.name,
-              type: integration.type,
-              error: error instanceof Error ? error.message : 'Validation failed'
-            }
-          });
-
-          res.status(400).json(createProblemDetails(
-            'validation-failed',
-            'Invalid webhook payload',
-            400,
-            { detail: error instanceof Error ? error.message : 'Validation failed' }
-          ));
-          return;
-        }
-      } else {
-        // Generic validation path (existing behavior)
-        const validation = validateAlertPayload(req.body, integration.name);
-
-        if (!validation.success) {
-          // Record the delivery attempt (validation failure)
-          await alertService.recordDeliveryOnly({
-            integrationId: integration.id,
-            idempotencyKey,
-            contentFingerprint: fingerprint,
-            rawPayload: req.body,
-            headers: alertService.sanitizeHeaders(req.headers),
-            statusCode: 400,
-            errorMessage: validation.error.message
-          });
-
-          await auditService.log({
-            action: 'webhook.validation_failed',
-            severity: 'WARN',
-            metadata: {
-              integration: integration.name,
-              errors: validation.error.issues.length
-            }
-          });
-
-          res.status(400).json(formatValidationError(validation.error, req.path));
-          return;
+    try {
+      const normalized = normalizer(payload, integration.name);
+      return { success: true, alerts: Array.isArray(normalized) ? normalized : [normalized] };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Validation failed';
+      return {
+        success: false,
+        errorMessage: message,
+        problem: createProblemDetails(
+          'validation-failed',
+          'Invalid webhook payload',
+          400,
+          { detail: message }
+        ),
+        auditMetadata: {
+          integration: integration.name,
+          type: integration.type,
+          error: message
         }
+      };
+    }
+  }
+
+  // Generic validation path (existing behavior)
+  const validation = validateAlertPayload(payload, integration.name);
 
-        normalizedData = validation.data;
+  if (!validation.success) {
+    return {
+      success: false,
+      errorMessage: validation.error.message,
+      problem: formatValidationError(validation.error, instance),
+      auditMetadata: {
+        integration: integration.name,
+        errors: validation.error.issues.length
       }
+    };
+  }
 
-      // 3. Create alert with delivery log
-      const { alert } = await alertService.createWithDelivery(
-        {
-          title: normalizedData.title,
-          description: normalizedData.description,
-          severity: normalizedData.severity,
-          triggeredAt: normalizedData.triggeredAt,
-          source: normalizedData.source,
-          externalId: normalizedData.externalId,
-          metadata: normalizedData.metadata,
-          integrationId: integration.id
-        },
-        {
-          idempotencyKey,
-          contentFingerprint: fingerprint,
-          rawPayload: req.body,
-          headers: alertService.sanitizeHeaders(req.headers),
-          statusCode: 201
-        }
-      );
+  return { success: true, alerts: [validation.data] };
+}
+
+/**
+ * Run a webhook payload through the ingestion pipeline: idempotency, normalization,
+ * alert creation, deduplication and routing. Records a delivery for every outcome.
+ * Signature and timestamp checks happen before this (in the route middleware).
+ */
+export async function ingestWebhook(
+  integration: Integration,
+  payload: any,
+  rawHeaders: Record<string, any>,
+  options: IngestOptions = {}
+): Promise<AlertOutcome> {
+  const headers = rawHeaders as Record<string, string | string[] | undefined>;
+  const fingerprint = idempotencyService.generateFingerprint(payload);
+  const idempotencyKey = idempotencyService.extractKey(headers);
+  const replayOfId = options.replayOfId;
+
+  try {
+    // 1. Check for duplicate (a replay is an explicit request to process the payload again)
+    const duplicateCheck = replayOfId
+      ? { isDuplicate: false as const }
+      : await idempotencyService.checkDuplicate(
+          integration.id,
+          headers,
+          payload,
+          integration.deduplicationWindowMinutes
+        );
+
+    if (duplicateCheck.isDuplicate) {
+      // Record the delivery attempt (duplicate)
+      await alertService.recordDeliveryOnly({
+        integrationId: integration.id,
+        alertId: duplicateCheck.existingAlertId,
+        idempotencyKey,
+        contentFingerprint: fingerprint,
+        rawPayload: payload,
+        headers: alertService.sanitizeHeaders(rawHeaders),
+        statusCode: 200,
+        errorMessage: 'Duplicate webhook'
+      });
 
       await auditService.log({
-        action: 'alert.created',
+        action: 'webhook.duplicate',
         resourceType: 'alert',
-        resourceId: alert.id,
+        resourceId: duplicateCheck.existingAlertId,
         metadata: {
           integration: integration.name,
-          title: alert.title,
-          severity: alert.severity
+          idempotencyKey,
+          fingerprint: fingerprint.substring(0, 16)
         }
       });
 
-      // 4. Generate fingerprint for deduplication
-      const deduplicationFingerprint = generateContentFingerprint({
-        title: alert.title,
-        source: alert.source,
-        severity: alert.severity,
-        // Include service metadata if present
-        service: (alert.metadata as any)?.service || alert.source
+      // Return 200 with existing alert ID (idempotent behavior per locked decision)
+      return {
+        statusCode: 200,
+        body: {
+          alert_id: duplicateCheck.existingAlertId,
+          status: 'duplicate',
+          message: 'Alert already processed',
+          idempotent: true
+        }
+      };
+    }
+
+    // 2. Validate and normalize payload
+    const normalization = normalizeWebhookPayload(integration, payload, options.instance);
+
+    if (!normalization.success) {
+      // Record the delivery attempt (validation failure)
+      await alertService.recordDeliveryOnly({
+        integrationId: integration.id,
+        idempotencyKey,
+        contentFingerprint: fingerprint,
+        rawPayload: payload,
+        headers: alertService.sanitizeHeaders(rawHeaders),
+        statusCode: 400,
+        errorMessage: normalization.errorMessage,
+        replayOfId
+      });
+
+      await auditService.log({
+        action: 'webhook.validation_failed',
+        severity: 'WARN',
+        metadata: normalization.auditMetadata
       });
 
-      // 5. Deduplicate and create/link incident (pass integration for service routing fallback)
-      const { incident, isDuplicate } = await deduplicationService.deduplicateAndCreateIncident(
-        alert.id,
-        deduplicationFingerprint,
-        alert,
-        integration.deduplicationWindowMinutes,
-        { defaultServiceId: integration.defaultServiceId }
-      );
-
-      // 6. If new incident, start escalation
-      if (!isDuplicate) {
-        await escalationService.startEscalation(incident.id);
+      return { statusCode: 400, body: normalization.problem };
+    }
+
+    const normalizedAlerts = normalization.alerts;
+
+    const delivery: DeliveryContext = {
+      idempotencyKey,
+      contentFingerprint: fingerprint,
+      rawPayload: payload,
+      headers: alertService.sanitizeHeaders(rawHeaders),
+      replayOfId
+    };
+
+    // Single alert: owns the delivery record and keeps the flat response shape
+    if (normalizedAlerts.length === 1) {
+      return await processAlert(normalizedAlerts[0], integration, delivery);
+    }
+
+    // Grouped payload: fan out one alert per entry, sharing a single delivery record
+    const outcomes: AlertOutcome[] = [];
+    for (const normalized of normalizedAlerts) {
+      outcomes.push(await processAlert(normalized, integration));
+    }
+
+    await alertService.recordDeliveryOnly({
+      integrationId: integration.id,
+      alertId: outcomes.find(o => o.body.alert_id)?.body.alert_id,
+      ...delivery,
+      statusCode: 200
+    });
+
+    logger.info({
+      msg: 'Grouped webhook processed',
+      integration: integration.name,
+      alerts: outcomes.length,
+      created: outcomes.filter(o => o.body.status === 'created').length,
+      resolved: outcomes.filter(o => o.body.status === 'resolved').length
+    });
+
+    return {
+      statusCode: 200,
+      body: {
+        status: 'processed',
+        count: outcomes.length,
+        alerts: outcomes.map(o => o.body)
       }
+    };
 
-      logger.info({
-        msg: isDuplicate ? 'Alert grouped to existing incident' : 'New incident created from alert',
-        alertId: alert.id,
-        incidentId: incident.id,
-        isDuplicate,
-        integration: integration.name,
-        severity: alert.severity,
-        fingerprint: deduplicationFingerprint.substring(0, 16)
+  } catch (error) {
+    // Record delivery failure
+    try {
+      await alertService.recordDeliveryOnly({
+        integrationId: integration.id,
+        idempotencyKey,
+        contentFingerprint: fingerprint,
+        rawPayload: payload,
+        headers: alertService.sanitizeHeaders(rawHeaders),
+        statusCode: 500,
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        replayOfId
       });
+    } catch (logError) {
+      logger.error({ error: logError }, 'Failed to log delivery failure');
+    }
 
-      res.status(201).json({
-        alert_id: alert.id,
-        incident_id: incident.id,
-        status: isDuplicate ? 'grouped' : 'created',
-        title: alert.title,
-        severity: alert.severity,
-        triggered_at: alert.triggeredAt.toISOString()
+    await auditService.log({
+      action: 'webhook.processing_failed',
+      severity: 'HIGH',
+      metadata: {
+        integration: integration.name,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    });
+
+    logger.error({ err: error, errorMessage: error instanceof Error ? error.message : String(error), errorStack: error instanceof Error ? error.stack : undefined }, 'Webhook processing failed');
+
+    return {
+      statusCode: 500,
+      body: createProblemDetails(
+        'processing-failed',
+        'Internal processing error',
+        500,
+        { detail: 'An unexpected error occurred while processing the webhook' }
+      )
+    };
+  }
+}
+
+/**
+ * Delivery fields shared by every alert in a webhook.
+ */
+interface DeliveryContext {
+  idempotencyKey?: string;
+  contentFingerprint: string;
+  rawPayload: any;
+  headers: Record<string, any>;
+  replayOfId?: string;
+}
+
+/**
+ * Result of running a webhook (or one normalized alert) through the pipeline.
+ */
+export interface AlertOutcome {
+  statusCode: number;
+  body: Record<string, any>;
+}
+
+/**
+ * Run one normalized alert through the pipeline: resolve signal, create alert,
+ * suppression, deduplication and escalation.
+ *
+ * @param delivery - Recorded against this alert; omitted for grouped payloads,
+ *                   which record a single delivery for the whole group
+ */
+async function processAlert(
+  normalizedData: NormalizedAlert,
+  integration: Integration,
+  delivery?: DeliveryContext
+): Promise<AlertOutcome> {
+  // Recovery notification: resolve the matching alert instead of creating one
+  if (normalizedData.action === 'resolve') {
+    const resolved = normalizedData.externalId
+      ? await alertService.resolveByExternalId(integration.id, normalizedData.externalId)
+      : [];
+
+    // Resolve incidents whose alerts have all recovered (cancels pending escalation)
+    const resolvedIncidentIds: string[] = [];
+    if (integration.autoResolve) {
+      const incidentIds = new Set(resolved.map(a => a.incidentId).filter((id): id is string => !!id));
+      for (const incidentId of incidentIds) {
+        if (await incidentService.resolveIfAlertsResolved(incidentId, integration.name)) {
+          resolvedIncidentIds.push(incidentId);
+        }
+      }
+    }
+
+    if (delivery) {
+      await alertService.recordDeliveryOnly({
+        integrationId: integration.id,
+        alertId: resolved[0]?.id,
+        ...delivery,
+        statusCode: 200
       });
+    }
 
-    } catch (error) {
-      // Record delivery failure
-      try {
+    logger.info({
+      msg: resolved.length > 0 ? 'Alert resolved by monitoring tool' : 'Resolve signal matched no open alert',
+      externalId: normalizedData.externalId,
+      resolvedCount: resolved.length,
+      resolvedIncidentIds,
+      integration: integration.name
+    });
+
+    return {
+      statusCode: 200,
+      body: {
+        alert_id: resolved[0]?.id ?? null,
+        incident_id: resolved[0]?.incidentId ?? null,
+        status: resolved.length > 0 ? 'resolved' : 'no_match',
+        external_id: normalizedData.externalId,
+        resolved_count: resolved.length,
+        incident_resolved: resolvedIncidentIds.length > 0
+      }
+    };
+  }
+
+  // Providers with a stable identity resend alerts that are still firing
+  if (normalizedData.dedupKey && normalizedData.externalId) {
+    const existing = await alertService.findOpenByExternalId(
+      integration.id,
+      normalizedData.externalId,
+      normalizedData.triggeredAt
+    );
+
+    if (existing) {
+      if (delivery) {
         await alertService.recordDeliveryOnly({
           integrationId: integration.id,
-          idempotencyKey,
-          contentFingerprint: fingerprint,
-          rawPayload: req.body,
-          headers: alertService.sanitizeHeaders(req.headers),
-          statusCode: 500,
-          errorMessage: error instanceof Error ? error.message : 'Unknown error'
+          alertId: existing.id,
+          ...delivery,
+          statusCode: 200,
+          errorMessage: 'Alert still firing'
         });
-      } catch (logError) {
-        logger.error({ error: logError }, 'Failed to log delivery failure');
       }
 
-      await auditService.log({
-        action: 'webhook.processing_failed',
-        severity: 'HIGH',
-        metadata: {
-          integration: integration.name,
-          error: error instanceof Error ? error.message : 'Unknown error'
+      return {
+        statusCode: 200,
+        body: {
+          alert_id: existing.id,
+          incident_id: existing.incidentId,
+          status: 'duplicate',
+          title: existing.title,
+          severity: existing.severity,
+          triggered_at: existing.triggeredAt.toISOString()
         }
-      });
+      };
+    }
+  }
 
-      logger.error({ err: error, errorMessage: error instanceof Error ? error.message : String(error), errorStack: error instanceof Error ? error.stack : undefined }, 'Webhook processing failed');
+  // 3. Create alert (with delivery log when the alert owns the delivery)
+  const alertParams = {
+    title: normalizedData.title,
+    description: normalizedData.description,
+    severity: normalizedData.severity,
+    triggeredAt: normalizedData.triggeredAt,
+    source: normalizedData.source,
+    externalId: normalizedData.externalId,
+    metadata: normalizedData.metadata,
+    integrationId: integration.id
+  };
 
-      res.status(500).json(createProblemDetails(
-        'processing-failed',
-        'Internal processing error',
-        500,
-        { detail: 'An unexpected error occurred while processing the webhook' }
-      ));
+  const alert = delivery
+    ? (await alertService.createWithDelivery(alertParams, { ...delivery, statusCode: 201 })).alert
+    : await alertService.create(alertParams);
+
+  await auditService.log({
+    action: 'alert.created',
+    resourceType: 'alert',
+    resourceId: alert.id,
+    metadata: {
+      integration: integration.name,
+      title: alert.title,
+      severity: alert.severity
+    }
+  });
+
+  // 4. Check scheduled suppression windows (deploys, batch jobs) before any incident work
+  const suppressionTarget = await suppressionWindowService.resolveTarget(alert, integration);
+  const suppressionWindow = await suppressionWindowService.findActiveWindow(suppressionTarget);
+
+  if (suppressionWindow) {
+    return recordSuppressed(alert, integration.name, {
+      reason: 'suppression_window',
+      teamId: suppressionWindow.teamId,
+      suppressionWindowId: suppressionWindow.id
+    });
+  }
+
+  // 5. Storm / flapping protection: fold into one incident and notify team admins only
+  const storm = await alertStormService.evaluate(alert, integration, suppressionTarget.serviceId);
+
+  if (storm) {
+    const { incident, isNew, suppressed } = await alertStormService.collapse(alert, integration, storm);
+
+    if (suppressed) {
+      return recordSuppressed(alert, integration.name, suppressed);
     }
+
+    return {
+      statusCode: 201,
+      body: {
+        alert_id: alert.id,
+        incident_id: incident!.id,
+        status: isNew ? 'created' : 'grouped',
+        storm: storm.kind,
+        title: alert.title,
+        severity: alert.severity,
+        triggered_at: alert.triggeredAt.toISOString()
+      }
+    };
   }
-);
+
+  // 6. Generate fingerprint for deduplication
+  // Provider dedup keys (e.g., Alertmanager fingerprint) take precedence over content
+  const deduplicationFingerprint = normalizedData.dedupKey
+    ? generateContentFingerprint({
+        source: alert.source,
+        externalId: normalizedData.dedupKey
+      })
+    : generateContentFingerprint({
+        title: alert.title,
+        source: alert.source,
+        severity: alert.severity,
+        // Include service metadata if present
+        service: (alert.metadata as any)?.service || alert.source
+      });
+
+  // 7. Deduplicate and create/link incident (pass integration for service routing fallback)
+  const { incident, isDuplicate, suppressed } = await deduplicationService.deduplicateAndCreateIncident(
+    alert.id,
+    deduplicationFingerprint,
+    alert,
+    integration.deduplicationWindowMinutes,
+    { defaultServiceId: integration.defaultServiceId }
+  );
+
+  // Team in maintenance mode: alert is recorded but nobody is paged
+  if (suppressed) {
+    return recordSuppressed(alert, integration.name, suppressed);
+  }
+
+  // 8. If new incident, start escalation
+  if (!isDuplicate) {
+    await escalationService.startEscalation(incident.id);
+  }
+
+  logger.info({
+    msg: isDuplicate ? 'Alert grouped to existing incident' : 'New incident created from alert',
+    alertId: alert.id,
+    incidentId: incident.id,
+    isDuplicate,
+    integration: integration.name,
+    severity: alert.severity,
+    fingerprint: deduplicationFingerprint.substring(0, 16)
+  });
+
+  return {
+    statusCode: 201,
+    body: {
+      alert_id: alert.id,
+      incident_id: incident.id,
+      status: isDuplicate ? 'grouped' : 'created',
+      title: alert.title,
+      severity: alert.severity,
+      triggered_at: alert.triggeredAt.toISOString()
+    }
+  };
+}
+
+/**
+ * Record a suppressed alert (replied with 202).
+ * The alert is kept for the audit trail but no incident is opened and nobody is paged.
+ */
+async function recordSuppressed(
+  alert: { id: string; title: string; severity: string; triggeredAt: Date },
+  integrationName: string,
+  suppression: { reason: string; teamId: string; suppressionWindowId?: string }
+): Promise<AlertOutcome> {
+  await auditService.log({
+    action: 'alert.suppressed',
+    teamId: suppression.teamId,
+    resourceType: 'alert',
+    resourceId: alert.id,
+    metadata: {
+      reason: suppression.reason,
+      suppressionWindowId: suppression.suppressionWindowId,
+      integration: integrationName,
+      title: alert.title,
+      severity: alert.severity
+    }
+  });
+
+  logger.info({
+    msg: 'Alert suppressed',
+    alertId: alert.id,
+    teamId: suppression.teamId,
+    reason: suppression.reason,
+    suppressionWindowId: suppression.suppressionWindowId,
+    integration: integrationName
+  });
+
+  return {
+    statusCode: 202,
+    body: {
+      alert_id: alert.id,
+      incident_id: null,
+      status: 'suppressed',
+      reason: suppression.reason,
+      title: alert.title,
+      severity: alert.severity,
+      triggered_at: alert.triggeredAt.toISOString()
+    }
+  };
+}
 
 /**
  * GET /webhooks/alerts/:integrationName/test
@@ -0,0 +1,255 @@
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { alertService } from '../services/alert.service.js';
+import { auditService } from '../services/audit.service.js';
+import { deduplicationService } from '../services/deduplication.service.js';
+import { escalationService } from '../services/escalation.service.js';
+import { incidentService, SYSTEM_ACTOR_ID } from '../services/incident.service.js';
+import { serviceService } from '../services/service.service.js';
+import { suppressionWindowService } from '../services/suppressionWindow.service.js';
+import { generateContentFingerprint } from '../utils/content-fingerprint.js';
+import { webhookRateLimiter } from '../middleware/rateLimiter.js';
+import { normalizeEventsV2Payload, type NormalizedEvent } from './schemas/events.schema.js';
+import { logger } from '../config/logger.js';
+
+export const eventsV2Router = Router();
+
+// Rate limit: same webhook tier as /webhooks/alerts
+eventsV2Router.use(webhookRateLimiter);
+
+/**
+ * Events API response body.
+ * Mirrors the PagerDuty Events API v2 shape so existing senders parse it unchanged.
+ */
+interface EventResponse {
+  status: 'success' | 'invalid event';
+  message: string;
+  dedup_key?: string;
+  errors?: string[];
+}
+
+/**
+ * POST /v2/enqueue
+ * PagerDuty Events API v2 compatible endpoint. Senders authenticate with the
+ * routing key of an active service; dedup_key ties trigger, acknowledge and
+ * resolve events for the same problem together.
+ */
+eventsV2Router.post('/enqueue', async (req: Request, res: Response): Promise<void> => {
+  let event: NormalizedEvent;
+  try {
+    event = normalizeEventsV2Payload(req.body);
+  } catch (error) {
+    const errors = error instanceof ZodError
+      ? error.issues.map(issue => `${issue.path.join('.') || 'event'}: ${issue.message}`)
+      : ['Event could not be parsed'];
+
+    await auditService.log({
+      action: 'webhook.validation_failed',
+      severity: 'WARN',
+      metadata: { endpoint: 'events-v2', errors: errors.length }
+    });
+
+    res.status(400).json(invalidEvent(errors));
+    return;
+  }
+
+  const service = await serviceService.getByRoutingKey(event.routingKey);
+
+  if (!service || service.status === 'ARCHIVED') {
+    await auditService.log({
+      action: 'webhook.routing_key_invalid',
+      severity: 'WARN',
+      metadata: { endpoint: 'events-v2', routingKeyPrefix: event.routingKey.slice(0, 8) }
+    });
+
+    res.status(400).json(invalidEvent(['Invalid routing key']));
+    return;
+  }
+
+  try {
+    const body = await processEvent(event, service);
+    res.status(202).json(body);
+  } catch (error) {
+    logger.error({ err: error, serviceId: service.id, action: event.action }, 'Events API processing failed');
+
+    await auditService.log({
+      action: 'webhook.processing_failed',
+      severity: 'HIGH',
+      teamId: service.teamId,
+      metadata: {
+        endpoint: 'events-v2',
+        service: service.name,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    });
+
+    res.status(500).json({ status: 'error', message: 'Internal processing error' });
+  }
+});
+
+function invalidEvent(errors: string[]): EventResponse {
+  return { status: 'invalid event', message: 'Event object is invalid', errors };
+}
+
+/**
+ * Apply one event for a service. Always answers "success" once the event is
+ * accepted, including acknowledge/resolve for a dedup key with no open alert,
+ * matching how the PagerDuty Events API behaves.
+ */
+async function processEvent(
+  event: NormalizedEvent,
+  service: { id: string; name: string; teamId: string }
+): Promise<EventResponse> {
+  const accepted: EventResponse = {
+    status: 'success',
+    message: 'Event processed',
+    dedup_key: event.dedupKey
+  };
+
+  if (event.action === 'resolve') {
+    const resolved = await alertService.resolveByDedupKey(event.routingKey, event.dedupKey);
+
+    // Resolve incidents whose alerts have all recovered (cancels pending escalation)
+    const incidentIds = new Set(resolved.map(a => a.incidentId).filter((id): id is string => !!id));
+    for (const incidentId of incidentIds) {
+      await incidentService.resolveIfAlertsResolved(incidentId, `Events API: ${service.name}`);
+    }
+
+    logger.info({
+      msg: resolved.length > 0 ? 'Alert resolved via Events API' : 'Resolve event matched no open alert',
+      dedupKey: event.dedupKey,
+      resolvedCount: resolved.length,
+      service: service.name
+    });
+
+    return accepted;
+  }
+
+  const open = await alertService.findOpenByDedupKey(event.routingKey, event.dedupKey);
+
+  if (event.action === 'acknowledge') {
+    const incidentIds = new Set(open.map(a => a.incidentId).filter((id): id is string => !!id));
+
+    for (const incidentId of incidentIds) {
+      const incident = await incidentService.getById(incidentId);
+      if (incident?.status !== 'OPEN') continue;
+
+      await incidentService.acknowledge(incidentId, SYSTEM_ACTOR_ID, {
+        note: `Acknowledged via Events API (${service.name})`
+      });
+    }
+
+    logger.info({
+      msg: open.length > 0 ? 'Alert acknowledged via Events API' : 'Acknowledge event matched no open alert',
+      dedupKey: event.dedupKey,
+      service: service.name
+    });
+
+    return accepted;
+  }
+
+  // Trigger for a dedup key that is still open: the sender is re-reporting the same problem
+  if (open.length > 0) {
+    return { ...accepted, message: 'Event processed (deduplicated)' };
+  }
+
+  const normalized = event.alert!;
+  const alert = await alertService.create({
+    title: normalized.title,
+    description: normalized.description,
+    severity: normalized.severity,
+    triggeredAt: normalized.triggeredAt,
+    source: normalized.source,
+    externalId: normalized.externalId,
+    metadata: normalized.metadata,
+    integrationId: null
+  });
+
+  await auditService.log({
+    action: 'alert.created',
+    teamId: service.teamId,
+    resourceType: 'alert',
+    resourceId: alert.id,
+    metadata: {
+      endpoint: 'events-v2',
+      service: service.name,
+      title: alert.title,
+      severity: alert.severity
+    }
+  });
+
+  // Scheduled suppression windows (deploys, batch jobs) apply to the service
+  const suppressionWindow = await suppressionWindowService.findActiveWindow(
+    await suppressionWindowService.resolveTarget(alert)
+  );
+
+  if (suppressionWindow) {
+    await recordSuppressed(alert, service.name, {
+      reason: 'suppression_window',
+      teamId: suppressionWindow.teamId,
+      suppressionWindowId: suppressionWindow.id
+    });
+    return accepted;
+  }
+
+  // Dedup key identifies the problem within the service (routing_key in metadata routes it)
+  const fingerprint = generateContentFingerprint({
+    source: `events-v2:${service.id}`,
+    externalId: event.dedupKey
+  });
+
+  const { incident, isDuplicate, suppressed } = await deduplicationService.deduplicateAndCreateIncident(
+    alert.id,
+    fingerprint,
+    alert
+  );
+
+  // Team in maintenance mode: alert is recorded but nobody is paged
+  if (suppressed) {
+    await recordSuppressed(alert, service.name, suppressed);
+    return accepted;
+  }
+
+  if (!isDuplicate) {
+    await escalationService.startEscalation(incident.id);
+  }
+
+  logger.info({
+    msg: isDuplicate ? 'Events API alert grouped to existing incident' : 'New incident created from Events API',
+    alertId: alert.id,
+    incidentId: incident.id,
+    isDuplicate,
+    service: service.name,
+    severity: alert.severity
+  });
+
+  return accepted;
+}
+
+async function recordSuppressed(
+  alert: { id: string; title: string; severity: string },
+  serviceName: string,
+  suppression: { reason: string; teamId: string; suppressionWindowId?: string }
+): Promise<void> {
+  await auditService.log({
+    action: 'alert.suppressed',
+    teamId: suppression.teamId,
+    resourceType: 'alert',
+    resourceId: alert.id,
+    metadata: {
+      reason: suppression.reason,
+      suppressionWindowId: suppression.suppressionWindowId,
+      endpoint: 'events-v2',
+      service: serviceName,
+      title: alert.title,
+      severity: alert.severity
+    }
+  });
+
+  logger.info({
+    msg: 'Events API alert suppressed',
+    alertId: alert.id,
+    teamId: suppression.teamId,
+    reason: suppression.reason
+  });
+}
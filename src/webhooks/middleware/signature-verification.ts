@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../../config/database.js';
-import { verifyHmacSignature } from '../../utils/hmac-verifier.js';
+import { verifyHmacSignature, verifyBearerToken } from '../../utils/hmac-verifier.js';
 import { auditService } from '../../services/audit.service.js';
 import { logger } from '../../config/logger.js';
 
@@ -152,16 +152,19 @@ export function createSignatureVerifier(options: SignatureVerifierOptions) {
     }
 
     // Verify signature
-    const isValid = verifyHmacSignature(
-      req.rawBody,
-      signature,
-      integration.webhookSecret,
-      {
-        algorithm: integration.signatureAlgorithm as 'sha256' | 'sha512',
-        format: integration.signatureFormat as 'hex' | 'base64',
-        prefix: integration.signaturePrefix || undefined
-      }
-    );
+    // Alertmanager can't sign payloads - it sends the secret as a bearer token instead
+    const isValid = integration.type === 'alertmanager'
+      ? verifyBearerToken(signature, integration.webhookSecret, integration.signaturePrefix || undefined)
+      : verifyHmacSignature(
+          req.rawBody,
+          signature,
+          integration.webhookSecret,
+          {
+            algorithm: integration.signatureAlgorithm as 'sha256' | 'sha512',
+            format: integration.signatureFormat as 'hex' | 'base64',
+            prefix: integration.signaturePrefix || undefined
+          }
+        );
 
     if (!isValid) {
       await auditService.log({
@@ -5,7 +5,7 @@ import { AlertSeverity } from '@prisma/client';
  * Coerces various timestamp formats to Date.
  * Handles ISO-8601 strings and Unix timestamps (seconds or milliseconds).
  */
-const timestampSchema = z.union([
+export const timestampSchema = z.union([
   z.string().datetime(),           // ISO-8601 with timezone
   z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/), // ISO without timezone
   z.number()                       // Unix timestamp
@@ -22,7 +22,7 @@ const timestampSchema = z.union([
  * Normalizes severity strings to AlertSeverity enum values.
  * Case-insensitive, maps common aliases.
  */
-const severitySchema = z.string().transform((val): AlertSeverity => {
+export const severitySchema = z.string().transform((val): AlertSeverity => {
   const normalized = val.toUpperCase().trim();
 
   // Map common aliases
@@ -106,6 +106,10 @@ export interface NormalizedAlert {
   source: string | null;
   externalId: string | null;
   metadata: Record<string, any>;
+  // Provider identity for incident deduplication (replaces the title/severity fingerprint)
+  dedupKey?: string;
+  // 'resolve' marks a recovery notification for externalId (defaults to 'trigger')
+  action?: 'trigger' | 'resolve';
 }
 
 /**
@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import { AlertSeverity } from '@prisma/client';
+import type { NormalizedAlert } from './alert.schema.js';
+
+/**
+ * A single alert inside an Alertmanager notification group.
+ */
+const alertmanagerAlertSchema = z.object({
+  status: z.enum(['firing', 'resolved']),
+  labels: z.record(z.string(), z.string()),
+  annotations: z.record(z.string(), z.string()).optional(),
+  startsAt: z.string().datetime({ offset: true }), // RFC 3339, may carry a local offset
+  endsAt: z.string().optional(),
+  generatorURL: z.string().optional(),
+  fingerprint: z.string().optional() // Missing on Alertmanager < 0.19
+}).passthrough();
+
+/**
+ * Prometheus Alertmanager webhook payload schema (version 4).
+ * One notification carries every alert in the group.
+ */
+export const alertmanagerWebhookSchema = z.object({
+  // Required fields
+  status: z.enum(['firing', 'resolved']),
+  alerts: z.array(alertmanagerAlertSchema).min(1),
+
+  // Group details
+  version: z.string().optional(),
+  groupKey: z.string().optional(),
+  truncatedAlerts: z.number().optional(),
+  receiver: z.string().optional(),
+  groupLabels: z.record(z.string(), z.string()).optional(),
+  commonLabels: z.record(z.string(), z.string()).optional(),
+  commonAnnotations: z.record(z.string(), z.string()).optional(),
+  externalURL: z.string().optional(),
+}).passthrough(); // Allow unknown fields to be preserved
+
+export type AlertmanagerWebhookInput = z.input<typeof alertmanagerWebhookSchema>;
+export type AlertmanagerWebhookParsed = z.output<typeof alertmanagerWebhookSchema>;
+
+/**
+ * Normalizes an Alertmanager webhook payload, fanning out one alert per group entry.
+ *
+ * Severity mapping (from the "severity" label):
+ * - critical, page, emergency -> CRITICAL
+ * - high, error -> HIGH
+ * - warning, warn -> MEDIUM
+ * - low -> LOW
+ * - info, none -> INFO
+ * - Unknown or missing -> MEDIUM (default fallback)
+ *
+ * Deduplication:
+ * - The Alertmanager fingerprint (hash of the label set) is used as externalId
+ *   and dedup key, so repeated notifications for the same alert group together
+ * - Resolved entries are emitted as resolve signals for the same externalId
+ */
+export function normalizeAlertmanagerPayload(
+  payload: unknown,
+  integrationName: string
+): NormalizedAlert[] {
+  const parsed = alertmanagerWebhookSchema.parse(payload);
+
+  const severityMap: Record<string, AlertSeverity> = {
+    'critical': AlertSeverity.CRITICAL,
+    'page': AlertSeverity.CRITICAL,
+    'emergency': AlertSeverity.CRITICAL,
+    'high': AlertSeverity.HIGH,
+    'error': AlertSeverity.HIGH,
+    'warning': AlertSeverity.MEDIUM,
+    'warn': AlertSeverity.MEDIUM,
+    'low': AlertSeverity.LOW,
+    'info': AlertSeverity.INFO,
+    'none': AlertSeverity.INFO
+  };
+
+  return parsed.alerts.map(entry => {
+    const labels = { ...parsed.commonLabels, ...entry.labels };
+    const annotations = { ...parsed.commonAnnotations, ...entry.annotations };
+
+    const severity = severityMap[(labels.severity || '').toLowerCase()] || AlertSeverity.MEDIUM;
+    const fingerprint = entry.fingerprint || fingerprintLabels(entry.labels);
+    const alertname = labels.alertname || 'Prometheus alert';
+
+    return {
+      title: `[Prometheus] ${annotations.summary || alertname}`,
+      description: annotations.description || annotations.message || null,
+      severity,
+      triggeredAt: new Date(entry.startsAt),
+      source: integrationName,
+      externalId: fingerprint,
+      dedupKey: fingerprint,
+      action: entry.status === 'resolved' ? 'resolve' : 'trigger',
+      metadata: {
+        // Provider identification
+        provider: 'alertmanager',
+
+        // Service for routing (Phase 4)
+        service: labels.service || labels.job,
+
+        // Explicit routing key label routes straight to a service
+        ...(labels.routing_key && { routing_key: labels.routing_key }),
+
+        // Alertmanager-specific fields preserved for debugging
+        alertmanager: {
+          alertname,
+          status: entry.status,
+          fingerprint,
+          groupKey: parsed.groupKey,
+          receiver: parsed.receiver,
+          startsAt: entry.startsAt,
+          endsAt: entry.endsAt,
+          generatorURL: entry.generatorURL,
+          externalURL: parsed.externalURL,
+          annotations
+        },
+
+        // Label set (service, instance, job...) for matching and grouping
+        labels,
+
+        // Preserve this entry rather than the whole group (groups can be large)
+        raw: entry
+      }
+    };
+  });
+}
+
+/**
+ * Stable fingerprint for alerts from Alertmanager versions that don't send one.
+ */
+function fingerprintLabels(labels: Record<string, string>): string {
+  const content = Object.keys(labels).sort().map(key => `${key}=${labels[key]}`).join(',');
+  return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+}
@@ -33,6 +33,7 @@ export const datadogWebhookSchema = z.object({
 
   // Event type
   event_type: z.string().optional(),
+  alert_transition: z.string().optional(), // "Triggered", "Recovered", "Warn", "Re-Triggered"
 }).passthrough(); // Allow unknown fields to be preserved
 
 export type DatadogWebhookInput = z.input<typeof datadogWebhookSchema>;
@@ -52,6 +53,10 @@ export type DatadogWebhookParsed = z.output<typeof datadogWebhookSchema>;
  * Service extraction:
  * - Looks for "service:" tag (e.g., "service:api")
  * - Extracted for routing via metadata.service
+ *
+ * Recovery:
+ * - alert_transition "Recovered" or alert_status "ok"/"recovered" emits a
+ *   resolve signal for the same alert_id
  */
 export function normalizeDatadogPayload(
   payload: unknown,
@@ -70,6 +75,9 @@ export function normalizeDatadogPayload(
 
   const severity = severityMap[parsed.alert_priority] || AlertSeverity.MEDIUM;
 
+  const isRecovery = parsed.alert_transition?.toLowerCase() === 'recovered' ||
+    ['ok', 'recovered'].includes(parsed.alert_status.toLowerCase());
+
   // Extract service from tags (e.g., "service:api")
   const serviceTag = parsed.tags?.find(tag => tag.startsWith('service:'));
   const service = serviceTag ? serviceTag.split(':')[1] : undefined;
@@ -91,6 +99,7 @@ export function normalizeDatadogPayload(
     triggeredAt: new Date(parsed.date * 1000), // Unix timestamp to Date
     source: integrationName,
     externalId: parsed.alert_id,
+    action: isRecovery ? 'resolve' : 'trigger',
     metadata: {
       // Provider identification
       provider: 'datadog',
@@ -109,6 +118,7 @@ export function normalizeDatadogPayload(
         monitor_name: parsed.monitor_name,
         snapshot: parsed.snapshot,
         event_type: parsed.event_type,
+        transition: parsed.alert_transition,
         tags: allTags,
         monitor_tags: parsed.monitor_tags
       },
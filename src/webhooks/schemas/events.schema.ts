@@ -0,0 +1,113 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { AlertSeverity } from '@prisma/client';
+import type { NormalizedAlert } from './alert.schema.js';
+
+/**
+ * Events API v2 payload schema.
+ * Matches the PagerDuty Events API v2 enqueue format so existing senders
+ * (monitoring tools, scripts, SDKs) only need a URL change.
+ */
+export const eventsV2Schema = z.object({
+  routing_key: z.string().min(1, 'routing_key is required').max(100),
+  event_action: z.enum(['trigger', 'acknowledge', 'resolve']),
+  dedup_key: z.string().min(1).max(255).optional(),
+
+  // Required for trigger, ignored for acknowledge/resolve
+  payload: z.object({
+    summary: z.string().min(1, 'payload.summary is required').max(1024),
+    source: z.string().min(1, 'payload.source is required').max(255),
+    severity: z.enum(['critical', 'error', 'warning', 'info']),
+    timestamp: z.string().datetime({ offset: true }).optional(),
+    component: z.string().max(255).optional(),
+    group: z.string().max(255).optional(),
+    class: z.string().max(255).optional(),
+    custom_details: z.union([z.record(z.string(), z.any()), z.string()]).optional()
+  }).optional(),
+
+  // Context shown alongside the alert
+  client: z.string().max(255).optional(),
+  client_url: z.string().url().optional(),
+  links: z.array(z.object({ href: z.string(), text: z.string().optional() })).optional(),
+  images: z.array(z.object({ src: z.string(), href: z.string().optional(), alt: z.string().optional() })).optional()
+}).superRefine((event, ctx) => {
+  if (event.event_action === 'trigger' && !event.payload) {
+    ctx.addIssue({ code: 'custom', path: ['payload'], message: 'payload is required for trigger events' });
+  }
+  if (event.event_action !== 'trigger' && !event.dedup_key) {
+    ctx.addIssue({ code: 'custom', path: ['dedup_key'], message: `dedup_key is required for ${event.event_action} events` });
+  }
+});
+
+export type EventsV2Input = z.input<typeof eventsV2Schema>;
+export type EventsV2Parsed = z.output<typeof eventsV2Schema>;
+
+/**
+ * Event ready for the Events API pipeline.
+ * Trigger events carry the alert to create; acknowledge/resolve only target a dedup key.
+ */
+export interface NormalizedEvent {
+  action: 'trigger' | 'acknowledge' | 'resolve';
+  routingKey: string;
+  dedupKey: string;
+  alert?: NormalizedAlert;
+}
+
+/**
+ * Normalizes an Events API v2 payload.
+ *
+ * Severity mapping:
+ * - critical -> CRITICAL
+ * - error -> HIGH
+ * - warning -> MEDIUM
+ * - info -> INFO
+ *
+ * Trigger events without a dedup_key get a generated one (returned to the sender
+ * so it can acknowledge/resolve later). The routing_key is kept in metadata so
+ * the alert routes to the service that owns it.
+ */
+export function normalizeEventsV2Payload(payload: unknown): NormalizedEvent {
+  const parsed = eventsV2Schema.parse(payload);
+  const dedupKey = parsed.dedup_key ?? randomUUID();
+
+  if (parsed.event_action !== 'trigger') {
+    return { action: parsed.event_action, routingKey: parsed.routing_key, dedupKey };
+  }
+
+  const severityMap: Record<string, AlertSeverity> = {
+    critical: AlertSeverity.CRITICAL,
+    error: AlertSeverity.HIGH,
+    warning: AlertSeverity.MEDIUM,
+    info: AlertSeverity.INFO
+  };
+
+  const details = parsed.payload!;
+
+  return {
+    action: 'trigger',
+    routingKey: parsed.routing_key,
+    dedupKey,
+    alert: {
+      title: details.summary.slice(0, 500),
+      description: typeof details.custom_details === 'string' ? details.custom_details : null,
+      severity: severityMap[details.severity],
+      triggeredAt: details.timestamp ? new Date(details.timestamp) : new Date(),
+      source: details.source,
+      externalId: dedupKey,
+      dedupKey,
+      metadata: {
+        provider: 'events-v2',
+        routing_key: parsed.routing_key,
+        dedup_key: dedupKey,
+        ...(details.component && { component: details.component }),
+        ...(details.group && { group: details.group }),
+        ...(details.class && { class: details.class }),
+        ...(details.custom_details !== undefined && { custom_details: details.custom_details }),
+        ...(parsed.client && { client: parsed.client }),
+        ...(parsed.client_url && { client_url: parsed.client_url }),
+        ...(parsed.links && { links: parsed.links }),
+        ...(parsed.images && { images: parsed.images })
+      }
+    }
+  };
+}
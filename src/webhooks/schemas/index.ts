@@ -1,13 +1,19 @@
 import { normalizeAlertPayload, alertWebhookSchema } from './alert.schema.js';
 import { normalizeDatadogPayload } from './datadog.schema.js';
 import { normalizeNewRelicPayload } from './newrelic.schema.js';
+import { normalizeAlertmanagerPayload } from './alertmanager.schema.js';
+import { normalizeMappedPayload } from './mapping.schema.js';
 import type { NormalizedAlert } from './alert.schema.js';
 
 /**
  * Provider-specific payload normalizer function type.
  * Takes raw payload and integration name, returns normalized alert.
+ * Grouped payloads (e.g., Alertmanager) return one alert per entry.
  */
-type ProviderNormalizer = (payload: unknown, integrationName: string) => NormalizedAlert;
+type ProviderNormalizer = (
+  payload: unknown,
+  integrationName: string
+) => NormalizedAlert | NormalizedAlert[];
 
 /**
  * Generic normalizer wrapper that validates then normalizes.
@@ -25,19 +31,38 @@ function normalizeGenericPayload(payload: unknown, integrationName: string): Nor
 const normalizers: Record<string, ProviderNormalizer> = {
   generic: normalizeGenericPayload,
   datadog: normalizeDatadogPayload,
-  newrelic: normalizeNewRelicPayload
+  newrelic: normalizeNewRelicPayload,
+  alertmanager: normalizeAlertmanagerPayload
 };
 
 /**
  * Returns the appropriate normalizer for the given integration type.
  * Falls back to generic normalizer for unknown types.
  *
- * @param integrationType - The type of integration (e.g., "datadog", "newrelic", "generic")
+ * @param integrationType - The type of integration (e.g., "datadog", "newrelic", "alertmanager", "generic")
  * @returns The normalizer function for that provider
  */
 export function getNormalizer(integrationType: string): ProviderNormalizer {
   return normalizers[integrationType] || normalizers.generic;
 }
 
+/**
+ * Returns true if the integration type has a provider-specific normalizer.
+ * Other types use the generic validation path.
+ */
+export function hasProviderNormalizer(integrationType: string): boolean {
+  return integrationType !== 'generic' && integrationType in normalizers;
+}
+
+/**
+ * Returns a normalizer driven by an integration's mapping config.
+ * Used instead of the type's normalizer when the integration has a mapping.
+ */
+export function getMappingNormalizer(mappingConfig: unknown): ProviderNormalizer {
+  return (payload, integrationName) => normalizeMappedPayload(payload, integrationName, mappingConfig);
+}
+
+export { mappingConfigSchema, type MappingConfig } from './mapping.schema.js';
+
 // Re-export types and generic validation function for backward compatibility
 export { validateAlertPayload, type NormalizedAlert } from './alert.schema.js';
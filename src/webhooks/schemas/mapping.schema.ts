@@ -0,0 +1,178 @@
+import { z } from 'zod';
+import Handlebars from 'handlebars';
+import { AlertSeverity } from '@prisma/client';
+import { severitySchema, timestampSchema } from './alert.schema.js';
+import type { NormalizedAlert } from './alert.schema.js';
+import { evaluateJsonPath, isJsonPath, parseJsonPath } from '../../utils/json-path.js';
+
+// Sandboxed Handlebars environment - mapping templates are admin-supplied
+const mappingHandlebars = Handlebars.create();
+
+mappingHandlebars.registerHelper('uppercase', (str: unknown) => String(str ?? '').toUpperCase());
+mappingHandlebars.registerHelper('lowercase', (str: unknown) => String(str ?? '').toLowerCase());
+mappingHandlebars.registerHelper('json', (obj: unknown) => JSON.stringify(obj));
+mappingHandlebars.registerHelper('default', (value: unknown, fallback: unknown) => value ?? fallback);
+
+/**
+ * A field expression: JSONPath when it starts with "$" (e.g. "$.alert.name"),
+ * otherwise a Handlebars template (e.g. "[{{env}}] {{alert.name}}").
+ */
+const expressionSchema = z.string().min(1).max(1000).superRefine((expression, ctx) => {
+  try {
+    if (isJsonPath(expression)) {
+      parseJsonPath(expression);
+    } else {
+      mappingHandlebars.parse(expression);
+    }
+  } catch (error) {
+    ctx.addIssue({
+      code: 'custom',
+      message: error instanceof Error ? error.message : 'Invalid expression'
+    });
+  }
+});
+
+/**
+ * Per-integration payload mapping, stored on Integration.mappingConfig.
+ */
+export const mappingConfigSchema = z.object({
+  title: expressionSchema,
+  description: expressionSchema.optional(),
+  severity: expressionSchema.optional(),
+  // Provider value -> severity; unmapped values fall back to the standard aliases (P1, warning...)
+  severityMap: z.record(z.string(), z.enum(AlertSeverity)).optional(),
+  externalId: expressionSchema.optional(),
+  routingKey: expressionSchema.optional(),
+  timestamp: expressionSchema.optional(),
+  // Payload is a recovery notification when the expression evaluates to one of these values
+  resolveCondition: z.object({
+    expression: expressionSchema,
+    equals: z.array(z.string().min(1)).min(1)
+  }).optional()
+});
+
+export type MappingConfig = z.output<typeof mappingConfigSchema>;
+
+/**
+ * Normalizes a payload using an integration's mapping config.
+ *
+ * Missing values:
+ * - title -> error (a mapping must always produce a title)
+ * - severity -> MEDIUM
+ * - timestamp -> time of receipt
+ * - externalId, description, routing key -> null / omitted
+ *
+ * Throws on an invalid config, non-object payload, empty title or unparseable timestamp.
+ */
+export function normalizeMappedPayload(
+  payload: unknown,
+  integrationName: string,
+  config: unknown
+): NormalizedAlert {
+  const mapping = mappingConfigSchema.parse(config);
+
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    throw new Error('Payload must be a JSON object');
+  }
+
+  const title = evaluateString(mapping.title, payload);
+  if (!title) {
+    throw new Error('Mapping produced an empty title');
+  }
+
+  const externalId = mapping.externalId ? evaluateString(mapping.externalId, payload) : null;
+  const routingKey = mapping.routingKey ? evaluateString(mapping.routingKey, payload) : null;
+
+  return {
+    title: title.substring(0, 500),
+    description: mapping.description ? evaluateString(mapping.description, payload) : null,
+    severity: mapSeverity(mapping, payload),
+    triggeredAt: mapTimestamp(mapping, payload),
+    source: integrationName,
+    externalId: externalId ? externalId.substring(0, 200) : null,
+    action: isResolve(mapping, payload) ? 'resolve' : 'trigger',
+    metadata: {
+      // Provider identification
+      provider: 'custom',
+
+      // Explicit routing key routes straight to a service
+      ...(routingKey && { routing_key: routingKey }),
+
+      // Preserve original payload for debugging
+      raw: payload
+    }
+  };
+}
+
+/**
+ * Evaluates an expression: JSONPath returns the raw value, templates return a string.
+ */
+function evaluate(expression: string, payload: object): unknown {
+  if (isJsonPath(expression)) {
+    return evaluateJsonPath(payload, expression);
+  }
+
+  return mappingHandlebars.compile(expression, { noEscape: true, strict: false })(payload);
+}
+
+/**
+ * Evaluates an expression to a trimmed string, or null when empty/missing.
+ */
+function evaluateString(expression: string, payload: object): string | null {
+  const value = evaluate(expression, payload);
+
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  const str = (typeof value === 'object' ? JSON.stringify(value) : String(value)).trim();
+  return str.length > 0 ? str : null;
+}
+
+function mapSeverity(mapping: MappingConfig, payload: object): AlertSeverity {
+  const value = mapping.severity ? evaluateString(mapping.severity, payload) : null;
+  if (!value) {
+    return AlertSeverity.MEDIUM;
+  }
+
+  if (mapping.severityMap) {
+    const key = Object.keys(mapping.severityMap).find(k => k.toLowerCase() === value.toLowerCase());
+    if (key) {
+      return mapping.severityMap[key];
+    }
+  }
+
+  return severitySchema.parse(value);
+}
+
+function mapTimestamp(mapping: MappingConfig, payload: object): Date {
+  const value = mapping.timestamp ? evaluate(mapping.timestamp, payload) : undefined;
+  if (value === null || value === undefined || value === '') {
+    return new Date();
+  }
+
+  // Templates always render strings - treat numeric strings as Unix timestamps
+  const candidate = typeof value === 'string' && /^\d+(\.\d+)?$/.test(value.trim())
+    ? Number(value)
+    : value;
+
+  const parsed = timestampSchema.safeParse(candidate);
+  if (!parsed.success) {
+    throw new Error(`Mapped timestamp "${String(value)}" is not an ISO-8601 or Unix timestamp`);
+  }
+
+  return parsed.data;
+}
+
+function isResolve(mapping: MappingConfig, payload: object): boolean {
+  if (!mapping.resolveCondition) {
+    return false;
+  }
+
+  const value = evaluateString(mapping.resolveCondition.expression, payload);
+  if (!value) {
+    return false;
+  }
+
+  return mapping.resolveCondition.equals.some(expected => expected.toLowerCase() === value.toLowerCase());
+}
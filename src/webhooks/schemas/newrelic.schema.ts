@@ -47,6 +47,9 @@ export type NewRelicWebhookParsed = z.output<typeof newrelicWebhookSchema>;
  * Service extraction:
  * - Looks for "service" key in labels object
  * - Extracted for routing via metadata.service
+ *
+ * Recovery:
+ * - state "closed" emits a resolve signal for the same issue id
  */
 export function normalizeNewRelicPayload(
   payload: unknown,
@@ -76,6 +79,7 @@ export function normalizeNewRelicPayload(
     triggeredAt: new Date(parsed.timestamp),
     source: integrationName,
     externalId: parsed.id,
+    action: parsed.state.toLowerCase() === 'closed' ? 'resolve' : 'trigger',
     metadata: {
       // Provider identification
       provider: 'newrelic',
@@ -8,7 +8,7 @@ import type { EscalationJobData } from '../queues/escalation.queue.js';
 let worker: Worker<EscalationJobData> | null = null;
 
 async function processEscalationJob(job: Job<EscalationJobData>): Promise<void> {
-  const { incidentId, toLevel, repeatNumber } = job.data;
+  const { incidentId, toLevel, repeatNumber, held, snoozed, ackTimeout } = job.data;
 
   logger.info(
     { jobId: job.id, incidentId, toLevel, repeatNumber },
@@ -22,8 +22,17 @@ async function processEscalationJob(job: Job<EscalationJobData>): Promise<void>
       data: { executedAt: new Date() }
     });
 
-    // Process escalation
-    await escalationService.processEscalation(incidentId, toLevel, repeatNumber);
+    // Held incidents start paging at the next support window, snoozed ones
+    // reopen when the snooze ends, stale acknowledgements revert; others escalate
+    if (held) {
+      await escalationService.releaseHeldIncident(incidentId);
+    } else if (snoozed) {
+      await escalationService.wakeSnoozedIncident(incidentId);
+    } else if (ackTimeout) {
+      await escalationService.expireAcknowledgement(incidentId);
+    } else {
+      await escalationService.processEscalation(incidentId, toLevel, repeatNumber);
+    }
 
     // Mark job as completed
     await prisma.escalationJob.updateMany({
@@ -1,5 +1,6 @@
 import { Worker, Job } from 'bullmq';
 import { getRedisConnectionOptions } from '../config/redis.js';
+import { prisma } from '../config/database.js';
 import { deliveryTracker } from '../services/notification/delivery-tracker.js';
 import { notificationDispatcher } from '../services/notification/dispatcher.js';
 import { logger } from '../config/logger.js';
@@ -36,6 +37,23 @@ export async function startNotificationWorker(): Promise<void> {
         throw new Error('Missing required job data: payload, logId, or channel');
       }
 
+      // Delayed rule steps and pages held for quiet hours only go out while nobody has acknowledged
+      if (job.data.requireUnacknowledged) {
+        const incident = await prisma.incident.findUnique({
+          where: { id: payload.incidentId },
+          select: { status: true }
+        });
+
+        if (incident?.status !== 'OPEN') {
+          await deliveryTracker.trackCancelled(logId, `incident ${incident?.status.toLowerCase() ?? 'deleted'}`);
+          logger.info(
+            { jobId: job.id, channel, incidentId: payload.incidentId, status: incident?.status },
+            'Skipping delayed notification - incident no longer open'
+          );
+          return { success: true, skipped: true };
+        }
+      }
+
       logger.info(
         { jobId: job.id, channel, incidentId: payload.incidentId, attempt: job.attemptsMade + 1 },
         'Processing notification job'
@@ -1,7 +1,7 @@
 import { Worker, Job } from 'bullmq';
 import { getRedisConnectionOptions } from '../config/redis.js';
 import { logger } from '../config/logger.js';
-import { incidentService } from '../services/incident.service.js';
+import { incidentService, SYSTEM_ACTOR_ID } from '../services/incident.service.js';
 import type { TestResolveJobData } from '../queues/test-resolve.queue.js';
 
 export const testResolveWorker = new Worker<TestResolveJobData>(
@@ -28,7 +28,7 @@ export const testResolveWorker = new Worker<TestResolveJobData>(
     // Resolve using system user ID
     await incidentService.resolve(
       incidentId,
-      'system', // System user for auto-resolve
+      SYSTEM_ACTOR_ID,
       { resolutionNote: reason }
     );
 
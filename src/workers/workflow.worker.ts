@@ -34,11 +34,15 @@ let worker: Worker<WorkflowJobData> | null = null;
  * 3. Load secrets from WorkflowActionSecret
  * 4. Update status to RUNNING
  * 5. Execute workflow
- * 6. Update final status
+ * 6. Update final status (unless parked at a delay node)
  * 7. Send failure notifications if execution failed
+ *
+ * Resume jobs (scheduled by delay nodes) and retry jobs (for failed
+ * executions) run the same steps and continue from the persisted
+ * completedNodes.
  */
 async function processWorkflowJob(job: Job<WorkflowJobData>): Promise<void> {
-  const { executionId, incidentId, workflowId } = job.data;
+  const { executionId, incidentId, workflowId, resumeFromNodeId, retry, rerunNodeId } = job.data;
 
   logger.info(
     { jobId: job.id, executionId, incidentId, workflowId },
@@ -69,6 +73,21 @@ async function processWorkflowJob(job: Job<WorkflowJobData>): Promise<void> {
       return;
     }
 
+    // A resume job only applies to an execution still parked at that delay node
+    if (resumeFromNodeId && (execution.status !== 'RUNNING' || execution.currentNodeId !== resumeFromNodeId)) {
+      logger.info(
+        { executionId, resumeFromNodeId, status: execution.status, currentNodeId: execution.currentNodeId },
+        'Skipping stale workflow resume job'
+      );
+      return;
+    }
+
+    // A retry job only applies to the execution it reset to PENDING
+    if (retry && execution.status !== 'PENDING') {
+      logger.info({ executionId, status: execution.status }, 'Skipping stale workflow retry job');
+      return;
+    }
+
     // Load secrets from WorkflowActionSecret
     const secretRecords = await prisma.workflowActionSecret.findMany({
       where: { workflowId: execution.workflowId }
@@ -81,17 +100,31 @@ async function processWorkflowJob(job: Job<WorkflowJobData>): Promise<void> {
       secrets.set(secret.name, secret.valueHash);
     }
 
-    // Update status to RUNNING
+    // Update status to RUNNING (resumed and retried executions keep their original start)
     await prisma.workflowExecution.update({
       where: { id: executionId },
       data: {
         status: 'RUNNING',
-        startedAt: new Date()
+        ...(!resumeFromNodeId && !retry && { startedAt: new Date() })
       }
     });
 
     // Execute workflow
-    const result = await executeWorkflow(execution, secrets);
+    const result = await executeWorkflow(execution, secrets, {
+      resumeFromNodeId,
+      delayStartedAt: job.data.delayStartedAt ? new Date(job.data.delayStartedAt) : undefined,
+      executionChain: job.data.executionChain,
+      rerunNodeId
+    });
+
+    // Parked at a delay node - stays RUNNING until the resume job fires
+    if (result.status === 'WAITING') {
+      logger.info(
+        { jobId: job.id, executionId, resumeAt: result.resumeAt?.toISOString() },
+        'Workflow job waiting on delay'
+      );
+      return;
+    }
 
     // Update final status (executor already updates but ensure consistency)
     await prisma.workflowExecution.update({
@@ -104,8 +137,9 @@ async function processWorkflowJob(job: Job<WorkflowJobData>): Promise<void> {
       }
     });
 
-    // Send failure notifications if execution failed (per user decision)
-    if (result.status === 'FAILED') {
+    // Send failure notifications if execution failed (per user decision).
+    // A manual re-run is watched by the user who started it, so it isn't notified again.
+    if (result.status === 'FAILED' && !rerunNodeId) {
       await sendFailureNotifications(
         execution,
         result.error || 'Workflow execution failed'